@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "CopyStatus" AS ENUM ('AVAILABLE', 'CHECKED_OUT', 'IN_REPAIR', 'LOST', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "CopyCondition" AS ENUM ('NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED');
+
+-- CreateTable
+CREATE TABLE "BookCopy" (
+    "id" TEXT NOT NULL,
+    "bookId" TEXT NOT NULL,
+    "barcode" TEXT NOT NULL,
+    "condition" "CopyCondition" NOT NULL DEFAULT 'GOOD',
+    "shelfLocation" TEXT,
+    "status" "CopyStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookCopy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookCopy_barcode_key" ON "BookCopy"("barcode");
+
+-- CreateIndex
+CREATE INDEX "BookCopy_bookId_idx" ON "BookCopy"("bookId");
+
+-- CreateIndex
+CREATE INDEX "BookCopy_bookId_status_idx" ON "BookCopy"("bookId", "status");
+
+-- AddForeignKey
+ALTER TABLE "BookCopy" ADD CONSTRAINT "BookCopy_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing book becomes a single physical copy
+INSERT INTO "BookCopy" ("id", "bookId", "barcode", "status", "updatedAt")
+SELECT
+    'copy_' || b."id",
+    b."id",
+    'LIB-' || UPPER(SUBSTRING(b."id" FROM 1 FOR 12)),
+    CASE
+        WHEN EXISTS (
+            SELECT 1 FROM "Checkout" c WHERE c."bookId" = b."id" AND c."returnedDate" IS NULL
+        ) THEN 'CHECKED_OUT'::"CopyStatus"
+        ELSE 'AVAILABLE'::"CopyStatus"
+    END,
+    CURRENT_TIMESTAMP
+FROM "Book" b;
+
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "copyId" TEXT;
+
+-- Backfill: existing checkouts reference the copy created for their book
+UPDATE "Checkout" SET "copyId" = 'copy_' || "bookId";
+
+-- AlterTable
+ALTER TABLE "Checkout" ALTER COLUMN "copyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Checkout_copyId_idx" ON "Checkout"("copyId");
+
+-- AddForeignKey
+ALTER TABLE "Checkout" ADD CONSTRAINT "Checkout_copyId_fkey" FOREIGN KEY ("copyId") REFERENCES "BookCopy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "CopyStatus" ADD VALUE 'ON_HOLD';
+
+-- CreateEnum
+CREATE TYPE "HoldStatus" AS ENUM ('WAITING', 'READY', 'FULFILLED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Hold" (
+    "id" TEXT NOT NULL,
+    "bookId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "copyId" TEXT,
+    "status" "HoldStatus" NOT NULL DEFAULT 'WAITING',
+    "placedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "readyAt" TIMESTAMP(3),
+    "pickupExpiresAt" TIMESTAMP(3),
+    "fulfilledAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "Hold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Hold_bookId_status_placedAt_idx" ON "Hold"("bookId", "status", "placedAt");
+
+-- CreateIndex
+CREATE INDEX "Hold_userId_status_idx" ON "Hold"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Hold" ADD CONSTRAINT "Hold_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hold" ADD CONSTRAINT "Hold_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hold" ADD CONSTRAINT "Hold_copyId_fkey" FOREIGN KEY ("copyId") REFERENCES "BookCopy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "maxRenewals" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "renewalCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CheckoutRenewal" (
+    "id" TEXT NOT NULL,
+    "checkoutId" TEXT NOT NULL,
+    "renewedById" TEXT,
+    "previousDueDate" TIMESTAMP(3) NOT NULL,
+    "newDueDate" TIMESTAMP(3) NOT NULL,
+    "renewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CheckoutRenewal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CheckoutRenewal_checkoutId_idx" ON "CheckoutRenewal"("checkoutId");
+
+-- AddForeignKey
+ALTER TABLE "CheckoutRenewal" ADD CONSTRAINT "CheckoutRenewal_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "Checkout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutRenewal" ADD CONSTRAINT "CheckoutRenewal_renewedById_fkey" FOREIGN KEY ("renewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
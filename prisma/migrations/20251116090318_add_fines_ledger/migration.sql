@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('CHARGE', 'PAYMENT', 'WAIVER', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "checkoutId" TEXT,
+    "type" "LedgerEntryType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_userId_createdAt_idx" ON "LedgerEntry"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_checkoutId_idx" ON "LedgerEntry"("checkoutId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "Checkout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: late fees on already returned checkouts become charges
+INSERT INTO "LedgerEntry" ("id", "userId", "checkoutId", "type", "amount", "reason", "createdAt")
+SELECT 'fee_' || c."id", c."userId", c."id", 'CHARGE', c."lateFeeAmount", 'Late fee', c."returnedDate"
+FROM "Checkout" c
+WHERE c."returnedDate" IS NOT NULL AND c."lateFeeAmount" > 0;
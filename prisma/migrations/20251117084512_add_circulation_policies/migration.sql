@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "graceDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "maxLateFee" DECIMAL(10,2),
+ADD COLUMN     "policyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CirculationPolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "roleId" TEXT,
+    "genre" TEXT,
+    "loanDays" INTEGER NOT NULL DEFAULT 14,
+    "maxRenewals" INTEGER NOT NULL DEFAULT 2,
+    "lateFeePerDay" DECIMAL(10,2) NOT NULL DEFAULT 0.50,
+    "maxLateFee" DECIMAL(10,2),
+    "graceDays" INTEGER NOT NULL DEFAULT 0,
+    "checkoutLimit" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CirculationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CirculationPolicy_roleId_genre_idx" ON "CirculationPolicy"("roleId", "genre");
+
+-- AddForeignKey
+ALTER TABLE "Checkout" ADD CONSTRAINT "Checkout_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "CirculationPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CirculationPolicy" ADD CONSTRAINT "CirculationPolicy_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default policy matching the previous hard-coded loan terms
+INSERT INTO "CirculationPolicy" ("id", "name", "updatedAt")
+VALUES ('default_policy', 'Default', CURRENT_TIMESTAMP);
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "LibraryHours" (
+    "id" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "isOpen" BOOLEAN NOT NULL DEFAULT true,
+    "opensAt" TEXT,
+    "closesAt" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LibraryHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LibraryClosure" (
+    "id" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LibraryClosure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LibraryHours_dayOfWeek_key" ON "LibraryHours"("dayOfWeek");
+
+-- CreateIndex
+CREATE INDEX "LibraryClosure_endDate_idx" ON "LibraryClosure"("endDate");
+
+-- Open every day by default so existing due dates are unchanged until hours are configured
+INSERT INTO "LibraryHours" ("id", "dayOfWeek", "isOpen", "opensAt", "closesAt", "updatedAt")
+SELECT 'hours_' || d, d, true, '09:00', '17:00', CURRENT_TIMESTAMP
+FROM generate_series(0, 6) AS d;
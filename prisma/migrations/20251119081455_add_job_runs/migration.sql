@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "JobTrigger" AS ENUM ('SCHEDULER', 'CRON', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "overdueNoticeLevel" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "trigger" "JobTrigger" NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Checkout_returnedDate_dueDate_idx" ON "Checkout"("returnedDate", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "JobRun_job_startedAt_idx" ON "JobRun"("job", "startedAt");
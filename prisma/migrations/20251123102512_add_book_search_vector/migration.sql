@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "searchVector" tsvector;
+
+-- Weighted search document for a book: title and author rank highest, then genre and tags,
+-- then description and summary, then chapter text
+CREATE FUNCTION book_search_vector(
+    title TEXT,
+    author TEXT,
+    genre TEXT,
+    tags TEXT[],
+    description TEXT,
+    summary TEXT,
+    chapters TEXT
+) RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(author, '')), 'A') ||
+        setweight(to_tsvector('english', concat_ws(' ', genre, array_to_string(tags, ' '))), 'B') ||
+        setweight(to_tsvector('english', concat_ws(' ', description, summary)), 'C') ||
+        setweight(to_tsvector('english', coalesce(chapters, '')), 'D')
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE FUNCTION book_chapter_text(book_id TEXT) RETURNS TEXT AS $$
+    SELECT string_agg(concat_ws(' ', "title", "content"), ' ' ORDER BY "order")
+    FROM "Chapter"
+    WHERE "bookId" = book_id
+$$ LANGUAGE SQL STABLE;
+
+-- Keep the vector current when a book's own fields change
+CREATE FUNCTION book_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+    NEW."searchVector" := book_search_vector(
+        NEW."title", NEW."author", NEW."genre", NEW."tags", NEW."description", NEW."summary",
+        book_chapter_text(NEW."id")
+    );
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Book_searchVector_update"
+    BEFORE INSERT OR UPDATE OF "title", "author", "genre", "tags", "description", "summary" ON "Book"
+    FOR EACH ROW EXECUTE FUNCTION book_search_vector_trigger();
+
+-- ...and when its chapters are added, edited or removed
+CREATE FUNCTION chapter_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Book"
+    SET "searchVector" = book_search_vector(
+        "title", "author", "genre", "tags", "description", "summary", book_chapter_text("id")
+    )
+    WHERE "id" IN (
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW."bookId" END,
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD."bookId" END
+    );
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Chapter_searchVector_update"
+    AFTER INSERT OR UPDATE OF "title", "content", "order", "bookId" OR DELETE ON "Chapter"
+    FOR EACH ROW EXECUTE FUNCTION chapter_search_vector_trigger();
+
+-- Backfill existing books
+UPDATE "Book"
+SET "searchVector" = book_search_vector(
+    "title", "author", "genre", "tags", "description", "summary", book_chapter_text("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Book_searchVector_idx" ON "Book" USING GIN ("searchVector");
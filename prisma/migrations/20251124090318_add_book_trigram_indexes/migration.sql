@@ -0,0 +1,8 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "Book_title_trgm_idx" ON "Book" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Book_author_trgm_idx" ON "Book" USING GIN ("author" gin_trgm_ops);
@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "checkoutCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastReturnedAt" TIMESTAMP(3);
+
+-- Checkout totals used for the popularity and recently returned sorts
+CREATE FUNCTION book_checkout_stats_trigger() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Book" AS b
+    SET "checkoutCount" = stats."checkoutCount",
+        "lastReturnedAt" = stats."lastReturnedAt"
+    FROM (
+        SELECT count(*)::INTEGER AS "checkoutCount", max(c."returnedDate") AS "lastReturnedAt"
+        FROM "Checkout" AS c
+        WHERE c."bookId" = b."id"
+    ) AS stats
+    WHERE b."id" IN (
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW."bookId" END,
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD."bookId" END
+    );
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Checkout_bookStats_update"
+    AFTER INSERT OR UPDATE OF "returnedDate", "bookId" OR DELETE ON "Checkout"
+    FOR EACH ROW EXECUTE FUNCTION book_checkout_stats_trigger();
+
+-- Backfill existing books
+UPDATE "Book" AS b
+SET "checkoutCount" = stats."checkoutCount",
+    "lastReturnedAt" = stats."lastReturnedAt"
+FROM (
+    SELECT "bookId", count(*)::INTEGER AS "checkoutCount", max("returnedDate") AS "lastReturnedAt"
+    FROM "Checkout"
+    GROUP BY "bookId"
+) AS stats
+WHERE b."id" = stats."bookId";
+
+-- CreateIndex
+CREATE INDEX "Book_createdAt_id_idx" ON "Book"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Book_title_id_idx" ON "Book"("title", "id");
+
+-- CreateIndex
+CREATE INDEX "Book_author_title_id_idx" ON "Book"("author", "title", "id");
+
+-- CreateIndex
+CREATE INDEX "Book_publicationYear_id_idx" ON "Book"("publicationYear", "id");
+
+-- CreateIndex
+CREATE INDEX "Book_checkoutCount_id_idx" ON "Book"("checkoutCount", "id");
+
+-- CreateIndex
+CREATE INDEX "Book_lastReturnedAt_id_idx" ON "Book"("lastReturnedAt", "id");
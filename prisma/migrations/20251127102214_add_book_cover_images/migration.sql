@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "coverImages" JSONB;
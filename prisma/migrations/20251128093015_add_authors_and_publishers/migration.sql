@@ -0,0 +1,179 @@
+-- CreateEnum
+CREATE TYPE "AuthorRole" AS ENUM ('AUTHOR', 'EDITOR', 'TRANSLATOR', 'ILLUSTRATOR');
+
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "publisherId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Author" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "bio" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Author_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookAuthor" (
+    "bookId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "role" "AuthorRole" NOT NULL DEFAULT 'AUTHOR',
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "BookAuthor_pkey" PRIMARY KEY ("bookId","authorId","role")
+);
+
+-- CreateTable
+CREATE TABLE "Publisher" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Publisher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Book_publisherId_idx" ON "Book"("publisherId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Author_normalizedName_key" ON "Author"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "Author_name_idx" ON "Author"("name");
+
+-- CreateIndex
+CREATE INDEX "Author_name_trgm_idx" ON "Author" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "BookAuthor_authorId_idx" ON "BookAuthor"("authorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Publisher_normalizedName_key" ON "Publisher"("normalizedName");
+
+-- AddForeignKey
+ALTER TABLE "Book" ADD CONSTRAINT "Book_publisherId_fkey" FOREIGN KEY ("publisherId") REFERENCES "Publisher"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookAuthor" ADD CONSTRAINT "BookAuthor_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookAuthor" ADD CONSTRAINT "BookAuthor_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "Author"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Split existing author strings into credits, the same way as parseAuthorCredit (src/lib/server/author.ts):
+-- names are separated by ";", "&" or "and", a trailing "(ed.)", "(trans.)" or "(illus.)" sets that name's role,
+-- "Last, First" is turned around and any other commas separate names
+CREATE TEMPORARY TABLE "_AuthorCredit" AS
+WITH parts AS (
+    SELECT b."id" AS "bookId", p.ord, btrim(p.part) AS part
+    FROM "Book" AS b
+    CROSS JOIN LATERAL regexp_split_to_table(b."author", '\s*(;|&|\mand\M)\s*', 'i') WITH ORDINALITY AS p(part, ord)
+),
+split AS (
+    SELECT *,
+        btrim(split_part(part, ',', 1)) AS last,
+        btrim(regexp_replace(split_part(part, ',', 2), '\s*\((ed|eds|editor|editors|tr|trans|translator|ill|illus|illustrator)\.?\)\s*$', '', 'i')) AS first
+    FROM parts
+),
+inversions AS (
+    SELECT *,
+        part ~ '^[^,]+,[^,]+$'
+            AND last !~* '\((ed|eds|editor|editors|tr|trans|translator|ill|illus|illustrator)\.?\)$'
+            AND (last !~ '\s' OR first ~ '(^|\s)[[:upper:]]\.?$') AS inverted,
+        -- The role suffix after the first name, e.g. "(ed.)"
+        btrim(substr(btrim(split_part(part, ',', 2)), length(first) + 1)) AS suffix
+    FROM split
+),
+names AS (
+    -- "Tolkien, J. R. R. (ed.)" becomes "J. R. R. Tolkien (ed.)"
+    SELECT "bookId", ord, 1::BIGINT AS subord, btrim(first || ' ' || last || ' ' || suffix) AS raw
+    FROM inversions
+    WHERE inverted
+    UNION ALL
+    SELECT i."bookId", i.ord, n.subord, btrim(n.raw)
+    FROM inversions AS i
+    CROSS JOIN LATERAL regexp_split_to_table(i.part, ',') WITH ORDINALITY AS n(raw, subord)
+    WHERE NOT i.inverted
+),
+roles AS (
+    SELECT "bookId", ord, subord,
+        btrim(regexp_replace(raw, '\s*\((ed|eds|editor|editors|tr|trans|translator|ill|illus|illustrator)\.?\)$', '', 'i')) AS name,
+        (CASE
+            WHEN raw ~* '\((ed|eds|editor|editors)\.?\)$' THEN 'EDITOR'
+            WHEN raw ~* '\((tr|trans|translator)\.?\)$' THEN 'TRANSLATOR'
+            WHEN raw ~* '\((ill|illus|illustrator)\.?\)$' THEN 'ILLUSTRATOR'
+            ELSE 'AUTHOR'
+        END)::"AuthorRole" AS role
+    FROM names
+)
+SELECT "bookId", role,
+    regexp_replace(name, '\s+', ' ', 'g') AS name,
+    lower(regexp_replace(name, '[^[:alnum:]]+', '', 'g')) AS "normalizedName",
+    (row_number() OVER (PARTITION BY "bookId" ORDER BY ord, subord) - 1)::INTEGER AS position
+FROM roles
+WHERE regexp_replace(name, '[^[:alnum:]]+', '', 'g') <> '';
+
+-- One author per normalized name, named with its most common spelling
+INSERT INTO "Author" ("id", "name", "normalizedName", "updatedAt")
+SELECT gen_random_uuid()::TEXT, mode() WITHIN GROUP (ORDER BY "name"), "normalizedName", CURRENT_TIMESTAMP
+FROM "_AuthorCredit"
+GROUP BY "normalizedName";
+
+INSERT INTO "BookAuthor" ("bookId", "authorId", "role", "position")
+SELECT DISTINCT ON (c."bookId", a."id", c.role) c."bookId", a."id", c.role, c.position
+FROM "_AuthorCredit" AS c
+JOIN "Author" AS a ON a."normalizedName" = c."normalizedName"
+ORDER BY c."bookId", a."id", c.role, c.position;
+
+-- Rewrite credit lines from the de-duplicated names, as formatAuthorCredit does
+UPDATE "Book" AS b
+SET "author" = credits."author"
+FROM (
+    SELECT ba."bookId",
+        string_agg(
+            a."name" || CASE ba."role"
+                WHEN 'EDITOR' THEN ' (editor)'
+                WHEN 'TRANSLATOR' THEN ' (translator)'
+                WHEN 'ILLUSTRATOR' THEN ' (illustrator)'
+                ELSE ''
+            END,
+            ', ' ORDER BY ba."position"
+        ) AS "author"
+    FROM "BookAuthor" AS ba
+    JOIN "Author" AS a ON a."id" = ba."authorId"
+    GROUP BY ba."bookId"
+) AS credits
+WHERE b."id" = credits."bookId";
+
+DROP TABLE "_AuthorCredit";
+
+-- Publishers, de-duplicated the same way as normalizePublisherName; company suffixes like "Inc." are ignored
+CREATE TEMPORARY TABLE "_PublisherName" AS
+SELECT "id" AS "bookId",
+    btrim(regexp_replace("publisher", '\s+', ' ', 'g')) AS name,
+    lower(regexp_replace(
+        regexp_replace("publisher", '[\s,]+(inc|ltd|llc|co|corp|plc|gmbh)\.?$', '', 'i'),
+        '[^[:alnum:]]+', '', 'g'
+    )) AS "normalizedName"
+FROM "Book"
+WHERE "publisher" IS NOT NULL;
+
+DELETE FROM "_PublisherName" WHERE "normalizedName" = '';
+
+INSERT INTO "Publisher" ("id", "name", "normalizedName", "updatedAt")
+SELECT gen_random_uuid()::TEXT, mode() WITHIN GROUP (ORDER BY name), "normalizedName", CURRENT_TIMESTAMP
+FROM "_PublisherName"
+GROUP BY "normalizedName";
+
+UPDATE "Book" AS b
+SET "publisherId" = p."id",
+    "publisher" = p."name"
+FROM "_PublisherName" AS n
+JOIN "Publisher" AS p ON p."normalizedName" = n."normalizedName"
+WHERE b."id" = n."bookId";
+
+DROP TABLE "_PublisherName";
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesVolume" DOUBLE PRECISION,
+ADD COLUMN     "workId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Hold" ADD COLUMN     "workId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Series" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Work" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Work_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Book_seriesId_seriesVolume_idx" ON "Book"("seriesId", "seriesVolume");
+
+-- CreateIndex
+CREATE INDEX "Book_workId_idx" ON "Book"("workId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Series_normalizedName_key" ON "Series"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "Series_name_idx" ON "Series"("name");
+
+-- CreateIndex
+CREATE INDEX "Hold_workId_status_placedAt_idx" ON "Hold"("workId", "status", "placedAt");
+
+-- AddForeignKey
+ALTER TABLE "Book" ADD CONSTRAINT "Book_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "Series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Book" ADD CONSTRAINT "Book_workId_fkey" FOREIGN KEY ("workId") REFERENCES "Work"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hold" ADD CONSTRAINT "Hold_workId_fkey" FOREIGN KEY ("workId") REFERENCES "Work"("id") ON DELETE SET NULL ON UPDATE CASCADE;
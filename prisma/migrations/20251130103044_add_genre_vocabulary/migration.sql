@@ -0,0 +1,126 @@
+-- CreateTable
+CREATE TABLE "Genre" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "description" TEXT,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Genre_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GenreSynonym" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "genreId" TEXT NOT NULL,
+
+    CONSTRAINT "GenreSynonym_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookGenre" (
+    "bookId" TEXT NOT NULL,
+    "genreId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "BookGenre_pkey" PRIMARY KEY ("bookId","genreId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Genre_normalizedName_key" ON "Genre"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "Genre_parentId_idx" ON "Genre"("parentId");
+
+-- CreateIndex
+CREATE INDEX "Genre_name_idx" ON "Genre"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenreSynonym_normalizedName_key" ON "GenreSynonym"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "GenreSynonym_genreId_idx" ON "GenreSynonym"("genreId");
+
+-- CreateIndex
+CREATE INDEX "BookGenre_genreId_idx" ON "BookGenre"("genreId");
+
+-- AddForeignKey
+ALTER TABLE "Genre" ADD CONSTRAINT "Genre_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Genre"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GenreSynonym" ADD CONSTRAINT "GenreSynonym_genreId_fkey" FOREIGN KEY ("genreId") REFERENCES "Genre"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookGenre" ADD CONSTRAINT "BookGenre_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookGenre" ADD CONSTRAINT "BookGenre_genreId_fkey" FOREIGN KEY ("genreId") REFERENCES "Genre"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Start the vocabulary from the genres already in the catalog, matched like normalizeAuthorName (src/lib/server/author.ts),
+-- so "Science Fiction" and "science fiction" become one genre named with its most common spelling
+INSERT INTO "Genre" ("id", "name", "normalizedName", "updatedAt")
+SELECT gen_random_uuid()::TEXT, mode() WITHIN GROUP (ORDER BY name), "normalizedName", CURRENT_TIMESTAMP
+FROM (
+    SELECT btrim(regexp_replace("genre", '\s+', ' ', 'g')) AS name,
+        lower(regexp_replace("genre", '[^[:alnum:]]+', '', 'g')) AS "normalizedName"
+    FROM "Book"
+    WHERE "genre" IS NOT NULL
+) AS genres
+WHERE "normalizedName" <> ''
+GROUP BY "normalizedName";
+
+-- Each book's genre comes first, followed by any tags that name a genre, in tag order
+INSERT INTO "BookGenre" ("bookId", "genreId", "position")
+SELECT "bookId", "genreId", (row_number() OVER (PARTITION BY "bookId" ORDER BY ord) - 1)::INTEGER
+FROM (
+    SELECT DISTINCT ON (terms."bookId", g."id") terms."bookId", g."id" AS "genreId", terms.ord
+    FROM (
+        SELECT "id" AS "bookId", "genre" AS term, 0::BIGINT AS ord
+        FROM "Book"
+        WHERE "genre" IS NOT NULL
+        UNION ALL
+        SELECT b."id", t.tag, t.ord
+        FROM "Book" AS b
+        CROSS JOIN LATERAL unnest(b."tags") WITH ORDINALITY AS t(tag, ord)
+    ) AS terms
+    JOIN "Genre" AS g ON g."normalizedName" = lower(regexp_replace(terms.term, '[^[:alnum:]]+', '', 'g'))
+    ORDER BY terms."bookId", g."id", terms.ord
+) AS links;
+
+-- Tags now linked as genres are dropped, along with repeats that differ only in case
+UPDATE "Book" AS b
+SET "tags" = ARRAY(
+    SELECT kept.tag
+    FROM (
+        SELECT DISTINCT ON (lower(t.tag)) t.tag, t.ord
+        FROM unnest(b."tags") WITH ORDINALITY AS t(tag, ord)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM "Genre" AS g
+            WHERE g."normalizedName" = lower(regexp_replace(t.tag, '[^[:alnum:]]+', '', 'g'))
+        )
+        ORDER BY lower(t.tag), t.ord
+    ) AS kept
+    ORDER BY kept.ord
+)
+WHERE cardinality(b."tags") > 0;
+
+-- Book.genre names the first genre, spelled as in the vocabulary
+UPDATE "Book" AS b
+SET "genre" = g."name"
+FROM "BookGenre" AS bg
+JOIN "Genre" AS g ON g."id" = bg."genreId"
+WHERE bg."bookId" = b."id" AND bg."position" = 0;
+
+UPDATE "Book" SET "genre" = NULL WHERE "genre" IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM "BookGenre" WHERE "BookGenre"."bookId" = "Book"."id"
+);
+
+-- Circulation policies follow the vocabulary's spelling too
+UPDATE "CirculationPolicy" AS p
+SET "genre" = g."name"
+FROM "Genre" AS g
+WHERE p."genre" IS NOT NULL AND g."normalizedName" = lower(regexp_replace(p."genre", '[^[:alnum:]]+', '', 'g'));
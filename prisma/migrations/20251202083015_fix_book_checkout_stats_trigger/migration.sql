@@ -0,0 +1,13 @@
+-- The stats subquery can't refer to the row being updated from FROM, so compute each total in SET
+CREATE OR REPLACE FUNCTION book_checkout_stats_trigger() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Book" AS b
+    SET "checkoutCount" = (SELECT count(*)::INTEGER FROM "Checkout" AS c WHERE c."bookId" = b."id"),
+        "lastReturnedAt" = (SELECT max(c."returnedDate") FROM "Checkout" AS c WHERE c."bookId" = b."id")
+    WHERE b."id" IN (
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW."bookId" END,
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD."bookId" END
+    );
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+-- Keep loan history: a copy that has ever been checked out can't be deleted (withdraw it instead)
+-- DropForeignKey
+ALTER TABLE "Checkout" DROP CONSTRAINT "Checkout_copyId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Checkout" ADD CONSTRAINT "Checkout_copyId_fkey" FOREIGN KEY ("copyId") REFERENCES "BookCopy"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
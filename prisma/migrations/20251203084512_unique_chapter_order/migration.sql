@@ -0,0 +1,64 @@
+-- Renumber books whose chapters share an order, keeping their current sequence
+UPDATE "Chapter" AS c
+SET "order" = numbered."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "bookId" ORDER BY "order", "createdAt", "id") AS "position"
+    FROM "Chapter"
+    WHERE "bookId" IN (SELECT "bookId" FROM "Chapter" GROUP BY "bookId", "order" HAVING COUNT(*) > 1)
+) AS numbered
+WHERE c."id" = numbered."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Chapter_bookId_order_key" ON "Chapter"("bookId", "order");
+
+-- Recompute a book's search vector once per statement rather than once per chapter row,
+-- so reordering or importing n chapters reads the book's chapter text once instead of n times
+DROP TRIGGER "Chapter_searchVector_update" ON "Chapter";
+DROP FUNCTION chapter_search_vector_trigger();
+
+CREATE FUNCTION chapter_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE "Book"
+        SET "searchVector" = book_search_vector(
+            "title", "author", "genre", "tags", "description", "summary", book_chapter_text("id")
+        )
+        WHERE "id" IN (SELECT "bookId" FROM new_chapters);
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE "Book"
+        SET "searchVector" = book_search_vector(
+            "title", "author", "genre", "tags", "description", "summary", book_chapter_text("id")
+        )
+        WHERE "id" IN (SELECT "bookId" FROM old_chapters);
+    ELSE
+        -- Transition tables can't be combined with a column list, so skip updates that leave the text alone
+        UPDATE "Book"
+        SET "searchVector" = book_search_vector(
+            "title", "author", "genre", "tags", "description", "summary", book_chapter_text("id")
+        )
+        WHERE "id" IN (
+            SELECT unnest(ARRAY[n."bookId", o."bookId"])
+            FROM new_chapters AS n
+            JOIN old_chapters AS o ON o."id" = n."id"
+            WHERE (n."title", n."content", n."order", n."bookId") IS DISTINCT FROM
+                  (o."title", o."content", o."order", o."bookId")
+        );
+    END IF;
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Chapter_searchVector_insert"
+    AFTER INSERT ON "Chapter"
+    REFERENCING NEW TABLE AS new_chapters
+    FOR EACH STATEMENT EXECUTE FUNCTION chapter_search_vector_trigger();
+
+CREATE TRIGGER "Chapter_searchVector_update"
+    AFTER UPDATE ON "Chapter"
+    REFERENCING OLD TABLE AS old_chapters NEW TABLE AS new_chapters
+    FOR EACH STATEMENT EXECUTE FUNCTION chapter_search_vector_trigger();
+
+CREATE TRIGGER "Chapter_searchVector_delete"
+    AFTER DELETE ON "Chapter"
+    REFERENCING OLD TABLE AS old_chapters
+    FOR EACH STATEMENT EXECUTE FUNCTION chapter_search_vector_trigger();
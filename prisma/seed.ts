@@ -1,4 +1,7 @@
+import { parseAuthorCredit, resolveBookAuthors } from "../src/lib/server/author";
 import { ADMIN_EMAIL, ADMIN_NAME, ADMIN_PASSWORD } from "../src/lib/server/constants/env";
+import { normalizeGenreName, resolveBookGenres } from "../src/lib/server/genre";
+import { resolvePublisher } from "../src/lib/server/publisher";
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
 
@@ -115,7 +118,35 @@ async function main() {
     skipDuplicates: true,
   });
 
-  // 4. Upsert Sample Books with Chapters
+  // 4. Upsert Genre Vocabulary
+  console.log("🏷️ Upserting genres...");
+
+  const genreTree = [
+    { name: "Fiction", parent: null, synonyms: ["Fiction, general", "Novels"] },
+    { name: "Science Fiction", parent: "Fiction", synonyms: ["Sci-Fi", "SF"] },
+    { name: "Fantasy", parent: "Fiction", synonyms: [] },
+    { name: "Romance", parent: "Fiction", synonyms: ["Love stories"] },
+  ];
+
+  for (const { name, parent, synonyms } of genreTree) {
+    const parentGenre = parent
+      ? await prisma.genre.findUnique({ where: { normalizedName: normalizeGenreName(parent) } })
+      : null;
+    const genre = await prisma.genre.upsert({
+      where: { normalizedName: normalizeGenreName(name) },
+      update: { parentId: parentGenre?.id ?? null },
+      create: { name, normalizedName: normalizeGenreName(name), parentId: parentGenre?.id ?? null },
+    });
+    for (const synonym of synonyms) {
+      await prisma.genreSynonym.upsert({
+        where: { normalizedName: normalizeGenreName(synonym) },
+        update: {},
+        create: { name: synonym, normalizedName: normalizeGenreName(synonym), genreId: genre.id },
+      });
+    }
+  }
+
+  // 5. Upsert Sample Books with Chapters
   console.log("📚 Upserting books...");
 
   const books = [
@@ -283,25 +314,54 @@ async function main() {
 
   for (const bookData of books) {
     const { chapters, ...bookFields } = bookData;
+    const authors = await resolveBookAuthors(prisma, parseAuthorCredit(bookFields.author));
+    const publisher = await resolvePublisher(prisma, bookFields.publisher);
+    const genres = await resolveBookGenres(prisma, [bookFields.genre]);
 
     // Upsert book by ISBN
     const book = await prisma.book.upsert({
       where: { isbn: bookFields.isbn! },
       update: {
         title: bookFields.title,
-        author: bookFields.author,
+        author: authors.credit,
+        authors: { deleteMany: {}, create: authors.authors },
         description: bookFields.description,
         summary: bookFields.summary,
-        publisher: bookFields.publisher,
+        ...publisher,
         publicationYear: bookFields.publicationYear,
-        genre: bookFields.genre,
+        genre: genres.genre,
+        genres: { deleteMany: {}, create: genres.genres },
         pageCount: bookFields.pageCount,
         language: bookFields.language,
         coverImageUrl: bookFields.coverImageUrl,
       },
-      create: bookFields,
+      create: {
+        ...bookFields,
+        author: authors.credit,
+        authors: { create: authors.authors },
+        ...publisher,
+        genre: genres.genre,
+        genres: { create: genres.genres },
+      },
+    });
+
+    // Ensure every seeded title has physical copies to lend
+    const existingCopies = await prisma.bookCopy.count({
+      where: { bookId: book.id },
     });
 
+    if (existingCopies === 0) {
+      const isbnDigits = bookFields.isbn!.replace(/[^0-9]/g, "");
+      await prisma.bookCopy.createMany({
+        data: [1, 2].map((copyNumber) => ({
+          bookId: book.id,
+          barcode: `SEED-${isbnDigits}-${copyNumber}`,
+          shelfLocation: bookFields.genre,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
     // Upsert chapters for this book
     if (chapters && chapters.length > 0) {
       // Delete existing chapters for this book to avoid duplicates
@@ -323,7 +383,7 @@ async function main() {
     }
   }
 
-  // 5. Upsert Admin User
+  // 6. Upsert Admin User
   console.log("👤 Upserting admin user...");
 
   const adminEmail = ADMIN_EMAIL;
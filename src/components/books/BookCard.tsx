@@ -3,10 +3,10 @@ import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import type { BookWithRelations } from "@/lib/server/types";
 import { BookStatus } from "@prisma/client";
-import { BookOpen } from "lucide-react";
-import Image from "next/image";
 import Link from "next/link";
 import * as React from "react";
+import { BookCover } from "./BookCover";
+import { BookSearchHighlights } from "./BookSearch";
 
 interface BookCardProps {
   book: BookWithRelations;
@@ -17,27 +17,6 @@ interface BookCardProps {
   authenticated?: boolean;
 }
 
-// Default book cover component
-function DefaultBookCover({ title, author }: { title: string; author?: string }) {
-  const initials = title
-    .split(" ")
-    .map((word) => word[0])
-    .filter(Boolean)
-    .slice(0, 2)
-    .join("")
-    .toUpperCase();
-
-  return (
-    <div className="relative w-full h-full bg-linear-to-br from-primary/20 to-primary/5 dark:from-primary/30 dark:to-primary/10 flex items-center justify-center">
-      <div className="flex flex-col items-center justify-center gap-2 text-center p-4">
-        <BookOpen className="size-12 sm:size-14 md:size-16 text-primary/60 dark:text-primary/80" />
-        <div className="text-xl sm:text-2xl font-bold text-foreground/80">{initials}</div>
-        {author && <div className="text-xs sm:text-sm text-muted-foreground line-clamp-1 px-2">{author}</div>}
-      </div>
-    </div>
-  );
-}
-
 export function BookCard({
   book,
   onCheckout,
@@ -47,7 +26,6 @@ export function BookCard({
   authenticated = true,
 }: BookCardProps) {
   const status = book.status || (isCheckedOut ? BookStatus.CHECKED_OUT : BookStatus.AVAILABLE);
-  const [imageError, setImageError] = React.useState(false);
 
   // Consolidate missing data with fallbacks
   const title = book.title || "Untitled Book";
@@ -56,8 +34,10 @@ export function BookCard({
   const description = book.description || null;
   const tags = book.tags || [];
   const publicationYear = book.publicationYear || null;
+  const seriesVolume = book.seriesVolume ?? null;
   const pageCount = book.pageCount || null;
-  const hasCoverImage = Boolean(book.coverImageUrl) && !imageError;
+  const availability = book.availability || null;
+  const highlights = book.highlights || [];
 
   // Limit tags display to first 5 tags
   const displayTags = tags.slice(0, 5);
@@ -67,18 +47,10 @@ export function BookCard({
     <Card className="flex flex-col h-full hover:shadow-lg transition-shadow">
       {/* Book Cover - Always show, either image or default */}
       <div className="relative w-full h-48 sm:h-56 md:h-64 bg-muted shrink-0">
-        {hasCoverImage ? (
-          <Image
-            src={book.coverImageUrl!}
-            alt={`${title} cover`}
-            fill
-            className="object-cover"
-            sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-            onError={() => setImageError(true)}
-          />
-        ) : (
-          <DefaultBookCover title={title} author={author} />
-        )}
+        <BookCover
+          book={book}
+          sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+        />
       </div>
 
       <CardHeader className="shrink-0">
@@ -104,8 +76,12 @@ export function BookCard({
             </div>
           )}
 
-          {/* Description */}
-          {description && <p className="text-xs sm:text-sm text-muted-foreground line-clamp-2">{description}</p>}
+          {/* Search matches in context, otherwise the description */}
+          {highlights.length > 0 ? (
+            <BookSearchHighlights highlights={highlights} />
+          ) : (
+            description && <p className="text-xs sm:text-sm text-muted-foreground line-clamp-2">{description}</p>
+          )}
 
           {/* Tags */}
           {displayTags.length > 0 && (
@@ -125,6 +101,7 @@ export function BookCard({
 
           {/* Publication Year and Page Count */}
           <div className="space-y-1 text-xs sm:text-sm text-muted-foreground">
+            {seriesVolume !== null && <div className="block">Volume {seriesVolume}</div>}
             {publicationYear && <div className="block">Published: {publicationYear}</div>}
             {pageCount && pageCount > 0 && <div className="block">{pageCount} pages</div>}
           </div>
@@ -134,6 +111,11 @@ export function BookCard({
             <Badge variant={status === BookStatus.AVAILABLE ? "default" : "secondary"} className="text-xs sm:text-sm">
               {status === BookStatus.AVAILABLE ? "Available" : "Checked Out"}
             </Badge>
+            {availability && availability.totalCopies > 0 && (
+              <span className="text-xs sm:text-sm text-muted-foreground">
+                {availability.availableCopies} of {availability.totalCopies} available
+              </span>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,39 @@
+import type { BookContributor } from "@/lib/server/types";
+import type { AuthorRole } from "@prisma/client";
+import Link from "next/link";
+import * as React from "react";
+
+export const AUTHOR_ROLE_LABELS: Record<AuthorRole, string> = {
+  AUTHOR: "Author",
+  EDITOR: "Editor",
+  TRANSLATOR: "Translator",
+  ILLUSTRATOR: "Illustrator",
+};
+
+interface BookContributorsProps {
+  contributors?: BookContributor[];
+  fallback: string; // Credit line shown for books saved before authors were linked
+}
+
+/**
+ * A book's credits, each linking to the author's page, e.g. "Franz Kafka, Willa Muir (translator)"
+ */
+export function BookContributors({ contributors, fallback }: BookContributorsProps) {
+  if (!contributors?.length) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {contributors.map((contributor, index) => (
+        <React.Fragment key={`${contributor.authorId}-${contributor.role}`}>
+          {index > 0 && ", "}
+          <Link href={`/authors/${contributor.author.id}`} className="hover:underline underline-offset-4">
+            {contributor.author.name}
+          </Link>
+          {contributor.role !== "AUTHOR" && ` (${AUTHOR_ROLE_LABELS[contributor.role].toLowerCase()})`}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,254 @@
+import * as React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBookCopies, useCreateCopy, useDeleteCopy, useUpdateCopy } from "@/hooks/useCopies";
+import { useAuth } from "@/hooks/useAuth";
+import { CopyCondition, CopyStatus } from "@prisma/client";
+import type { BookCopy } from "@prisma/client";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface BookCopyManagerProps {
+  bookId: string;
+}
+
+type CopyWithLoan = BookCopy & {
+  checkouts: Array<{ id: string; user: { name: string | null; email: string | null } }>;
+  holds: Array<{ id: string; pickupExpiresAt: string | null; user: { name: string | null; email: string | null } }>;
+};
+
+const conditionLabels: Record<CopyCondition, string> = {
+  NEW: "New",
+  GOOD: "Good",
+  FAIR: "Fair",
+  POOR: "Poor",
+  DAMAGED: "Damaged",
+};
+
+const statusLabels: Record<CopyStatus, string> = {
+  AVAILABLE: "Available",
+  CHECKED_OUT: "Checked Out",
+  ON_HOLD: "On Hold",
+  IN_REPAIR: "In Repair",
+  LOST: "Lost",
+  WITHDRAWN: "Withdrawn",
+};
+
+export function BookCopyManager({ bookId }: BookCopyManagerProps) {
+  const { hasPermission } = useAuth();
+  const { data, isLoading } = useBookCopies(bookId);
+  const createMutation = useCreateCopy();
+  const updateMutation = useUpdateCopy(bookId);
+  const deleteMutation = useDeleteCopy(bookId);
+
+  const [barcode, setBarcode] = useState("");
+  const [shelfLocation, setShelfLocation] = useState("");
+  const [condition, setCondition] = useState<CopyCondition>(CopyCondition.GOOD);
+
+  const copies: CopyWithLoan[] = data?.copies || [];
+  const canDelete = hasPermission("book:delete");
+
+  const handleAddCopy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createMutation.mutateAsync({
+        bookId,
+        barcode: barcode || undefined,
+        shelfLocation: shelfLocation || undefined,
+        condition,
+      });
+      toast.success("Copy added");
+      setBarcode("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add copy");
+    }
+  };
+
+  const handleUpdate = async (id: string, changes: { condition?: CopyCondition; status?: CopyStatus }) => {
+    try {
+      await updateMutation.mutateAsync({ id, ...changes });
+      toast.success("Copy updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update copy");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id);
+      toast.success("Copy deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete copy");
+    }
+  };
+
+  const availableCount = copies.filter((copy) => copy.status === CopyStatus.AVAILABLE).length;
+  const activeCount = copies.filter((copy) => copy.status !== CopyStatus.WITHDRAWN).length;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Copies</CardTitle>
+        <CardDescription>
+          {availableCount} of {activeCount} available
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAddCopy} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="copy-barcode">Barcode</Label>
+            <Input
+              id="copy-barcode"
+              placeholder="Generated if empty"
+              value={barcode}
+              onChange={(e) => setBarcode(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="copy-shelf">Shelf Location</Label>
+            <Input
+              id="copy-shelf"
+              placeholder="e.g., FIC-FIT-2"
+              value={shelfLocation}
+              onChange={(e) => setShelfLocation(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="copy-condition">Condition</Label>
+            <Select value={condition} onValueChange={(value) => setCondition(value as CopyCondition)}>
+              <SelectTrigger id="copy-condition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(CopyCondition).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {conditionLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending}>
+            <Plus className="size-4 mr-2" />
+            {createMutation.isPending ? "Adding..." : "Add Copy"}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : copies.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No copies yet. Add one so patrons can borrow this book.</p>
+          </div>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead>Shelf</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Borrower</TableHead>
+                  {canDelete && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {copies.map((copy) => {
+                  const loan = copy.checkouts[0];
+                  const readyHold = copy.holds[0];
+                  const isCirculating = copy.status === CopyStatus.CHECKED_OUT || copy.status === CopyStatus.ON_HOLD;
+                  return (
+                    <TableRow key={copy.id}>
+                      <TableCell className="font-mono text-sm">{copy.barcode}</TableCell>
+                      <TableCell>{copy.shelfLocation || "—"}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={copy.condition}
+                          onValueChange={(value) => handleUpdate(copy.id, { condition: value as CopyCondition })}
+                        >
+                          <SelectTrigger size="sm" className="w-[120px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.values(CopyCondition).map((value) => (
+                              <SelectItem key={value} value={value}>
+                                {conditionLabels[value]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {isCirculating ? (
+                          <Badge variant="secondary">{statusLabels[copy.status]}</Badge>
+                        ) : (
+                          <Select
+                            value={copy.status}
+                            onValueChange={(value) => handleUpdate(copy.id, { status: value as CopyStatus })}
+                          >
+                            <SelectTrigger size="sm" className="w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(CopyStatus)
+                                .filter((value) => value !== CopyStatus.CHECKED_OUT && value !== CopyStatus.ON_HOLD)
+                                .map((value) => (
+                                  <SelectItem key={value} value={value}>
+                                    {statusLabels[value]}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {loan ? (
+                          <span className="text-sm">{loan.user.name || loan.user.email}</span>
+                        ) : readyHold ? (
+                          <span className="text-sm">
+                            Held for {readyHold.user.name || readyHold.user.email}
+                            {readyHold.pickupExpiresAt &&
+                              ` until ${format(new Date(readyHold.pickupExpiresAt), "MMM dd, yyyy")}`}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      {canDelete && (
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(copy.id)}
+                            disabled={isCirculating || deleteMutation.isPending}
+                            className="h-8 w-8 text-destructive hover:text-destructive-foreground hover:bg-destructive/10 dark:hover:bg-destructive/20"
+                            aria-label="Delete copy"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import type { BookCoverImages, BookCoverVariant } from "@/lib/server/types";
+import type { Book } from "@prisma/client";
+import { BookOpen } from "lucide-react";
+import Image, { type ImageLoader } from "next/image";
+import * as React from "react";
+
+// Matches BOOK_COVER_WIDTHS on the server, smallest first
+const COVER_WIDTHS: [BookCoverVariant, number][] = [
+  ["thumbnail", 160],
+  ["medium", 400],
+  ["large", 800],
+];
+
+interface BookCoverProps {
+  book: Pick<Book, "title" | "author" | "coverImageUrl" | "coverImages">;
+  sizes: string; // Rendered width of the cover, as for <img sizes>
+  className?: string;
+}
+
+function getCoverImages(book: BookCoverProps["book"]): BookCoverImages | null {
+  const images = book.coverImages as BookCoverImages | null;
+  // The uploaded cover only applies while it is still the book's cover URL
+  return images?.large && images.large === book.coverImageUrl ? images : null;
+}
+
+// Default book cover component
+export function DefaultBookCover({ title, author }: { title: string; author?: string }) {
+  const initials = title
+    .split(" ")
+    .map((word) => word[0])
+    .filter(Boolean)
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+
+  return (
+    <div className="relative w-full h-full bg-linear-to-br from-primary/20 to-primary/5 dark:from-primary/30 dark:to-primary/10 flex items-center justify-center">
+      <div className="flex flex-col items-center justify-center gap-2 text-center p-4">
+        <BookOpen className="size-12 sm:size-14 md:size-16 text-primary/60 dark:text-primary/80" />
+        <div className="text-xl sm:text-2xl font-bold text-foreground/80">{initials}</div>
+        {author && <div className="text-xs sm:text-sm text-muted-foreground line-clamp-1 px-2">{author}</div>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Book cover filling its (relatively positioned) parent
+ * Uploaded covers load the smallest stored size that fits; other URLs go through the Next.js image optimizer.
+ * Falls back to a generated cover when there is no image or it fails to load.
+ */
+export function BookCover({ book, sizes, className = "object-cover" }: BookCoverProps) {
+  const [failedUrl, setFailedUrl] = React.useState<string | null>(null);
+  const title = book.title || "Untitled Book";
+  const coverImages = getCoverImages(book);
+
+  const loader = React.useMemo<ImageLoader | undefined>(() => {
+    if (!coverImages) return undefined;
+    return ({ width }) => {
+      const variant = COVER_WIDTHS.find(([, variantWidth]) => variantWidth >= width)?.[0] ?? "large";
+      return coverImages[variant];
+    };
+  }, [coverImages]);
+
+  if (!book.coverImageUrl || failedUrl === book.coverImageUrl) {
+    return <DefaultBookCover title={title} author={book.author || undefined} />;
+  }
+
+  return (
+    <Image
+      src={book.coverImageUrl}
+      alt={`${title} cover`}
+      fill
+      className={className}
+      sizes={sizes}
+      loader={loader}
+      onError={() => setFailedUrl(book.coverImageUrl)}
+    />
+  );
+}
@@ -1,38 +1,70 @@
 import * as React from "react";
-import { useForm } from "react-hook-form";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { BookStatus } from "@prisma/client";
-import type { CreateBookInput, UpdateBookInput } from "@/lib/server/types";
-import { Sparkles } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuthorSearch } from "@/hooks/useAuthors";
+import { useGenreSearch } from "@/hooks/useGenres";
+import { useBookAutocomplete } from "@/hooks/useSearch";
+import { useSeriesSearch } from "@/hooks/useSeries";
+import { readFileAsBase64 } from "@/lib/client/utils";
+import type {
+  AuthorSummary,
+  BookAuthorInput,
+  BookAutocompleteSuggestion,
+  BookCoverImages,
+  BookMetadata,
+  BookMetadataField,
+  CreateBookInput,
+  GenreSummary,
+  SeriesSummary,
+  UpdateBookInput,
+} from "@/lib/server/types";
+import type { AuthorRole } from "@prisma/client";
+import { Plus, Search, Sparkles, Upload, X } from "lucide-react";
+import { AUTHOR_ROLE_LABELS } from "./BookContributors";
+import { BookCover } from "./BookCover";
 import { toast } from "sonner";
 
 const bookSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  author: z.string().min(1, "Author is required"),
+  authors: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Name is required"),
+        role: z.enum(["AUTHOR", "EDITOR", "TRANSLATOR", "ILLUSTRATOR"]),
+      })
+    )
+    .min(1, "Add at least one author"),
   isbn: z.string().optional(),
   description: z.string().optional(),
   summary: z.string().optional(),
   publisher: z.string().optional(),
   publicationYear: z.number().int().min(1000).max(2100).optional().or(z.literal("")),
-  genre: z.string().optional(),
   tags: z.string().optional(), // Stored as comma-separated string, converted to array on submit
   pageCount: z.number().int().positive().optional().or(z.literal("")),
   language: z.string().optional(),
-  coverImageUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
-  status: z.nativeEnum(BookStatus).optional(),
+  series: z.string().optional(),
+  seriesVolume: z.number().min(0).optional().or(z.literal("")),
+  // Uploaded covers in local storage have a path on this site
+  coverImageUrl: z
+    .string()
+    .refine((value) => value.startsWith("/") || z.url().safeParse(value).success, "Must be a valid URL")
+    .optional()
+    .or(z.literal("")),
+  copyCount: z.number().int().min(0).max(100).optional(), // Only used when creating a book
 });
 
 type BookFormData = z.infer<typeof bookSchema>;
 
 interface BookFormProps {
-  initialData?: Partial<CreateBookInput>;
+  initialData?: Partial<CreateBookInput> & { coverImages?: unknown; editionOfTitle?: string };
   onSubmit: (data: CreateBookInput | UpdateBookInput) => Promise<void> | void;
   onCancel?: () => void;
   isLoading?: boolean;
@@ -43,36 +75,102 @@ interface BookFormProps {
 export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGenerate, bookId }: BookFormProps) {
   const [isAIAvailable, setIsAIAvailable] = React.useState(false);
   const [isAIGenerating, setIsAIGenerating] = React.useState(false);
+  const [isLookingUp, setIsLookingUp] = React.useState(false);
+  const [isUploadingCover, setIsUploadingCover] = React.useState(false);
+  // Saved with the book while the cover URL still points at it
+  const [uploadedCover, setUploadedCover] = React.useState<BookCoverImages | null>(
+    (initialData?.coverImages as BookCoverImages | null | undefined) ?? null
+  );
+  const coverInputRef = React.useRef<HTMLInputElement>(null);
+  // Name being typed in a contributor row, to suggest authors already in the catalog
+  const [authorQuery, setAuthorQuery] = React.useState("");
+  const { data: authorSearchData } = useAuthorSearch(authorQuery, authorQuery.trim().length >= 2);
+  const authorSuggestions: AuthorSummary[] = authorSearchData?.authors || [];
+  const [seriesQuery, setSeriesQuery] = React.useState("");
+  const { data: seriesSearchData } = useSeriesSearch(seriesQuery, seriesQuery.trim().length >= 2);
+  const seriesSuggestions: SeriesSummary[] = seriesSearchData?.series || [];
+  // Genres in order; the first is the book's main genre
+  const [genres, setGenres] = React.useState<string[]>(
+    initialData?.genres ?? (initialData?.genre ? [initialData.genre] : [])
+  );
+  const [genreQuery, setGenreQuery] = React.useState("");
+  const { data: genreSearchData } = useGenreSearch(genreQuery, genreQuery.trim().length >= 2);
+  const genreSuggestions: GenreSummary[] = genreSearchData?.genres || [];
+  // Another book this one is an edition of, picked by title
+  const [editionOf, setEditionOf] = React.useState<{ id: string; title: string } | null>(
+    initialData?.editionOf ? { id: initialData.editionOf, title: initialData.editionOfTitle || "" } : null
+  );
+  const [editionQuery, setEditionQuery] = React.useState("");
+  const { data: editionSearchData } = useBookAutocomplete(editionQuery);
+  const editionSuggestions = ((editionSearchData?.suggestions || []) as BookAutocompleteSuggestion[]).filter(
+    (suggestion) => suggestion.type === "title" && suggestion.bookId !== bookId
+  ) as Extract<BookAutocompleteSuggestion, { type: "title" }>[];
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    getValues,
     watch,
+    control,
   } = useForm<BookFormData>({
     resolver: zodResolver(bookSchema),
     defaultValues: {
       title: initialData?.title || "",
-      author: initialData?.author || "",
+      authors: initialData?.authors?.length
+        ? initialData.authors.map(({ name, role }) => ({ name, role: role ?? "AUTHOR" }))
+        : [{ name: initialData?.author || "", role: "AUTHOR" }],
       isbn: initialData?.isbn || "",
       description: initialData?.description || "",
       summary: initialData?.summary || "",
       publisher: initialData?.publisher || "",
       publicationYear: initialData?.publicationYear || undefined,
-      genre: initialData?.genre || "",
       tags: initialData?.tags?.join(", ") || "",
       pageCount: initialData?.pageCount || undefined,
       language: initialData?.language || "",
+      series: initialData?.series || "",
+      seriesVolume: initialData?.seriesVolume ?? undefined,
       coverImageUrl: initialData?.coverImageUrl || "",
-      status: initialData?.status || BookStatus.AVAILABLE,
+      copyCount: initialData ? undefined : 1,
     },
   });
 
-  const status = watch("status");
+  const {
+    fields: authorFields,
+    append: appendAuthor,
+    remove: removeAuthor,
+    replace: replaceAuthors,
+  } = useFieldArray({ control, name: "authors" });
+
   const title = watch("title");
-  const author = watch("author");
+  // Names only, for AI generation and the cover preview
+  const author = watch("authors")
+    .map(({ name }) => name.trim())
+    .filter(Boolean)
+    .join(", ");
   const description = watch("description");
+  const isbn = watch("isbn");
+  const coverImageUrl = watch("coverImageUrl");
+  const hasUploadedCover = Boolean(uploadedCover && coverImageUrl === uploadedCover.large);
+
+  const addGenres = (names: string[]) => {
+    setGenres((current) => {
+      const next = [...current];
+      for (const name of names.map((name) => name.trim()).filter(Boolean)) {
+        if (!next.some((genre) => genre.toLowerCase() === name.toLowerCase())) next.push(name);
+      }
+      return next;
+    });
+  };
+
+  const handleGenreKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addGenres([genreQuery]);
+      setGenreQuery("");
+    }
+  };
 
   // Check if AI service is available on mount
   React.useEffect(() => {
@@ -102,7 +200,9 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
         const data = await res.json();
         // Update form with enriched data
         if (data.book) {
-          if (data.book.genre) setValue("genre", data.book.genre);
+          if (data.book.genres?.length > 0) {
+            setGenres(data.book.genres.map((link: { genre: { name: string } }) => link.genre.name));
+          }
           if (data.book.summary) setValue("summary", data.book.summary);
           if (data.book.tags && data.book.tags.length > 0) {
             setValue("tags", data.book.tags.join(", "));
@@ -122,7 +222,7 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
         }
         const data = await res.json();
         // Populate form fields
-        if (data.genre) setValue("genre", data.genre);
+        if (data.genres?.length > 0) addGenres(data.genres);
         if (data.summary) setValue("summary", data.summary);
         if (data.tags && data.tags.length > 0) {
           setValue("tags", data.tags.join(", "));
@@ -139,6 +239,103 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
     }
   };
 
+  // Fills in empty fields from the ISBN; anything already entered is left as is
+  const handleIsbnLookup = async () => {
+    if (!isbn?.trim()) {
+      toast.error("Enter an ISBN to look up");
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const values = getValues();
+      const toNumber = (value: unknown) => (typeof value === "number" && !isNaN(value) ? value : null);
+      const res = await fetch("/api/books/isbn-lookup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          isbn,
+          current: {
+            ...values,
+            authors: undefined,
+            author: author || null,
+            genre: genres[0] ?? null,
+            publicationYear: toNumber(values.publicationYear),
+            pageCount: toNumber(values.pageCount),
+            tags: values.tags
+              ?.split(",")
+              .map((tag) => tag.trim())
+              .filter(Boolean),
+          },
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || data.error || "Failed to look up ISBN");
+      }
+
+      const found = data.values as BookMetadata;
+      for (const field of data.filled as BookMetadataField[]) {
+        if (field === "author") {
+          const authors = data.authors as BookAuthorInput[];
+          replaceAuthors(authors.map(({ name, role }) => ({ name, role: role ?? "AUTHOR" })));
+          continue;
+        }
+        if (field === "genre") {
+          if (found.genre) addGenres([found.genre]);
+          continue;
+        }
+        const value = found[field];
+        setValue(field, (Array.isArray(value) ? value.join(", ") : value) as never, { shouldDirty: true });
+      }
+
+      const kept = data.kept as BookMetadataField[];
+      if (data.filled.length === 0) {
+        toast.info("Book found, but every field it has is already filled in");
+      } else {
+        toast.success(
+          `Filled in ${data.filled.length} field${data.filled.length === 1 ? "" : "s"}` +
+            (kept.length > 0
+              ? `; kept your ${kept.map((field) => field.replace(/([A-Z])/g, " $1").toLowerCase()).join(", ")}`
+              : "")
+        );
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to look up ISBN");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleCoverUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow choosing the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    setIsUploadingCover(true);
+    try {
+      const res = await fetch("/api/covers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: await readFileAsBase64(file) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || data.error || "Failed to upload cover");
+      }
+
+      const coverImages = data.coverImages as BookCoverImages;
+      setUploadedCover(coverImages);
+      setValue("coverImageUrl", coverImages.large, { shouldDirty: true, shouldValidate: true });
+      toast.success("Cover uploaded");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload cover");
+    } finally {
+      setIsUploadingCover(false);
+    }
+  };
+
   const onSubmitForm = async (data: BookFormData) => {
     // Parse tags from comma-separated string to array
     const tagsArray = data.tags
@@ -147,22 +344,30 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
           .map((tag) => tag.trim())
           .filter((tag) => tag.length > 0)
       : undefined;
+    // A genre still being typed is kept too
+    const genreNames = genreQuery.trim() ? [...genres, genreQuery.trim()] : genres;
 
     const submitData: CreateBookInput | UpdateBookInput = {
       ...(initialData && "id" in initialData ? { id: (initialData as UpdateBookInput).id } : {}),
       title: data.title,
-      author: data.author,
+      author: data.authors.map(({ name }) => name).join(", "), // The server rewrites the credit line from authors
+      authors: data.authors,
       isbn: data.isbn || undefined,
       description: data.description || undefined,
       summary: data.summary || undefined,
       publisher: data.publisher || undefined,
       publicationYear: typeof data.publicationYear === "number" ? data.publicationYear : undefined,
-      genre: data.genre || undefined,
+      genre: genreNames[0] || undefined,
+      genres: genreNames,
       tags: tagsArray && tagsArray.length > 0 ? tagsArray : undefined,
       pageCount: typeof data.pageCount === "number" ? data.pageCount : undefined,
       language: data.language || undefined,
       coverImageUrl: data.coverImageUrl || undefined,
-      status: data.status,
+      coverImageKey: hasUploadedCover ? uploadedCover!.key : null,
+      series: data.series?.trim() || null,
+      seriesVolume: typeof data.seriesVolume === "number" && data.series?.trim() ? data.seriesVolume : null,
+      editionOf: editionOf?.id ?? null,
+      ...(!initialData && { copyCount: data.copyCount }),
     };
     await onSubmit(submitData);
   };
@@ -183,21 +388,142 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
               <Input id="title" {...register("title")} />
               {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="author">
-                Author <span className="text-destructive">*</span>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="authors.0.name">
+                Authors <span className="text-destructive">*</span>
               </Label>
-              <Input id="author" {...register("author")} />
-              {errors.author && <p className="text-sm text-destructive">{errors.author.message}</p>}
+              {authorFields.map((field, index) => (
+                <div key={field.id} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      id={`authors.${index}.name`}
+                      list="author-suggestions"
+                      autoComplete="off"
+                      placeholder="Name"
+                      {...register(`authors.${index}.name`, {
+                        onChange: (event) => setAuthorQuery(event.target.value),
+                      })}
+                    />
+                    <Controller
+                      control={control}
+                      name={`authors.${index}.role`}
+                      render={({ field: roleField }) => (
+                        <Select
+                          value={roleField.value}
+                          onValueChange={(value) => roleField.onChange(value as AuthorRole)}
+                        >
+                          <SelectTrigger className="w-40 shrink-0" aria-label="Role">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(AUTHOR_ROLE_LABELS) as AuthorRole[]).map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {AUTHOR_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeAuthor(index)}
+                      disabled={authorFields.length === 1}
+                      aria-label="Remove author"
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </div>
+                  {errors.authors?.[index]?.name && (
+                    <p className="text-sm text-destructive">{errors.authors[index].name.message}</p>
+                  )}
+                </div>
+              ))}
+              <datalist id="author-suggestions">
+                {authorSuggestions.map((suggestion) => (
+                  <option key={suggestion.id} value={suggestion.name} />
+                ))}
+              </datalist>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => appendAuthor({ name: "", role: "AUTHOR" })}
+              >
+                <Plus className="size-4" />
+                Add contributor
+              </Button>
+              {errors.authors?.root && <p className="text-sm text-destructive">{errors.authors.root.message}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="isbn">ISBN</Label>
-              <Input id="isbn" {...register("isbn")} />
+              <div className="flex gap-2">
+                <Input id="isbn" {...register("isbn")} />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleIsbnLookup}
+                  disabled={isLookingUp || !isbn?.trim()}
+                  title="Fill in empty fields from online book catalogs"
+                >
+                  <Search className="h-4 w-4 mr-2" />
+                  {isLookingUp ? "Looking up..." : "Look up"}
+                </Button>
+              </div>
               {errors.isbn && <p className="text-sm text-destructive">{errors.isbn.message}</p>}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="genre">Genre</Label>
-              <Input id="genre" {...register("genre")} />
+              <Label htmlFor="genre">Genres</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="genre"
+                  list="genre-suggestions"
+                  autoComplete="off"
+                  placeholder="Add a genre"
+                  value={genreQuery}
+                  onChange={(event) => setGenreQuery(event.target.value)}
+                  onKeyDown={handleGenreKeyDown}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    addGenres([genreQuery]);
+                    setGenreQuery("");
+                  }}
+                  disabled={!genreQuery.trim()}
+                  aria-label="Add genre"
+                >
+                  <Plus className="size-4" />
+                </Button>
+              </div>
+              <datalist id="genre-suggestions">
+                {genreSuggestions.map((suggestion) => (
+                  <option key={suggestion.id} value={suggestion.name} />
+                ))}
+              </datalist>
+              {genres.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {genres.map((genre) => (
+                    <Badge key={genre} variant="secondary" className="gap-1">
+                      {genre}
+                      <button
+                        type="button"
+                        onClick={() => setGenres((current) => current.filter((other) => other !== genre))}
+                        aria-label={`Remove ${genre}`}
+                      >
+                        <X className="size-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The first genre is the main one; synonyms are filed under their genre
+              </p>
             </div>
             <div className="space-y-2">
               <Label htmlFor="tags">Tags</Label>
@@ -223,22 +549,122 @@ export function BookForm({ initialData, onSubmit, onCancel, isLoading, onAIGener
               <Input id="language" {...register("language")} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="coverImageUrl">Cover Image URL</Label>
-              <Input id="coverImageUrl" type="url" {...register("coverImageUrl")} />
-              {errors.coverImageUrl && <p className="text-sm text-destructive">{errors.coverImageUrl.message}</p>}
+              <Label htmlFor="series">Series</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="series"
+                  list="series-suggestions"
+                  autoComplete="off"
+                  {...register("series", { onChange: (event) => setSeriesQuery(event.target.value) })}
+                />
+                <Input
+                  id="seriesVolume"
+                  type="number"
+                  step="any"
+                  min={0}
+                  placeholder="Vol."
+                  aria-label="Volume"
+                  className="w-24 shrink-0"
+                  {...register("seriesVolume", { valueAsNumber: true })}
+                />
+              </div>
+              <datalist id="series-suggestions">
+                {seriesSuggestions.map((suggestion) => (
+                  <option key={suggestion.id} value={suggestion.name} />
+                ))}
+              </datalist>
+              <p className="text-xs text-muted-foreground">Volumes can be fractional, e.g. 2.5 for a novella</p>
+              {errors.seriesVolume && <p className="text-sm text-destructive">{errors.seriesVolume.message}</p>}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="status">Status</Label>
-              <Select value={status} onValueChange={(value) => setValue("status", value as BookStatus)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value={BookStatus.AVAILABLE}>Available</SelectItem>
-                  <SelectItem value={BookStatus.CHECKED_OUT}>Checked Out</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="editionOf">Edition Of</Label>
+              {editionOf ? (
+                <div className="flex items-center gap-2">
+                  <Input id="editionOf" value={editionOf.title || "Another edition"} readOnly />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setEditionOf(null)}
+                    aria-label="Remove from work"
+                  >
+                    <X className="size-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="relative">
+                  <Input
+                    id="editionOf"
+                    autoComplete="off"
+                    placeholder="Search by title"
+                    value={editionQuery}
+                    onChange={(event) => setEditionQuery(event.target.value)}
+                  />
+                  {editionQuery.trim().length >= 2 && editionSuggestions.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+                      {editionSuggestions.map((suggestion) => (
+                        <button
+                          key={suggestion.bookId}
+                          type="button"
+                          className="block w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                          onClick={() => {
+                            setEditionOf({ id: suggestion.bookId, title: suggestion.value });
+                            setEditionQuery("");
+                          }}
+                        >
+                          {suggestion.value}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Groups this book with the other editions of the same work, e.g. a translation or reprint
+              </p>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="coverImageUrl">Cover Image</Label>
+              <div className="flex gap-2">
+                <Input id="coverImageUrl" {...register("coverImageUrl")} placeholder="https://..." />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => coverInputRef.current?.click()}
+                  disabled={isUploadingCover}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isUploadingCover ? "Uploading..." : "Upload"}
+                </Button>
+                <input
+                  ref={coverInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif,image/avif"
+                  className="hidden"
+                  onChange={handleCoverUpload}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Paste an image URL or upload an image up to 8 MB; uploads are resized automatically
+              </p>
+              {errors.coverImageUrl && <p className="text-sm text-destructive">{errors.coverImageUrl.message}</p>}
+              {hasUploadedCover && (
+                <div className="relative h-24 w-16 overflow-hidden rounded border border-border">
+                  <BookCover
+                    book={{ title, author, coverImageUrl: coverImageUrl!, coverImages: uploadedCover }}
+                    sizes="64px"
+                  />
+                </div>
+              )}
+            </div>
+            {!initialData && (
+              <div className="space-y-2">
+                <Label htmlFor="copyCount">Number of Copies</Label>
+                <Input id="copyCount" type="number" min={0} {...register("copyCount", { valueAsNumber: true })} />
+                <p className="text-xs text-muted-foreground">Barcodes are generated for each copy</p>
+                {errors.copyCount && <p className="text-sm text-destructive">{errors.copyCount.message}</p>}
+              </div>
+            )}
           </div>
           <div className="space-y-2">
             <Label htmlFor="description">Description</Label>
@@ -4,20 +4,105 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useBookAutocomplete, useBookFacets } from "@/hooks/useSearch";
 import { BookStatus } from "@prisma/client";
-import type { BookSearchFilters } from "@/lib/server/types";
-import { Search, X, Filter } from "lucide-react";
+import type {
+  BookAutocompleteSuggestion,
+  BookFacetValue,
+  BookSearchFacets,
+  BookSearchFilters,
+  BookSearchHighlight,
+} from "@/lib/server/types";
+import { BookOpen, Search, User, X, Filter } from "lucide-react";
+import Link from "next/link";
 import { cn } from "@/lib/client/utils";
+import { SaveSearchDialog } from "./SaveSearchDialog";
 
 interface BookSearchProps {
   filters: BookSearchFilters;
   onFiltersChange: (filters: BookSearchFilters) => void;
   onSearch: () => void;
   isLoading?: boolean;
+  canSaveSearch?: boolean; // Signed-in patrons can save the current filters
 }
 
-export function BookSearch({ filters, onFiltersChange, onSearch, isLoading }: BookSearchProps) {
+type FacetField = keyof BookSearchFacets;
+
+const facetSections: { field: FacetField; label: string; formatValue?: (value: string) => string }[] = [
+  {
+    field: "statuses",
+    label: "Availability",
+    formatValue: (value) => (value === BookStatus.AVAILABLE ? "Available" : "Checked Out"),
+  },
+  { field: "genres", label: "Genre" },
+  { field: "languages", label: "Language" },
+  { field: "decades", label: "Decade", formatValue: (value) => `${value}s` },
+  { field: "publishers", label: "Publisher" },
+  { field: "tags", label: "Tags" },
+];
+
+/**
+ * Short human-readable summary of search filters, e.g. "dragons · Mystery, Fantasy · 1990s"
+ */
+export function describeSearchFilters(filters: BookSearchFilters): string {
+  const parts = [
+    filters.q,
+    filters.title && `Title: ${filters.title}`,
+    filters.author && `Author: ${filters.author}`,
+    filters.genre,
+    filters.isbn && `ISBN ${filters.isbn}`,
+    filters.publisher,
+    filters.language,
+    filters.status && (filters.status === BookStatus.AVAILABLE ? "Available" : "Checked Out"),
+    (filters.minYear || filters.maxYear) && `${filters.minYear ?? ""}–${filters.maxYear ?? ""}`,
+    filters.genres?.join(", "),
+    filters.languages?.join(", "),
+    filters.publishers?.join(", "),
+    filters.decades?.map((decade) => `${decade}s`).join(", "),
+    filters.statuses?.map((status) => (status === BookStatus.AVAILABLE ? "Available" : "Checked Out")).join(", "),
+    filters.tags?.join(", "),
+  ];
+
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * Excerpts showing where a keyword search matched a book
+ * Highlight text comes pre-escaped from the search API with matches wrapped in <mark>
+ */
+export function BookSearchHighlights({ highlights }: { highlights: BookSearchHighlight[] }) {
+  return (
+    <div className="space-y-1.5">
+      {highlights.map((highlight) => (
+        <p
+          key={highlight.chapterId ?? highlight.source}
+          className="text-xs sm:text-sm text-muted-foreground line-clamp-3 [&_mark]:bg-primary/15 [&_mark]:text-foreground [&_mark]:rounded-sm [&_mark]:px-0.5"
+        >
+          {highlight.source === "chapter" && (
+            <span className="font-medium text-foreground">{highlight.chapterTitle}: </span>
+          )}
+          <span dangerouslySetInnerHTML={{ __html: highlight.text }} />
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function BookSearch({ filters, onFiltersChange, onSearch, isLoading, canSaveSearch }: BookSearchProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  // Filters as of the last pause in typing, so facets and suggestions don't refetch on every keystroke
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const { data: facetData } = useBookFacets(debouncedFilters, isOpen);
+  const { data: autocompleteData } = useBookAutocomplete(isOpen ? debouncedFilters.q || "" : "");
+  const facets: BookSearchFacets | undefined = facetData?.facets;
+  const suggestions: BookAutocompleteSuggestion[] = autocompleteData?.suggestions || [];
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), 250);
+    return () => clearTimeout(timeout);
+  }, [filters]);
 
   const hasActiveFilters = Object.keys(filters).some((key) => {
     const value = filters[key as keyof BookSearchFilters];
@@ -50,6 +135,9 @@ export function BookSearch({ filters, onFiltersChange, onSearch, isLoading }: Bo
     onFiltersChange({
       ...filters,
       [field]: value || undefined,
+      // A picked author or publisher no longer applies once its name is edited
+      ...(field === "author" && { authorId: undefined }),
+      ...(field === "publisher" && { publisherId: undefined }),
     });
   };
 
@@ -68,6 +156,23 @@ export function BookSearch({ filters, onFiltersChange, onSearch, isLoading }: Bo
     });
   };
 
+  const isFacetValueSelected = (field: FacetField, value: string) =>
+    ((filters[field] || []) as Array<string | number>).map(String).includes(value);
+
+  const handleFacetToggle = (field: FacetField, value: string) => {
+    const current = ((filters[field] || []) as Array<string | number>).map(String);
+    const next = current.includes(value) ? current.filter((selected) => selected !== value) : [...current, value];
+    onFiltersChange({
+      ...filters,
+      [field]: next.length === 0 ? undefined : field === "decades" ? next.map(Number) : next,
+    });
+  };
+
+  const handleAuthorSuggestion = (author: string, authorId: string) => {
+    onFiltersChange({ ...filters, q: undefined, author, authorId });
+    setShowSuggestions(false);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter") {
       onSearch();
@@ -127,6 +232,82 @@ export function BookSearch({ filters, onFiltersChange, onSearch, isLoading }: Bo
 
           {/* Sidebar Content */}
           <div className="flex-1 p-6 space-y-6 overflow-y-auto">
+            <div className="space-y-2">
+              <Label htmlFor="q">Keywords</Label>
+              <Input
+                id="q"
+                placeholder='e.g., dragons "lost city" -sequel'
+                value={filters.q || ""}
+                onChange={(e) => handleInputChange("q", e.target.value)}
+                onKeyPress={handleKeyPress}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                autoComplete="off"
+              />
+              {showSuggestions && filters.q && suggestions.length > 0 && (
+                // onMouseDown keeps the input from blurring before the click lands
+                <ul className="rounded-md border bg-popover text-sm shadow-md" onMouseDown={(e) => e.preventDefault()}>
+                  {suggestions.map((suggestion) =>
+                    suggestion.type === "title" ? (
+                      <li key={`title-${suggestion.bookId}`}>
+                        <Link
+                          href={`/books/${suggestion.bookId}`}
+                          className="flex items-center gap-2 px-3 py-2 hover:bg-accent"
+                          onClick={() => setIsOpen(false)}
+                        >
+                          <BookOpen className="size-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate">{suggestion.value}</span>
+                        </Link>
+                      </li>
+                    ) : (
+                      <li key={`author-${suggestion.authorId}`}>
+                        <button
+                          type="button"
+                          className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-accent"
+                          onClick={() => handleAuthorSuggestion(suggestion.value, suggestion.authorId)}
+                        >
+                          <User className="size-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate flex-1">{suggestion.value}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {suggestion.bookCount} book{suggestion.bookCount === 1 ? "" : "s"}
+                          </span>
+                        </button>
+                      </li>
+                    )
+                  )}
+                </ul>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Searches titles, authors, tags, descriptions and chapter text, best matches first
+              </p>
+            </div>
+            {facets &&
+              facetSections.map(
+                ({ field, label, formatValue }) =>
+                  facets[field].length > 0 && (
+                    <fieldset key={field} className="space-y-2">
+                      <legend className="text-sm font-medium mb-2">{label}</legend>
+                      <div className="space-y-1.5 max-h-48 overflow-y-auto">
+                        {facets[field].map((facet: BookFacetValue) => {
+                          const id = `facet-${field}-${facet.value}`;
+                          return (
+                            <div key={facet.value} className="flex items-center gap-2">
+                              <Checkbox
+                                id={id}
+                                checked={isFacetValueSelected(field, facet.value)}
+                                onCheckedChange={() => handleFacetToggle(field, facet.value)}
+                              />
+                              <Label htmlFor={id} className="flex-1 font-normal cursor-pointer">
+                                {formatValue ? formatValue(facet.value) : facet.value}
+                              </Label>
+                              <span className="text-xs text-muted-foreground">{facet.count}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </fieldset>
+                  )
+              )}
             <div className="space-y-2">
               <Label htmlFor="title">Title</Label>
               <Input
@@ -230,6 +411,9 @@ export function BookSearch({ filters, onFiltersChange, onSearch, isLoading }: Bo
               <Search className="size-4 mr-2" />
               {isLoading ? "Searching..." : "Search"}
             </Button>
+            {hasActiveFilters && canSaveSearch && (
+              <SaveSearchDialog filters={filters} defaultName={describeSearchFilters(filters)} />
+            )}
             {hasActiveFilters && (
               <Button variant="outline" onClick={handleClearFilters} className="w-full">
                 <X className="size-4 mr-2" />
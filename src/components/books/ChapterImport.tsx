@@ -0,0 +1,243 @@
+import * as React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ErrorButton } from "@/components/ui/button-variants";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useImportChapters, usePreviewChapterImport } from "@/hooks/useChapters";
+import { readFileAsBase64 } from "@/lib/client/utils";
+import type { ChapterImportFormat, ImportedChapter } from "@/lib/server/types";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ChapterImportProps {
+  bookId: string;
+  existingChapterCount: number;
+}
+
+const formatLabels: Record<ChapterImportFormat, string> = {
+  text: "Plain text",
+  markdown: "Markdown",
+  epub: "EPUB",
+};
+
+function detectFormat(fileName: string): ChapterImportFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "epub") return "epub";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  return "text";
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function ChapterImport({ bookId, existingChapterCount }: ChapterImportProps) {
+  const previewMutation = usePreviewChapterImport();
+  const importMutation = useImportChapters();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<ChapterImportFormat>("text");
+  const [chapters, setChapters] = useState<ImportedChapter[] | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [replaceDialogOpen, setReplaceDialogOpen] = useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setChapters(null);
+    if (selected) {
+      setFormat(detectFormat(selected.name));
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      const result = await previewMutation.mutateAsync(
+        file ? { format, data: await readFileAsBase64(file) } : { format, text }
+      );
+      setChapters(result.chapters);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read manuscript");
+    }
+  };
+
+  const updateTitle = (index: number, title: string) => {
+    setChapters((current) => current?.map((chapter, i) => (i === index ? { ...chapter, title } : chapter)) ?? null);
+  };
+
+  const removeChapter = (index: number) => {
+    setChapters((current) => current?.filter((_, i) => i !== index) ?? null);
+  };
+
+  const handleImport = async () => {
+    if (!chapters || chapters.length === 0) return;
+    try {
+      const result = await importMutation.mutateAsync({ bookId, chapters, replace });
+      toast.success(`Imported ${result.count} chapters`);
+      setReplaceDialogOpen(false);
+      setChapters(null);
+      setFile(null);
+      setText("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import chapters");
+    }
+  };
+
+  const hasTitles = chapters?.every((chapter) => chapter.title.trim()) ?? false;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Import Chapters</CardTitle>
+        <CardDescription>
+          Split a manuscript into chapters at its headings, such as &quot;Chapter 1&quot; lines, Markdown headings or
+          EPUB sections. Review the chapters before saving them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="chapter-import-file">Manuscript file</Label>
+            <Input
+              id="chapter-import-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.md,.markdown,.epub,text/plain,text/markdown,application/epub+zip"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chapter-import-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => {
+                setFormat(value as ChapterImportFormat);
+                setChapters(null);
+              }}
+            >
+              <SelectTrigger id="chapter-import-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(formatLabels) as ChapterImportFormat[]).map((value) => (
+                  <SelectItem key={value} value={value} disabled={value === "epub" && !file}>
+                    {formatLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!file && (
+          <div className="space-y-2">
+            <Label htmlFor="chapter-import-text">Or paste the manuscript</Label>
+            <Textarea
+              id="chapter-import-text"
+              rows={8}
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setChapters(null);
+              }}
+              placeholder={"Chapter 1\n\nIt was a dark and stormy night..."}
+            />
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handlePreview}
+          disabled={(!file && !text.trim()) || (format === "epub" && !file) || previewMutation.isPending}
+        >
+          {previewMutation.isPending ? "Reading..." : "Preview Chapters"}
+        </Button>
+
+        {chapters && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Found {chapters.length} chapters. Edit titles or remove chapters before importing.
+            </p>
+            {chapters.map((chapter, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Badge variant="outline" className="shrink-0">
+                  {index + 1}
+                </Badge>
+                <Input
+                  value={chapter.title}
+                  onChange={(e) => updateTitle(index, e.target.value)}
+                  aria-label={`Title of chapter ${index + 1}`}
+                />
+                <span className="w-24 shrink-0 text-right text-sm text-muted-foreground">
+                  {countWords(chapter.content).toLocaleString()} words
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeChapter(index)}
+                  aria-label={`Remove chapter ${index + 1}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="chapter-import-replace"
+                checked={replace}
+                onCheckedChange={(checked) => setReplace(checked === true)}
+              />
+              <Label htmlFor="chapter-import-replace">
+                Replace the book&apos;s existing chapters ({existingChapterCount})
+              </Label>
+            </div>
+
+            <Button
+              onClick={() => (replace && existingChapterCount > 0 ? setReplaceDialogOpen(true) : handleImport())}
+              disabled={chapters.length === 0 || !hasTitles || importMutation.isPending}
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${chapters.length} Chapters`}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={replaceDialogOpen} onOpenChange={setReplaceDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace Chapters</DialogTitle>
+            <DialogDescription>
+              This deletes the book&apos;s {existingChapterCount} existing chapters, and readers&apos; places in them,
+              before importing {chapters?.length ?? 0} new ones. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplaceDialogOpen(false)}>
+              Cancel
+            </Button>
+            <ErrorButton onClick={handleImport} disabled={importMutation.isPending}>
+              {importMutation.isPending ? "Importing..." : "Replace Chapters"}
+            </ErrorButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,14 +1,49 @@
 import * as React from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/client/utils";
 import type { Chapter } from "@prisma/client";
+import { ArrowDown, ArrowUp, BookOpen, GripVertical } from "lucide-react";
+
+type ChapterSummary = Omit<Chapter, "content">;
 
 interface ChapterListProps {
-  chapters: Chapter[];
+  chapters: ChapterSummary[];
   isLoading?: boolean;
+  canRead?: boolean; // Links each chapter to the reader, for borrowers of the book
+  onReorder?: (chapterIds: string[]) => void; // Enables drag and drop ordering, for staff
 }
 
-export function ChapterList({ chapters, isLoading }: ChapterListProps) {
+export function ChapterList({ chapters, isLoading, canRead = false, onReorder }: ChapterListProps) {
+  const [draggedId, setDraggedId] = React.useState<string | null>(null);
+  // Order shown while dragging and until the saved chapters come back; dropped once chapters change
+  const [pendingOrder, setPendingOrder] = React.useState<{ source: ChapterSummary[]; ids: string[] } | null>(null);
+
+  const orderedChapters =
+    pendingOrder?.source === chapters
+      ? pendingOrder.ids.flatMap((id) => chapters.find((chapter) => chapter.id === id) ?? [])
+      : chapters;
+
+  const moveChapter = (chapterId: string, toIndex: number) => {
+    const ids = orderedChapters.map((chapter) => chapter.id).filter((id) => id !== chapterId);
+    ids.splice(toIndex, 0, chapterId);
+    setPendingOrder({ source: chapters, ids });
+    return ids;
+  };
+
+  const saveOrder = (ids: string[]) => {
+    if (ids.some((id, index) => id !== chapters[index]?.id)) {
+      onReorder?.(ids);
+    }
+  };
+
+  const handleDragEnd = () => {
+    if (draggedId) saveOrder(orderedChapters.map((chapter) => chapter.id));
+    setDraggedId(null);
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -37,22 +72,76 @@ export function ChapterList({ chapters, isLoading }: ChapterListProps) {
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold">Chapters ({chapters.length})</h3>
-      {chapters.map((chapter) => (
-        <Card key={chapter.id}>
+      {onReorder && <p className="text-sm text-muted-foreground">Drag chapters by their handle to reorder them.</p>}
+      {orderedChapters.map((chapter, index) => (
+        <Card
+          key={chapter.id}
+          className={cn(draggedId === chapter.id && "opacity-50")}
+          onDragOver={(e) => {
+            if (!draggedId) return;
+            e.preventDefault();
+            if (draggedId !== chapter.id) moveChapter(draggedId, index);
+          }}
+          onDrop={(e) => e.preventDefault()}
+        >
           <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-base">{chapter.title}</CardTitle>
-              <Badge variant="outline">Chapter {chapter.order}</Badge>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {onReorder && (
+                  <span
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", chapter.id);
+                      setDraggedId(chapter.id);
+                    }}
+                    onDragEnd={handleDragEnd}
+                    className="cursor-grab text-muted-foreground active:cursor-grabbing"
+                    aria-hidden
+                  >
+                    <GripVertical className="size-4" />
+                  </span>
+                )}
+                <CardTitle className="text-base">{chapter.title}</CardTitle>
+              </div>
+              <div className="flex items-center gap-2">
+                {/* Numbered by position, which is the order a reorder saves */}
+                <Badge variant="outline">Chapter {onReorder ? index + 1 : chapter.order}</Badge>
+                {onReorder && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => saveOrder(moveChapter(chapter.id, index - 1))}
+                      disabled={index === 0}
+                      aria-label={`Move ${chapter.title} up`}
+                    >
+                      <ArrowUp className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => saveOrder(moveChapter(chapter.id, index + 1))}
+                      disabled={index === orderedChapters.length - 1}
+                      aria-label={`Move ${chapter.title} down`}
+                    >
+                      <ArrowDown className="size-4" />
+                    </Button>
+                  </>
+                )}
+                {canRead && (
+                  <Link href={`/books/${chapter.bookId}/read?chapter=${chapter.id}`}>
+                    <Button variant="outline" size="sm">
+                      <BookOpen className="size-4 mr-1" />
+                      Read
+                    </Button>
+                  </Link>
+                )}
+              </div>
             </div>
           </CardHeader>
-          {chapter.content && (
-            <CardContent>
-              <p className="text-sm text-muted-foreground line-clamp-3">{chapter.content}</p>
-            </CardContent>
-          )}
         </Card>
       ))}
     </div>
   );
 }
-
@@ -0,0 +1,86 @@
+import * as React from "react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useCreateSavedSearch } from "@/hooks/useSavedSearches";
+import type { BookSearchFilters } from "@/lib/server/types";
+import { Bookmark } from "lucide-react";
+import { toast } from "sonner";
+
+interface SaveSearchDialogProps {
+  filters: BookSearchFilters;
+  defaultName: string;
+}
+
+export function SaveSearchDialog({ filters, defaultName }: SaveSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notifyNewArrivals, setNotifyNewArrivals] = useState(false);
+  const createMutation = useCreateSavedSearch();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(defaultName.slice(0, 100));
+      setNotifyNewArrivals(false);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    try {
+      await createMutation.mutateAsync({ name: name.trim(), filters, notifyNewArrivals });
+      toast.success("Search saved");
+      setOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save search");
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => handleOpenChange(true)} className="w-full">
+        <Bookmark className="size-4 mr-2" />
+        Save Search
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>Run it again from your dashboard at any time.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input id="saved-search-name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Label htmlFor="saved-search-notify">New arrival alerts</Label>
+                <p className="text-sm text-muted-foreground">Notify me when a newly added book matches</p>
+              </div>
+              <Switch id="saved-search-notify" checked={notifyNewArrivals} onCheckedChange={setNotifyNewArrivals} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || createMutation.isPending}>
+              {createMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import { Badge } from "@/components/ui/badge";
-import { CTAButton } from "@/components/ui/button-variants";
+import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import type { CheckoutWithRelations } from "@/lib/server/types";
 import { format } from "date-fns";
@@ -8,21 +8,29 @@ import { OverdueBadge } from "./OverdueBadge";
 interface CheckoutCardProps {
   checkout: CheckoutWithRelations;
   onReturn?: (checkoutId: string) => void;
+  onRenew?: (checkoutId: string) => void;
   showActions?: boolean;
   canReturn?: boolean;
   returningCheckoutId?: string | null;
+  renewingCheckoutId?: string | null;
 }
 
 export function CheckoutCard({
   checkout,
   onReturn,
+  onRenew,
   showActions = true,
   canReturn = true,
   returningCheckoutId = null,
+  renewingCheckoutId = null,
 }: CheckoutCardProps) {
   const isReturned = !!checkout.returnedDate;
   const isOverdue = checkout.isOverdue && !isReturned;
   const lateFeeAmount = checkout.lateFeeAmount ? Number(checkout.lateFeeAmount) : null;
+  const renewals = checkout.renewals || [];
+  const canRenew = !isReturned && !isOverdue && checkout.renewalCount < checkout.maxRenewals;
+  const showReturn = showActions && !isReturned && onReturn && canReturn;
+  const showRenew = showActions && canRenew && onRenew;
 
   // Guard against missing book data
   if (!checkout.book) {
@@ -57,11 +65,22 @@ export function CheckoutCard({
           <p>
             <span className="font-medium">Due date:</span> {format(new Date(checkout.dueDate), "MMM dd, yyyy")}
           </p>
+          {checkout.copy && (
+            <p>
+              <span className="font-medium">Copy:</span> <span className="font-mono">{checkout.copy.barcode}</span>
+              {checkout.copy.shelfLocation && ` (${checkout.copy.shelfLocation})`}
+            </p>
+          )}
           {isReturned && checkout.returnedDate && (
             <p>
               <span className="font-medium">Returned:</span> {format(new Date(checkout.returnedDate), "MMM dd, yyyy")}
             </p>
           )}
+          {checkout.renewalCount > 0 && (
+            <p>
+              <span className="font-medium">Renewals:</span> {checkout.renewalCount} of {checkout.maxRenewals}
+            </p>
+          )}
           {lateFeeAmount && lateFeeAmount > 0 && (
             <p className="text-destructive">
               <span className="font-medium">Late fee:</span> ${lateFeeAmount.toFixed(2)}
@@ -74,16 +93,41 @@ export function CheckoutCard({
           </div>
         )}
         {isReturned && <Badge variant="outline">Returned</Badge>}
+        {renewals.length > 0 && (
+          <div className="text-sm pt-2">
+            <p className="font-medium mb-1">Renewal history</p>
+            <ul className="space-y-1 text-muted-foreground">
+              {renewals.map((renewal) => (
+                <li key={renewal.id}>
+                  {format(new Date(renewal.renewedAt), "MMM dd, yyyy")}: due date moved from{" "}
+                  {format(new Date(renewal.previousDueDate), "MMM dd")} to{" "}
+                  {format(new Date(renewal.newDueDate), "MMM dd, yyyy")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
-      {showActions && !isReturned && onReturn && canReturn && (
-        <CardFooter>
-          <CTAButton
-            onClick={() => onReturn(checkout.id)}
-            className="w-full"
-            disabled={returningCheckoutId === checkout.id}
-          >
-            {returningCheckoutId === checkout.id ? "Returning..." : "Return Book"}
-          </CTAButton>
+      {(showReturn || showRenew) && (
+        <CardFooter className="flex gap-2">
+          {showRenew && (
+            <SecondaryButton
+              onClick={() => onRenew(checkout.id)}
+              className="flex-1"
+              disabled={renewingCheckoutId === checkout.id}
+            >
+              {renewingCheckoutId === checkout.id ? "Renewing..." : "Renew"}
+            </SecondaryButton>
+          )}
+          {showReturn && (
+            <CTAButton
+              onClick={() => onReturn(checkout.id)}
+              className="flex-1"
+              disabled={returningCheckoutId === checkout.id}
+            >
+              {returningCheckoutId === checkout.id ? "Returning..." : "Return Book"}
+            </CTAButton>
+          )}
         </CardFooter>
       )}
     </Card>
@@ -2,7 +2,7 @@ import * as React from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { OverdueBadge } from "./OverdueBadge";
-import { CTAButton } from "@/components/ui/button-variants";
+import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { CheckoutWithRelations } from "@/lib/server/types";
 import { format } from "date-fns";
@@ -10,19 +10,23 @@ import { format } from "date-fns";
 interface CheckoutListProps {
   checkouts: CheckoutWithRelations[];
   onReturn?: (checkoutId: string) => void;
+  onRenew?: (checkoutId: string) => void;
   isLoading?: boolean;
   showUser?: boolean;
   canReturn?: boolean;
   returningCheckoutId?: string | null;
+  renewingCheckoutId?: string | null;
 }
 
 export function CheckoutList({
   checkouts,
   onReturn,
+  onRenew,
   isLoading = false,
   showUser = false,
   canReturn = true,
   returningCheckoutId = null,
+  renewingCheckoutId = null,
 }: CheckoutListProps) {
   if (isLoading) {
     return (
@@ -52,13 +56,14 @@ export function CheckoutList({
             <TableHead>Checkout Date</TableHead>
             <TableHead>Due Date</TableHead>
             <TableHead>Status</TableHead>
-            {onReturn && <TableHead>Actions</TableHead>}
+            {(onReturn || onRenew) && <TableHead>Actions</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {checkouts.map((checkout) => {
             const isReturned = !!checkout.returnedDate;
             const isOverdue = checkout.isOverdue && !isReturned;
+            const canRenew = !isReturned && !isOverdue && checkout.renewalCount < checkout.maxRenewals;
 
             return (
               <TableRow key={checkout.id} className={isOverdue ? "bg-destructive/10 dark:bg-destructive/20" : ""}>
@@ -66,6 +71,9 @@ export function CheckoutList({
                   <div>
                     <div className="font-medium">{checkout.book.title}</div>
                     <div className="text-sm text-muted-foreground">by {checkout.book.author}</div>
+                    {checkout.copy && (
+                      <div className="text-xs text-muted-foreground font-mono">{checkout.copy.barcode}</div>
+                    )}
                   </div>
                 </TableCell>
                 {showUser && (
@@ -88,6 +96,11 @@ export function CheckoutList({
                       />
                     )}
                   </div>
+                  {checkout.renewalCount > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      Renewed {checkout.renewalCount} of {checkout.maxRenewals}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell>
                   {isReturned ? (
@@ -98,17 +111,28 @@ export function CheckoutList({
                     <Badge variant="secondary">Active</Badge>
                   )}
                 </TableCell>
-                {onReturn && (
+                {(onReturn || onRenew) && (
                   <TableCell>
-                    {!isReturned && canReturn && (
-                      <CTAButton
-                        size="sm"
-                        onClick={() => onReturn(checkout.id)}
-                        disabled={returningCheckoutId === checkout.id}
-                      >
-                        {returningCheckoutId === checkout.id ? "Returning..." : "Return"}
-                      </CTAButton>
-                    )}
+                    <div className="flex gap-2">
+                      {onRenew && canRenew && (
+                        <SecondaryButton
+                          size="sm"
+                          onClick={() => onRenew(checkout.id)}
+                          disabled={renewingCheckoutId === checkout.id}
+                        >
+                          {renewingCheckoutId === checkout.id ? "Renewing..." : "Renew"}
+                        </SecondaryButton>
+                      )}
+                      {onReturn && !isReturned && canReturn && (
+                        <CTAButton
+                          size="sm"
+                          onClick={() => onReturn(checkout.id)}
+                          disabled={returningCheckoutId === checkout.id}
+                        >
+                          {returningCheckoutId === checkout.id ? "Returning..." : "Return"}
+                        </CTAButton>
+                      )}
+                    </div>
                   </TableCell>
                 )}
               </TableRow>
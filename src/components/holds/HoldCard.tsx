@@ -0,0 +1,86 @@
+import { Badge } from "@/components/ui/badge";
+import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { HoldWithQueuePosition } from "@/lib/server/types";
+import type { HoldStatus } from "@prisma/client";
+import { format } from "date-fns";
+import Link from "next/link";
+
+interface HoldCardProps {
+  hold: HoldWithQueuePosition;
+  onCancel?: (holdId: string) => void;
+  cancellingHoldId?: string | null;
+}
+
+const statusLabels: Record<HoldStatus, string> = {
+  WAITING: "Waiting",
+  READY: "Ready for Pickup",
+  FULFILLED: "Checked Out",
+  CANCELLED: "Cancelled",
+  EXPIRED: "Expired",
+};
+
+export function HoldCard({ hold, onCancel, cancellingHoldId = null }: HoldCardProps) {
+  const isReady = hold.status === "READY";
+  const isActive = hold.status === "WAITING" || isReady;
+
+  return (
+    <Card className={isReady ? "border-primary" : ""}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{hold.book.title}</CardTitle>
+            <CardDescription>by {hold.book.author}</CardDescription>
+          </div>
+          <Badge variant={isReady ? "default" : isActive ? "secondary" : "outline"}>{statusLabels[hold.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="text-sm">
+          <p>
+            <span className="font-medium">Placed:</span> {format(new Date(hold.placedAt), "MMM dd, yyyy")}
+          </p>
+          {hold.workId && hold.status === "WAITING" && (
+            <p>
+              <span className="font-medium">Edition:</span> Any edition
+            </p>
+          )}
+          {hold.status === "WAITING" && hold.queuePosition && (
+            <p>
+              <span className="font-medium">Queue position:</span> {hold.queuePosition} of {hold.queueLength}
+            </p>
+          )}
+          {isReady && hold.pickupExpiresAt && (
+            <p>
+              <span className="font-medium">Pick up by:</span> {format(new Date(hold.pickupExpiresAt), "MMM dd, yyyy")}
+            </p>
+          )}
+          {isReady && hold.copy && (
+            <p>
+              <span className="font-medium">Copy:</span> <span className="font-mono">{hold.copy.barcode}</span>
+              {hold.copy.shelfLocation && ` (${hold.copy.shelfLocation})`}
+            </p>
+          )}
+        </div>
+      </CardContent>
+      {isActive && (
+        <CardFooter className="flex gap-2">
+          {isReady && (
+            <Link href={`/books/${hold.bookId}`} className="flex-1">
+              <CTAButton className="w-full">Check Out</CTAButton>
+            </Link>
+          )}
+          {onCancel && (
+            <SecondaryButton
+              onClick={() => onCancel(hold.id)}
+              className="flex-1"
+              disabled={cancellingHoldId === hold.id}
+            >
+              {cancellingHoldId === hold.id ? "Cancelling..." : "Cancel Hold"}
+            </SecondaryButton>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
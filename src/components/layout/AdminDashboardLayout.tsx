@@ -2,17 +2,24 @@ import { Button } from "@/components/ui/button";
 import useAuth from "@/hooks/useAuth";
 import { cn } from "@/lib/client/utils";
 import {
+  Bell,
+  CalendarDays,
   Key,
   LayoutDashboard,
   Library,
   LogOut,
+  Mail,
   Moon,
+  Scale,
   Shield,
   ShoppingCart,
   Sun,
+  Tags,
+  Timer,
   User,
   UserCircle,
   Users,
+  Wallet,
   Menu,
   X,
 } from "lucide-react";
@@ -30,6 +37,13 @@ const adminNavigation = [
   { name: "Admin Dashboard", href: "/admin/dashboard", icon: LayoutDashboard, permission: null },
   { name: "Books Management", href: "/admin/books", icon: Library, permission: "book:create" },
   { name: "Checkouts Management", href: "/admin/checkouts", icon: ShoppingCart, permission: "checkout:manage" },
+  { name: "Genres & Tags", href: "/admin/genres", icon: Tags, permission: "book:update" },
+  { name: "Circulation Policies", href: "/admin/policies", icon: Scale, permission: "checkout:manage" },
+  { name: "Library Calendar", href: "/admin/calendar", icon: CalendarDays, permission: "checkout:manage" },
+  { name: "Background Jobs", href: "/admin/jobs", icon: Timer, permission: "checkout:manage" },
+  { name: "Finance", href: "/admin/finance", icon: Wallet, permission: "finance:manage" },
+  { name: "Notifications", href: "/admin/notifications", icon: Bell, permission: "user:manage" },
+  { name: "Email Templates", href: "/admin/email-templates", icon: Mail, permission: "user:manage" },
   { name: "Staff Management", href: "/admin/users", icon: Users, permission: "user:manage" },
   { name: "Customer Management", href: "/admin/customers", icon: UserCircle, permission: "user:manage" },
   { name: "Role Management", href: "/admin/roles", icon: Shield, permission: "user:manage" },
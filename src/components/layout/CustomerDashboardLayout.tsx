@@ -2,7 +2,10 @@ import { Button } from "@/components/ui/button";
 import useAuth from "@/hooks/useAuth";
 import { cn } from "@/lib/client/utils";
 import {
+  Bell,
   BookOpen,
+  Bookmark,
+  Clock,
   LayoutDashboard,
   Library,
   LogOut,
@@ -27,6 +30,9 @@ interface CustomerDashboardLayoutProps {
 const customerNavigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "My Checkouts", href: "/dashboard/checkouts", icon: ShoppingCart },
+  { name: "My Holds", href: "/dashboard/holds", icon: Clock },
+  { name: "Saved Searches", href: "/dashboard/saved-searches", icon: Bookmark },
+  { name: "Notifications", href: "/dashboard/notifications", icon: Bell },
   { name: "Browse Books", href: "/books", icon: BookOpen },
 ];
 
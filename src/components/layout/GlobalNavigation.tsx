@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 import { useAuth } from "@/hooks/useAuth";
 import { BookOpen, LayoutDashboard, Library, LogOut, Menu, Moon, Shield, Sun, User, X } from "lucide-react";
 import { signOut, useSession } from "next-auth/react";
@@ -84,6 +85,7 @@ export function GlobalNavigation() {
                     {session.user?.name || session.user?.email}
                   </span>
                 </div>
+                <NotificationBell />
                 <Button variant="ghost" size="icon" onClick={() => signOut()} className="h-9 w-9" aria-label="Sign out">
                   <LogOut className="size-4" />
                 </Button>
@@ -116,6 +118,7 @@ export function GlobalNavigation() {
 
         {/* Mobile Menu Button & Theme Toggle */}
         <div className="flex md:hidden items-center gap-2">
+          {session && <NotificationBell />}
           {mounted && (
             <Button
               variant="ghost"
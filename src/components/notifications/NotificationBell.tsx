@@ -0,0 +1,97 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/client/utils";
+import type { Notification } from "@prisma/client";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { useRouter } from "next/router";
+
+/**
+ * Bell with an unread badge and a dropdown of the latest in-app notifications
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const { data } = useNotifications(1, 8);
+  const markReadMutation = useMarkNotificationsRead();
+
+  const notifications: Notification[] = data?.notifications || [];
+  const unreadCount: number = data?.unreadCount || 0;
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-9 w-9"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="size-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onSelect={() => handleSelect(notification)}
+              className="flex flex-col items-start gap-0.5"
+            >
+              <div className="flex w-full items-center gap-2">
+                <span className={cn("text-sm", !notification.readAt && "font-semibold")}>{notification.title}</span>
+                {!notification.readAt && <span className="ml-auto size-2 shrink-0 rounded-full bg-primary" />}
+              </div>
+              <span className="text-xs text-muted-foreground line-clamp-2">{notification.message}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => router.push("/dashboard/notifications")} className="justify-center text-sm">
+          View all and preferences
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,48 @@
+import { BookCover } from "@/components/books/BookCover";
+import { CTAButton } from "@/components/ui/button-variants";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ContinueReadingItem } from "@/lib/server/types";
+import { format } from "date-fns";
+import Link from "next/link";
+
+interface ContinueReadingCardProps {
+  item: ContinueReadingItem;
+}
+
+export function ContinueReadingCard({ item }: ContinueReadingCardProps) {
+  const href = `/books/${item.book.id}/read${item.chapterId ? `?chapter=${item.chapterId}` : ""}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start gap-4">
+          <div className="relative h-24 w-16 shrink-0 overflow-hidden rounded">
+            <BookCover book={item.book} sizes="64px" />
+          </div>
+          <div className="min-w-0">
+            <CardTitle className="line-clamp-2">{item.book.title}</CardTitle>
+            <CardDescription>by {item.book.author}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {item.chapter && (
+          <p className="line-clamp-1">
+            <span className="font-medium">Chapter {item.chapter.order}:</span> {item.chapter.title}
+          </p>
+        )}
+        <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+          <div className="h-full bg-primary" style={{ width: `${item.percentComplete}%` }} />
+        </div>
+        <p className="text-muted-foreground">
+          {item.percentComplete}% read · Due {format(new Date(item.dueDate), "MMM dd, yyyy")}
+        </p>
+      </CardContent>
+      <CardFooter>
+        <Link href={href} className="flex-1">
+          <CTAButton className="w-full">Continue Reading</CTAButton>
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
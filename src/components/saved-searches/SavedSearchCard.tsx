@@ -0,0 +1,73 @@
+import { describeSearchFilters } from "@/components/books/BookSearch";
+import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { SavedSearchWithFilters } from "@/lib/server/types";
+import { format } from "date-fns";
+import Link from "next/link";
+
+interface SavedSearchCardProps {
+  savedSearch: SavedSearchWithFilters;
+  onToggleAlerts?: (savedSearchId: string, notifyNewArrivals: boolean) => void;
+  onDelete?: (savedSearchId: string) => void;
+  pendingSavedSearchId?: string | null;
+}
+
+// The catalog runs the search from ?filters=<JSON>
+export function getSavedSearchHref(savedSearch: SavedSearchWithFilters): string {
+  return `/books?filters=${encodeURIComponent(JSON.stringify(savedSearch.filters))}`;
+}
+
+export function SavedSearchCard({
+  savedSearch,
+  onToggleAlerts,
+  onDelete,
+  pendingSavedSearchId = null,
+}: SavedSearchCardProps) {
+  const isPending = pendingSavedSearchId === savedSearch.id;
+  const switchId = `saved-search-alerts-${savedSearch.id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="line-clamp-1">{savedSearch.name}</CardTitle>
+        <CardDescription className="line-clamp-2">{describeSearchFilters(savedSearch.filters)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {onToggleAlerts ? (
+          <div className="flex items-center gap-2">
+            <Switch
+              id={switchId}
+              checked={savedSearch.notifyNewArrivals}
+              disabled={isPending}
+              onCheckedChange={(checked) => onToggleAlerts(savedSearch.id, checked)}
+            />
+            <Label htmlFor={switchId} className="font-normal">
+              New arrival alerts
+            </Label>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">New arrival alerts {savedSearch.notifyNewArrivals ? "on" : "off"}</p>
+        )}
+        <p className="text-muted-foreground">
+          Saved {format(new Date(savedSearch.createdAt), "MMM dd, yyyy")}
+          {savedSearch.lastNotifiedAt &&
+            ` · Last alert ${format(new Date(savedSearch.lastNotifiedAt), "MMM dd, yyyy")}`}
+        </p>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Link href={getSavedSearchHref(savedSearch)} className="flex-1">
+          <CTAButton size="sm" className="w-full">
+            Run Search
+          </CTAButton>
+        </Link>
+        {onDelete && (
+          <SecondaryButton size="sm" onClick={() => onDelete(savedSearch.id)} disabled={isPending}>
+            Delete
+          </SecondaryButton>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -42,3 +42,37 @@ export function Pagination({ currentPage, totalPages, onPageChange, className }:
   );
 }
 
+interface CursorPaginationProps {
+  page: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  className?: string;
+}
+
+// For cursor-paginated lists, where only the neighbouring pages are known
+export function CursorPagination({
+  page,
+  hasPreviousPage,
+  hasNextPage,
+  onPrevious,
+  onNext,
+  className,
+}: CursorPaginationProps) {
+  if (!hasPreviousPage && !hasNextPage) return null;
+
+  return (
+    <div className={cn("flex items-center justify-center gap-2", className)}>
+      <Button variant="outline" size="sm" onClick={onPrevious} disabled={!hasPreviousPage} className="gap-1">
+        <ChevronLeft className="size-4" />
+        Previous
+      </Button>
+      <span className="px-4 py-2 text-sm text-foreground">Page {page}</span>
+      <Button variant="outline" size="sm" onClick={onNext} disabled={!hasNextPage} className="gap-1">
+        Next
+        <ChevronRight className="size-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+
+const API_BASE = "/api/authors";
+
+// Search authors by name, those with the most books first
+export function useAuthorSearch(query: string, enabled = true) {
+  return useQuery({
+    queryKey: ["authors", query],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: query });
+      const res = await fetch(`${API_BASE}?${params}`);
+      if (!res.ok) throw new Error("Failed to search authors");
+      return res.json();
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Fetch an author with their books
+export function useAuthor(id: string | undefined) {
+  return useQuery({
+    queryKey: ["author", id],
+    queryFn: async () => {
+      if (!id) return null;
+      const res = await fetch(`${API_BASE}/${id}`);
+      if (!res.ok) throw new Error("Failed to fetch author");
+      return res.json();
+    },
+    enabled: !!id,
+  });
+}
@@ -1,22 +1,30 @@
-import type { CreateBookInput, UpdateBookInput } from "@/lib/server/types";
+import type { BookSortOption, CreateBookInput, UpdateBookInput } from "@/lib/server/types";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 const API_BASE = "/api/books";
 
+interface BookListOptions {
+  sort?: BookSortOption;
+  cursor?: string; // pagination.nextCursor from the previous page
+  search?: string;
+}
+
 // Fetch all books
-export function useBooks(page = 1, limit = 20, search?: string) {
+export function useBooks(limit = 20, { sort, cursor, search }: BookListOptions = {}) {
   return useQuery({
-    queryKey: ["books", page, limit, search],
+    queryKey: ["books", limit, sort, cursor, search],
     queryFn: async () => {
       const params = new URLSearchParams({
-        page: page.toString(),
         limit: limit.toString(),
+        ...(sort && { sort }),
+        ...(cursor && { cursor }),
         ...(search && { search }),
       });
       const res = await fetch(`${API_BASE}?${params}`);
       if (!res.ok) throw new Error("Failed to fetch books");
       return res.json();
     },
+    placeholderData: (previous) => previous,
   });
 }
 
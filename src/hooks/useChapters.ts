@@ -0,0 +1,68 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ChapterImportFormat, ImportedChapter } from "@/lib/server/types";
+
+const API_BASE = "/api/chapters";
+
+// Set the order of all of a book's chapters
+export function useReorderChapters() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookId, chapterIds }: { bookId: string; chapterIds: string[] }) => {
+      const res = await fetch(`${API_BASE}/reorder`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bookId, chapterIds }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Failed to reorder chapters");
+      }
+      return res.json();
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
+
+// Split a manuscript into chapters for review; text is pasted, data is a base64 file
+export function usePreviewChapterImport() {
+  return useMutation({
+    mutationFn: async (input: { format: ChapterImportFormat; text?: string; data?: string }) => {
+      const res = await fetch(`${API_BASE}/import/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Failed to read manuscript");
+      }
+      return res.json();
+    },
+  });
+}
+
+// Save reviewed chapters to a book, after its existing chapters or in place of them
+export function useImportChapters() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { bookId: string; chapters: ImportedChapter[]; replace: boolean }) => {
+      const res = await fetch(`${API_BASE}/import/commit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Failed to import chapters");
+      }
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
@@ -71,6 +71,7 @@ export function useCheckoutBook() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["checkouts"] });
       queryClient.invalidateQueries({ queryKey: ["my-checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["my-holds"] });
       queryClient.invalidateQueries({ queryKey: ["books"] });
     },
   });
@@ -95,8 +96,33 @@ export function useReturnBook() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["checkouts"] });
       queryClient.invalidateQueries({ queryKey: ["my-checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["my-holds"] });
       queryClient.invalidateQueries({ queryKey: ["books"] });
     },
   });
 }
 
+// Renew checkout mutation
+export function useRenewCheckout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (checkoutId: string) => {
+      const res = await fetch(`${API_BASE}/${checkoutId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "renew" }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to renew checkout");
+      }
+      return res.json();
+    },
+    onSuccess: (_, checkoutId) => {
+      queryClient.invalidateQueries({ queryKey: ["checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["my-checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["checkout", checkoutId] });
+    },
+  });
+}
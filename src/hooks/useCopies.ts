@@ -0,0 +1,88 @@
+import type { CreateBookCopyInput, UpdateBookCopyInput } from "@/lib/server/types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+// Fetch all copies of a book (staff)
+export function useBookCopies(bookId: string | undefined) {
+  return useQuery({
+    queryKey: ["book-copies", bookId],
+    queryFn: async () => {
+      if (!bookId) return null;
+      const res = await fetch(`/api/books/${bookId}/copies`);
+      if (!res.ok) throw new Error("Failed to fetch copies");
+      return res.json();
+    },
+    enabled: !!bookId,
+  });
+}
+
+// Add copy mutation
+export function useCreateCopy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookId, ...data }: CreateBookCopyInput) => {
+      const res = await fetch(`/api/books/${bookId}/copies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || error.message || "Failed to add copy");
+      }
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["book-copies", variables.bookId] });
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+      queryClient.invalidateQueries({ queryKey: ["books"] });
+    },
+  });
+}
+
+// Update copy mutation
+export function useUpdateCopy(bookId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: UpdateBookCopyInput) => {
+      const res = await fetch(`/api/copies/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || error.message || "Failed to update copy");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["book-copies", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["book", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["books"] });
+    },
+  });
+}
+
+// Delete copy mutation
+export function useDeleteCopy(bookId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/copies/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || error.message || "Failed to delete copy");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["book-copies", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["book", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["books"] });
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { useCallback, useState } from "react";
+
+// Remembers the cursors of visited pages so cursor-paginated lists can step back
+export function useCursorPagination() {
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+
+  const goToNext = useCallback((nextCursor: string) => setCursors((prev) => [...prev, nextCursor]), []);
+  const goToPrevious = useCallback(() => setCursors((prev) => (prev.length > 1 ? prev.slice(0, -1) : prev)), []);
+  // Call when the sort or filters change, since old cursors belong to the previous ordering
+  const reset = useCallback(() => setCursors([undefined]), []);
+
+  return {
+    cursor: cursors[cursors.length - 1],
+    page: cursors.length,
+    goToNext,
+    goToPrevious,
+    reset,
+  };
+}
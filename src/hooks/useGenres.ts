@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+
+const API_BASE = "/api/genres";
+
+// Search genres by name or synonym
+export function useGenreSearch(query: string, enabled = true) {
+  return useQuery({
+    queryKey: ["genre-search", query],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: query });
+      const res = await fetch(`${API_BASE}?${params}`);
+      if (!res.ok) throw new Error("Failed to search genres");
+      return res.json();
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { CreateHoldInput } from "@/lib/server/types";
+
+const API_BASE = "/api/holds";
+
+// Fetch user's holds with queue positions
+export function useMyHolds(status: "active" | "all" = "active", enabled = true) {
+  return useQuery({
+    queryKey: ["my-holds", status],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status });
+      const res = await fetch(`${API_BASE}?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch holds");
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+// Place hold mutation
+export function usePlaceHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateHoldInput) => {
+      const res = await fetch(API_BASE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to place hold");
+      }
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["my-holds"] });
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
+
+// Cancel hold mutation
+export function useCancelHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (holdId: string) => {
+      const res = await fetch(`${API_BASE}/${holdId}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || error.message || "Failed to cancel hold");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["my-holds"] });
+      queryClient.invalidateQueries({ queryKey: ["book"] });
+      queryClient.invalidateQueries({ queryKey: ["books"] });
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { NotificationPreferenceInput } from "@/lib/server/types";
+
+const API_BASE = "/api/notifications";
+
+// Fetch user's in-app notifications and unread count
+export function useNotifications(page = 1, limit = 20, enabled = true) {
+  return useQuery({
+    queryKey: ["notifications", page, limit],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+      const res = await fetch(`${API_BASE}?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return res.json();
+    },
+    enabled,
+    refetchInterval: 60 * 1000, // Keep the unread badge current
+  });
+}
+
+// Mark notifications read mutation (all unread when no IDs are given)
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const res = await fetch(API_BASE, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update notifications");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+}
+
+// Fetch user's channel preferences and email language
+export function useNotificationPreferences(enabled = true) {
+  return useQuery({
+    queryKey: ["notification-preferences"],
+    queryFn: async () => {
+      const res = await fetch(`${API_BASE}/preferences`);
+      if (!res.ok) throw new Error("Failed to fetch notification preferences");
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+// Update channel preferences (and optionally email language) mutation
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ preferences, locale }: { preferences: NotificationPreferenceInput[]; locale?: string }) => {
+      const res = await fetch(`${API_BASE}/preferences`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences, locale }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update notification preferences");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["notification-preferences"], data);
+    },
+  });
+}
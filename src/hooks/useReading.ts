@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ReadingProgressInput } from "@/lib/server/types";
+
+// Open a book in the reader, at the given chapter or where the user left off
+export function useReaderBook(bookId: string | undefined, chapterId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ["reader", bookId, chapterId ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams(chapterId ? { chapter: chapterId } : {});
+      const res = await fetch(`/api/books/${bookId}/read?${params}`);
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Failed to open book");
+      }
+      return res.json();
+    },
+    enabled: !!bookId && enabled,
+    retry: false,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Save where the user is in a book
+export function useSaveReadingProgress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookId, ...data }: ReadingProgressInput & { bookId: string }) => {
+      const res = await fetch(`/api/books/${bookId}/progress`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Failed to save reading progress");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["continue-reading"] });
+    },
+  });
+}
+
+// Books the user is partway through and still has checked out
+export function useContinueReading(enabled = true) {
+  return useQuery({
+    queryKey: ["continue-reading"],
+    queryFn: async () => {
+      const res = await fetch("/api/reading");
+      if (!res.ok) throw new Error("Failed to fetch reading progress");
+      return res.json();
+    },
+    enabled,
+  });
+}
@@ -1,26 +1,52 @@
 import { useQuery } from "@tanstack/react-query";
-import type { BookSearchFilters } from "@/lib/server/types";
+import type { BookSearchFilters, BookSortOption } from "@/lib/server/types";
 
 const API_BASE = "/api/books";
 
+// Facet selections are sent as repeated params, e.g. ?genres=Mystery&genres=Fantasy
+function buildSearchParams(filters: BookSearchFilters): URLSearchParams {
+  const params = new URLSearchParams({
+    ...(filters.q && { q: filters.q }),
+    ...(filters.title && { title: filters.title }),
+    ...(filters.author && { author: filters.author }),
+    ...(filters.authorId && { authorId: filters.authorId }),
+    ...(filters.genre && { genre: filters.genre }),
+    ...(filters.isbn && { isbn: filters.isbn }),
+    ...(filters.publisher && { publisher: filters.publisher }),
+    ...(filters.publisherId && { publisherId: filters.publisherId }),
+    ...(filters.status && { status: filters.status }),
+    ...(filters.language && { language: filters.language }),
+    ...(filters.minYear && { minYear: filters.minYear.toString() }),
+    ...(filters.maxYear && { maxYear: filters.maxYear.toString() }),
+  });
+  filters.genres?.forEach((genre) => params.append("genres", genre));
+  filters.languages?.forEach((language) => params.append("languages", language));
+  filters.publishers?.forEach((publisher) => params.append("publishers", publisher));
+  filters.decades?.forEach((decade) => params.append("decades", decade.toString()));
+  filters.statuses?.forEach((status) => params.append("statuses", status));
+  filters.tags?.forEach((tag) => params.append("tags", tag));
+  return params;
+}
+
+interface BookSearchOptions {
+  sort?: BookSortOption; // Defaults to relevance when filters.q is set, otherwise newest
+  cursor?: string; // pagination.nextCursor from the previous page
+  limit?: number;
+}
+
 // Search books with filters
-export function useBookSearch(filters: BookSearchFilters, page = 1, limit = 20, enabled = false) {
+export function useBookSearch(
+  filters: BookSearchFilters,
+  { sort, cursor, limit = 20 }: BookSearchOptions = {},
+  enabled = false
+) {
   return useQuery({
-    queryKey: ["book-search", filters, page, limit],
+    queryKey: ["book-search", filters, sort, cursor, limit],
     queryFn: async () => {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-        ...(filters.title && { title: filters.title }),
-        ...(filters.author && { author: filters.author }),
-        ...(filters.genre && { genre: filters.genre }),
-        ...(filters.isbn && { isbn: filters.isbn }),
-        ...(filters.publisher && { publisher: filters.publisher }),
-        ...(filters.status && { status: filters.status }),
-        ...(filters.language && { language: filters.language }),
-        ...(filters.minYear && { minYear: filters.minYear.toString() }),
-        ...(filters.maxYear && { maxYear: filters.maxYear.toString() }),
-      });
+      const params = buildSearchParams(filters);
+      params.set("limit", limit.toString());
+      if (sort) params.set("sort", sort);
+      if (cursor) params.set("cursor", cursor);
       const res = await fetch(`${API_BASE}/search?${params}`);
       if (!res.ok) throw new Error("Failed to search books");
       return res.json();
@@ -28,3 +54,33 @@ export function useBookSearch(filters: BookSearchFilters, page = 1, limit = 20,
     enabled: enabled && Object.keys(filters).length > 0,
   });
 }
+
+// Fetch facet counts for the current filters
+export function useBookFacets(filters: BookSearchFilters, enabled = true) {
+  return useQuery({
+    queryKey: ["book-facets", filters],
+    queryFn: async () => {
+      const params = buildSearchParams(filters);
+      params.set("facetsOnly", "true");
+      const res = await fetch(`${API_BASE}/search?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch search facets");
+      return res.json();
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Title and author suggestions for a partially typed search
+export function useBookAutocomplete(query: string) {
+  return useQuery({
+    queryKey: ["book-autocomplete", query],
+    queryFn: async () => {
+      const res = await fetch(`${API_BASE}/autocomplete?${new URLSearchParams({ q: query })}`);
+      if (!res.ok) throw new Error("Failed to fetch suggestions");
+      return res.json();
+    },
+    enabled: query.trim().length >= 2,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+
+const API_BASE = "/api/series";
+
+// Search series by name
+export function useSeriesSearch(query: string, enabled = true) {
+  return useQuery({
+    queryKey: ["series-search", query],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: query });
+      const res = await fetch(`${API_BASE}?${params}`);
+      if (!res.ok) throw new Error("Failed to search series");
+      return res.json();
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Fetch a series with its books in reading order
+export function useSeries(id: string | undefined) {
+  return useQuery({
+    queryKey: ["series", id],
+    queryFn: async () => {
+      if (!id) return null;
+      const res = await fetch(`${API_BASE}/${id}`);
+      if (!res.ok) throw new Error("Failed to fetch series");
+      return res.json();
+    },
+    enabled: !!id,
+  });
+}
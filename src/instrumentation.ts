@@ -0,0 +1,10 @@
+/**
+ * Next.js instrumentation hook, called once when the server starts
+ * Starts the in-process background job scheduler on the Node.js runtime
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobScheduler } = await import("@/lib/server/jobs");
+    startJobScheduler();
+  }
+}
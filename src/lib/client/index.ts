@@ -1,2 +1,10 @@
 // Client-side utilities
-export { cn } from "./utils";
+export { cn, readFileAsBase64 } from "./utils";
+export {
+  READER_FONT_SIZES,
+  DEFAULT_READER_SETTINGS,
+  loadReaderSettings,
+  saveReaderSettings,
+  paginateChapter,
+} from "./reader";
+export type { ReaderTheme, ReaderSettings } from "./reader";
@@ -0,0 +1,87 @@
+export type ReaderTheme = "light" | "sepia" | "dark";
+
+export interface ReaderSettings {
+  fontSize: number; // px
+  theme: ReaderTheme;
+}
+
+export const READER_FONT_SIZES = [14, 16, 18, 20, 24, 28];
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = { fontSize: 18, theme: "light" };
+
+const READER_SETTINGS_KEY = "reader-settings";
+
+// Characters that fill a page at 16px; larger text fits fewer
+const PAGE_CHARACTERS = 2400;
+// Space a paragraph break takes up, in characters
+const PARAGRAPH_BREAK_CHARACTERS = 60;
+
+/**
+ * Reader settings are kept per browser, since a comfortable size depends on the screen
+ */
+export function loadReaderSettings(): ReaderSettings {
+  if (typeof window === "undefined") return DEFAULT_READER_SETTINGS;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(READER_SETTINGS_KEY) || "{}");
+    return {
+      fontSize: READER_FONT_SIZES.includes(saved.fontSize) ? saved.fontSize : DEFAULT_READER_SETTINGS.fontSize,
+      theme: ["light", "sepia", "dark"].includes(saved.theme) ? saved.theme : DEFAULT_READER_SETTINGS.theme,
+    };
+  } catch {
+    return DEFAULT_READER_SETTINGS;
+  }
+}
+
+export function saveReaderSettings(settings: ReaderSettings): void {
+  try {
+    window.localStorage.setItem(READER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing can block storage; the settings still apply until the page is left
+  }
+}
+
+/**
+ * Splits chapter text into pages of paragraphs that fit the font size
+ * A paragraph too long for the rest of a page is broken between words and continues on the next page.
+ * There is always at least one page, empty for a chapter without text.
+ */
+export function paginateChapter(content: string, fontSize: number): string[][] {
+  const pageSize = Math.round(PAGE_CHARACTERS * (16 / fontSize) ** 2);
+  const pages: string[][] = [];
+  let page: string[] = [];
+  let used = 0;
+
+  const nextPage = () => {
+    pages.push(page);
+    page = [];
+    used = 0;
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    let paragraph = line.trim();
+    while (paragraph) {
+      const room = pageSize - used;
+      if (paragraph.length <= room) {
+        page.push(paragraph);
+        used += paragraph.length + PARAGRAPH_BREAK_CHARACTERS;
+        break;
+      }
+      // Rather than leave a few words at the bottom of a page, start the paragraph on the next one
+      if (page.length > 0 && room < pageSize / 4) {
+        nextPage();
+        continue;
+      }
+
+      const cut = paragraph.lastIndexOf(" ", room);
+      const end = cut > 0 ? cut : room;
+      page.push(paragraph.slice(0, end));
+      paragraph = paragraph.slice(end).trim();
+      nextPage();
+    }
+  }
+
+  if (page.length > 0 || pages.length === 0) {
+    pages.push(page);
+  }
+  return pages;
+}
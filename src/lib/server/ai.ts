@@ -32,12 +32,14 @@ export interface BookTagsResult {
  * @param title - Book title
  * @param author - Book author
  * @param description - Optional book description
+ * @param genreVocabulary - Genres in the catalog's vocabulary, which the model is asked to prefer
  * @returns Object with genres array (3 items) and tags array (5-10 items), or null if unavailable/error
  */
 export async function generateBookTags(
   title: string,
   author: string,
-  description?: string
+  description?: string,
+  genreVocabulary: string[] = []
 ): Promise<BookTagsResult | null> {
   if (!isAIServiceAvailable()) {
     logAIServiceUnavailable();
@@ -48,7 +50,7 @@ export async function generateBookTags(
     const prompt = `Given the book "${title}" by ${author}${description ? ` with the following description: ${description}` : ""}, generate:
 1. Exactly 3 appropriate genres (e.g., "Science Fiction", "Mystery", "Romance")
 2. 5-10 relevant keywords/tags (e.g., "space", "adventure", "friendship", "technology")
-
+${genreVocabulary.length > 0 ? `\nChoose genres from this list where one fits: ${genreVocabulary.map((genre) => `"${genre}"`).join(", ")}\n` : ""}
 Return your response as a JSON object with this exact structure:
 {
   "genres": ["genre1", "genre2", "genre3"],
@@ -158,12 +160,14 @@ The summary should be engaging, informative, and suitable for a library catalog.
  * @param title - Book title
  * @param author - Book author
  * @param description - Optional book description
+ * @param genreVocabulary - Genres in the catalog's vocabulary, passed on to generateBookTags
  * @returns Object with tags result and summary, or null if unavailable/error
  */
 export async function enrichBookData(
   title: string,
   author: string,
-  description?: string
+  description?: string,
+  genreVocabulary?: string[]
 ): Promise<{ tags: BookTagsResult | null; summary: string | null }> {
   if (!isAIServiceAvailable()) {
     logAIServiceUnavailable();
@@ -172,7 +176,7 @@ export async function enrichBookData(
 
   // Run both in parallel for better performance
   const [tags, summary] = await Promise.all([
-    generateBookTags(title, author, description),
+    generateBookTags(title, author, description, genreVocabulary),
     generateBookSummary(title, author, description),
   ]);
 
@@ -0,0 +1,205 @@
+import type { AuthorRole, Prisma } from "@prisma/client";
+import { getAvailabilityForBooks, getBookStatusFromAvailability } from "./copy";
+import { prisma } from "./prisma";
+import type { AuthorSummary, AuthorWithBooks, BookAuthorInput, ResolvedBookAuthors } from "./types/author";
+
+export const AUTHOR_ROLES: readonly AuthorRole[] = ["AUTHOR", "EDITOR", "TRANSLATOR", "ILLUSTRATOR"];
+
+const AUTHOR_SEARCH_LIMIT = 20;
+
+// Added after a name in the credit line, e.g. "Ralph Manheim (translator)"
+const ROLE_SUFFIXES: Record<AuthorRole, string> = {
+  AUTHOR: "",
+  EDITOR: " (editor)",
+  TRANSLATOR: " (translator)",
+  ILLUSTRATOR: " (illustrator)",
+};
+
+// Role suffixes recognized when reading a credit line, including common abbreviations like "(ed.)"
+const ROLE_PATTERNS: [AuthorRole, RegExp][] = [
+  ["EDITOR", /\s*\((?:ed|eds|editor|editors)\.?\)$/i],
+  ["TRANSLATOR", /\s*\((?:tr|trans|translator)\.?\)$/i],
+  ["ILLUSTRATOR", /\s*\((?:ill|illus|illustrator)\.?\)$/i],
+];
+
+/**
+ * Include for a book's credits in order, with the linked author
+ */
+export const BOOK_AUTHORS_INCLUDE = {
+  orderBy: { position: "asc" },
+  include: { author: { select: { id: true, name: true } } },
+} satisfies Prisma.Book$authorsArgs;
+
+/**
+ * Key that authors are matched on: letters and digits only, lowercased
+ * "J.R.R. Tolkien" and "J. R. R. Tolkien" both become "jrrtolkien"
+ */
+export function normalizeAuthorName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function cleanName(name: string): string {
+  return name.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * "Tolkien, J. R. R." and "Gaiman, Neil" are inverted names; "Neil Gaiman, Terry Pratchett" is a list
+ */
+function isInvertedName(beforeComma: string, afterComma: string): boolean {
+  return !/\s/.test(beforeComma) || /(^|\s)\p{Lu}\.?$/u.test(afterComma);
+}
+
+function readRole(part: string): BookAuthorInput {
+  for (const [role, pattern] of ROLE_PATTERNS) {
+    if (pattern.test(part)) {
+      return { name: part.replace(pattern, "").trim(), role };
+    }
+  }
+  return { name: part, role: "AUTHOR" };
+}
+
+/**
+ * Reads the names in a credit line, e.g. "Tolkien, J. R. R." or "Neil Gaiman & Terry Pratchett"
+ * Names are separated by ";", "&" or "and", and a trailing "(ed.)", "(trans.)" or "(illus.)" sets that name's role.
+ * "Last, First" is turned around and any other commas separate names, so formatAuthorCredit's output reads back the same.
+ * The authors migration applies the same rules to existing books.
+ */
+export function parseAuthorCredit(credit: string): BookAuthorInput[] {
+  const authors: BookAuthorInput[] = [];
+
+  for (const segment of credit.split(/\s*(?:;|&|\band\b)\s*/i)) {
+    const commaParts = segment.split(",").map((part) => part.trim());
+    let names = commaParts.map(readRole);
+
+    // A role after the first part means it is a whole name, as in "Quentin Blake (illustrator), Roald Dahl"
+    if (commaParts.length === 2 && commaParts[1] && names[0].name && names[0].role === "AUTHOR") {
+      const first = readRole(commaParts[1]);
+      if (isInvertedName(commaParts[0], first.name)) {
+        names = [{ name: `${first.name} ${commaParts[0]}`, role: first.role }];
+      }
+    }
+
+    for (const { name, role } of names) {
+      if (normalizeAuthorName(name)) {
+        authors.push({ name: cleanName(name), role });
+      }
+    }
+  }
+
+  return authors;
+}
+
+/**
+ * Credits for a book from its input: the authors list when given, otherwise read from the author line
+ * Names must not be blank and roles must be known; invalid credits are returned for the caller to reject.
+ */
+export function getBookAuthorInputs(data: { author?: string; authors?: BookAuthorInput[] }): {
+  credits: BookAuthorInput[];
+  invalid: BookAuthorInput[];
+} {
+  const credits = data.authors ?? parseAuthorCredit(data.author ?? "");
+  return {
+    credits,
+    invalid: credits.filter(
+      (credit) =>
+        typeof credit.name !== "string" ||
+        !normalizeAuthorName(credit.name) ||
+        (credit.role !== undefined && !AUTHOR_ROLES.includes(credit.role))
+    ),
+  };
+}
+
+/**
+ * Builds the Book.author credit line, e.g. "Franz Kafka, Willa Muir (translator)"
+ */
+export function formatAuthorCredit(authors: BookAuthorInput[]): string {
+  return authors.map(({ name, role = "AUTHOR" }) => `${name}${ROLE_SUFFIXES[role]}`).join(", ");
+}
+
+/**
+ * Finds or creates the authors for a book's credits, in order
+ * Names that normalize to the same key are one author, keeping the spelling it was first saved with.
+ * Repeated credits (same author and role) are dropped.
+ */
+export async function resolveBookAuthors(
+  db: Prisma.TransactionClient,
+  credits: BookAuthorInput[]
+): Promise<ResolvedBookAuthors> {
+  const authors: ResolvedBookAuthors["authors"] = [];
+  const names: BookAuthorInput[] = [];
+
+  for (const { name, role = "AUTHOR" } of credits) {
+    const normalizedName = normalizeAuthorName(name);
+    if (!normalizedName) continue;
+
+    const author = await db.author.upsert({
+      where: { normalizedName },
+      update: {},
+      create: { name: cleanName(name), normalizedName },
+    });
+    if (authors.some((credit) => credit.authorId === author.id && credit.role === role)) continue;
+
+    authors.push({ authorId: author.id, role, position: authors.length });
+    names.push({ name: author.name, role });
+  }
+
+  return { credit: formatAuthorCredit(names), authors };
+}
+
+/**
+ * Finds authors by name for pickers and search, those with the most books first
+ * Authors no longer credited on any book are left out
+ */
+export async function searchAuthors(query: string, limit = AUTHOR_SEARCH_LIMIT): Promise<AuthorSummary[]> {
+  const authors = await prisma.author.findMany({
+    where: {
+      books: { some: {} },
+      ...(query.trim() && { name: { contains: query.trim(), mode: "insensitive" } }),
+    },
+    include: { _count: { select: { books: true } } },
+    orderBy: [{ books: { _count: "desc" } }, { name: "asc" }],
+    take: limit,
+  });
+
+  return authors.map(({ id, name, _count }) => ({ id, name, bookCount: _count.books }));
+}
+
+/**
+ * Gets an author with every book they are credited on, newest first
+ * A book credited to them in several roles (e.g. author and illustrator) appears once
+ */
+export async function getAuthor(id: string): Promise<AuthorWithBooks | null> {
+  const author = await prisma.author.findUnique({
+    where: { id },
+    include: {
+      books: {
+        include: { book: { include: { authors: BOOK_AUTHORS_INCLUDE } } },
+      },
+    },
+  });
+  if (!author) {
+    return null;
+  }
+
+  const rolesByBook = new Map<string, AuthorRole[]>();
+  for (const credit of author.books) {
+    rolesByBook.set(credit.bookId, [...(rolesByBook.get(credit.bookId) ?? []), credit.role]);
+  }
+  const books = Array.from(new Map(author.books.map((credit) => [credit.bookId, credit.book])).values()).sort(
+    (a, b) => (b.publicationYear ?? 0) - (a.publicationYear ?? 0) || a.title.localeCompare(b.title)
+  );
+  const availability = await getAvailabilityForBooks(books.map((book) => book.id));
+
+  return {
+    ...author,
+    books: books.map((book) => {
+      const bookAvailability = availability.get(book.id)!;
+      return {
+        ...book,
+        availability: bookAvailability,
+        status: getBookStatusFromAvailability(bookAvailability),
+        roles: rolesByBook.get(book.id)!,
+      };
+    }),
+  };
+}
@@ -0,0 +1,165 @@
+import type { Prisma } from "@prisma/client";
+import { escapeCsvFormula } from "./book-import";
+import { getAvailabilityForBooks, getBookStatusFromAvailability } from "./copy";
+import { bookToMarcRecord, writeMarc21 } from "./marc";
+import { prisma } from "./prisma";
+import { buildBookSearchQuery, findFuzzyMatches, rankBooksByText } from "./search";
+import type { BookSearchFilters } from "./types/book";
+import type { BookExportFormat, ExportedBook } from "./types/book-export";
+
+// Books loaded per query while streaming, with their chapters and copies
+const EXPORT_BATCH_SIZE = 100;
+
+export const BOOK_EXPORT_FORMATS: readonly BookExportFormat[] = ["csv", "jsonl", "marc21"];
+
+export function isBookExportFormat(value: unknown): value is BookExportFormat {
+  return typeof value === "string" && (BOOK_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const BOOK_EXPORT_FILE_TYPES: Record<BookExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  jsonl: { contentType: "application/x-ndjson; charset=utf-8", extension: "jsonl" },
+  marc21: { contentType: "application/marc", extension: "mrc" },
+};
+
+// Catalog columns use the import wizard's header names, so an export can be imported again
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "author",
+  "isbn",
+  "description",
+  "summary",
+  "publisher",
+  "publicationYear",
+  "genre",
+  "tags",
+  "pageCount",
+  "language",
+  "coverImageUrl",
+  "status",
+  "copyCount",
+  "availableCopies",
+  "copyDetails",
+  "chapterCount",
+  "chapters",
+  "createdAt",
+  "updatedAt",
+];
+
+function toCsvRow(values: (string | number | null | undefined)[]): string {
+  return (
+    values
+      .map((value) => {
+        // Numbers are never formulas; only text can be
+        const text =
+          value === null || value === undefined
+            ? ""
+            : typeof value === "string"
+              ? escapeCsvFormula(value)
+              : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+function bookToCsvRow(book: ExportedBook): string {
+  return toCsvRow([
+    book.id,
+    book.title,
+    book.author,
+    book.isbn,
+    book.description,
+    book.summary,
+    book.publisher,
+    book.publicationYear,
+    book.genre,
+    book.tags.join("; "),
+    book.pageCount,
+    book.language,
+    book.coverImageUrl,
+    book.status,
+    book.availability.totalCopies,
+    book.availability.availableCopies,
+    // e.g. "LIB-1234 (AVAILABLE, Shelf A3); LIB-5678 (LOST)"
+    book.copies
+      .map((copy) => `${copy.barcode} (${[copy.status, copy.shelfLocation].filter(Boolean).join(", ")})`)
+      .join("; "),
+    book.chapters.length,
+    book.chapters.map((chapter) => chapter.title).join("; "),
+    book.createdAt.toISOString(),
+    book.updatedAt.toISOString(),
+  ]);
+}
+
+/**
+ * Loads the books matching the filters in batches, ordered by title
+ * A full-text query (q) covers its best ranked matches only, as in search
+ */
+async function* findExportedBooks(filters: BookSearchFilters): AsyncGenerator<ExportedBook[]> {
+  const [ranks, fuzzyMatches] = await Promise.all([
+    filters.q?.trim() ? rankBooksByText(filters.q) : null,
+    findFuzzyMatches(filters),
+  ]);
+  const query = buildBookSearchQuery(filters, fuzzyMatches);
+  const where: Prisma.BookWhereInput = ranks ? { AND: [query, { id: { in: Array.from(ranks.keys()) } }] } : query;
+
+  let cursor: string | undefined;
+  do {
+    const books = await prisma.book.findMany({
+      where,
+      orderBy: [{ title: "asc" }, { id: "asc" }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      include: {
+        chapters: { orderBy: { order: "asc" } },
+        copies: { orderBy: { createdAt: "asc" } },
+      },
+    });
+    if (books.length === 0) return;
+
+    const availability = await getAvailabilityForBooks(books.map((book) => book.id));
+    yield books.map((book) => {
+      const bookAvailability = availability.get(book.id)!;
+      return {
+        ...book,
+        availability: bookAvailability,
+        status: getBookStatusFromAvailability(bookAvailability),
+      };
+    });
+
+    cursor = books.length === EXPORT_BATCH_SIZE ? books[books.length - 1].id : undefined;
+  } while (cursor);
+}
+
+/**
+ * Streams the catalog (or the books matching the filters) in an export format
+ * Chunks are yielded a batch at a time so large catalogs never sit in memory at once
+ * - csv: one row per book, with copy and chapter summaries
+ * - jsonl: one JSON object per line, with full chapters and copies
+ * - marc21: binary MARC21 records (see bookToMarcRecord)
+ */
+export async function* streamBookExport(
+  filters: BookSearchFilters,
+  format: BookExportFormat
+): AsyncGenerator<string | Buffer> {
+  if (format === "csv") {
+    // The byte order mark tells spreadsheet apps the file is UTF-8
+    yield "\uFEFF" + toCsvRow(CSV_COLUMNS);
+  }
+
+  for await (const books of findExportedBooks(filters)) {
+    switch (format) {
+      case "csv":
+        yield books.map(bookToCsvRow).join("");
+        break;
+      case "jsonl":
+        yield books.map((book) => JSON.stringify(book) + "\n").join("");
+        break;
+      case "marc21":
+        yield Buffer.concat(books.map((book) => writeMarc21(bookToMarcRecord(book))));
+        break;
+    }
+  }
+}
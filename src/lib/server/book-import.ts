@@ -0,0 +1,487 @@
+import { Prisma, type Book } from "@prisma/client";
+import { formatAuthorCredit, parseAuthorCredit, resolveBookAuthors } from "./author";
+import { generateCopyBarcode } from "./copy";
+import { resolveBookGenreUpdate, resolveBookGenres } from "./genre";
+import { isValidIsbn, normalizeIsbn } from "./isbn";
+import { marcRecordToBookFields, parseMarc21, parseMarcXml } from "./marc";
+import { prisma } from "./prisma";
+import { resolvePublisher } from "./publisher";
+import type { CreateBookInput } from "./types/book";
+import type {
+  BookImportChange,
+  BookImportCommitRow,
+  BookImportDuplicateStrategy,
+  BookImportField,
+  BookImportMapping,
+  BookImportPreview,
+  BookImportPreviewInput,
+  BookImportResult,
+  BookImportRow,
+  BookImportValues,
+} from "./types/book-import";
+
+// Largest file a single import accepts, in rows or records
+export const MAX_IMPORT_ROWS = 5000;
+// Rows committed per transaction; the wizard sends one batch per request
+export const BOOK_IMPORT_BATCH_SIZE = 100;
+const MAX_TAGS = 20;
+
+/**
+ * Fields in the order the mapping step shows them
+ */
+export const BOOK_IMPORT_FIELDS: BookImportField[] = [
+  "title",
+  "author",
+  "isbn",
+  "description",
+  "summary",
+  "publisher",
+  "publicationYear",
+  "genre",
+  "tags",
+  "pageCount",
+  "language",
+  "coverImageUrl",
+  "copyCount",
+];
+
+// Header names (lowercase, letters and digits only) recognized for each field
+const HEADER_ALIASES: Record<BookImportField, string[]> = {
+  title: ["title", "booktitle", "name"],
+  author: ["author", "authors", "creator", "by"],
+  isbn: ["isbn", "isbn13", "isbn10"],
+  description: ["description", "desc"],
+  summary: ["summary", "abstract"],
+  publisher: ["publisher", "publishedby"],
+  publicationYear: ["publicationyear", "year", "pubyear", "published", "publicationdate", "datepublished"],
+  genre: ["genre", "category"],
+  tags: ["tags", "keywords", "subjects"],
+  pageCount: ["pagecount", "pages", "numberofpages"],
+  language: ["language", "lang"],
+  coverImageUrl: ["coverimageurl", "coverurl", "cover", "coverimage", "image"],
+  copyCount: ["copycount", "copies", "quantity", "qty"],
+};
+
+// Fields compared when an import would update an existing book
+const UPDATABLE_FIELDS = BOOK_IMPORT_FIELDS.filter((field) => field !== "copyCount");
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ * Blank lines are kept as empty rows so row numbers match the file
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Skip the byte order mark spreadsheet apps add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes text a spreadsheet would run as a formula with ', so "=HYPERLINK(...)" in a title stays text
+ */
+export function escapeCsvFormula(text: string): string {
+  return CSV_FORMULA_PATTERN.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Removes the ' escapeCsvFormula adds, so exported files import unchanged
+ */
+export function unescapeCsvFormula(text: string): string {
+  return text.startsWith("'") && CSV_FORMULA_PATTERN.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+/**
+ * Matches CSV headers to catalog fields by name, e.g. "Pages" -> pageCount
+ */
+export function guessBookImportMapping(columns: string[]): BookImportMapping {
+  const mapping: BookImportMapping = {};
+  const normalized = columns.map((column) => column.toLowerCase().replace(/[^a-z0-9]/g, ""));
+
+  for (const field of BOOK_IMPORT_FIELDS) {
+    const index = normalized.findIndex((column) => HEADER_ALIASES[field].includes(column));
+    if (index !== -1) {
+      mapping[field] = columns[index];
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Reads the rows of an import file as raw field values
+ */
+function readBookImportFile(input: BookImportPreviewInput): {
+  columns: string[];
+  mapping: BookImportMapping;
+  rows: { rowNumber: number; values: BookImportValues }[];
+} {
+  if (input.format === "csv") {
+    const [header = [], ...lines] = parseCsv(input.data.toString("utf8"));
+    const columns = header.map((column) => column.trim());
+    const mapping = input.mapping ?? guessBookImportMapping(columns);
+
+    const rows = lines
+      .map((line, index) => {
+        const values: BookImportValues = {};
+        for (const [field, column] of Object.entries(mapping) as [BookImportField, string][]) {
+          const columnIndex = columns.indexOf(column);
+          if (columnIndex !== -1) {
+            values[field] = line[columnIndex] === undefined ? undefined : unescapeCsvFormula(line[columnIndex]);
+          }
+        }
+        // The header is line 1
+        return { rowNumber: index + 2, values, isBlank: line.every((value) => !value.trim()) };
+      })
+      .filter((row) => !row.isBlank)
+      .map(({ rowNumber, values }) => ({ rowNumber, values }));
+
+    return { columns, mapping, rows };
+  }
+
+  const records = input.format === "marc21" ? parseMarc21(input.data) : parseMarcXml(input.data.toString("utf8"));
+  return {
+    columns: [],
+    mapping: {},
+    rows: records.map((record, index) => ({ rowNumber: index + 1, values: marcRecordToBookFields(record) })),
+  };
+}
+
+function parseWholeNumber(value: string): number | null {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Validates raw values and converts them to a new book
+ * @returns The book, or the reasons it can't be imported
+ */
+export function validateBookImportValues(values: BookImportValues): { book: CreateBookInput | null; errors: string[] } {
+  const errors: string[] = [];
+  const text = (field: BookImportField) => values[field]?.trim() || undefined;
+
+  const title = text("title");
+  // Credit lines are rewritten the way they are saved, so "Tolkien, J. R. R." matches "J. R. R. Tolkien"
+  const credits = parseAuthorCredit(text("author") ?? "");
+  if (!title) errors.push("Title is required");
+  if (credits.length === 0) errors.push("Author is required");
+  if (title && title.length > 500) errors.push("Title must be 500 characters or fewer");
+
+  const book: CreateBookInput = {
+    title: title ?? "",
+    author: formatAuthorCredit(credits),
+    description: text("description"),
+    summary: text("summary"),
+    publisher: text("publisher"),
+    genre: text("genre"),
+    language: text("language"),
+  };
+
+  const isbn = text("isbn");
+  if (isbn) {
+    book.isbn = normalizeIsbn(isbn);
+    if (!/^(\d{9}[\dX]|\d{13})$/.test(book.isbn)) {
+      errors.push(`ISBN "${isbn}" must have 10 or 13 digits`);
+    } else if (!isValidIsbn(book.isbn)) {
+      errors.push(`ISBN "${isbn}" has an invalid check digit`);
+    }
+  }
+
+  const year = text("publicationYear");
+  if (year) {
+    const parsed = parseWholeNumber(year);
+    if (parsed === null || parsed > new Date().getFullYear() + 1) {
+      errors.push(`Publication year "${year}" is not a valid year`);
+    } else {
+      book.publicationYear = parsed;
+    }
+  }
+
+  const pages = text("pageCount");
+  if (pages) {
+    const parsed = parseWholeNumber(pages);
+    if (!parsed) {
+      errors.push(`Page count "${pages}" must be a positive whole number`);
+    } else {
+      book.pageCount = parsed;
+    }
+  }
+
+  const copies = text("copyCount");
+  if (copies) {
+    const parsed = parseWholeNumber(copies);
+    if (parsed === null || parsed > 100) {
+      errors.push(`Copy count "${copies}" must be a whole number between 0 and 100`);
+    } else {
+      book.copyCount = parsed;
+    }
+  }
+
+  const tags = text("tags");
+  if (tags) {
+    book.tags = Array.from(new Set(tags.split(/[;|]/).map((tag) => tag.trim()))).filter(Boolean);
+    if (book.tags.length > MAX_TAGS) {
+      errors.push(`At most ${MAX_TAGS} tags are allowed`);
+    }
+  }
+
+  const coverImageUrl = text("coverImageUrl");
+  if (coverImageUrl) {
+    if (!/^https?:\/\/\S+$/i.test(coverImageUrl)) {
+      errors.push("Cover image URL must start with http:// or https://");
+    } else {
+      book.coverImageUrl = coverImageUrl;
+    }
+  }
+
+  return { book: errors.length === 0 ? book : null, errors };
+}
+
+/**
+ * Finds catalog books by ISBN, ignoring hyphens and spaces in stored ISBNs
+ * @returns Books keyed by normalized ISBN
+ */
+export async function findBooksByIsbn(isbns: string[]): Promise<Map<string, Book>> {
+  if (isbns.length === 0) {
+    return new Map();
+  }
+
+  const matches = await prisma.$queryRaw<{ id: string; isbn: string }[]>(Prisma.sql`
+    SELECT "id", regexp_replace(upper("isbn"), '[^0-9X]', '', 'g') AS "isbn"
+    FROM "Book"
+    WHERE regexp_replace(upper("isbn"), '[^0-9X]', '', 'g') IN (${Prisma.join(isbns)})
+  `);
+  const books = await prisma.book.findMany({
+    where: { id: { in: matches.map((match) => match.id) } },
+  });
+  const booksById = new Map(books.map((book) => [book.id, book]));
+
+  return new Map(matches.flatMap((match) => (booksById.has(match.id) ? [[match.isbn, booksById.get(match.id)!]] : [])));
+}
+
+/**
+ * Fields an import would change on an existing book; empty import values never clear a field
+ */
+function getBookImportChanges(existing: Book, book: CreateBookInput): BookImportChange[] {
+  return UPDATABLE_FIELDS.flatMap((field) => {
+    const to = book[field];
+    if (to === undefined || field === "isbn") return [];
+    const from = existing[field as keyof Book] as BookImportChange["from"];
+    const same = Array.isArray(to) ? JSON.stringify(to) === JSON.stringify(from) : to === from;
+    return same ? [] : [{ field, from, to } as BookImportChange];
+  });
+}
+
+/**
+ * Reads and validates an import file without saving anything
+ * Rows are checked for missing or malformed values and ISBNs already in the catalog or earlier in the file
+ */
+export async function previewBookImport(input: BookImportPreviewInput): Promise<BookImportPreview> {
+  const { columns, mapping, rows: rawRows } = readBookImportFile(input);
+
+  if (rawRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Files can have at most ${MAX_IMPORT_ROWS} rows; this one has ${rawRows.length}`);
+  }
+
+  const validated = rawRows.map(({ rowNumber, values }) => ({ rowNumber, ...validateBookImportValues(values) }));
+  const existingByIsbn = await findBooksByIsbn(
+    Array.from(new Set(validated.flatMap(({ book }) => (book?.isbn ? [book.isbn] : []))))
+  );
+  const firstRowByIsbn = new Map<string, number>();
+
+  const rows = validated.map(({ rowNumber, book, errors }): BookImportRow => {
+    if (!book) {
+      return { rowNumber, action: "invalid", book: null, errors };
+    }
+
+    if (book.isbn) {
+      const firstRow = firstRowByIsbn.get(book.isbn);
+      if (firstRow !== undefined) {
+        return {
+          rowNumber,
+          action: "invalid",
+          book: null,
+          errors: [`Duplicate ISBN ${book.isbn}, also on row ${firstRow}`],
+        };
+      }
+      firstRowByIsbn.set(book.isbn, rowNumber);
+    }
+
+    const existing = book.isbn ? existingByIsbn.get(book.isbn) : undefined;
+    if (!existing) {
+      return { rowNumber, action: "create", book, errors: [] };
+    }
+
+    const changes = getBookImportChanges(existing, book);
+    const action = input.duplicateStrategy === "update" && changes.length > 0 ? "update" : "skip";
+    return { rowNumber, action, book, errors: [], existingBookId: existing.id, changes };
+  });
+
+  const summary = { create: 0, update: 0, skip: 0, invalid: 0 };
+  for (const row of rows) {
+    summary[row.action]++;
+  }
+
+  return { columns, mapping, rows, summary };
+}
+
+async function importBookRow(
+  tx: Prisma.TransactionClient,
+  { rowNumber, book }: BookImportCommitRow,
+  existing: Book | undefined,
+  duplicateStrategy: BookImportDuplicateStrategy
+): Promise<BookImportResult> {
+  if (existing) {
+    if (duplicateStrategy === "skip") {
+      return { rowNumber, status: "skipped", bookId: existing.id };
+    }
+    const changes = getBookImportChanges(existing, book);
+    if (changes.length === 0) {
+      return { rowNumber, status: "skipped", bookId: existing.id };
+    }
+    const data: Prisma.BookUncheckedUpdateInput = Object.fromEntries(
+      changes.map((change) => [change.field, change.to])
+    );
+    if (typeof data.author === "string") {
+      const authors = await resolveBookAuthors(tx, parseAuthorCredit(data.author));
+      data.author = authors.credit;
+      data.authors = { deleteMany: {}, create: authors.authors };
+    }
+    if (data.publisher !== undefined) {
+      Object.assign(data, await resolvePublisher(tx, data.publisher as string | null));
+    }
+    // An imported genre becomes the book's first, ahead of the genres it already has
+    const otherGenres =
+      typeof data.genre === "string"
+        ? (
+            await tx.bookGenre.findMany({
+              where: { bookId: existing.id },
+              orderBy: { position: "asc" },
+              select: { genre: { select: { name: true } } },
+            })
+          ).map((link) => link.genre.name)
+        : [];
+    const genres = await resolveBookGenreUpdate(tx, existing, {
+      ...(typeof data.genre === "string" && { genres: [data.genre, ...otherGenres] }),
+      ...(Array.isArray(data.tags) && { tags: data.tags as string[] }),
+    });
+    if (genres) {
+      Object.assign(data, {
+        genre: genres.genre,
+        genres: { deleteMany: {}, create: genres.genres },
+        tags: genres.tags,
+      });
+    }
+    await tx.book.update({ where: { id: existing.id }, data });
+    return { rowNumber, status: "updated", bookId: existing.id };
+  }
+
+  const { copyCount = 1, ...data }: Pick<CreateBookInput, BookImportField> = book;
+  const authors = await resolveBookAuthors(tx, parseAuthorCredit(data.author));
+  const genres = await resolveBookGenres(tx, data.genre ? [data.genre] : [], data.tags);
+  const created = await tx.book.create({
+    data: {
+      ...data,
+      author: authors.credit,
+      authors: { create: authors.authors },
+      genre: genres.genre,
+      genres: { create: genres.genres },
+      tags: genres.tags,
+      ...(await resolvePublisher(tx, data.publisher)),
+      status: copyCount > 0 ? "AVAILABLE" : "CHECKED_OUT",
+      copies: {
+        create: Array.from({ length: copyCount }, () => ({
+          barcode: generateCopyBarcode(),
+        })),
+      },
+    },
+  });
+  return { rowNumber, status: "created", bookId: created.id };
+}
+
+/**
+ * Saves one batch of previewed rows in a single transaction
+ * Duplicates are looked up again, since the catalog may have changed since the preview.
+ * If the batch fails, each row is retried on its own so one bad row doesn't sink the rest.
+ */
+export async function commitBookImportBatch(
+  rows: BookImportCommitRow[],
+  duplicateStrategy: BookImportDuplicateStrategy
+): Promise<BookImportResult[]> {
+  const existingByIsbn = await findBooksByIsbn(rows.flatMap((row) => (row.book.isbn ? [row.book.isbn] : [])));
+  const findExisting = (row: BookImportCommitRow) => (row.book.isbn ? existingByIsbn.get(row.book.isbn) : undefined);
+
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const results: BookImportResult[] = [];
+        for (const row of rows) {
+          results.push(await importBookRow(tx, row, findExisting(row), duplicateStrategy));
+        }
+        return results;
+      },
+      { timeout: 60_000 }
+    );
+  } catch (batchError) {
+    console.warn("[Import] Batch failed, retrying rows individually:", batchError);
+  }
+
+  const results: BookImportResult[] = [];
+  for (const row of rows) {
+    try {
+      results.push(await prisma.$transaction((tx) => importBookRow(tx, row, findExisting(row), duplicateStrategy)));
+    } catch (error) {
+      results.push({
+        rowNumber: row.rowNumber,
+        status: "failed",
+        error:
+          error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+            ? "A book with this ISBN already exists"
+            : error instanceof Error
+              ? error.message
+              : "Unknown error",
+      });
+    }
+  }
+
+  return results;
+}
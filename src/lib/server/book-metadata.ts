@@ -0,0 +1,268 @@
+import { BOOK_METADATA_PROVIDERS, GOOGLE_BOOKS_API_KEY } from "./constants/env";
+import { toIsbn10, toIsbn13 } from "./isbn";
+import type {
+  BookMetadata,
+  BookMetadataField,
+  BookMetadataLookupResult,
+  BookMetadataMergeResult,
+  BookMetadataProvider,
+} from "./types/book-metadata";
+
+// How long a provider gets to answer before the lookup moves on
+const PROVIDER_TIMEOUT_MS = 5000;
+const MAX_TAGS = 10;
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+function cleanText(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  // Google Books descriptions can contain HTML
+  const text = value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+  return text || undefined;
+}
+
+function parseYear(value: unknown): number | undefined {
+  const year = typeof value === "string" ? value.match(/\d{4}/)?.[0] : undefined;
+  return year ? parseInt(year, 10) : undefined;
+}
+
+function uniqueTags(values: (string | undefined)[]): string[] | undefined {
+  const tags = Array.from(new Set(values.flatMap((value) => (value?.trim() ? [value.trim()] : [])))).slice(0, MAX_TAGS);
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Language name for an ISO 639 code, e.g. "en" or "eng" -> "English"
+ */
+function getLanguageName(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).hostname} responded ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+interface OpenLibraryBook {
+  title?: string;
+  subtitle?: string;
+  authors?: { name: string }[];
+  publishers?: { name: string }[];
+  publish_date?: string;
+  number_of_pages?: number;
+  subjects?: { name: string }[];
+  notes?: string | { value: string };
+  excerpts?: { text: string }[];
+  cover?: { small?: string; medium?: string; large?: string };
+}
+
+/**
+ * Open Library Books API (no key needed)
+ */
+export const openLibraryProvider: BookMetadataProvider = {
+  name: "openlibrary",
+
+  async lookupByIsbn(isbn13) {
+    const key = `ISBN:${isbn13}`;
+    const data = await fetchJson<Record<string, OpenLibraryBook>>(
+      `https://openlibrary.org/api/books?bibkeys=${key}&jscmd=data&format=json`
+    );
+    const book = data[key];
+    if (!book) return null;
+
+    const notes = typeof book.notes === "string" ? book.notes : book.notes?.value;
+
+    return {
+      title: [book.title, book.subtitle].filter(Boolean).join(": ") || undefined,
+      author: book.authors?.map((author) => author.name).join(", ") || undefined,
+      description: cleanText(notes) ?? cleanText(book.excerpts?.[0]?.text),
+      publisher: book.publishers?.[0]?.name,
+      publicationYear: parseYear(book.publish_date),
+      genre: book.subjects?.[0]?.name,
+      tags: uniqueTags(book.subjects?.map((subject) => subject.name) ?? []),
+      pageCount: book.number_of_pages,
+      coverImageUrl: book.cover?.large ?? book.cover?.medium,
+    };
+  },
+};
+
+interface GoogleBooksVolumes {
+  totalItems: number;
+  items?: {
+    volumeInfo: {
+      title?: string;
+      subtitle?: string;
+      authors?: string[];
+      publisher?: string;
+      publishedDate?: string;
+      description?: string;
+      pageCount?: number;
+      categories?: string[];
+      language?: string;
+      imageLinks?: { thumbnail?: string; smallThumbnail?: string };
+    };
+  }[];
+}
+
+/**
+ * Google Books API; GOOGLE_BOOKS_API_KEY raises the anonymous rate limit
+ */
+export const googleBooksProvider: BookMetadataProvider = {
+  name: "googlebooks",
+
+  async lookupByIsbn(isbn13) {
+    const params = new URLSearchParams({ q: `isbn:${isbn13}` });
+    if (GOOGLE_BOOKS_API_KEY) params.set("key", GOOGLE_BOOKS_API_KEY);
+    const data = await fetchJson<GoogleBooksVolumes>(`https://www.googleapis.com/books/v1/volumes?${params}`);
+    const volume = data.items?.[0]?.volumeInfo;
+    if (!volume) return null;
+
+    // Categories are paths, e.g. "Fiction / Fantasy / Epic"
+    const categories = volume.categories?.flatMap((category) => category.split("/").map((part) => part.trim())) ?? [];
+    const thumbnail = volume.imageLinks?.thumbnail ?? volume.imageLinks?.smallThumbnail;
+
+    return {
+      title: [volume.title, volume.subtitle].filter(Boolean).join(": ") || undefined,
+      author: volume.authors?.join(", ") || undefined,
+      description: cleanText(volume.description),
+      publisher: volume.publisher,
+      publicationYear: parseYear(volume.publishedDate),
+      genre: categories[categories.length - 1],
+      tags: uniqueTags(categories),
+      pageCount: volume.pageCount || undefined,
+      language: getLanguageName(volume.language),
+      coverImageUrl: thumbnail?.replace(/^http:/, "https:"),
+    };
+  },
+};
+
+/**
+ * Answers from a fixed set of records, for development and tests without network access
+ */
+export function createFixtureMetadataProvider(records: Record<string, BookMetadata>): BookMetadataProvider {
+  return {
+    name: "fixture",
+    async lookupByIsbn(isbn13) {
+      return records[isbn13] ?? null;
+    },
+  };
+}
+
+/**
+ * Sample records served by the "fixture" provider
+ */
+export const fixtureMetadataProvider = createFixtureMetadataProvider({
+  "9780547928227": {
+    title: "The Hobbit",
+    author: "J.R.R. Tolkien",
+    publisher: "Mariner Books",
+    publicationYear: 2012,
+    genre: "Fantasy",
+    tags: ["Fantasy", "Adventure", "Dragons"],
+    pageCount: 300,
+    language: "English",
+  },
+  "9780441478125": {
+    title: "The Left Hand of Darkness",
+    author: "Ursula K. Le Guin",
+    publisher: "Ace Books",
+    publicationYear: 1987,
+    genre: "Science Fiction",
+    tags: ["Science Fiction", "Gender"],
+    pageCount: 304,
+    language: "English",
+  },
+});
+
+const providersByName: Record<BookMetadataProvider["name"], BookMetadataProvider> = {
+  openlibrary: openLibraryProvider,
+  googlebooks: googleBooksProvider,
+  fixture: fixtureMetadataProvider,
+};
+
+/**
+ * Gets the providers selected by BOOK_METADATA_PROVIDERS, in lookup order
+ * Unknown names are ignored
+ */
+export function getBookMetadataProviders(): BookMetadataProvider[] {
+  return BOOK_METADATA_PROVIDERS.flatMap((name) =>
+    name in providersByName ? [providersByName[name as BookMetadataProvider["name"]]] : []
+  );
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (typeof value === "number") return isNaN(value);
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (Array.isArray(value) ? value.join(", ") : String(value)).trim().toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Fills the empty fields of the current values from looked-up metadata
+ * Anything staff have entered is kept, even when the provider disagrees
+ */
+export function mergeBookMetadata(
+  current: Partial<Record<BookMetadataField, unknown>>,
+  metadata: BookMetadata
+): BookMetadataMergeResult {
+  const result: BookMetadataMergeResult = { values: {}, filled: [], kept: [] };
+
+  for (const field of Object.keys(metadata) as BookMetadataField[]) {
+    const value = metadata[field];
+    if (isEmptyValue(value)) continue;
+
+    if (isEmptyValue(current[field])) {
+      Object.assign(result.values, { [field]: value });
+      result.filled.push(field);
+    } else if (!isSameValue(current[field], value)) {
+      result.kept.push(field);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Looks up an ISBN with each configured provider in turn
+ * Later providers only fill fields the earlier ones left empty. A failing provider is logged and skipped.
+ * @returns null when the ISBN is invalid or no provider has it
+ */
+export async function lookupBookMetadata(
+  isbn: string,
+  providers: BookMetadataProvider[] = getBookMetadataProviders()
+): Promise<BookMetadataLookupResult | null> {
+  const isbn13 = toIsbn13(isbn);
+  if (!isbn13) return null;
+
+  const result: BookMetadataLookupResult = { isbn13, isbn10: toIsbn10(isbn13), metadata: {}, sources: [] };
+
+  for (const provider of providers) {
+    try {
+      const metadata = await provider.lookupByIsbn(isbn13);
+      if (!metadata) continue;
+      Object.assign(result.metadata, mergeBookMetadata(result.metadata, metadata).values);
+      result.sources.push(provider.name);
+    } catch (error) {
+      console.error(`[Book Metadata] ${provider.name} lookup failed for ${isbn13}:`, error);
+    }
+  }
+
+  return result.sources.length > 0 ? result : null;
+}
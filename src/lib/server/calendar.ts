@@ -0,0 +1,287 @@
+import type { LibraryClosure, LibraryHours } from "@prisma/client";
+import { addDays, format } from "date-fns";
+import {
+  createClosureNotFoundError,
+  createInvalidClosureError,
+  createInvalidScheduleError,
+  type ApiError,
+} from "./errors";
+import { prisma } from "./prisma";
+import { rescheduleCheckoutReminder } from "./reminder";
+import type { CreateClosureInput, LibraryCalendar, WeeklyScheduleInput } from "./types/calendar";
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Longest closure that can be recorded in one entry
+ */
+const MAX_CLOSURE_DAYS = 366;
+
+/**
+ * Formats a date as a calendar day in server local time
+ */
+function toDayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Formats a closure date; @db.Date columns are returned as UTC midnight
+ */
+function toClosureKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a "yyyy-MM-dd" day into the UTC midnight value stored in @db.Date columns
+ */
+function parseDayKey(day: string): Date | null {
+  if (!DAY_KEY_PATTERN.test(day)) {
+    return null;
+  }
+
+  const date = new Date(`${day}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || toClosureKey(date) !== day ? null : date;
+}
+
+/**
+ * Builds a calendar from the weekly schedule and closures
+ * Days are compared in server local time; closure dates are the UTC midnight values of @db.Date columns
+ */
+export function createLibraryCalendar(
+  hours: Pick<LibraryHours, "dayOfWeek" | "isOpen">[],
+  closures: Pick<LibraryClosure, "startDate" | "endDate">[]
+): LibraryCalendar {
+  const closedWeekdays = new Set(hours.filter((day) => !day.isOpen).map((day) => day.dayOfWeek));
+  const closedRanges = closures.map((closure) => ({
+    start: toClosureKey(closure.startDate),
+    end: toClosureKey(closure.endDate),
+  }));
+
+  return {
+    isClosed(date: Date) {
+      if (closedWeekdays.has(date.getDay())) {
+        return true;
+      }
+
+      const day = toDayKey(date);
+      return closedRanges.some((range) => range.start <= day && day <= range.end);
+    },
+  };
+}
+
+/**
+ * Loads the weekly schedule and closures into a calendar for due date and overdue calculations
+ * @param since - Ignore closures that ended before this date
+ */
+export async function getLibraryCalendar(since?: Date): Promise<LibraryCalendar> {
+  const [hours, closures] = await Promise.all([
+    prisma.libraryHours.findMany({
+      where: { isOpen: false },
+    }),
+    prisma.libraryClosure.findMany({
+      where: since ? { endDate: { gte: parseDayKey(toDayKey(since)) ?? since } } : {},
+    }),
+  ]);
+
+  return createLibraryCalendar(hours, closures);
+}
+
+/**
+ * Rolls a date forward until it lands on a day the library is open
+ */
+export function getNextOpenDay(date: Date, calendar: LibraryCalendar): Date {
+  let day = date;
+  // Bounded so a misconfigured calendar can't loop forever
+  for (let i = 0; i < MAX_CLOSURE_DAYS && calendar.isClosed(day); i++) {
+    day = addDays(day, 1);
+  }
+  return day;
+}
+
+/**
+ * Gets the opening hours for each day of the week, Sunday first
+ * Days without a row are treated as open
+ */
+export async function getWeeklySchedule(): Promise<
+  Array<Pick<LibraryHours, "dayOfWeek" | "isOpen" | "opensAt" | "closesAt">>
+> {
+  const hours = await prisma.libraryHours.findMany({
+    orderBy: { dayOfWeek: "asc" },
+  });
+  const hoursByDay = new Map(hours.map((day) => [day.dayOfWeek, day]));
+
+  return Array.from({ length: 7 }, (_, dayOfWeek) => {
+    const day = hoursByDay.get(dayOfWeek);
+    return {
+      dayOfWeek,
+      isOpen: day?.isOpen ?? true,
+      opensAt: day?.opensAt ?? null,
+      closesAt: day?.closesAt ?? null,
+    };
+  });
+}
+
+/**
+ * Validates changes to the weekly schedule
+ * Checks: valid days and times, opening before closing, at least one open day
+ */
+export async function validateWeeklySchedule(days: WeeklyScheduleInput[]): Promise<ApiError | null> {
+  const seen = new Set<number>();
+
+  for (const day of days) {
+    if (!Number.isInteger(day.dayOfWeek) || day.dayOfWeek < 0 || day.dayOfWeek > 6) {
+      return createInvalidScheduleError("Day of week must be between 0 (Sunday) and 6 (Saturday)");
+    }
+
+    if (seen.has(day.dayOfWeek)) {
+      return createInvalidScheduleError("Each day of the week can only appear once");
+    }
+    seen.add(day.dayOfWeek);
+
+    if ((day.opensAt && !TIME_PATTERN.test(day.opensAt)) || (day.closesAt && !TIME_PATTERN.test(day.closesAt))) {
+      return createInvalidScheduleError("Opening hours must use the HH:mm format");
+    }
+
+    if (day.isOpen && day.opensAt && day.closesAt && day.opensAt >= day.closesAt) {
+      return createInvalidScheduleError("Opening time must be before closing time");
+    }
+  }
+
+  // Due dates roll forward to the next open day, so the library must open at least once a week
+  const current = await getWeeklySchedule();
+  const changes = new Map(days.map((day) => [day.dayOfWeek, day]));
+  const hasOpenDay = current.some((day) => changes.get(day.dayOfWeek)?.isOpen ?? day.isOpen);
+
+  if (!hasOpenDay) {
+    return createInvalidScheduleError("The library must be open at least one day a week");
+  }
+
+  return null;
+}
+
+/**
+ * Updates the opening hours for the given days of the week
+ */
+export async function updateWeeklySchedule(days: WeeklyScheduleInput[]) {
+  const error = await validateWeeklySchedule(days);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  await prisma.$transaction(
+    days.map((day) =>
+      prisma.libraryHours.upsert({
+        where: { dayOfWeek: day.dayOfWeek },
+        update: {
+          isOpen: day.isOpen,
+          opensAt: day.opensAt || null,
+          closesAt: day.closesAt || null,
+        },
+        create: {
+          dayOfWeek: day.dayOfWeek,
+          isOpen: day.isOpen,
+          opensAt: day.opensAt || null,
+          closesAt: day.closesAt || null,
+        },
+      })
+    )
+  );
+
+  return getWeeklySchedule();
+}
+
+/**
+ * Lists closures, soonest first
+ * @param upcoming - Only closures that haven't ended yet when true
+ */
+export async function getClosures(upcoming = true): Promise<LibraryClosure[]> {
+  return prisma.libraryClosure.findMany({
+    where: upcoming ? { endDate: { gte: parseDayKey(toDayKey(new Date())) ?? new Date() } } : {},
+    orderBy: { startDate: "asc" },
+  });
+}
+
+/**
+ * Validates a closure before it is recorded
+ * Checks: valid dates, end not before start, maximum length
+ */
+export function validateClosure(input: CreateClosureInput): ApiError | null {
+  const startDate = parseDayKey(input.startDate);
+  const endDate = parseDayKey(input.endDate || input.startDate);
+
+  if (!startDate || !endDate) {
+    return createInvalidClosureError("Dates must use the yyyy-MM-dd format");
+  }
+
+  if (endDate < startDate) {
+    return createInvalidClosureError("End date can't be before the start date");
+  }
+
+  const days = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  if (days > MAX_CLOSURE_DAYS) {
+    return createInvalidClosureError(`A closure can't be longer than ${MAX_CLOSURE_DAYS} days`);
+  }
+
+  return null;
+}
+
+/**
+ * Records a closure and rolls active loans due during it forward to the next open day
+ * Their due date reminders move with them; overdue notices follow from the new due date on the next sweep.
+ */
+export async function createClosure(input: CreateClosureInput): Promise<LibraryClosure> {
+  const error = validateClosure(input);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const startDate = parseDayKey(input.startDate)!;
+  const endDate = parseDayKey(input.endDate || input.startDate)!;
+
+  const closure = await prisma.libraryClosure.create({
+    data: {
+      startDate,
+      endDate,
+      reason: input.reason?.trim() || null,
+    },
+  });
+
+  // Loans already due on a newly closed day would otherwise fall due while nobody can return them
+  const calendar = await getLibraryCalendar(startDate);
+  const affectedCheckouts = await prisma.checkout.findMany({
+    where: {
+      returnedDate: null,
+      dueDate: { gte: addDays(startDate, -1), lt: addDays(endDate, 2) },
+    },
+  });
+
+  for (const checkout of affectedCheckouts) {
+    if (!calendar.isClosed(checkout.dueDate)) {
+      continue;
+    }
+
+    const dueDate = getNextOpenDay(checkout.dueDate, calendar);
+    await prisma.checkout.update({
+      where: { id: checkout.id },
+      data: { dueDate },
+    });
+    await rescheduleCheckoutReminder(checkout, dueDate);
+  }
+
+  return closure;
+}
+
+/**
+ * Deletes a closure
+ * Due dates that were rolled forward because of it are left as they are
+ */
+export async function deleteClosure(closureId: string): Promise<void> {
+  const deleted = await prisma.libraryClosure.deleteMany({
+    where: { id: closureId },
+  });
+
+  if (deleted.count === 0) {
+    throw new Error(createClosureNotFoundError(closureId).message);
+  }
+}
@@ -0,0 +1,274 @@
+import sharp from "sharp";
+import { readBookCover } from "./covers";
+import { writePdfBook } from "./pdf";
+import { prisma } from "./prisma";
+import type { ChapterExportFormat } from "./types/book-export";
+import { writeZip } from "./zip";
+
+export const CHAPTER_EXPORT_FORMATS: readonly ChapterExportFormat[] = ["epub", "pdf"];
+
+export function isChapterExportFormat(value: unknown): value is ChapterExportFormat {
+  return typeof value === "string" && (CHAPTER_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const CHAPTER_EXPORT_FILE_TYPES: Record<ChapterExportFormat, { contentType: string; extension: string }> = {
+  epub: { contentType: "application/epub+zip", extension: "epub" },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+};
+
+// Covers are scaled down to this width before embedding, which is plenty for a reading device
+const EXPORT_COVER_WIDTH = 800;
+
+// Book.language holds names like "English"; EPUB needs a language code
+const LANGUAGE_CODES = ["en", "es", "fr", "de", "it", "pt", "nl", "ru", "ja", "zh", "ko", "ar"];
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+export interface ChapterExport {
+  data: Buffer;
+  fileName: string; // Without the extension, e.g. "the-hobbit"
+}
+
+type ExportBook = NonNullable<Awaited<ReturnType<typeof findExportBook>>>;
+
+function findExportBook(bookId: string) {
+  return prisma.book.findUnique({
+    where: { id: bookId },
+    select: {
+      id: true,
+      title: true,
+      author: true,
+      isbn: true,
+      description: true,
+      publisher: true,
+      publicationYear: true,
+      language: true,
+      coverImageUrl: true,
+      coverImages: true,
+      updatedAt: true,
+      chapters: { select: { id: true, title: true, content: true }, orderBy: { order: "asc" } },
+    },
+  });
+}
+
+function getLanguageCode(language: string | null): string {
+  if (!language) return "en";
+  if (/^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(language)) return language;
+  return LANGUAGE_CODES.find((code) => languageNames.of(code)?.toLowerCase() === language.toLowerCase()) ?? "en";
+}
+
+// Paragraphs are separated by blank lines; single line breaks within one are kept
+function toParagraphs(content: string | null): string[] {
+  return (content ?? "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The cover as a JPEG (the image format every EPUB reader and PDF viewer supports), or null without one
+ */
+async function loadExportCover(book: ExportBook): Promise<{ jpeg: Buffer; width: number; height: number } | null> {
+  const image = await readBookCover(book);
+  if (!image) return null;
+
+  try {
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize({ width: EXPORT_COVER_WIDTH, withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .toColourspace("srgb")
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    return { jpeg: data, width: info.width, height: info.height };
+  } catch {
+    // An unreadable cover shouldn't stop the download
+    return null;
+  }
+}
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const EPUB_STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 2em 0 1em; }
+p { margin: 0 0 0.8em; text-align: justify; }
+.title-page { text-align: center; margin-top: 30%; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+`;
+
+/**
+ * Writes a book as an EPUB 3 package: cover, title page, navigation document (the table of contents)
+ * and one XHTML document per chapter
+ */
+function writeEpub(book: ExportBook, cover: Awaited<ReturnType<typeof loadExportCover>>): Buffer {
+  const language = getLanguageCode(book.language);
+  const identifier = book.isbn ? `urn:isbn:${book.isbn}` : `urn:library:book:${book.id}`;
+  const modified = book.updatedAt.toISOString().replace(/\.\d+Z$/, "Z");
+  const chapterFile = (index: number) => `chapter-${String(index + 1).padStart(3, "0")}.xhtml`;
+
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="style" href="style.css" media-type="text/css"/>`,
+    `<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>`,
+    ...(cover
+      ? [
+          `<item id="cover-image" href="cover.jpg" media-type="image/jpeg" properties="cover-image"/>`,
+          `<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`,
+        ]
+      : []),
+    ...book.chapters.map(
+      (_, index) => `<item id="chapter-${index + 1}" href="${chapterFile(index)}" media-type="application/xhtml+xml"/>`
+    ),
+  ];
+  const spine = [
+    ...(cover ? [`<itemref idref="cover"/>`] : []),
+    `<itemref idref="title-page"/>`,
+    `<itemref idref="nav"/>`,
+    ...book.chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+  ];
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(book.title)}</dc:title>`,
+    `<dc:creator>${escapeXml(book.author)}</dc:creator>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    book.publisher && `<dc:publisher>${escapeXml(book.publisher)}</dc:publisher>`,
+    book.publicationYear && `<dc:date>${book.publicationYear}</dc:date>`,
+    book.description && `<dc:description>${escapeXml(book.description)}</dc:description>`,
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    cover && `<meta name="cover" content="cover-image"/>`, // For EPUB 2 readers
+  ].filter(Boolean);
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join("\n")}
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`;
+
+  const nav = xhtmlDocument(
+    "Contents",
+    language,
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${book.chapters.map((chapter, index) => `<li><a href="${chapterFile(index)}">${escapeXml(chapter.title)}</a></li>`).join("\n")}
+</ol>
+</nav>`
+  );
+
+  const titlePage = xhtmlDocument(
+    book.title,
+    language,
+    `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(book.title)}</h1>
+<p>${escapeXml(book.author)}</p>${book.publisher ? `\n<p>${escapeXml(book.publisher)}</p>` : ""}
+</section>`
+  );
+
+  return writeZip([
+    // The mimetype file must come first, uncompressed, so readers can identify the file
+    { name: "mimetype", data: "application/epub+zip", store: true },
+    {
+      name: "META-INF/container.xml",
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    },
+    { name: "OEBPS/content.opf", data: packageDocument },
+    { name: "OEBPS/nav.xhtml", data: nav },
+    { name: "OEBPS/style.css", data: EPUB_STYLESHEET },
+    { name: "OEBPS/title.xhtml", data: titlePage },
+    ...(cover
+      ? [
+          { name: "OEBPS/cover.jpg", data: cover.jpeg, store: true }, // JPEG is already compressed
+          {
+            name: "OEBPS/cover.xhtml",
+            data: xhtmlDocument(
+              "Cover",
+              language,
+              `<section class="cover" epub:type="cover">
+<img src="cover.jpg" alt="${escapeXml(book.title)}" width="${cover.width}" height="${cover.height}"/>
+</section>`
+            ),
+          },
+        ]
+      : []),
+    ...book.chapters.map((chapter, index) => ({
+      name: `OEBPS/${chapterFile(index)}`,
+      data: xhtmlDocument(
+        chapter.title,
+        language,
+        `<section epub:type="chapter">
+<h1>${escapeXml(chapter.title)}</h1>
+${toParagraphs(chapter.content)
+  .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, "<br/>")}</p>`)
+  .join("\n")}
+</section>`
+      ),
+    })),
+  ]);
+}
+
+/**
+ * Assembles a book's chapters, in order, into an EPUB 3 or PDF file for reading offline
+ * Both include the cover (when there is one), a title page and a table of contents.
+ * @returns null when the book doesn't exist
+ */
+export async function exportBookChapters(bookId: string, format: ChapterExportFormat): Promise<ChapterExport | null> {
+  const book = await findExportBook(bookId);
+  if (!book) return null;
+
+  const cover = await loadExportCover(book);
+  const data =
+    format === "epub"
+      ? writeEpub(book, cover)
+      : writePdfBook({
+          title: book.title,
+          author: book.author,
+          subtitle: [book.publisher, book.publicationYear].filter(Boolean).join(", "),
+          cover,
+          sections: book.chapters.map((chapter) => ({
+            title: chapter.title,
+            paragraphs: toParagraphs(chapter.content),
+          })),
+        });
+
+  const fileName = book.title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Accents, split off by normalizing
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80);
+  return { data, fileName: fileName || "book" };
+}
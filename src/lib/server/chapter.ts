@@ -0,0 +1,377 @@
+import { Prisma } from "@prisma/client";
+import { posix } from "path";
+import { createInvalidChapterOrderError, type ApiError } from "./errors";
+import { prisma } from "./prisma";
+import type { ChapterImportFormat, ImportedChapter } from "./types/book";
+import { openZip } from "./zip";
+
+export const CHAPTER_IMPORT_FORMATS: readonly ChapterImportFormat[] = ["text", "markdown", "epub"];
+
+// Most chapters one import can create
+export const MAX_IMPORTED_CHAPTERS = 500;
+
+// Title for text that comes before the first heading, e.g. a dedication
+const FRONT_MATTER_TITLE = "Front Matter";
+
+const NUMBER_WORDS =
+  "one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred";
+
+// Lines that start a chapter in plain text: "Chapter 12", "CHAPTER TWENTY-ONE", "Part IV: The Return", "Prologue"
+const TEXT_HEADING_PATTERN = new RegExp(
+  `^(?:(?:chapter|part|book)\\s+(?:\\d+|[ivxlcdm]+|(?:${NUMBER_WORDS})(?:[-\\s](?:${NUMBER_WORDS}))?)\\b.*|(?:prologue|epilogue|preface|foreword|introduction|afterword|interlude)\\b.*)$`,
+  "i"
+);
+
+const MAX_HEADING_LENGTH = 100;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+function cleanChapterText(lines: string[]): string {
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Splits plain text into chapters at lines like "Chapter 3", "Part II" or "Epilogue" that stand on their own
+ * A short line right after such a heading is taken as the chapter's name, e.g. "Chapter 3: The Storm".
+ */
+export function splitTextIntoChapters(text: string): ImportedChapter[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const chapters: ImportedChapter[] = [];
+  let title = FRONT_MATTER_TITLE;
+  let body: string[] = [];
+
+  const addChapter = () => {
+    const content = cleanChapterText(body);
+    if (content || title !== FRONT_MATTER_TITLE) chapters.push({ title, content });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const startsParagraph = i === 0 || !lines[i - 1].trim();
+    if (!startsParagraph || line.length > MAX_HEADING_LENGTH || !TEXT_HEADING_PATTERN.test(line)) {
+      body.push(lines[i]);
+      continue;
+    }
+
+    addChapter();
+    title = line;
+    body = [];
+
+    // "CHAPTER 3" / "The Storm" / blank line
+    const next = lines[i + 1]?.trim();
+    if (next && next.length <= MAX_HEADING_LENGTH / 2 && !/[.!?,;]$/.test(next) && !lines[i + 2]?.trim()) {
+      title = `${line.replace(/[.:]$/, "")}: ${next}`;
+      i++;
+    }
+  }
+  addChapter();
+
+  return chapters.length > 0 ? chapters : [{ title: "Chapter 1", content: cleanChapterText(lines) }];
+}
+
+/**
+ * Markdown without its markup, for storing as chapter text
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+(.*?)\s*#*$/gm, "$1")
+    .replace(/^>\s?/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "");
+}
+
+/**
+ * Splits Markdown into chapters at its headings
+ * Uses the highest heading level that occurs more than once, so a single "# Book Title" above "## Chapter"
+ * headings doesn't become a chapter of its own. Headings inside code blocks are ignored.
+ */
+export function splitMarkdownIntoChapters(markdown: string): ImportedChapter[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const headings: { line: number; level: number; title: string; underlined: boolean }[] = [];
+  let inCode = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    if (inCode) return;
+
+    const atx = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (atx) {
+      headings.push({ line: index, level: atx[1].length, title: atx[2], underlined: false });
+    } else if (
+      index > 0 &&
+      lines[index - 1].trim() &&
+      /^(=+|-+)\s*$/.test(line) &&
+      !/^\s*[-*]\s/.test(lines[index - 1])
+    ) {
+      headings.push({
+        line: index - 1,
+        level: line.startsWith("=") ? 1 : 2,
+        title: lines[index - 1].trim(),
+        underlined: true,
+      });
+    }
+  });
+
+  if (headings.length === 0) {
+    return [{ title: "Chapter 1", content: cleanChapterText([markdownToText(markdown)]) }];
+  }
+
+  const counts = new Map<number, number>();
+  for (const heading of headings) counts.set(heading.level, (counts.get(heading.level) ?? 0) + 1);
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  const level = levels.find((candidate) => counts.get(candidate)! > 1) ?? levels[0];
+  const splits = headings.filter((heading) => heading.level === level);
+
+  const chapters: ImportedChapter[] = [];
+  const front = markdownToText(lines.slice(0, splits[0].line).join("\n"));
+  // Drop the book's own title heading when nothing else comes before the first chapter
+  const frontHeadings = headings.filter((heading) => heading.line < splits[0].line);
+  const frontBody = cleanChapterText(
+    front.split("\n").filter((line) => !frontHeadings.some((heading) => heading.title === line.trim()))
+  );
+  if (frontBody) {
+    chapters.push({ title: FRONT_MATTER_TITLE, content: cleanChapterText([front]) });
+  }
+
+  splits.forEach((heading, index) => {
+    const start = heading.line + (heading.underlined ? 2 : 1);
+    const end = splits[index + 1]?.line ?? lines.length;
+    chapters.push({
+      title: markdownToText(heading.title).trim(),
+      content: cleanChapterText([markdownToText(lines.slice(start, end).join("\n"))]),
+    });
+  });
+
+  return chapters;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? decodeEntities(match[2] ?? match[3]) : null;
+}
+
+/**
+ * XHTML from an EPUB as Markdown: headings become "#" lines and block elements become paragraphs
+ */
+function xhtmlToMarkdown(xhtml: string): string {
+  const body = xhtml.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? xhtml;
+
+  return decodeEntities(
+    body
+      .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, title: string) => {
+        const text = title
+          .replace(/<[^>]+>/g, " ")
+          .replace(/\s+/g, " ")
+          .trim();
+        return text ? `\n\n${"#".repeat(Number(level))} ${text}\n\n` : "";
+      })
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|blockquote|section|tr)>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/[ \t\f\v]+/g, " ")
+      .replace(/ *\n */g, "\n")
+  );
+}
+
+/**
+ * Reads an EPUB's documents in reading order (its spine) as Markdown, one entry per document
+ */
+function readEpubDocuments(data: Buffer): { title: string | null; markdown: string }[] {
+  const zip = openZip(data);
+  const container = zip.read("META-INF/container.xml")?.toString("utf8");
+  const rootfileTag = container?.match(/<rootfile\b[^>]*>/i)?.[0];
+  const packagePath = rootfileTag ? getAttribute(rootfileTag, "full-path") : null;
+  const opf = packagePath ? zip.read(packagePath)?.toString("utf8") : null;
+  if (!packagePath || !opf) {
+    throw new Error("Not an EPUB file: the package document is missing");
+  }
+
+  const manifest = new Map<string, string>();
+  for (const tag of opf.match(/<item\b[^>]*>/gi) ?? []) {
+    const id = getAttribute(tag, "id");
+    const href = getAttribute(tag, "href");
+    if (id && href) manifest.set(id, href);
+  }
+
+  const packageDir = posix.dirname(packagePath);
+  const documents: { title: string | null; markdown: string }[] = [];
+  for (const tag of opf.match(/<itemref\b[^>]*>/gi) ?? []) {
+    const href = manifest.get(getAttribute(tag, "idref") ?? "");
+    if (!href || getAttribute(tag, "linear") === "no") continue;
+
+    const path = posix.normalize(
+      posix.join(packageDir === "." ? "" : packageDir, decodeURIComponent(href.split("#")[0]))
+    );
+    const xhtml = zip.read(path)?.toString("utf8");
+    if (!xhtml) continue;
+
+    const title = xhtml.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    documents.push({ title: title ? decodeEntities(title).trim() || null : null, markdown: xhtmlToMarkdown(xhtml) });
+  }
+
+  if (documents.length === 0) {
+    throw new Error("The EPUB has no readable documents");
+  }
+  return documents;
+}
+
+/**
+ * Splits an EPUB into chapters at its headings, or one chapter per document when it has none
+ */
+export function splitEpubIntoChapters(data: Buffer): ImportedChapter[] {
+  const documents = readEpubDocuments(data);
+  const markdown = documents.map((document) => document.markdown).join("\n\n");
+
+  if (/^#{1,6} /m.test(markdown)) {
+    return splitMarkdownIntoChapters(markdown);
+  }
+
+  return documents
+    .map((document, index) => ({
+      title: document.title || `Chapter ${index + 1}`,
+      content: cleanChapterText([document.markdown]),
+    }))
+    .filter((chapter) => chapter.content);
+}
+
+/**
+ * Splits an uploaded or pasted manuscript into chapters by its headings
+ * @throws When the file can't be read, e.g. a damaged EPUB, or it has more than MAX_IMPORTED_CHAPTERS chapters
+ */
+export function splitManuscript(data: Buffer, format: ChapterImportFormat): ImportedChapter[] {
+  const chapters =
+    format === "epub"
+      ? splitEpubIntoChapters(data)
+      : format === "markdown"
+        ? splitMarkdownIntoChapters(data.toString("utf8"))
+        : splitTextIntoChapters(data.toString("utf8"));
+
+  if (chapters.length > MAX_IMPORTED_CHAPTERS) {
+    throw new Error(`Found ${chapters.length} chapters; an import can add up to ${MAX_IMPORTED_CHAPTERS}`);
+  }
+  return chapters;
+}
+
+/**
+ * Saves imported chapters after the book's existing ones, or in place of them
+ * @returns The number of chapters created
+ */
+export async function importChapters(
+  bookId: string,
+  chapters: ImportedChapter[],
+  { replace = false }: { replace?: boolean } = {}
+): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    if (replace) {
+      await tx.chapter.deleteMany({ where: { bookId } });
+    }
+    const start = await getNextChapterOrder(bookId, tx);
+
+    const created = await tx.chapter.createMany({
+      data: chapters.map((chapter, index) => ({
+        bookId,
+        title: chapter.title,
+        content: chapter.content || null,
+        order: start + index,
+      })),
+    });
+    return created.count;
+  });
+}
+
+/**
+ * Checks that a new chapter order lists each of the book's chapters exactly once
+ * @returns An error if it doesn't, null otherwise
+ */
+export async function validateChapterOrder(bookId: string, chapterIds: string[]): Promise<ApiError | null> {
+  if (new Set(chapterIds).size !== chapterIds.length) {
+    return createInvalidChapterOrderError("Each chapter can only appear once", bookId);
+  }
+
+  const chapters = await prisma.chapter.findMany({ where: { bookId }, select: { id: true } });
+  if (chapters.length !== chapterIds.length || chapters.some((chapter) => !chapterIds.includes(chapter.id))) {
+    return createInvalidChapterOrderError(
+      "The new order must list every chapter of the book; reload the page if chapters were added or removed",
+      bookId
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Numbers a book's chapters 1, 2, 3... in the given order
+ * Run inside a transaction: chapters first move past every current order, then to their places, so no two
+ * share an order between the updates. Each is a single statement, so the search vector is rebuilt once per step.
+ */
+export async function applyChapterOrder(
+  bookId: string,
+  chapterIds: string[],
+  client: Pick<Prisma.TransactionClient, "$executeRaw">
+): Promise<void> {
+  if (chapterIds.length === 0) return;
+  const positions = Prisma.join(chapterIds.map((id, index) => Prisma.sql`(${id}, ${index + 1}::int)`));
+
+  await client.$executeRaw`
+    UPDATE "Chapter" AS c
+    SET "order" = v."position" + (
+      SELECT GREATEST(MAX("order"), ${chapterIds.length}::int) FROM "Chapter" WHERE "bookId" = ${bookId}
+    )
+    FROM (VALUES ${positions}) AS v("id", "position")
+    WHERE c."id" = v."id" AND c."bookId" = ${bookId}
+  `;
+  await client.$executeRaw`
+    UPDATE "Chapter" AS c
+    SET "order" = v."position"
+    FROM (VALUES ${positions}) AS v("id", "position")
+    WHERE c."id" = v."id" AND c."bookId" = ${bookId}
+  `;
+}
+
+/**
+ * Numbers a book's chapters 1, 2, 3... in the given order, all at once
+ */
+export async function reorderChapters(bookId: string, chapterIds: string[]): Promise<void> {
+  await prisma.$transaction((tx) => applyChapterOrder(bookId, chapterIds, tx));
+}
+
+/**
+ * The order after a book's last chapter, for chapters added without one
+ */
+export async function getNextChapterOrder(bookId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+  const last = await client.chapter.aggregate({ where: { bookId }, _max: { order: true } });
+  return (last._max.order ?? 0) + 1;
+}
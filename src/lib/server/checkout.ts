@@ -1,14 +1,42 @@
-import type { Checkout } from "@prisma/client";
-import { createBookAlreadyCheckedOutError, createCheckoutLimitExceededError } from "./errors";
+import { Prisma, type Checkout } from "@prisma/client";
+import { addDays } from "date-fns";
+import { getLibraryCalendar, getNextOpenDay } from "./calendar";
+import { FINES_BLOCK_THRESHOLD } from "./constants/env";
+import { syncBookStatus } from "./copy";
+import {
+  createBookAlreadyCheckedOutError,
+  createCheckoutLimitExceededError,
+  createGenreCheckoutLimitExceededError,
+  createCopyNotFoundError,
+  createCopyUnavailableError,
+  createCheckoutAlreadyReturnedError,
+  createCheckoutNotFoundError,
+  createRenewalBlockedByHoldError,
+  createRenewalLimitReachedError,
+  createRenewalNotAllowedError,
+  createOutstandingBalanceError,
+  type ApiError,
+} from "./errors";
+import { chargeLateFee, getUserBalance } from "./finance";
+import { BOOK_GENRE_LINEAGE_INCLUDE, genreLineageIncludes, getGenreLineage } from "./genre";
+import { assignCopyToNextHold, expireReadyHolds, getHoldQueueLength, notifyHoldReady, releaseHeldCopy } from "./hold";
+import { resolveCirculationPolicy } from "./policy";
 import { prisma } from "./prisma";
-import { cancelCheckoutReminder, scheduleCheckoutReminder } from "./qstash";
-import type { CheckoutValidationResult, CreateCheckoutInput } from "./types/checkout";
+import { cancelCheckoutReminder, rescheduleCheckoutReminder, scheduleCheckoutReminder } from "./reminder";
+import type { LibraryCalendar } from "./types/calendar";
+import type { CheckoutValidationResult, CreateCheckoutInput, RenewCheckoutInput } from "./types/checkout";
+import type { LateFeeTerms } from "./types/policy";
 
 /**
  * Validates if a user can checkout a book
- * Checks: user checkout limit, book availability
+ * Checks: outstanding fines, checkout limits from the circulation policy (falling back to the user's own limit),
+ * copy availability (including copies held for the user)
  */
-export async function validateCheckout(userId: string, bookId: string): Promise<CheckoutValidationResult> {
+export async function validateCheckout(
+  userId: string,
+  bookId: string,
+  copyId?: string
+): Promise<CheckoutValidationResult> {
   // Get user with their current checkouts
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -17,6 +45,11 @@ export async function validateCheckout(userId: string, bookId: string): Promise<
         where: {
           returnedDate: null, // Only count active checkouts
         },
+        include: {
+          book: {
+            select: { genres: BOOK_GENRE_LINEAGE_INCLUDE },
+          },
+        },
       },
     },
   });
@@ -36,27 +69,27 @@ export async function validateCheckout(userId: string, bookId: string): Promise<
     };
   }
 
-  // Check checkout limit
-  const currentCheckouts = user.checkouts.length;
-  if (currentCheckouts >= user.maxCheckoutLimit) {
+  // Block new checkouts while fines are above the threshold, counting late fees building up on overdue loans
+  // that are only charged to the ledger when the book comes back
+  const now = new Date();
+  const overdueCheckouts = user.checkouts.filter((checkout) => checkout.dueDate < now);
+  let accruedLateFees = 0;
+  if (overdueCheckouts.length > 0) {
+    const earliestDueDate = new Date(Math.min(...overdueCheckouts.map((checkout) => checkout.dueDate.getTime())));
+    accruedLateFees = calculateAccruedLateFees(overdueCheckouts, await getLibraryCalendar(earliestDueDate), now);
+  }
+  const balance = Number(((await getUserBalance(userId)) + accruedLateFees).toFixed(2));
+  if (balance > FINES_BLOCK_THRESHOLD) {
     return {
       valid: false,
-      error: createCheckoutLimitExceededError(currentCheckouts, user.maxCheckoutLimit).message,
-      currentCheckouts,
-      maxCheckouts: user.maxCheckoutLimit,
+      error: createOutstandingBalanceError(balance, FINES_BLOCK_THRESHOLD, accruedLateFees).message,
     };
   }
 
-  // Check if book exists and is available
+  // Check if book exists
   const book = await prisma.book.findUnique({
     where: { id: bookId },
-    include: {
-      checkouts: {
-        where: {
-          returnedDate: null, // Check for active checkouts
-        },
-      },
-    },
+    include: { genres: BOOK_GENRE_LINEAGE_INCLUDE },
   });
 
   if (!book) {
@@ -66,14 +99,75 @@ export async function validateCheckout(userId: string, bookId: string): Promise<
     };
   }
 
-  // Check if book is already checked out
-  if (book.status === "CHECKED_OUT" || book.checkouts.length > 0) {
+  // Check checkout limit
+  const policy = await resolveCirculationPolicy(userId, getGenreLineage(book.genres));
+  const maxCheckouts = policy.checkoutLimit ?? user.maxCheckoutLimit;
+  const currentCheckouts = user.checkouts.length;
+  if (currentCheckouts >= maxCheckouts) {
     return {
       valid: false,
-      error: createBookAlreadyCheckedOutError(bookId).message,
+      error: createCheckoutLimitExceededError(currentCheckouts, maxCheckouts).message,
+      currentCheckouts,
+      maxCheckouts,
     };
   }
 
+  // Check the genre limit, if the patron's policy caps this genre
+  if (policy.genre && policy.genreCheckoutLimit !== null) {
+    // Loans count toward the genre when any of their book's genres is it or sits below it
+    const genre = policy.genre;
+    const genreCheckouts = user.checkouts.filter((checkout) =>
+      genreLineageIncludes(getGenreLineage(checkout.book.genres), genre)
+    );
+    if (genreCheckouts.length >= policy.genreCheckoutLimit) {
+      return {
+        valid: false,
+        error: createGenreCheckoutLimitExceededError(policy.genre, genreCheckouts.length, policy.genreCheckoutLimit)
+          .message,
+        currentCheckouts,
+        maxCheckouts,
+      };
+    }
+  }
+
+  // A copy set aside for this user's hold can be borrowed even though it isn't AVAILABLE
+  const readyHold = await prisma.hold.findFirst({
+    where: { userId, bookId, status: "READY" },
+  });
+
+  // Check that the requested copy (or any copy) can be borrowed
+  if (copyId) {
+    const copy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+    });
+
+    if (!copy || copy.bookId !== bookId) {
+      return {
+        valid: false,
+        error: createCopyNotFoundError(copyId).message,
+      };
+    }
+
+    const isHeldForUser = copy.status === "ON_HOLD" && readyHold?.copyId === copyId;
+    if (copy.status !== "AVAILABLE" && !isHeldForUser) {
+      return {
+        valid: false,
+        error: createCopyUnavailableError(copyId).message,
+      };
+    }
+  } else {
+    const availableCopies = await prisma.bookCopy.count({
+      where: { bookId, status: "AVAILABLE" },
+    });
+
+    if (availableCopies === 0 && !readyHold) {
+      return {
+        valid: false,
+        error: createBookAlreadyCheckedOutError(bookId).message,
+      };
+    }
+  }
+
   // Check if user already has this book checked out
   const userHasBook = user.checkouts.some((checkout) => checkout.bookId === bookId);
   if (userHasBook) {
@@ -86,26 +180,41 @@ export async function validateCheckout(userId: string, bookId: string): Promise<
   return {
     valid: true,
     currentCheckouts,
-    maxCheckouts: user.maxCheckoutLimit,
+    maxCheckouts,
   };
 }
 
 /**
  * Calculates the due date based on checkout date and max duration
+ * With a calendar, due dates that land on a closed day roll forward to the next open day
  */
-export function calculateDueDate(checkoutDate: Date, maxDurationDays: number): Date {
+export function calculateDueDate(checkoutDate: Date, maxDurationDays: number, calendar?: LibraryCalendar): Date {
   const dueDate = new Date(checkoutDate);
   dueDate.setDate(dueDate.getDate() + maxDurationDays);
-  return dueDate;
+  return calendar ? getNextOpenDay(dueDate, calendar) : dueDate;
+}
+
+/**
+ * Gets the late fee terms stored on a checkout
+ */
+export function getLateFeeTerms(checkout: Pick<Checkout, "graceDays" | "maxLateFee">): LateFeeTerms {
+  return {
+    graceDays: checkout.graceDays,
+    maxLateFee: checkout.maxLateFee === null ? null : Number(checkout.maxLateFee),
+  };
 }
 
 /**
  * Calculates late fees for an overdue checkout
+ * Fees start accruing once the grace period has passed and never exceed the fee cap
+ * With a calendar, days the library is closed don't count as overdue days
  */
 export function calculateLateFees(
   dueDate: Date,
   lateFeePerDay: number,
-  returnDate?: Date | null
+  returnDate?: Date | null,
+  terms: LateFeeTerms = {},
+  calendar?: LibraryCalendar
 ): {
   isOverdue: boolean;
   overdueDays: number;
@@ -114,7 +223,17 @@ export function calculateLateFees(
   const now = returnDate || new Date();
   const daysDiff = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
 
-  if (daysDiff <= 0) {
+  let overdueDays = daysDiff;
+  if (calendar && daysDiff > 0) {
+    overdueDays = 0;
+    for (let day = 1; day <= daysDiff; day++) {
+      if (!calendar.isClosed(addDays(dueDate, day))) {
+        overdueDays++;
+      }
+    }
+  }
+
+  if (overdueDays <= 0) {
     return {
       isOverdue: false,
       overdueDays: 0,
@@ -122,15 +241,36 @@ export function calculateLateFees(
     };
   }
 
-  const lateFeeAmount = daysDiff * lateFeePerDay;
+  const chargeableDays = Math.max(0, overdueDays - (terms.graceDays ?? 0));
+  const lateFee = chargeableDays * lateFeePerDay;
+  const lateFeeAmount = terms.maxLateFee != null ? Math.min(lateFee, terms.maxLateFee) : lateFee;
 
   return {
     isOverdue: true,
-    overdueDays: daysDiff,
+    overdueDays,
     lateFeeAmount: Number(lateFeeAmount.toFixed(2)),
   };
 }
 
+/**
+ * Totals the late fees accrued so far on loans that haven't been returned
+ * These reach the ledger only on return, so balance checks add them on top
+ */
+export function calculateAccruedLateFees(
+  checkouts: Pick<Checkout, "dueDate" | "lateFeePerDay" | "graceDays" | "maxLateFee">[],
+  calendar?: LibraryCalendar,
+  now: Date = new Date()
+): number {
+  const total = checkouts.reduce(
+    (sum, checkout) =>
+      sum +
+      calculateLateFees(checkout.dueDate, Number(checkout.lateFeePerDay), now, getLateFeeTerms(checkout), calendar)
+        .lateFeeAmount,
+    0
+  );
+  return Number(total.toFixed(2));
+}
+
 /**
  * Checks and updates overdue status for a checkout
  */
@@ -143,7 +283,14 @@ export async function checkOverdueStatus(checkoutId: string): Promise<Checkout |
     return checkout;
   }
 
-  const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(checkout.dueDate, Number(checkout.lateFeePerDay));
+  const calendar = await getLibraryCalendar(checkout.dueDate);
+  const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
+    checkout.dueDate,
+    Number(checkout.lateFeePerDay),
+    null,
+    getLateFeeTerms(checkout),
+    calendar
+  );
 
   // Only update if status changed
   if (isOverdue !== checkout.isOverdue || overdueDays !== checkout.overdueDays) {
@@ -160,34 +307,79 @@ export async function checkOverdueStatus(checkoutId: string): Promise<Checkout |
   return checkout;
 }
 
+/**
+ * Number of checkouts loaded and updated per query during an overdue sweep
+ */
+const OVERDUE_SWEEP_BATCH_SIZE = 500;
+
 /**
  * Updates overdue status for all active checkouts
+ * Works through loans in batches, writing each batch's changes with a single UPDATE
+ * @returns Number of checkouts whose status changed
  */
 export async function updateAllOverdueStatuses(): Promise<number> {
-  const activeCheckouts = await prisma.checkout.findMany({
-    where: {
-      returnedDate: null,
-    },
-  });
-
+  const now = new Date();
   let updatedCount = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    // Loans past due, plus loans still flagged overdue after their due date moved
+    const batch = await prisma.checkout.findMany({
+      where: {
+        returnedDate: null,
+        OR: [{ dueDate: { lt: now } }, { isOverdue: true }],
+        ...(lastId && { id: { gt: lastId } }),
+      },
+      orderBy: { id: "asc" },
+      take: OVERDUE_SWEEP_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+    lastId = batch[batch.length - 1].id;
 
-  for (const checkout of activeCheckouts) {
-    const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
-      checkout.dueDate,
-      Number(checkout.lateFeePerDay)
+    // One calendar covers the batch, starting from its earliest due date
+    const earliestDueDate = batch.reduce(
+      (earliest, checkout) => (checkout.dueDate < earliest ? checkout.dueDate : earliest),
+      batch[0].dueDate
     );
+    const calendar = await getLibraryCalendar(earliestDueDate);
+
+    const changes = batch.flatMap((checkout) => {
+      const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
+        checkout.dueDate,
+        Number(checkout.lateFeePerDay),
+        now,
+        getLateFeeTerms(checkout),
+        calendar
+      );
+
+      if (isOverdue === checkout.isOverdue && overdueDays === checkout.overdueDays) {
+        return [];
+      }
 
-    if (isOverdue !== checkout.isOverdue || overdueDays !== checkout.overdueDays) {
-      await prisma.checkout.update({
-        where: { id: checkout.id },
-        data: {
-          isOverdue,
-          overdueDays,
-          lateFeeAmount: isOverdue ? lateFeeAmount : null,
-        },
-      });
-      updatedCount++;
+      return [{ id: checkout.id, isOverdue, overdueDays, lateFeeAmount: isOverdue ? lateFeeAmount : null }];
+    });
+
+    if (changes.length > 0) {
+      const rows = changes.map(
+        (change) =>
+          Prisma.sql`(${change.id}, ${change.isOverdue}::boolean, ${change.overdueDays}::integer, CAST(${change.lateFeeAmount} AS DECIMAL(10, 2)))`
+      );
+
+      await prisma.$executeRaw`
+        UPDATE "Checkout" AS c
+        SET "isOverdue" = v."isOverdue", "overdueDays" = v."overdueDays", "lateFeeAmount" = v."lateFeeAmount"
+        FROM (VALUES ${Prisma.join(rows)}) AS v("id", "isOverdue", "overdueDays", "lateFeeAmount")
+        WHERE c."id" = v."id" AND c."returnedDate" IS NULL
+      `;
+
+      updatedCount += changes.length;
+    }
+
+    if (batch.length < OVERDUE_SWEEP_BATCH_SIZE) {
+      break;
     }
   }
 
@@ -202,32 +394,95 @@ export async function createCheckout(input: CreateCheckoutInput) {
   if (!userId) {
     throw new Error("User ID is required");
   }
-  const validation = await validateCheckout(userId, input.bookId);
+  // Roll any lapsed pickups first so an expired hold can't be used to borrow
+  await expireReadyHolds(input.bookId);
+
+  const validation = await validateCheckout(userId, input.bookId, input.copyId);
 
   if (!validation.valid) {
     throw new Error(validation.error);
   }
 
+  const book = await prisma.book.findUniqueOrThrow({
+    where: { id: input.bookId },
+    select: { genres: BOOK_GENRE_LINEAGE_INCLUDE, workId: true },
+  });
+
+  // Loan terms come from the patron's circulation policy unless explicitly overridden
+  const policy = await resolveCirculationPolicy(userId, getGenreLineage(book.genres));
+
   const checkoutDate = new Date();
-  const maxDurationDays = input.maxDurationDays || 14;
-  const lateFeePerDay = input.lateFeePerDay || 0.5;
-  const dueDate = calculateDueDate(checkoutDate, maxDurationDays);
+  const maxDurationDays = input.maxDurationDays || policy.loanDays;
+  const lateFeePerDay = input.lateFeePerDay ?? policy.lateFeePerDay;
+  const maxRenewals = input.maxRenewals ?? policy.maxRenewals;
+  const calendar = await getLibraryCalendar(checkoutDate);
+  const dueDate = calculateDueDate(checkoutDate, maxDurationDays, calendar);
+
+  // Claim a copy, create the checkout and update book status in a transaction
+  const { checkout: result, nextHold } = await prisma.$transaction(async (tx) => {
+    // Holds this checkout settles: on the book, or on any edition of its work
+    const holdsWhere: Prisma.HoldWhereInput = book.workId
+      ? { OR: [{ bookId: input.bookId }, { workId: book.workId }] }
+      : { bookId: input.bookId };
+
+    const readyHold = await tx.hold.findFirst({
+      where: { ...holdsWhere, userId, status: "READY" },
+    });
+
+    // Patrons picking up a hold get the copy that was set aside for them, unless they chose another edition
+    const heldCopyId =
+      readyHold?.copyId && readyHold.bookId === input.bookId && (!input.copyId || input.copyId === readyHold.copyId)
+        ? readyHold.copyId
+        : null;
+
+    const copy = heldCopyId
+      ? await tx.bookCopy.findUnique({ where: { id: heldCopyId } })
+      : input.copyId
+        ? await tx.bookCopy.findUnique({ where: { id: input.copyId } })
+        : await tx.bookCopy.findFirst({
+            where: { bookId: input.bookId, status: "AVAILABLE" },
+            orderBy: { createdAt: "asc" },
+          });
+
+    if (!copy) {
+      throw new Error(createBookAlreadyCheckedOutError(input.bookId).message);
+    }
+
+    // Conditional update guards against two patrons claiming the same copy concurrently
+    const claimed = await tx.bookCopy.updateMany({
+      where: { id: copy.id, status: heldCopyId ? "ON_HOLD" : "AVAILABLE" },
+      data: { status: "CHECKED_OUT" },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error(createCopyUnavailableError(copy.id).message);
+    }
 
-  // Create checkout and update book status in a transaction
-  const result = await prisma.$transaction(async (tx) => {
     const checkout = await tx.checkout.create({
       data: {
         bookId: input.bookId,
+        copyId: copy.id,
         userId: userId,
         checkoutDate,
         dueDate,
         maxDurationDays,
         lateFeePerDay,
+        maxRenewals,
+        graceDays: policy.graceDays,
+        maxLateFee: policy.maxLateFee,
+        policyId: policy.policyId,
         isOverdue: false,
         overdueDays: 0,
       },
       include: {
         book: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -238,27 +493,41 @@ export async function createCheckout(input: CreateCheckoutInput) {
       },
     });
 
-    // Update book status
-    await tx.book.update({
-      where: { id: input.bookId },
-      data: { status: "CHECKED_OUT" },
+    // Borrowing the book settles the user's place in its hold queue
+    await tx.hold.updateMany({
+      where: { ...holdsWhere, userId, status: { in: ["WAITING", "READY"] } },
+      data: { status: "FULFILLED", fulfilledAt: checkoutDate },
     });
 
-    return checkout;
+    // A held copy the user passed over goes to the next patron in line
+    const nextHold =
+      readyHold?.copyId && readyHold.copyId !== copy.id
+        ? await releaseHeldCopy(tx, readyHold.bookId, readyHold.copyId)
+        : null;
+
+    // Book is only marked checked out once its last copy is gone
+    await syncBookStatus(tx, input.bookId);
+    if (readyHold && readyHold.bookId !== input.bookId) {
+      await syncBookStatus(tx, readyHold.bookId);
+    }
+
+    return { checkout, nextHold };
   });
 
-  // Schedule QStash reminder 1 day before due date (non-blocking - graceful degradation)
+  notifyHoldReady(nextHold);
+
+  // Schedule reminder 1 day before due date (non-blocking - graceful degradation)
   scheduleCheckoutReminder(result.id, result.dueDate)
-    .then((messageId) => {
-      if (messageId) {
-        // Update checkout with QStash message ID
+    .then((jobId) => {
+      if (jobId) {
+        // Update checkout with the reminder job ID
         prisma.checkout
           .update({
             where: { id: result.id },
-            data: { qstashMessageId: messageId },
+            data: { reminderJobId: jobId },
           })
           .catch((error) => {
-            console.error("Failed to update checkout with QStash message ID:", error);
+            console.error("Failed to update checkout with reminder job ID:", error);
             // Don't fail if this update fails
           });
       }
@@ -289,23 +558,34 @@ export async function returnCheckout(checkoutId: string) {
   }
 
   const returnDate = new Date();
-  const { lateFeeAmount } = calculateLateFees(checkout.dueDate, Number(checkout.lateFeePerDay), returnDate);
-
-  // Return checkout and update book status in a transaction
-  const result = await prisma.$transaction(async (tx) => {
+  const calendar = await getLibraryCalendar(checkout.dueDate);
+  const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
+    checkout.dueDate,
+    Number(checkout.lateFeePerDay),
+    returnDate,
+    getLateFeeTerms(checkout),
+    calendar
+  );
+
+  // Return checkout, release the copy and update book status in a transaction
+  const { checkout: result, readyHold } = await prisma.$transaction(async (tx) => {
     const updatedCheckout = await tx.checkout.update({
       where: { id: checkoutId },
       data: {
         returnedDate: returnDate,
-        isOverdue: lateFeeAmount > 0,
-        overdueDays:
-          lateFeeAmount > 0
-            ? Math.floor((returnDate.getTime() - checkout.dueDate.getTime()) / (1000 * 60 * 60 * 24))
-            : 0,
+        isOverdue,
+        overdueDays,
         lateFeeAmount: lateFeeAmount > 0 ? lateFeeAmount : null,
       },
       include: {
         book: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -316,18 +596,28 @@ export async function returnCheckout(checkoutId: string) {
       },
     });
 
-    // Update book status to available
-    await tx.book.update({
-      where: { id: checkout.bookId },
+    // Late fees are posted to the patron's fines ledger
+    await chargeLateFee(tx, checkout, lateFeeAmount);
+
+    // Copies pulled for repair or marked lost while out stay in that state
+    const released = await tx.bookCopy.updateMany({
+      where: { id: checkout.copyId, status: "CHECKED_OUT" },
       data: { status: "AVAILABLE" },
     });
 
-    return updatedCheckout;
+    // The returned copy goes straight to the next patron in the hold queue
+    const readyHold = released.count > 0 ? await assignCopyToNextHold(tx, checkout.bookId, checkout.copyId) : null;
+
+    await syncBookStatus(tx, checkout.bookId);
+
+    return { checkout: updatedCheckout, readyHold };
   });
 
-  // Cancel QStash reminder if one was scheduled (non-blocking - graceful degradation)
-  if (checkout.qstashMessageId) {
-    cancelCheckoutReminder(checkout.qstashMessageId).catch((error) => {
+  notifyHoldReady(readyHold);
+
+  // Cancel reminder if one was scheduled (non-blocking - graceful degradation)
+  if (checkout.reminderJobId) {
+    cancelCheckoutReminder(checkout.reminderJobId).catch((error) => {
       console.error("Failed to cancel checkout reminder:", error);
       // Don't fail the return operation if cancellation fails
     });
@@ -335,3 +625,121 @@ export async function returnCheckout(checkoutId: string) {
 
   return result;
 }
+
+/**
+ * Validates if a checkout can be renewed
+ * Checks: not returned, not overdue, renewal limit, nobody waiting in the hold queue
+ */
+export async function validateRenewal(checkout: Checkout): Promise<ApiError | null> {
+  if (checkout.returnedDate) {
+    return createCheckoutAlreadyReturnedError(checkout.id);
+  }
+
+  const calendar = await getLibraryCalendar(checkout.dueDate);
+  const { isOverdue } = calculateLateFees(
+    checkout.dueDate,
+    Number(checkout.lateFeePerDay),
+    null,
+    getLateFeeTerms(checkout),
+    calendar
+  );
+  if (isOverdue) {
+    return createRenewalNotAllowedError(checkout.id, "Overdue checkouts can't be renewed. Please return the book.");
+  }
+
+  if (checkout.renewalCount >= checkout.maxRenewals) {
+    return createRenewalLimitReachedError(checkout.id, checkout.maxRenewals);
+  }
+
+  const book = await prisma.book.findUniqueOrThrow({
+    where: { id: checkout.bookId },
+    select: { workId: true },
+  });
+  const waitingHolds = await getHoldQueueLength(checkout.bookId, book.workId);
+
+  if (waitingHolds > 0) {
+    return createRenewalBlockedByHoldError(checkout.id, checkout.bookId);
+  }
+
+  return null;
+}
+
+/**
+ * Renews a checkout, extending the due date by another loan period
+ */
+export async function renewCheckout(input: RenewCheckoutInput) {
+  const checkout = await prisma.checkout.findUnique({
+    where: { id: input.checkoutId },
+  });
+
+  if (!checkout) {
+    throw new Error(createCheckoutNotFoundError(input.checkoutId).message);
+  }
+
+  const error = await validateRenewal(checkout);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const calendar = await getLibraryCalendar(checkout.dueDate);
+  const newDueDate = calculateDueDate(checkout.dueDate, checkout.maxDurationDays, calendar);
+
+  // Extend the due date and record the renewal in a transaction
+  const result = await prisma.$transaction(async (tx) => {
+    // Conditional update guards against the same renewal being applied twice concurrently
+    const renewed = await tx.checkout.updateMany({
+      where: { id: checkout.id, returnedDate: null, renewalCount: checkout.renewalCount },
+      data: {
+        dueDate: newDueDate,
+        renewalCount: { increment: 1 },
+      },
+    });
+
+    if (renewed.count === 0) {
+      throw new Error(
+        createRenewalNotAllowedError(checkout.id, "This checkout was changed. Please try again.").message
+      );
+    }
+
+    await tx.checkoutRenewal.create({
+      data: {
+        checkoutId: checkout.id,
+        renewedById: input.renewedById,
+        previousDueDate: checkout.dueDate,
+        newDueDate,
+      },
+    });
+
+    return tx.checkout.findUniqueOrThrow({
+      where: { id: checkout.id },
+      include: {
+        book: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        renewals: {
+          orderBy: { renewedAt: "desc" },
+        },
+      },
+    });
+  });
+
+  // Move the reminder to the new due date (non-blocking - graceful degradation)
+  rescheduleCheckoutReminder(checkout, result.dueDate).catch((error) => {
+    console.error("Failed to reschedule checkout reminder:", error);
+    // Don't fail the renewal if reminder scheduling fails
+  });
+
+  return result;
+}
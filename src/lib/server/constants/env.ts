@@ -98,6 +98,18 @@ export const EMAIL_FROM_ADDRESS = process.env.EMAIL_FROM_ADDRESS || "noreply@exa
  */
 export const EMAIL_FROM_NAME = process.env.EMAIL_FROM_NAME || "Mini Library";
 
+/**
+ * SMTP host that receives test emails from the template editor (e.g. Mailpit or MailHog)
+ * Optional - Test sends are disabled if not set
+ */
+export const SMTP_HOST = process.env.SMTP_HOST;
+
+/**
+ * SMTP port for test emails
+ * Optional - Defaults to 1025
+ */
+export const SMTP_PORT = Number(process.env.SMTP_PORT || "1025");
+
 // QStash Service (Upstash) - Optional
 /**
  * QStash API Token
@@ -111,6 +123,18 @@ export const QSTASH_TOKEN = process.env.QSTASH_TOKEN;
  */
 export const QSTASH_URL = process.env.QSTASH_URL;
 
+// Job Queue - Optional
+/**
+ * Backend for delayed jobs such as due date reminders: "qstash" or "postgres"
+ * Optional - Defaults to "qstash" when QSTASH_TOKEN is set, otherwise "postgres" (processed by the in-process scheduler or cron)
+ */
+export const JOB_QUEUE_BACKEND: "qstash" | "postgres" =
+  process.env.JOB_QUEUE_BACKEND === "qstash" || process.env.JOB_QUEUE_BACKEND === "postgres"
+    ? process.env.JOB_QUEUE_BACKEND
+    : QSTASH_TOKEN
+      ? "qstash"
+      : "postgres";
+
 // AI Service (OpenAI) - Optional
 /**
  * OpenAI API Key
@@ -118,6 +142,88 @@ export const QSTASH_URL = process.env.QSTASH_URL;
  */
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
+// Book Metadata - Optional
+/**
+ * Comma-separated metadata providers for ISBN lookup, tried in order: "openlibrary", "googlebooks", "fixture"
+ * Optional - Defaults to "openlibrary,googlebooks"
+ */
+export const BOOK_METADATA_PROVIDERS = (process.env.BOOK_METADATA_PROVIDERS || "openlibrary,googlebooks")
+  .split(",")
+  .map((provider) => provider.trim())
+  .filter(Boolean);
+
+/**
+ * Google Books API key
+ * Optional - Google Books allows a small number of anonymous lookups without one
+ */
+export const GOOGLE_BOOKS_API_KEY = process.env.GOOGLE_BOOKS_API_KEY;
+
+// File Storage - Optional
+/**
+ * S3-compatible bucket for uploaded files such as covers (AWS S3, Cloudflare R2, MinIO, ...)
+ * Optional - Files are stored on the local filesystem if not set
+ */
+export const S3_BUCKET = process.env.S3_BUCKET;
+export const S3_REGION = process.env.S3_REGION || "us-east-1";
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+
+/**
+ * S3 API endpoint, addressed path-style (<endpoint>/<bucket>/<key>)
+ * Optional - Defaults to AWS S3 in S3_REGION
+ */
+export const S3_ENDPOINT = process.env.S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`;
+
+/**
+ * Public base URL files are served from, e.g. a CDN in front of the bucket
+ * Optional - Defaults to <S3_ENDPOINT>/<S3_BUCKET>, which needs public read access on the bucket
+ */
+export const S3_PUBLIC_URL = process.env.S3_PUBLIC_URL || `${S3_ENDPOINT}/${S3_BUCKET}`;
+
+/**
+ * Where uploaded files are stored: "local" or "s3"
+ * Optional - Defaults to "s3" when S3_BUCKET is set, otherwise "local"
+ */
+export const FILE_STORAGE_BACKEND: "local" | "s3" =
+  process.env.FILE_STORAGE_BACKEND === "local" || process.env.FILE_STORAGE_BACKEND === "s3"
+    ? process.env.FILE_STORAGE_BACKEND
+    : S3_BUCKET
+      ? "s3"
+      : "local";
+
+/**
+ * Directory for locally stored files, absolute or relative to the working directory
+ * Optional - Defaults to "uploads"
+ */
+export const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || "uploads";
+
+// Fines - Optional
+/**
+ * Outstanding fine balance above which patrons can't check out new books
+ * Late fees building up on overdue loans count toward it before they're charged
+ * Optional - Defaults to 10.00
+ */
+export const FINES_BLOCK_THRESHOLD = Number(process.env.FINES_BLOCK_THRESHOLD || "10");
+
+// Background Jobs - Optional
+/**
+ * Shared secret for the cron endpoint (sent as "Authorization: Bearer <secret>")
+ * Optional - The cron endpoint is disabled if not set
+ */
+export const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Whether to run background jobs on timers inside the server process
+ * Optional - Defaults to true; set to "false" on serverless hosts and use the cron endpoint instead
+ */
+export const JOB_SCHEDULER_ENABLED = process.env.JOB_SCHEDULER_ENABLED !== "false";
+
+/**
+ * Minutes between overdue sweeps when the in-process scheduler is enabled
+ * Optional - Defaults to 60
+ */
+export const OVERDUE_SWEEP_INTERVAL_MINUTES = Number(process.env.OVERDUE_SWEEP_INTERVAL_MINUTES || "60");
+
 // System Variables
 /**
  * Node environment (development, production, test)
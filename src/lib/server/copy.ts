@@ -0,0 +1,79 @@
+import type { BookStatus, Prisma } from "@prisma/client";
+import crypto from "crypto";
+import { prisma } from "./prisma";
+import type { BookAvailability } from "./types/book";
+
+/**
+ * Generates a barcode for a new copy (e.g. "LIB-3F9A1C2B7D")
+ */
+export function generateCopyBarcode(): string {
+  return `LIB-${crypto.randomBytes(5).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Counts total and available copies for a set of books in a single query
+ * Books without copies are reported as 0 of 0 available
+ */
+export async function getAvailabilityForBooks(bookIds: string[]): Promise<Map<string, BookAvailability>> {
+  const availability = new Map<string, BookAvailability>(
+    bookIds.map((bookId) => [bookId, { totalCopies: 0, availableCopies: 0 }])
+  );
+
+  if (bookIds.length === 0) {
+    return availability;
+  }
+
+  const groups = await prisma.bookCopy.groupBy({
+    by: ["bookId", "status"],
+    where: {
+      bookId: { in: bookIds },
+      status: { not: "WITHDRAWN" }, // Withdrawn copies are no longer part of the collection
+    },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const entry = availability.get(group.bookId);
+    if (!entry) continue;
+    entry.totalCopies += group._count._all;
+    if (group.status === "AVAILABLE") {
+      entry.availableCopies += group._count._all;
+    }
+  }
+
+  return availability;
+}
+
+/**
+ * Counts total and available copies for a single book
+ */
+export async function getBookAvailability(bookId: string): Promise<BookAvailability> {
+  const availability = await getAvailabilityForBooks([bookId]);
+  return availability.get(bookId)!;
+}
+
+/**
+ * Derives the summary Book.status from copy availability
+ */
+export function getBookStatusFromAvailability(availability: BookAvailability): BookStatus {
+  return availability.availableCopies > 0 ? "AVAILABLE" : "CHECKED_OUT";
+}
+
+/**
+ * Recomputes Book.status from its copies
+ * Must be called inside the transaction that changed a copy's status
+ */
+export async function syncBookStatus(tx: Prisma.TransactionClient, bookId: string): Promise<BookStatus> {
+  const availableCopies = await tx.bookCopy.count({
+    where: { bookId, status: "AVAILABLE" },
+  });
+
+  const status: BookStatus = availableCopies > 0 ? "AVAILABLE" : "CHECKED_OUT";
+
+  await tx.book.update({
+    where: { id: bookId },
+    data: { status },
+  });
+
+  return status;
+}
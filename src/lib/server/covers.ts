@@ -0,0 +1,322 @@
+import { Prisma } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import sharp from "sharp";
+import { createInvalidCoverImageError, type ApiError } from "./errors";
+import { prisma } from "./prisma";
+import { getFileStorage, isValidStorageKey } from "./storage";
+import type { BookCoverImages, BookCoverVariant } from "./types/book";
+
+/**
+ * Width of each stored cover size, in pixels; heights keep the image's proportions
+ */
+export const BOOK_COVER_WIDTHS: Record<BookCoverVariant, number> = {
+  thumbnail: 160,
+  medium: 400,
+  large: 800,
+};
+
+export const MAX_COVER_UPLOAD_BYTES = 8 * 1024 * 1024;
+const MIN_COVER_WIDTH = 100;
+const SUPPORTED_FORMATS = ["jpeg", "png", "webp", "gif", "avif"];
+const COVER_DOWNLOAD_TIMEOUT_MS = 10000;
+const MAX_COVER_REDIRECTS = 3;
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges.
+// IPv4 rules also match IPv4-mapped IPv6 addresses
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function getVariantKey(key: string, variant: BookCoverVariant): string {
+  return `${key}/${variant}.webp`;
+}
+
+/**
+ * Public URLs for each size of a stored cover
+ */
+export function getBookCoverImages(key: string): BookCoverImages {
+  const storage = getFileStorage();
+  return {
+    key,
+    thumbnail: storage.getUrl(getVariantKey(key, "thumbnail")),
+    medium: storage.getUrl(getVariantKey(key, "medium")),
+    large: storage.getUrl(getVariantKey(key, "large")),
+  };
+}
+
+/**
+ * Checks a storage key names an uploaded cover, e.g. one sent back by the book form
+ */
+export function isBookCoverKey(key: string): boolean {
+  return /^covers\/[0-9a-f-]{36}$/.test(key) && isValidStorageKey(key);
+}
+
+/**
+ * Reads Book.coverImages, which is null for books without an uploaded cover
+ */
+export function parseBookCoverImages(value: Prisma.JsonValue | null): BookCoverImages | null {
+  if (!value || typeof value !== "object" || Array.isArray(value) || typeof value.key !== "string") {
+    return null;
+  }
+  return value as BookCoverImages;
+}
+
+/**
+ * Checks an upload is a supported image that is big enough to use as a cover
+ */
+export async function validateCoverImage(image: Buffer): Promise<ApiError | null> {
+  if (image.length > MAX_COVER_UPLOAD_BYTES) {
+    return createInvalidCoverImageError(`Cover images must be ${MAX_COVER_UPLOAD_BYTES / 1024 / 1024} MB or smaller`);
+  }
+
+  try {
+    const { format, width } = await sharp(image).metadata();
+    if (!format || !SUPPORTED_FORMATS.includes(format)) {
+      return createInvalidCoverImageError("Cover images must be JPEG, PNG, WebP, GIF or AVIF");
+    }
+    if (!width || width < MIN_COVER_WIDTH) {
+      return createInvalidCoverImageError(`Cover images must be at least ${MIN_COVER_WIDTH} pixels wide`);
+    }
+  } catch {
+    return createInvalidCoverImageError("The file is not a readable image");
+  }
+
+  return null;
+}
+
+/**
+ * Resizes a validated cover into each size and stores them as WebP
+ * Images are never enlarged, so a small original is stored at its own size
+ */
+export async function storeBookCover(image: Buffer): Promise<BookCoverImages> {
+  const key = `covers/${randomUUID()}`;
+  const storage = getFileStorage();
+
+  await Promise.all(
+    (Object.entries(BOOK_COVER_WIDTHS) as [BookCoverVariant, number][]).map(async ([variant, width]) => {
+      const data = await sharp(image)
+        .rotate() // Apply EXIF orientation from phone photos
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+      await storage.put(getVariantKey(key, variant), data, "image/webp");
+    })
+  );
+
+  return getBookCoverImages(key);
+}
+
+/**
+ * Checks an IP address is on the public internet, so server-side fetches can't reach internal services
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Checks a cover URL is http(s) and that its host only resolves to public addresses
+ */
+async function checkCoverUrl(url: URL): Promise<ApiError | null> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return createInvalidCoverImageError("Cover URLs must use http or https");
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return createInvalidCoverImageError("Cover URLs must point to a public host");
+    }
+  } catch {
+    return createInvalidCoverImageError("The cover host could not be found");
+  }
+  return null;
+}
+
+// Reads a response body, giving up as soon as it passes the size limit
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Downloads a remote cover so it keeps working if the original host disappears
+ * Only public http(s) hosts are fetched, including for each redirect
+ * @returns the downloaded image, or an error when it can't be fetched or is too large
+ */
+export async function downloadCoverImage(url: string): Promise<Buffer | ApiError> {
+  const tooLarge = createInvalidCoverImageError(
+    `Cover images must be ${MAX_COVER_UPLOAD_BYTES / 1024 / 1024} MB or smaller`
+  );
+
+  try {
+    const signal = AbortSignal.timeout(COVER_DOWNLOAD_TIMEOUT_MS);
+    let target = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      const invalid = await checkCoverUrl(target);
+      if (invalid) return invalid;
+
+      const response = await fetch(target, { signal, redirect: "manual" });
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_COVER_REDIRECTS) {
+          return createInvalidCoverImageError("The cover URL redirects too many times");
+        }
+        target = new URL(location, target);
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        return createInvalidCoverImageError(`The cover could not be downloaded (${response.status})`);
+      }
+      if (Number(response.headers.get("content-length") ?? 0) > MAX_COVER_UPLOAD_BYTES) {
+        await response.body?.cancel();
+        return tooLarge;
+      }
+      return (await readLimitedBody(response, MAX_COVER_UPLOAD_BYTES)) ?? tooLarge;
+    }
+  } catch {
+    return createInvalidCoverImageError("The cover could not be downloaded");
+  }
+}
+
+/**
+ * Copies a book's remote cover URL into storage, so it's only downloaded once
+ * @returns the stored cover, or null when the URL can't be fetched or isn't a usable image
+ */
+export async function storeRemoteBookCover(
+  book: { id: string; coverImageUrl: string | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<BookCoverImages | null> {
+  if (!book.coverImageUrl || !/^https?:\/\//i.test(book.coverImageUrl)) return null;
+
+  const image = await downloadCoverImage(book.coverImageUrl);
+  if (!Buffer.isBuffer(image) || (await validateCoverImage(image))) return null;
+
+  const images = await storeBookCover(image);
+  // Skip the update if an editor changed the cover meanwhile
+  const { count } = await client.book.updateMany({
+    where: { id: book.id, coverImageUrl: book.coverImageUrl, coverImages: { equals: Prisma.DbNull } },
+    data: { coverImages: images, coverImageUrl: images.large },
+  });
+  if (count === 0) {
+    await deleteBookCover(images);
+    return null;
+  }
+  return images;
+}
+
+/**
+ * The image data of a book's cover: its stored upload, or else its cover URL, copied into storage the first time
+ * @returns null for books without a cover, or when the cover can't be fetched
+ */
+export async function readBookCover(
+  book: { id: string; coverImageUrl: string | null; coverImages: Prisma.JsonValue | null },
+  variant: BookCoverVariant = "large"
+): Promise<Buffer | null> {
+  const images = parseBookCoverImages(book.coverImages) ?? (await storeRemoteBookCover(book));
+  if (!images) return null;
+
+  const stored = await getFileStorage().get(getVariantKey(images.key, variant));
+  return stored?.data ?? null;
+}
+
+/**
+ * Removes every stored size of a cover
+ */
+export async function deleteBookCover(images: BookCoverImages): Promise<void> {
+  const storage = getFileStorage();
+  await Promise.all(
+    (Object.keys(BOOK_COVER_WIDTHS) as BookCoverVariant[]).map((variant) =>
+      storage.delete(getVariantKey(images.key, variant))
+    )
+  );
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function wrapWords(text: string, maxLineLength: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxLineLength - 1)}…`;
+  }
+  return lines;
+}
+
+/**
+ * Generates a 2:3 SVG cover with the title and author, for books without a cover image
+ * The background colour is derived from the title, so a book always gets the same one
+ */
+export function renderCoverPlaceholder(title: string, author?: string | null): string {
+  const hue = Array.from(title).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 7);
+  const titleLines = wrapWords(title, 16, 5);
+  const titleTop = 270 - (titleLines.length - 1) * 24;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 45%, 38%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 40) % 360}, 50%, 22%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="400" height="600" fill="url(#background)"/>
+  <rect x="24" y="24" width="352" height="552" fill="none" stroke="rgba(255,255,255,0.35)" stroke-width="2"/>
+  <text x="200" y="${titleTop}" fill="#fff" font-family="Georgia, serif" font-size="36" font-weight="bold" text-anchor="middle">
+${titleLines.map((line, index) => `    <tspan x="200" dy="${index === 0 ? 0 : 48}">${escapeXml(line)}</tspan>`).join("\n")}
+  </text>
+${author ? `  <text x="200" y="520" fill="rgba(255,255,255,0.85)" font-family="Helvetica, Arial, sans-serif" font-size="22" text-anchor="middle">${escapeXml(author.length > 30 ? `${author.slice(0, 29)}…` : author)}</text>\n` : ""}</svg>`;
+}
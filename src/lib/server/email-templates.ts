@@ -0,0 +1,688 @@
+import type { EmailTemplate } from "@prisma/client";
+import { EMAIL_FROM_NAME } from "./constants/env";
+import { createEmailTemplateNotFoundError, createInvalidEmailTemplateError, type ApiError } from "./errors";
+import { prisma } from "./prisma";
+import type {
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateInput,
+  EmailTemplateKey,
+  EmailTemplateWithAuthor,
+  RenderedEmail,
+} from "./types/email-template";
+
+/**
+ * Languages templates can be written in; recipients fall back to English when their language has no version
+ */
+export const EMAIL_LOCALES: Record<string, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+export const DEFAULT_EMAIL_LOCALE = "en";
+
+// {{#name}}...{{/name}} is kept only when the variable is non-empty
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+// {{name}} is HTML-escaped in the HTML part, {{{name}}} is inserted as-is
+const VARIABLE_PATTERN = /\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g;
+const PLACEHOLDER_NAME_PATTERN = /\{\{[{#/]?(\w+)\}?\}\}/g;
+
+/**
+ * Build a button with text wrapped in a span for flexible styling
+ */
+export function buildButton({
+  href,
+  text,
+  backgroundColor = "#111827",
+  textColor = "#ffffff",
+  className = "button",
+  style = "",
+}: {
+  href: string;
+  text: string;
+  backgroundColor?: string;
+  textColor?: string;
+  className?: string;
+  style?: string;
+}): string {
+  return `<a href="${href}" class="${className}" style="display: inline-block; padding: 12px 24px; background-color: ${backgroundColor}; text-decoration: none; border-radius: 6px; font-weight: 500; ${style}"><span style="color: ${textColor};">${text}</span></a>`;
+}
+
+/**
+ * Base HTML template (for consistent layout & branding)
+ *
+ * CHANGED: Updated styles to a neutral black/white/gray palette.
+ */
+function buildTemplate({
+  title,
+  content,
+  locale = DEFAULT_EMAIL_LOCALE,
+  accentColor = "#111827", // CHANGED: Default accent to black
+}: {
+  title: string;
+  content: string;
+  locale?: string;
+  accentColor?: string;
+}) {
+  return `
+ <!DOCTYPE html>
+ <html lang="${locale}">
+  <head>
+   <meta charset="utf-8" />
+   <style>
+    body { font-family: 'Inter', Arial, sans-serif; background: #f3f4f6; margin: 0; padding: 0; color: #111827; }
+    .container { max-width: 600px; margin: 40px auto; background: #fff; border-radius: 10px; overflow: hidden; box-shadow: 0 4px 8px rgba(0,0,0,0.05); border: 1px solid #e5e7eb; }
+    .header { background-color: ${accentColor}; color: #ffffff; padding: 24px; text-align: center; }
+    .brand { font-size: 20px; font-weight: 600; letter-spacing: 0.5px; }
+    .content { padding: 32px; background-color: #ffffff; line-height: 1.7; }
+    .button { display: inline-block; padding: 12px 24px; background-color: ${accentColor}; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 500; }
+    .info-box { background-color: #f9fafb; border-left: 4px solid #d1d5db; padding: 16px 20px; border-radius: 6px; margin: 20px 0; }
+    .footer { text-align: center; font-size: 12px; color: #6b7280; padding: 20px; background: #f9fafb; border-top: 1px solid #e5e7eb; }
+    .warning { background-color: #f9fafb; border-left: 4px solid #6b7280; padding: 16px 20px; border-radius: 6px; margin: 20px 0; }
+    .danger { background-color: #f9fafb; border-left: 4px solid #111827; padding: 16px 20px; border-radius: 6px; margin: 20px 0; }
+   </style>
+  </head>
+  <body>
+   <div class="container">
+    <div class="header">
+     <div class="brand">${EMAIL_FROM_NAME}</div>
+    </div>
+    <div class="content">
+     <h2 style="margin-top: 0;">${title}</h2>
+     ${content}
+    </div>
+    <div class="footer">
+     © ${new Date().getFullYear()} ${EMAIL_FROM_NAME}. All rights reserved.
+    </div>
+   </div>
+  </body>
+ </html>`;
+}
+
+/**
+ * Emails that can be customized, with the built-in wording used until a version is saved
+ * Every template can also use {{appName}}
+ */
+const EMAIL_TEMPLATE_DEFINITIONS: EmailTemplateDefinition[] = [
+  {
+    key: "welcome",
+    name: "Welcome",
+    description: "Sent when a patron signs up or a staff member is invited",
+    variables: { name: "Recipient's name" },
+    sample: { name: "Jane Reader" },
+    defaults: {
+      subject: "Welcome to {{appName}}!",
+      title: "Welcome to {{appName}}!",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>Thank you for joining <strong>{{appName}}</strong>! We're excited to have you as part of our community.</p>
+  <p style="font-size: 12px; color: #6b7280; margin-top: 24px;">If you did not create an account, please ignore this email.</p>
+ `,
+      text: `Hello {{name}},
+
+Thank you for joining {{appName}}! We're excited to have you as part of our community.
+
+If you did not create an account, please ignore this email.`,
+    },
+  },
+  {
+    key: "verification",
+    name: "Email Verification",
+    description: "Asks a new user to confirm their email address",
+    variables: { name: "Recipient's name", verificationUrl: "Link that verifies the address" },
+    sample: { name: "Jane Reader", verificationUrl: "https://library.example.com/api/auth/verify-email?token=sample" },
+    defaults: {
+      subject: "Verify Your Email - {{appName}}",
+      title: "Verify Your Email",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>Please verify your email address to complete your registration.</p>
+  <div class="warning"><strong>Note:</strong> You must verify your email within 24 hours.</div>
+  ${buildButton({ href: "{{verificationUrl}}", text: "Verify Email" })}
+  <p style="font-size: 12px; color: #6b7280; margin-top: 24px;">
+   Or copy and paste this link:<br>
+   <a href="{{verificationUrl}}">{{verificationUrl}}</a>
+  </p>
+ `,
+      text: `Hello {{name}},
+
+Please verify your email address to complete your registration. You must verify your email within 24 hours.
+
+Verify your email: {{verificationUrl}}`,
+    },
+  },
+  {
+    key: "password_reset",
+    name: "Password Reset",
+    description: "Sent when a user asks to reset their password",
+    variables: { name: "Recipient's name", resetUrl: "Link to choose a new password" },
+    sample: { name: "Jane Reader", resetUrl: "https://library.example.com/auth/reset-password?token=sample" },
+    defaults: {
+      subject: "Reset Your Password - {{appName}}",
+      title: "Reset Your Password",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>We received a request to reset your password for your <strong>{{appName}}</strong> account.</p>
+  <p>Click the button below to reset your password:</p>
+  ${buildButton({ href: "{{resetUrl}}", text: "Reset Password" })}
+  <div class="warning">
+   <p><strong>Important:</strong> This link will expire in 1 hour.</p>
+   <p>If you didn't request a password reset, you can safely ignore this email.</p>
+  </div>
+  <p style="font-size: 12px; color: #6b7280; margin-top: 24px;">
+   Or copy and paste this link:<br>
+   <a href="{{resetUrl}}">{{resetUrl}}</a>
+  </p>
+ `,
+      text: `Hello {{name}},
+
+We received a request to reset your password for your {{appName}} account.
+
+Reset your password: {{resetUrl}}
+
+This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.`,
+    },
+  },
+  {
+    key: "staff_invitation",
+    name: "Staff Invitation",
+    description: "Sent with sign-in details when a staff member is invited",
+    variables: {
+      name: "Recipient's name",
+      role: "Role the staff member was given",
+      email: "Sign-in email",
+      password: "Temporary password",
+      signInUrl: "Link to the sign-in page",
+    },
+    sample: {
+      name: "Sam Librarian",
+      role: "Editor",
+      email: "sam@library.example.com",
+      password: "temporary-password",
+      signInUrl: "https://library.example.com/auth/signin",
+    },
+    defaults: {
+      subject: "Welcome to {{appName}} - Staff Invitation",
+      title: "You're Invited!",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>You’ve been invited to join <strong>{{appName}}</strong> as a <strong>{{role}}</strong>.</p>
+  <p>Your account has been created. Use the credentials below to sign in:</p>
+  <div class="info-box">
+   <p><strong>Email:</strong> {{email}}</p>
+   <p><strong>Password:</strong> {{password}}</p>
+  </div>
+  ${buildButton({ href: "{{signInUrl}}", text: "Sign In" })}
+  <p style="font-size: 12px; color: #6b7280; margin-top: 24px;">If you didn’t expect this invitation, you can safely ignore this email.</p>
+ `,
+      text: `Hello {{name}},
+
+You’ve been invited to join {{appName}} as a {{role}}.
+
+Your account has been created. Use the credentials below to sign in:
+Email: {{email}}
+Password: {{password}}
+
+Sign in: {{signInUrl}}
+
+If you didn’t expect this invitation, you can safely ignore this email.`,
+    },
+  },
+  {
+    key: "due_soon",
+    name: "Due Soon",
+    description: "Sent the day before a loan falls due",
+    variables: {
+      name: "Recipient's name",
+      bookTitle: "Title of the book",
+      bookAuthor: "Author of the book",
+      dueDate: "Due date, formatted for the recipient's language",
+      checkoutsUrl: "Link to the patron's checkouts",
+    },
+    sample: {
+      name: "Jane Reader",
+      bookTitle: "The Left Hand of Darkness",
+      bookAuthor: "Ursula K. Le Guin",
+      dueDate: "11/30/2025",
+      checkoutsUrl: "https://library.example.com/dashboard/checkouts",
+    },
+    defaults: {
+      subject: "Book Due Soon - {{bookTitle}}",
+      title: "Book Due Soon",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>This is a friendly reminder that a book you borrowed is due soon.</p>
+  <div class="info-box">
+   <p><strong>Book:</strong> {{bookTitle}}</p>
+   <p><strong>Author:</strong> {{bookAuthor}}</p>
+   <p><strong>Due Date:</strong> {{dueDate}}</p>
+  </div>
+  <p>Please return or renew it by the due date to avoid late fees.</p>
+  ${buildButton({ href: "{{checkoutsUrl}}", text: "View My Checkouts" })}
+ `,
+      text: `Hello {{name}},
+
+This is a friendly reminder that a book you borrowed is due soon.
+
+Book: {{bookTitle}}
+Author: {{bookAuthor}}
+Due Date: {{dueDate}}
+
+Please return or renew it by the due date to avoid late fees.
+
+View your checkouts: {{checkoutsUrl}}`,
+    },
+  },
+  {
+    key: "overdue_reminder",
+    name: "Overdue Notice",
+    description: "Sent when a loan is 1, 7 and 14 days overdue",
+    variables: {
+      name: "Recipient's name",
+      bookTitle: "Title of the book",
+      bookAuthor: "Author of the book",
+      dueDate: "Due date, formatted for the recipient's language",
+      overdueDays: "Days overdue",
+      lateFee: "Late fee so far, empty when there is none",
+      isFirstNotice: "Set for the first notice",
+      isSecondNotice: "Set for the 7-day notice",
+      isFinalNotice: "Set for the 14-day notice",
+      checkoutsUrl: "Link to the patron's checkouts",
+    },
+    sample: {
+      name: "Jane Reader",
+      bookTitle: "The Left Hand of Darkness",
+      bookAuthor: "Ursula K. Le Guin",
+      dueDate: "11/30/2025",
+      overdueDays: "7",
+      lateFee: "$3.50",
+      isFirstNotice: "",
+      isSecondNotice: "true",
+      isFinalNotice: "",
+      checkoutsUrl: "https://library.example.com/dashboard/checkouts",
+    },
+    defaults: {
+      subject:
+        "{{#isFirstNotice}}Overdue Book Reminder{{/isFirstNotice}}{{#isSecondNotice}}Second Overdue Notice{{/isSecondNotice}}{{#isFinalNotice}}Final Overdue Notice{{/isFinalNotice}} - {{bookTitle}}",
+      title:
+        "{{#isFirstNotice}}Overdue Book Reminder{{/isFirstNotice}}{{#isSecondNotice}}Second Overdue Notice{{/isSecondNotice}}{{#isFinalNotice}}Final Overdue Notice{{/isFinalNotice}}",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>This is a reminder that you have an overdue book that needs to be returned.</p>
+  <div class="danger">
+   <p><strong>Book:</strong> {{bookTitle}}</p>
+   <p><strong>Author:</strong> {{bookAuthor}}</p>
+   <p><strong>Due Date:</strong> {{dueDate}}</p>
+   <p><strong>Days Overdue:</strong> {{overdueDays}}</p>
+   {{#lateFee}}<p><strong>Late Fee:</strong> {{lateFee}}</p>{{/lateFee}}
+  </div>
+  <p>Please return it as soon as possible to avoid additional fees.</p>
+  ${buildButton({ href: "{{checkoutsUrl}}", text: "View My Checkouts" })}
+ `,
+      text: `Hello {{name}},
+
+This is a reminder that you have an overdue book that needs to be returned.
+
+Book: {{bookTitle}}
+Author: {{bookAuthor}}
+Due Date: {{dueDate}}
+Days Overdue: {{overdueDays}}
+{{#lateFee}}Late Fee: {{lateFee}}
+{{/lateFee}}
+Please return it as soon as possible to avoid additional fees.
+
+View your checkouts: {{checkoutsUrl}}`,
+    },
+  },
+  {
+    key: "hold_ready",
+    name: "Hold Ready",
+    description: "Sent when a returned copy is set aside for the next patron in the queue",
+    variables: {
+      name: "Recipient's name",
+      bookTitle: "Title of the book",
+      bookAuthor: "Author of the book",
+      pickupBy: "Last day to pick up, formatted for the recipient's language",
+      bookUrl: "Link to the book",
+    },
+    sample: {
+      name: "Jane Reader",
+      bookTitle: "The Left Hand of Darkness",
+      bookAuthor: "Ursula K. Le Guin",
+      pickupBy: "11/30/2025",
+      bookUrl: "https://library.example.com/books/sample",
+    },
+    defaults: {
+      subject: "Your Hold Is Ready - {{bookTitle}}",
+      title: "Your Hold Is Ready",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>Good news! A copy of a book you placed on hold is now waiting for you.</p>
+  <div class="info-box">
+   <p><strong>Book:</strong> {{bookTitle}}</p>
+   <p><strong>Author:</strong> {{bookAuthor}}</p>
+   <p><strong>Pick up by:</strong> {{pickupBy}}</p>
+  </div>
+  <p>If you don't check it out by then, the copy will go to the next patron in the queue.</p>
+  ${buildButton({ href: "{{bookUrl}}", text: "Check Out Now" })}
+ `,
+      text: `Hello {{name}},
+
+Good news! A copy of a book you placed on hold is now waiting for you.
+
+Book: {{bookTitle}}
+Author: {{bookAuthor}}
+Pick up by: {{pickupBy}}
+
+If you don't check it out by then, the copy will go to the next patron in the queue.
+
+Check it out: {{bookUrl}}`,
+    },
+  },
+  {
+    key: "new_arrival",
+    name: "New Arrival",
+    description: "Sent when a newly added book matches a search the patron saved with alerts on",
+    variables: {
+      name: "Recipient's name",
+      bookTitle: "Title of the book",
+      bookAuthor: "Author of the book",
+      searchName: "Name of the saved search the book matched",
+      bookUrl: "Link to the book",
+      savedSearchesUrl: "Link to the patron's saved searches",
+    },
+    sample: {
+      name: "Jane Reader",
+      bookTitle: "The Left Hand of Darkness",
+      bookAuthor: "Ursula K. Le Guin",
+      searchName: "Classic science fiction",
+      bookUrl: "https://library.example.com/books/sample",
+      savedSearchesUrl: "https://library.example.com/dashboard/saved-searches",
+    },
+    defaults: {
+      subject: "New Arrival: {{bookTitle}}",
+      title: "A New Book Matches Your Search",
+      html: `
+  <p>Hello {{name}},</p>
+  <p>We just added a book that matches your saved search <strong>{{searchName}}</strong>.</p>
+  <div class="info-box">
+   <p><strong>Book:</strong> {{bookTitle}}</p>
+   <p><strong>Author:</strong> {{bookAuthor}}</p>
+  </div>
+  ${buildButton({ href: "{{bookUrl}}", text: "View Book" })}
+  <p>You can turn off alerts for this search in <a href="{{savedSearchesUrl}}">your saved searches</a>.</p>
+ `,
+      text: `Hello {{name}},
+
+We just added a book that matches your saved search "{{searchName}}".
+
+Book: {{bookTitle}}
+Author: {{bookAuthor}}
+
+View it: {{bookUrl}}
+
+You can turn off alerts for this search in your saved searches: {{savedSearchesUrl}}`,
+    },
+  },
+];
+
+const definitionsByKey = new Map(EMAIL_TEMPLATE_DEFINITIONS.map((definition) => [definition.key, definition]));
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Fills in placeholders
+ * @param escape - HTML-escape {{name}} values (for the HTML part)
+ */
+export function renderTemplateString(template: string, variables: Record<string, string>, escape = false): string {
+  return template
+    .replace(SECTION_PATTERN, (_, name: string, body: string) => (variables[name] ? body : ""))
+    .replace(VARIABLE_PATTERN, (_, raw: string | undefined, name: string | undefined) => {
+      if (raw) {
+        return variables[raw] ?? "";
+      }
+      const value = variables[name!] ?? "";
+      return escape ? escapeHtml(value) : value;
+    });
+}
+
+/**
+ * Renders template content into a complete email
+ */
+export function renderEmailContent(
+  content: EmailTemplateContent,
+  variables: Record<string, string>,
+  locale = DEFAULT_EMAIL_LOCALE
+): RenderedEmail {
+  const values = { appName: EMAIL_FROM_NAME, ...variables };
+
+  return {
+    subject: renderTemplateString(content.subject, values).trim(),
+    html: buildTemplate({
+      title: renderTemplateString(content.title, values, true),
+      content: renderTemplateString(content.html, values, true),
+      locale,
+    }),
+    text: renderTemplateString(content.text, values).trim(),
+  };
+}
+
+/**
+ * Lists the emails that can be customized
+ */
+export function getEmailTemplateDefinitions(): EmailTemplateDefinition[] {
+  return EMAIL_TEMPLATE_DEFINITIONS;
+}
+
+/**
+ * Gets a customizable email by key
+ */
+export function getEmailTemplateDefinition(key: string): EmailTemplateDefinition | undefined {
+  return definitionsByKey.get(key as EmailTemplateKey);
+}
+
+/**
+ * Gets the content used for an email in a language
+ * Falls back to the active English version, then to the built-in wording
+ */
+export async function getEffectiveEmailTemplate(
+  key: EmailTemplateKey,
+  locale = DEFAULT_EMAIL_LOCALE
+): Promise<{ content: EmailTemplateContent; template: EmailTemplate | null }> {
+  const templates = await prisma.emailTemplate.findMany({
+    where: { key, locale: { in: [locale, DEFAULT_EMAIL_LOCALE] }, isActive: true },
+  });
+  const template =
+    templates.find((candidate) => candidate.locale === locale) ??
+    templates.find((candidate) => candidate.locale === DEFAULT_EMAIL_LOCALE) ??
+    null;
+
+  if (template) {
+    return {
+      content: { subject: template.subject, title: template.title, html: template.html, text: template.text },
+      template,
+    };
+  }
+
+  return { content: getEmailTemplateDefinition(key)!.defaults, template: null };
+}
+
+/**
+ * Renders an email for a recipient using the active template for their language
+ */
+export async function renderEmail(
+  key: EmailTemplateKey,
+  variables: Record<string, string>,
+  locale = DEFAULT_EMAIL_LOCALE
+): Promise<RenderedEmail> {
+  const { content, template } = await getEffectiveEmailTemplate(key, locale);
+  return renderEmailContent(content, variables, template?.locale ?? DEFAULT_EMAIL_LOCALE);
+}
+
+/**
+ * Lists each customizable email with the active version in every language
+ */
+export async function getEmailTemplateSummaries() {
+  const activeTemplates = await prisma.emailTemplate.findMany({
+    where: { isActive: true },
+    select: { key: true, locale: true, version: true, createdAt: true },
+  });
+
+  return EMAIL_TEMPLATE_DEFINITIONS.map((definition) => ({
+    key: definition.key,
+    name: definition.name,
+    description: definition.description,
+    activeVersions: activeTemplates
+      .filter((template) => template.key === definition.key)
+      .map(({ locale, version, createdAt }) => ({ locale, version, updatedAt: createdAt })),
+  }));
+}
+
+/**
+ * Lists saved versions of an email in a language, newest first
+ */
+export async function getEmailTemplateVersions(
+  key: EmailTemplateKey,
+  locale = DEFAULT_EMAIL_LOCALE
+): Promise<EmailTemplateWithAuthor[]> {
+  return prisma.emailTemplate.findMany({
+    where: { key, locale },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Validates template content before it is saved or previewed
+ * Checks: known email and language, subject present, only known placeholders, closed sections
+ */
+export function validateEmailTemplate(input: EmailTemplateInput): ApiError | null {
+  const definition = getEmailTemplateDefinition(input.key);
+  if (!definition) {
+    return createEmailTemplateNotFoundError(input.key);
+  }
+
+  if (!EMAIL_LOCALES[input.locale]) {
+    return createInvalidEmailTemplateError(`Unsupported language "${input.locale}"`);
+  }
+
+  if (!input.subject.trim()) {
+    return createInvalidEmailTemplateError("Subject is required");
+  }
+
+  const allowed = new Set(["appName", ...Object.keys(definition.variables)]);
+
+  for (const [field, value] of Object.entries({
+    subject: input.subject,
+    title: input.title,
+    html: input.html,
+    text: input.text,
+  })) {
+    const unknown = Array.from(value.matchAll(PLACEHOLDER_NAME_PATTERN), (match) => match[1]).filter(
+      (name) => !allowed.has(name)
+    );
+    if (unknown.length > 0) {
+      return createInvalidEmailTemplateError(
+        `Unknown placeholder {{${unknown[0]}}} in ${field}. Available: ${Array.from(allowed).join(", ")}`
+      );
+    }
+
+    if (/\{\{[#/]\w+\}\}/.test(value.replace(SECTION_PATTERN, ""))) {
+      return createInvalidEmailTemplateError(`Every {{#name}} section in ${field} needs a matching {{/name}}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Saves template content as a new version and makes it the active one for its language
+ */
+export async function createEmailTemplateVersion(
+  input: EmailTemplateInput,
+  createdById?: string
+): Promise<EmailTemplate> {
+  const error = validateEmailTemplate(input);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.emailTemplate.findFirst({
+      where: { key: input.key, locale: input.locale },
+      orderBy: { version: "desc" },
+    });
+
+    await tx.emailTemplate.updateMany({
+      where: { key: input.key, locale: input.locale, isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.emailTemplate.create({
+      data: {
+        key: input.key,
+        locale: input.locale,
+        version: (latest?.version ?? 0) + 1,
+        subject: input.subject,
+        title: input.title,
+        html: input.html,
+        text: input.text,
+        isActive: true,
+        createdById,
+      },
+    });
+  });
+}
+
+/**
+ * Makes an earlier version the active one for its language
+ */
+export async function activateEmailTemplateVersion(key: EmailTemplateKey, templateId: string): Promise<EmailTemplate> {
+  return prisma.$transaction(async (tx) => {
+    const template = await tx.emailTemplate.findFirst({
+      where: { id: templateId, key },
+    });
+
+    if (!template) {
+      throw new Error(createEmailTemplateNotFoundError(templateId).message);
+    }
+
+    await tx.emailTemplate.updateMany({
+      where: { key: template.key, locale: template.locale, isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.emailTemplate.update({
+      where: { id: templateId },
+      data: { isActive: true },
+    });
+  });
+}
+
+/**
+ * Goes back to the built-in wording (or English version) for a language
+ * Saved versions are kept so they can be restored
+ */
+export async function resetEmailTemplate(key: EmailTemplateKey, locale = DEFAULT_EMAIL_LOCALE): Promise<void> {
+  await prisma.emailTemplate.updateMany({
+    where: { key, locale, isActive: true },
+    data: { isActive: false },
+  });
+}
@@ -23,6 +23,19 @@ export const BookErrorCodes = {
   BOOK_UPDATE_FAILED: "BOOK_UPDATE_FAILED",
   BOOK_DELETE_FAILED: "BOOK_DELETE_FAILED",
   CHAPTER_NOT_FOUND: "CHAPTER_NOT_FOUND",
+  READING_NOT_ALLOWED: "READING_NOT_ALLOWED",
+  INVALID_CHAPTER_ORDER: "INVALID_CHAPTER_ORDER",
+  CHAPTER_ORDER_TAKEN: "CHAPTER_ORDER_TAKEN",
+  COPY_NOT_FOUND: "COPY_NOT_FOUND",
+  COPY_UNAVAILABLE: "COPY_UNAVAILABLE",
+  DUPLICATE_BARCODE: "DUPLICATE_BARCODE",
+  INVALID_ISBN: "INVALID_ISBN",
+  BOOK_METADATA_NOT_FOUND: "BOOK_METADATA_NOT_FOUND",
+  INVALID_COVER_IMAGE: "INVALID_COVER_IMAGE",
+  AUTHOR_NOT_FOUND: "AUTHOR_NOT_FOUND",
+  SERIES_NOT_FOUND: "SERIES_NOT_FOUND",
+  GENRE_NOT_FOUND: "GENRE_NOT_FOUND",
+  INVALID_GENRE: "INVALID_GENRE",
 } as const;
 
 export type BookErrorCode = (typeof BookErrorCodes)[keyof typeof BookErrorCodes];
@@ -37,10 +50,94 @@ export const CheckoutErrorCodes = {
   CHECKOUT_ALREADY_RETURNED: "CHECKOUT_ALREADY_RETURNED",
   CHECKOUT_CREATE_FAILED: "CHECKOUT_CREATE_FAILED",
   CHECKOUT_RETURN_FAILED: "CHECKOUT_RETURN_FAILED",
+  CHECKOUT_RENEW_FAILED: "CHECKOUT_RENEW_FAILED",
+  RENEWAL_LIMIT_REACHED: "RENEWAL_LIMIT_REACHED",
+  RENEWAL_BLOCKED_BY_HOLD: "RENEWAL_BLOCKED_BY_HOLD",
+  RENEWAL_NOT_ALLOWED: "RENEWAL_NOT_ALLOWED",
 } as const;
 
 export type CheckoutErrorCode = (typeof CheckoutErrorCodes)[keyof typeof CheckoutErrorCodes];
 
+/**
+ * Error codes for hold operations
+ */
+export const HoldErrorCodes = {
+  HOLD_NOT_FOUND: "HOLD_NOT_FOUND",
+  HOLD_ALREADY_EXISTS: "HOLD_ALREADY_EXISTS",
+  HOLD_NOT_ALLOWED: "HOLD_NOT_ALLOWED",
+  HOLD_NOT_ACTIVE: "HOLD_NOT_ACTIVE",
+  HOLD_CREATE_FAILED: "HOLD_CREATE_FAILED",
+  HOLD_CANCEL_FAILED: "HOLD_CANCEL_FAILED",
+} as const;
+
+export type HoldErrorCode = (typeof HoldErrorCodes)[keyof typeof HoldErrorCodes];
+
+/**
+ * Error codes for fines and payments
+ */
+export const FinanceErrorCodes = {
+  OUTSTANDING_BALANCE: "OUTSTANDING_BALANCE",
+  INVALID_LEDGER_ENTRY: "INVALID_LEDGER_ENTRY",
+  AMOUNT_EXCEEDS_BALANCE: "AMOUNT_EXCEEDS_BALANCE",
+  LEDGER_ENTRY_FAILED: "LEDGER_ENTRY_FAILED",
+} as const;
+
+export type FinanceErrorCode = (typeof FinanceErrorCodes)[keyof typeof FinanceErrorCodes];
+
+/**
+ * Error codes for circulation policies
+ */
+export const PolicyErrorCodes = {
+  POLICY_NOT_FOUND: "POLICY_NOT_FOUND",
+  INVALID_POLICY: "INVALID_POLICY",
+  DUPLICATE_POLICY: "DUPLICATE_POLICY",
+} as const;
+
+export type PolicyErrorCode = (typeof PolicyErrorCodes)[keyof typeof PolicyErrorCodes];
+
+/**
+ * Error codes for the library calendar
+ */
+export const CalendarErrorCodes = {
+  CLOSURE_NOT_FOUND: "CLOSURE_NOT_FOUND",
+  INVALID_CLOSURE: "INVALID_CLOSURE",
+  INVALID_SCHEDULE: "INVALID_SCHEDULE",
+} as const;
+
+export type CalendarErrorCode = (typeof CalendarErrorCodes)[keyof typeof CalendarErrorCodes];
+
+/**
+ * Error codes for background jobs
+ */
+export const JobErrorCodes = {
+  JOB_NOT_FOUND: "JOB_NOT_FOUND",
+  JOB_RUN_FAILED: "JOB_RUN_FAILED",
+  CRON_DISABLED: "CRON_DISABLED",
+} as const;
+
+export type JobErrorCode = (typeof JobErrorCodes)[keyof typeof JobErrorCodes];
+
+/**
+ * Error codes for email templates
+ */
+export const EmailTemplateErrorCodes = {
+  TEMPLATE_NOT_FOUND: "TEMPLATE_NOT_FOUND",
+  INVALID_TEMPLATE: "INVALID_TEMPLATE",
+  SMTP_NOT_CONFIGURED: "SMTP_NOT_CONFIGURED",
+} as const;
+
+export type EmailTemplateErrorCode = (typeof EmailTemplateErrorCodes)[keyof typeof EmailTemplateErrorCodes];
+
+/**
+ * Error codes for saved searches
+ */
+export const SavedSearchErrorCodes = {
+  SAVED_SEARCH_NOT_FOUND: "SAVED_SEARCH_NOT_FOUND",
+  SAVED_SEARCH_LIMIT_REACHED: "SAVED_SEARCH_LIMIT_REACHED",
+} as const;
+
+export type SavedSearchErrorCode = (typeof SavedSearchErrorCodes)[keyof typeof SavedSearchErrorCodes];
+
 /**
  * Standard HTTP status codes
  */
@@ -48,6 +145,7 @@ export const HttpStatusCodes = {
   OK: 200,
   CREATED: 201,
   NO_CONTENT: 204,
+  FOUND: 302,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
@@ -177,11 +275,12 @@ export function createBookNotFoundError(bookId?: string): ApiError {
 
 /**
  * Creates a book already checked out error (409)
+ * Raised when every copy of the book is out
  */
 export function createBookAlreadyCheckedOutError(bookId: string): ApiError {
   return createError(
     BookErrorCodes.BOOK_ALREADY_CHECKED_OUT,
-    `Book with ID ${bookId} is already checked out`,
+    `All copies of book with ID ${bookId} are already checked out`,
     HttpStatusCodes.CONFLICT,
     { bookId }
   );
@@ -199,6 +298,49 @@ export function createBookUnavailableError(bookId: string): ApiError {
   );
 }
 
+/**
+ * Creates an author not found error (404)
+ */
+export function createAuthorNotFoundError(authorId?: string): ApiError {
+  return createError(
+    BookErrorCodes.AUTHOR_NOT_FOUND,
+    authorId ? `Author with ID ${authorId} not found` : "Author not found",
+    HttpStatusCodes.NOT_FOUND,
+    { authorId }
+  );
+}
+
+/**
+ * Creates a series not found error (404)
+ */
+export function createSeriesNotFoundError(seriesId?: string): ApiError {
+  return createError(
+    BookErrorCodes.SERIES_NOT_FOUND,
+    seriesId ? `Series with ID ${seriesId} not found` : "Series not found",
+    HttpStatusCodes.NOT_FOUND,
+    { seriesId }
+  );
+}
+
+/**
+ * Creates a genre not found error (404)
+ */
+export function createGenreNotFoundError(genreId?: string): ApiError {
+  return createError(
+    BookErrorCodes.GENRE_NOT_FOUND,
+    genreId ? `Genre with ID ${genreId} not found` : "Genre not found",
+    HttpStatusCodes.NOT_FOUND,
+    { genreId }
+  );
+}
+
+/**
+ * Creates an invalid genre error (400), e.g. a name already used by another genre
+ */
+export function createInvalidGenreError(message: string): ApiError {
+  return createError(BookErrorCodes.INVALID_GENRE, message, HttpStatusCodes.BAD_REQUEST);
+}
+
 /**
  * Creates a chapter not found error (404)
  */
@@ -211,6 +353,105 @@ export function createChapterNotFoundError(chapterId?: string): ApiError {
   );
 }
 
+/**
+ * Creates an invalid chapter order error (400)
+ */
+export function createInvalidChapterOrderError(message: string, bookId?: string): ApiError {
+  return createError(BookErrorCodes.INVALID_CHAPTER_ORDER, message, HttpStatusCodes.BAD_REQUEST, { bookId });
+}
+
+/**
+ * Creates an error for giving a chapter an order another chapter of the book already has (409)
+ */
+export function createChapterOrderTakenError(order: number, bookId?: string): ApiError {
+  return createError(
+    BookErrorCodes.CHAPTER_ORDER_TAKEN,
+    `Another chapter of this book is already number ${order}`,
+    HttpStatusCodes.CONFLICT,
+    { bookId, order }
+  );
+}
+
+/**
+ * Creates an error for reading a book's chapters without checking it out (403)
+ */
+export function createReadingNotAllowedError(
+  bookId?: string,
+  message = "Check out this book to read it online"
+): ApiError {
+  return createError(BookErrorCodes.READING_NOT_ALLOWED, message, HttpStatusCodes.FORBIDDEN, { bookId });
+}
+
+/**
+ * Creates a book copy not found error (404)
+ */
+export function createCopyNotFoundError(copyId?: string): ApiError {
+  return createError(
+    BookErrorCodes.COPY_NOT_FOUND,
+    copyId ? `Copy with ID ${copyId} not found` : "Copy not found",
+    HttpStatusCodes.NOT_FOUND,
+    { copyId }
+  );
+}
+
+/**
+ * Creates a book copy unavailable error (409)
+ */
+export function createCopyUnavailableError(copyId: string): ApiError {
+  return createError(
+    BookErrorCodes.COPY_UNAVAILABLE,
+    `Copy with ID ${copyId} is not available for checkout`,
+    HttpStatusCodes.CONFLICT,
+    { copyId }
+  );
+}
+
+/**
+ * Creates a duplicate barcode error (409)
+ */
+export function createDuplicateBarcodeError(barcode: string): ApiError {
+  return createError(
+    BookErrorCodes.DUPLICATE_BARCODE,
+    `A copy with barcode ${barcode} already exists`,
+    HttpStatusCodes.CONFLICT,
+    { barcode }
+  );
+}
+
+/**
+ * Creates an invalid ISBN error (400)
+ * Raised when an ISBN has the wrong length or check digit
+ */
+export function createInvalidIsbnError(isbn: string): ApiError {
+  return createError(
+    BookErrorCodes.INVALID_ISBN,
+    `"${isbn}" is not a valid ISBN-10 or ISBN-13`,
+    HttpStatusCodes.BAD_REQUEST,
+    { isbn }
+  );
+}
+
+/**
+ * Creates a book metadata not found error (404)
+ * Raised when no metadata provider knows the ISBN
+ */
+export function createBookMetadataNotFoundError(isbn: string): ApiError {
+  return createError(
+    BookErrorCodes.BOOK_METADATA_NOT_FOUND,
+    `No book details found for ISBN ${isbn}`,
+    HttpStatusCodes.NOT_FOUND,
+    { isbn }
+  );
+}
+
+/**
+ * Creates an invalid cover image error (400)
+ * Raised when an upload is not a supported image or is too large
+ */
+export function createInvalidCoverImageError(reason: string): ApiError {
+  return createError(BookErrorCodes.INVALID_COVER_IMAGE, reason, HttpStatusCodes.BAD_REQUEST);
+}
+
 // Checkout-specific error creators
 
 /**
@@ -237,6 +478,23 @@ export function createCheckoutLimitExceededError(currentCheckouts: number, maxCh
   );
 }
 
+/**
+ * Creates a genre checkout limit exceeded error (400)
+ * Raised when a circulation policy limits how many books of a genre a patron can borrow
+ */
+export function createGenreCheckoutLimitExceededError(
+  genre: string,
+  currentCheckouts: number,
+  maxCheckouts: number
+): ApiError {
+  return createError(
+    CheckoutErrorCodes.CHECKOUT_LIMIT_EXCEEDED,
+    `Checkout limit exceeded for ${genre}. You have ${currentCheckouts} active ${genre} checkouts out of ${maxCheckouts} allowed.`,
+    HttpStatusCodes.BAD_REQUEST,
+    { genre, currentCheckouts, maxCheckouts }
+  );
+}
+
 /**
  * Creates a checkout already returned error (409)
  */
@@ -248,3 +506,247 @@ export function createCheckoutAlreadyReturnedError(checkoutId: string): ApiError
     { checkoutId }
   );
 }
+
+/**
+ * Creates a renewal limit reached error (400)
+ */
+export function createRenewalLimitReachedError(checkoutId: string, maxRenewals: number): ApiError {
+  return createError(
+    CheckoutErrorCodes.RENEWAL_LIMIT_REACHED,
+    `This checkout has already been renewed the maximum of ${maxRenewals} times`,
+    HttpStatusCodes.BAD_REQUEST,
+    { checkoutId, maxRenewals }
+  );
+}
+
+/**
+ * Creates a renewal blocked by hold error (409)
+ */
+export function createRenewalBlockedByHoldError(checkoutId: string, bookId: string): ApiError {
+  return createError(
+    CheckoutErrorCodes.RENEWAL_BLOCKED_BY_HOLD,
+    "This book can't be renewed because another patron has placed a hold on it",
+    HttpStatusCodes.CONFLICT,
+    { checkoutId, bookId }
+  );
+}
+
+/**
+ * Creates a renewal not allowed error (400)
+ */
+export function createRenewalNotAllowedError(checkoutId: string, message: string): ApiError {
+  return createError(CheckoutErrorCodes.RENEWAL_NOT_ALLOWED, message, HttpStatusCodes.BAD_REQUEST, { checkoutId });
+}
+
+// Hold-specific error creators
+
+/**
+ * Creates a hold not found error (404)
+ */
+export function createHoldNotFoundError(holdId?: string): ApiError {
+  return createError(
+    HoldErrorCodes.HOLD_NOT_FOUND,
+    holdId ? `Hold with ID ${holdId} not found` : "Hold not found",
+    HttpStatusCodes.NOT_FOUND,
+    { holdId }
+  );
+}
+
+/**
+ * Creates a hold already exists error (409)
+ */
+export function createHoldAlreadyExistsError(bookId: string): ApiError {
+  return createError(
+    HoldErrorCodes.HOLD_ALREADY_EXISTS,
+    "You already have an active hold on this book",
+    HttpStatusCodes.CONFLICT,
+    { bookId }
+  );
+}
+
+/**
+ * Creates a hold not allowed error (400)
+ * Raised when the patron can't join the queue, e.g. a copy is already on the shelf
+ */
+export function createHoldNotAllowedError(message: string, bookId: string): ApiError {
+  return createError(HoldErrorCodes.HOLD_NOT_ALLOWED, message, HttpStatusCodes.BAD_REQUEST, { bookId });
+}
+
+/**
+ * Creates a hold not active error (409)
+ */
+export function createHoldNotActiveError(holdId: string): ApiError {
+  return createError(
+    HoldErrorCodes.HOLD_NOT_ACTIVE,
+    `Hold with ID ${holdId} is no longer active`,
+    HttpStatusCodes.CONFLICT,
+    { holdId }
+  );
+}
+
+// Finance-specific error creators
+
+/**
+ * Creates an outstanding balance error (400)
+ * Raised when a patron owes more than the checkout threshold
+ */
+export function createOutstandingBalanceError(balance: number, threshold: number, accruedLateFees = 0): ApiError {
+  const accrued =
+    accruedLateFees > 0 ? `, including $${accruedLateFees.toFixed(2)} in late fees on books not yet returned` : "";
+  return createError(
+    FinanceErrorCodes.OUTSTANDING_BALANCE,
+    `You have an outstanding balance of $${balance.toFixed(2)}${accrued}. Please pay fines above $${threshold.toFixed(2)} before checking out more books.`,
+    HttpStatusCodes.BAD_REQUEST,
+    { balance, threshold, accruedLateFees }
+  );
+}
+
+/**
+ * Creates an invalid ledger entry error (400)
+ */
+export function createInvalidLedgerEntryError(message: string): ApiError {
+  return createError(FinanceErrorCodes.INVALID_LEDGER_ENTRY, message, HttpStatusCodes.BAD_REQUEST);
+}
+
+/**
+ * Creates an amount exceeds balance error (400)
+ */
+export function createAmountExceedsBalanceError(amount: number, balance: number): ApiError {
+  return createError(
+    FinanceErrorCodes.AMOUNT_EXCEEDS_BALANCE,
+    `Amount $${amount.toFixed(2)} exceeds the outstanding balance of $${balance.toFixed(2)}`,
+    HttpStatusCodes.BAD_REQUEST,
+    { amount, balance }
+  );
+}
+
+// Policy-specific error creators
+
+/**
+ * Creates a policy not found error (404)
+ */
+export function createPolicyNotFoundError(policyId?: string): ApiError {
+  return createError(
+    PolicyErrorCodes.POLICY_NOT_FOUND,
+    policyId ? `Circulation policy with ID ${policyId} not found` : "Circulation policy not found",
+    HttpStatusCodes.NOT_FOUND,
+    { policyId }
+  );
+}
+
+/**
+ * Creates an invalid policy error (400)
+ */
+export function createInvalidPolicyError(message: string): ApiError {
+  return createError(PolicyErrorCodes.INVALID_POLICY, message, HttpStatusCodes.BAD_REQUEST);
+}
+
+/**
+ * Creates a duplicate policy error (409)
+ * Only one policy may exist for each role and genre combination
+ */
+export function createDuplicatePolicyError(roleId: string | null, genre: string | null): ApiError {
+  return createError(
+    PolicyErrorCodes.DUPLICATE_POLICY,
+    "A policy for this role and genre already exists",
+    HttpStatusCodes.CONFLICT,
+    { roleId, genre }
+  );
+}
+
+// Calendar-specific error creators
+
+/**
+ * Creates a closure not found error (404)
+ */
+export function createClosureNotFoundError(closureId?: string): ApiError {
+  return createError(
+    CalendarErrorCodes.CLOSURE_NOT_FOUND,
+    closureId ? `Closure with ID ${closureId} not found` : "Closure not found",
+    HttpStatusCodes.NOT_FOUND,
+    { closureId }
+  );
+}
+
+/**
+ * Creates an invalid closure error (400)
+ */
+export function createInvalidClosureError(message: string): ApiError {
+  return createError(CalendarErrorCodes.INVALID_CLOSURE, message, HttpStatusCodes.BAD_REQUEST);
+}
+
+/**
+ * Creates an invalid schedule error (400)
+ */
+export function createInvalidScheduleError(message: string): ApiError {
+  return createError(CalendarErrorCodes.INVALID_SCHEDULE, message, HttpStatusCodes.BAD_REQUEST);
+}
+
+// Job-specific error creators
+
+/**
+ * Creates a job not found error (404)
+ */
+export function createJobNotFoundError(job: string): ApiError {
+  return createError(JobErrorCodes.JOB_NOT_FOUND, `Background job "${job}" not found`, HttpStatusCodes.NOT_FOUND, {
+    job,
+  });
+}
+
+// Email template-specific error creators
+
+/**
+ * Creates an email template not found error (404)
+ */
+export function createEmailTemplateNotFoundError(template: string): ApiError {
+  return createError(
+    EmailTemplateErrorCodes.TEMPLATE_NOT_FOUND,
+    `Email template "${template}" not found`,
+    HttpStatusCodes.NOT_FOUND,
+    { template }
+  );
+}
+
+/**
+ * Creates an invalid email template error (400)
+ */
+export function createInvalidEmailTemplateError(message: string): ApiError {
+  return createError(EmailTemplateErrorCodes.INVALID_TEMPLATE, message, HttpStatusCodes.BAD_REQUEST);
+}
+
+/**
+ * Creates an SMTP not configured error (503)
+ */
+export function createSmtpNotConfiguredError(): ApiError {
+  return createError(
+    EmailTemplateErrorCodes.SMTP_NOT_CONFIGURED,
+    "Test emails need an SMTP sink. Set SMTP_HOST (and SMTP_PORT) to enable them.",
+    HttpStatusCodes.SERVICE_UNAVAILABLE
+  );
+}
+
+// Saved search-specific error creators
+
+/**
+ * Creates a saved search not found error (404)
+ */
+export function createSavedSearchNotFoundError(savedSearchId?: string): ApiError {
+  return createError(
+    SavedSearchErrorCodes.SAVED_SEARCH_NOT_FOUND,
+    savedSearchId ? `Saved search with ID ${savedSearchId} not found` : "Saved search not found",
+    HttpStatusCodes.NOT_FOUND,
+    { savedSearchId }
+  );
+}
+
+/**
+ * Creates a saved search limit reached error (400)
+ */
+export function createSavedSearchLimitReachedError(limit: number): ApiError {
+  return createError(
+    SavedSearchErrorCodes.SAVED_SEARCH_LIMIT_REACHED,
+    `You can save up to ${limit} searches. Delete one to save another.`,
+    HttpStatusCodes.BAD_REQUEST,
+    { limit }
+  );
+}
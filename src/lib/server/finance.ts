@@ -0,0 +1,298 @@
+import type { LedgerEntryType, Prisma } from "@prisma/client";
+import {
+  createAmountExceedsBalanceError,
+  createInvalidLedgerEntryError,
+  createCheckoutNotFoundError,
+  type ApiError,
+} from "./errors";
+import { prisma } from "./prisma";
+import type { CreateLedgerEntryInput, LedgerEntryWithRelations, PatronBalance } from "./types/finance";
+
+const ledgerEntryInclude = {
+  actor: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  checkout: {
+    select: {
+      id: true,
+      dueDate: true,
+      returnedDate: true,
+      book: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.LedgerEntryInclude;
+
+/**
+ * Rounds a currency amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Converts an entry amount to its signed ledger value
+ * Charges increase what the patron owes; payments and waivers reduce it
+ */
+export function toSignedAmount(type: LedgerEntryType, amount: number): number {
+  switch (type) {
+    case "CHARGE":
+      return roundAmount(Math.abs(amount));
+    case "PAYMENT":
+    case "WAIVER":
+      return -roundAmount(Math.abs(amount));
+    case "ADJUSTMENT":
+      return roundAmount(amount);
+  }
+}
+
+/**
+ * Gets a patron's current balance (positive means they owe the library)
+ */
+export async function getUserBalance(userId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+  const result = await client.ledgerEntry.aggregate({
+    where: { userId },
+    _sum: { amount: true },
+  });
+
+  return Number(result._sum.amount ?? 0);
+}
+
+/**
+ * Validates a ledger entry before it is recorded
+ * Checks: amount, required reason, payments and waivers not exceeding the balance
+ */
+export async function validateLedgerEntry(
+  input: CreateLedgerEntryInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<ApiError | null> {
+  const amount = roundAmount(input.amount);
+
+  if (!Number.isFinite(amount) || amount === 0) {
+    return createInvalidLedgerEntryError("Amount must be a non-zero number");
+  }
+
+  if (input.type !== "ADJUSTMENT" && amount < 0) {
+    return createInvalidLedgerEntryError("Amount must be positive. Use an adjustment to correct a balance.");
+  }
+
+  // Waivers and adjustments change what a patron owes without money changing hands
+  if ((input.type === "WAIVER" || input.type === "ADJUSTMENT") && !input.reason?.trim()) {
+    return createInvalidLedgerEntryError("A reason is required for waivers and adjustments");
+  }
+
+  const user = await client.user.findUnique({
+    where: { id: input.userId },
+  });
+
+  if (!user) {
+    return createInvalidLedgerEntryError("User not found");
+  }
+
+  if (input.checkoutId) {
+    const checkout = await client.checkout.findUnique({
+      where: { id: input.checkoutId },
+    });
+
+    if (!checkout || checkout.userId !== input.userId) {
+      return createCheckoutNotFoundError(input.checkoutId);
+    }
+  }
+
+  if (input.type === "PAYMENT" || input.type === "WAIVER") {
+    const balance = await getUserBalance(input.userId, client);
+    if (amount > balance) {
+      return createAmountExceedsBalanceError(amount, balance);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records a charge, payment, waiver or adjustment against a patron
+ * Validates and writes in one transaction, holding a lock on the patron so concurrent payments can't
+ * both pass the balance check.
+ * @returns The entry, or the validation error
+ */
+export async function recordLedgerEntry(input: CreateLedgerEntryInput): Promise<LedgerEntryWithRelations | ApiError> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${input.userId} FOR UPDATE`;
+
+    const error = await validateLedgerEntry(input, tx);
+    if (error) {
+      return error;
+    }
+
+    return tx.ledgerEntry.create({
+      data: {
+        userId: input.userId,
+        checkoutId: input.checkoutId,
+        type: input.type,
+        amount: toSignedAmount(input.type, input.amount),
+        reason: input.reason?.trim() || null,
+        actorId: input.actorId,
+      },
+      include: ledgerEntryInclude,
+    });
+  });
+}
+
+/**
+ * Charges the late fee for a returned checkout
+ * Must be called inside the transaction that returned the checkout
+ */
+export async function chargeLateFee(
+  tx: Prisma.TransactionClient,
+  checkout: { id: string; userId: string },
+  lateFeeAmount: number
+): Promise<void> {
+  if (lateFeeAmount <= 0) {
+    return;
+  }
+
+  await tx.ledgerEntry.create({
+    data: {
+      userId: checkout.userId,
+      checkoutId: checkout.id,
+      type: "CHARGE",
+      amount: toSignedAmount("CHARGE", lateFeeAmount),
+      reason: "Late fee",
+    },
+  });
+}
+
+/**
+ * Lists a patron's ledger entries, newest first
+ */
+export async function getLedgerEntries(
+  userId: string,
+  page = 1,
+  limit = 20
+): Promise<{ entries: LedgerEntryWithRelations[]; total: number }> {
+  const [entries, total] = await Promise.all([
+    prisma.ledgerEntry.findMany({
+      where: { userId },
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+      include: ledgerEntryInclude,
+    }),
+    prisma.ledgerEntry.count({ where: { userId } }),
+  ]);
+
+  return { entries, total };
+}
+
+/**
+ * Lists patrons with a non-zero balance, largest balance first
+ * @param search - Optional name or email filter
+ */
+export async function getPatronBalances(
+  page = 1,
+  limit = 20,
+  search?: string
+): Promise<{ balances: PatronBalance[]; total: number }> {
+  const where: Prisma.LedgerEntryWhereInput = search
+    ? {
+        user: {
+          OR: [
+            { name: { contains: search, mode: "insensitive" } },
+            { email: { contains: search, mode: "insensitive" } },
+          ],
+        },
+      }
+    : {};
+
+  const having: Prisma.LedgerEntryScalarWhereWithAggregatesInput = {
+    amount: { _sum: { not: 0 } },
+  };
+
+  const [groups, allGroups] = await Promise.all([
+    prisma.ledgerEntry.groupBy({
+      by: ["userId"],
+      where,
+      having,
+      _sum: { amount: true },
+      _max: { createdAt: true },
+      orderBy: { _sum: { amount: "desc" } },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["userId"],
+      where,
+      having,
+    }),
+  ]);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: groups.map((group) => group.userId) } },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  const balances = groups.flatMap((group) => {
+    const user = usersById.get(group.userId);
+    if (!user) return [];
+    return [
+      {
+        user,
+        balance: Number(group._sum.amount ?? 0),
+        lastEntryAt: group._max.createdAt,
+      },
+    ];
+  });
+
+  return { balances, total: allGroups.length };
+}
+
+/**
+ * Totals for the finance dashboard
+ * @param days - Window for recent payments and waivers
+ */
+export async function getFinanceSummary(days = 30): Promise<{
+  totalOutstanding: number;
+  patronsWithBalance: number;
+  paymentsCollected: number;
+  amountWaived: number;
+}> {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const [owing, payments, waivers] = await Promise.all([
+    prisma.ledgerEntry.groupBy({
+      by: ["userId"],
+      having: { amount: { _sum: { gt: 0 } } },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.aggregate({
+      where: { type: "PAYMENT", createdAt: { gte: since } },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.aggregate({
+      where: { type: "WAIVER", createdAt: { gte: since } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return {
+    totalOutstanding: roundAmount(owing.reduce((sum, group) => sum + Number(group._sum.amount ?? 0), 0)),
+    patronsWithBalance: owing.length,
+    // Payments and waivers are stored as negative amounts
+    paymentsCollected: Math.abs(Number(payments._sum.amount ?? 0)),
+    amountWaived: Math.abs(Number(waivers._sum.amount ?? 0)),
+  };
+}
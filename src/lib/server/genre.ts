@@ -0,0 +1,601 @@
+import type { Prisma } from "@prisma/client";
+import { normalizeAuthorName } from "./author";
+import { createGenreNotFoundError, createInvalidGenreError, type ApiError } from "./errors";
+import { prisma } from "./prisma";
+import type { CatalogTag, GenreInput, GenreSummary, GenreWithSynonyms, ResolvedBookGenres } from "./types/genre";
+
+// A top-level genre, its subgenres and one level below those, e.g. Fiction > Fantasy > Epic Fantasy
+export const MAX_GENRE_DEPTH = 3;
+
+const GENRE_SEARCH_LIMIT = 20;
+const TAG_LIST_LIMIT = 200;
+// Genres listed in the AI tagging prompt
+const AI_VOCABULARY_LIMIT = 100;
+
+type GenreRef = { id: string; name: string };
+
+/**
+ * Include for a book's genres in order, with the linked genre
+ */
+export const BOOK_GENRES_INCLUDE = {
+  orderBy: { position: "asc" },
+  include: { genre: { select: { id: true, name: true } } },
+} satisfies Prisma.Book$genresArgs;
+
+/**
+ * Include for a book's genres in order, with the genres above each one up to the top level (MAX_GENRE_DEPTH)
+ */
+export const BOOK_GENRE_LINEAGE_INCLUDE = {
+  orderBy: { position: "asc" },
+  select: {
+    genre: { select: { name: true, parent: { select: { name: true, parent: { select: { name: true } } } } } },
+  },
+} satisfies Prisma.Book$genresArgs;
+
+type GenreWithParents = { name: string; parent?: GenreWithParents | null };
+
+/**
+ * Key that genres, synonyms and tags are matched on, the same as author names
+ * "Sci-Fi" becomes "scifi", so "sci fi" matches it but "Science Fiction" needs a synonym
+ */
+export function normalizeGenreName(name: string): string {
+  return normalizeAuthorName(name);
+}
+
+function cleanName(name: string): string {
+  return name.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Genres named by any of the given names, directly or through a synonym, keyed by normalized name
+ */
+async function findGenresByName(db: Prisma.TransactionClient, names: string[]): Promise<Map<string, GenreRef>> {
+  const keys = Array.from(new Set(names.map(normalizeGenreName).filter(Boolean)));
+  if (keys.length === 0) {
+    return new Map();
+  }
+
+  const [genres, synonyms] = await Promise.all([
+    db.genre.findMany({
+      where: { normalizedName: { in: keys } },
+      select: { id: true, name: true, normalizedName: true },
+    }),
+    db.genreSynonym.findMany({
+      where: { normalizedName: { in: keys } },
+      select: { normalizedName: true, genre: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  return new Map([
+    ...synonyms.map((synonym): [string, GenreRef] => [synonym.normalizedName, synonym.genre]),
+    ...genres.map((genre): [string, GenreRef] => [genre.normalizedName, { id: genre.id, name: genre.name }]),
+  ]);
+}
+
+/**
+ * Genre names for a book from its input: the genres list when given, otherwise its single genre
+ */
+export function getBookGenreInputs(data: { genre?: string | null; genres?: string[] }): string[] {
+  return (data.genres ?? (data.genre ? [data.genre] : [])).filter((name) => typeof name === "string");
+}
+
+/**
+ * Matches a book's genres and tags to the vocabulary, in order
+ * A name that is a genre or one of its synonyms links that genre, and tags that match are moved to the genres.
+ * Unmatched genre names are added as top-level genres, unless createMissing is off (for suggestions from AI
+ * or metadata providers), in which case they are kept as tags. Remaining tags lose case-insensitive repeats.
+ */
+export async function resolveBookGenres(
+  db: Prisma.TransactionClient,
+  names: string[],
+  tags: string[] = [],
+  { createMissing = true }: { createMissing?: boolean } = {}
+): Promise<ResolvedBookGenres> {
+  const matches = await findGenresByName(db, [...names, ...tags]);
+  const linked: GenreRef[] = [];
+  const unmatched: string[] = [];
+  const link = (genre: GenreRef) => {
+    if (!linked.some((other) => other.id === genre.id)) linked.push(genre);
+  };
+
+  for (const name of names) {
+    const normalizedName = normalizeGenreName(name);
+    if (!normalizedName) continue;
+
+    const match = matches.get(normalizedName);
+    if (match) {
+      link(match);
+    } else if (createMissing) {
+      const genre = await db.genre.upsert({
+        where: { normalizedName },
+        update: {},
+        create: { name: cleanName(name), normalizedName },
+        select: { id: true, name: true },
+      });
+      matches.set(normalizedName, genre);
+      link(genre);
+    } else {
+      unmatched.push(cleanName(name));
+    }
+  }
+
+  for (const tag of tags) {
+    const match = matches.get(normalizeGenreName(tag));
+    if (match) {
+      link(match);
+    } else {
+      unmatched.push(tag.trim());
+    }
+  }
+
+  const seen = new Set<string>();
+  const remainingTags = unmatched.filter((tag) => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    genre: linked[0]?.name ?? null,
+    genres: linked.map((genre, position) => ({ genreId: genre.id, position })),
+    genreNames: linked.map((genre) => genre.name),
+    tags: remainingTags,
+  };
+}
+
+/**
+ * Re-resolves an existing book's genres when an update changes its genre, genres or tags
+ * Fields left out of the update keep their saved values.
+ * @returns null when the update touches none of them
+ */
+export async function resolveBookGenreUpdate(
+  db: Prisma.TransactionClient,
+  book: { id: string; tags: string[] },
+  data: { genre?: string | null; genres?: string[]; tags?: string[] },
+  options?: { createMissing?: boolean }
+): Promise<ResolvedBookGenres | null> {
+  if (data.genres === undefined && data.genre === undefined && data.tags === undefined) {
+    return null;
+  }
+
+  let names: string[];
+  if (data.genres !== undefined || data.genre !== undefined) {
+    names = getBookGenreInputs(data);
+  } else {
+    const links = await db.bookGenre.findMany({
+      where: { bookId: book.id },
+      orderBy: { position: "asc" },
+      select: { genre: { select: { name: true } } },
+    });
+    names = links.map((link) => link.genre.name);
+  }
+
+  return resolveBookGenres(db, names, data.tags ?? book.tags, options);
+}
+
+/**
+ * Renumbers the given books' genre positions from 0 and sets Book.genre to the first genre's name
+ */
+async function syncBookGenres(db: Prisma.TransactionClient, bookIds: string[]): Promise<void> {
+  if (bookIds.length === 0) return;
+
+  await db.$executeRaw`
+    UPDATE "BookGenre" AS bg
+    SET "position" = ranked."position"
+    FROM (
+      SELECT "bookId", "genreId", (row_number() OVER (PARTITION BY "bookId" ORDER BY "position", "genreId") - 1)::INTEGER AS "position"
+      FROM "BookGenre"
+      WHERE "bookId" = ANY(${bookIds})
+    ) AS ranked
+    WHERE bg."bookId" = ranked."bookId" AND bg."genreId" = ranked."genreId"
+  `;
+  await db.$executeRaw`
+    UPDATE "Book" AS b
+    SET "genre" = (
+      SELECT g."name"
+      FROM "BookGenre" AS bg
+      JOIN "Genre" AS g ON g."id" = bg."genreId"
+      WHERE bg."bookId" = b."id"
+      ORDER BY bg."position"
+      LIMIT 1
+    )
+    WHERE b."id" = ANY(${bookIds})
+  `;
+}
+
+/**
+ * Names of a book's genres followed by the genres they sit within, nearest first and without repeats
+ * e.g. a book in Epic Fantasy and Mystery gives Epic Fantasy, Mystery, Fantasy, Fiction
+ * @param genres - The book's genre links, loaded with BOOK_GENRE_LINEAGE_INCLUDE
+ */
+export function getGenreLineage(genres: { genre: GenreWithParents }[]): string[] {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (let level = genres.map((link) => link.genre); level.length > 0; ) {
+    for (const genre of level) {
+      const key = normalizeGenreName(genre.name);
+      if (!seen.has(key)) {
+        seen.add(key);
+        names.push(genre.name);
+      }
+    }
+    level = level.flatMap((genre) => (genre.parent ? [genre.parent] : []));
+  }
+  return names;
+}
+
+/**
+ * Checks whether a genre lineage (from getGenreLineage) includes a genre, ignoring case and punctuation
+ * True for a book in the genre itself or in any genre below it
+ */
+export function genreLineageIncludes(lineage: string[], genre: string): boolean {
+  const key = normalizeGenreName(genre);
+  return lineage.some((name) => normalizeGenreName(name) === key);
+}
+
+/**
+ * Matches a genre named any of the given names or sitting anywhere below one, for search filters
+ */
+export function genreWithinNames(names: string[]): Prisma.GenreWhereInput {
+  const named = { name: { in: names } };
+  return { OR: [named, { parent: named }, { parent: { parent: named } }] };
+}
+
+/**
+ * Finds genres for pickers and search by name or synonym, those with the most books first
+ */
+export async function searchGenres(query: string, limit = GENRE_SEARCH_LIMIT): Promise<GenreSummary[]> {
+  const q = query.trim();
+  const genres = await prisma.genre.findMany({
+    where: q
+      ? {
+          OR: [
+            { name: { contains: q, mode: "insensitive" } },
+            { synonyms: { some: { name: { contains: q, mode: "insensitive" } } } },
+          ],
+        }
+      : {},
+    include: { _count: { select: { books: true } } },
+    orderBy: [{ books: { _count: "desc" } }, { name: "asc" }],
+    take: limit,
+  });
+
+  return genres.map(({ id, name, parentId, _count }) => ({ id, name, parentId, bookCount: _count.books }));
+}
+
+/**
+ * Names of the most used genres, offered to AI tagging so its suggestions land on the vocabulary
+ */
+export async function getGenreVocabulary(limit = AI_VOCABULARY_LIMIT): Promise<string[]> {
+  return (await searchGenres("", limit)).map((genre) => genre.name);
+}
+
+/**
+ * Lists the whole vocabulary with synonyms and book counts, by name; the client arranges it into a tree
+ */
+export async function getGenres(): Promise<GenreWithSynonyms[]> {
+  const genres = await prisma.genre.findMany({
+    include: {
+      synonyms: { select: { id: true, name: true }, orderBy: { name: "asc" } },
+      _count: { select: { books: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return genres.map(({ _count, ...genre }) => ({ ...genre, bookCount: _count.books }));
+}
+
+/**
+ * Parent of every genre, to walk the tree without a query per level
+ */
+async function getGenreParents(): Promise<Map<string, string | null>> {
+  const genres = await prisma.genre.findMany({ select: { id: true, parentId: true } });
+  return new Map(genres.map((genre) => [genre.id, genre.parentId]));
+}
+
+// 1 for a top-level genre
+function getGenreDepth(parents: Map<string, string | null>, id: string): number {
+  let depth = 1;
+  for (let parentId = parents.get(id); parentId; parentId = parents.get(parentId)) {
+    depth++;
+  }
+  return depth;
+}
+
+// 1 for a genre without subgenres
+function getSubtreeHeight(parents: Map<string, string | null>, id: string): number {
+  const children = Array.from(parents).filter(([, parentId]) => parentId === id);
+  return 1 + Math.max(0, ...children.map(([childId]) => getSubtreeHeight(parents, childId)));
+}
+
+function isWithinGenre(parents: Map<string, string | null>, id: string, ancestorId: string): boolean {
+  for (let current: string | null | undefined = id; current; current = parents.get(current)) {
+    if (current === ancestorId) return true;
+  }
+  return false;
+}
+
+/**
+ * Validates a genre before it is created or updated
+ * Checks: names and synonyms aren't used by another genre, the parent exists, and the tree stays acyclic and
+ * at most MAX_GENRE_DEPTH levels deep
+ * @param genreId - The genre being updated, if any
+ */
+export async function validateGenre(input: GenreInput, genreId?: string): Promise<ApiError | null> {
+  if (genreId && !(await prisma.genre.findUnique({ where: { id: genreId } }))) {
+    return createGenreNotFoundError(genreId);
+  }
+
+  const name = cleanName(input.name ?? "");
+  if (!normalizeGenreName(name)) {
+    return createInvalidGenreError("Genre name is required");
+  }
+
+  const synonyms = input.synonyms ?? [];
+  const matches = await findGenresByName(prisma, [name, ...synonyms]);
+  const nameMatch = matches.get(normalizeGenreName(name));
+  if (nameMatch && nameMatch.id !== genreId) {
+    return createInvalidGenreError(`"${name}" is already used by the genre ${nameMatch.name}; merge into it instead`);
+  }
+  for (const synonym of synonyms) {
+    const key = normalizeGenreName(synonym);
+    if (!key) {
+      return createInvalidGenreError("Synonyms can't be blank");
+    }
+    const match = matches.get(key);
+    if (match && match.id !== genreId) {
+      return createInvalidGenreError(`"${synonym}" is already used by the genre ${match.name}`);
+    }
+  }
+
+  if (input.parentId) {
+    const parents = await getGenreParents();
+    if (!parents.has(input.parentId)) {
+      return createInvalidGenreError("Parent genre not found");
+    }
+    if (genreId && isWithinGenre(parents, input.parentId, genreId)) {
+      return createInvalidGenreError("A genre can't be placed under itself or one of its subgenres");
+    }
+    const height = genreId ? getSubtreeHeight(parents, genreId) : 1;
+    if (getGenreDepth(parents, input.parentId) + height > MAX_GENRE_DEPTH) {
+      return createInvalidGenreError(`Genres can be at most ${MAX_GENRE_DEPTH} levels deep`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Synonym rows for a genre, leaving out blanks, repeats and the genre's own name
+ */
+function toSynonymData(name: string, synonyms: string[]): { name: string; normalizedName: string }[] {
+  const keys = new Set([normalizeGenreName(name)]);
+  return synonyms.flatMap((synonym) => {
+    const normalizedName = normalizeGenreName(synonym);
+    if (!normalizedName || keys.has(normalizedName)) return [];
+    keys.add(normalizedName);
+    return [{ name: cleanName(synonym), normalizedName }];
+  });
+}
+
+export async function createGenre(input: GenreInput): Promise<GenreWithSynonyms> {
+  const name = cleanName(input.name);
+  const genre = await prisma.genre.create({
+    data: {
+      name,
+      normalizedName: normalizeGenreName(name),
+      parentId: input.parentId || null,
+      description: input.description?.trim() || null,
+      synonyms: { create: toSynonymData(name, input.synonyms ?? []) },
+    },
+    include: { synonyms: { select: { id: true, name: true } } },
+  });
+
+  return { ...genre, bookCount: 0 };
+}
+
+/**
+ * Updates a genre; a rename keeps the old name as a synonym so books and tags spelled that way still map to it
+ * Book.genre and circulation policies naming the old spelling are renamed across the catalog.
+ */
+export async function updateGenre(id: string, input: GenreInput): Promise<GenreWithSynonyms> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.genre.findUniqueOrThrow({ where: { id }, include: { synonyms: true } });
+    const name = cleanName(input.name);
+    const normalizedName = normalizeGenreName(name);
+    const renamed = name !== existing.name;
+
+    const synonyms = toSynonymData(name, [
+      ...(input.synonyms ?? existing.synonyms.map((synonym) => synonym.name)),
+      ...(renamed ? [existing.name] : []),
+    ]);
+
+    await tx.genreSynonym.deleteMany({ where: { genreId: id } });
+    const genre = await tx.genre.update({
+      where: { id },
+      data: {
+        name,
+        normalizedName,
+        ...(input.parentId !== undefined && { parentId: input.parentId || null }),
+        ...(input.description !== undefined && { description: input.description?.trim() || null }),
+        synonyms: { create: synonyms },
+      },
+      include: {
+        synonyms: { select: { id: true, name: true }, orderBy: { name: "asc" } },
+        _count: { select: { books: true } },
+      },
+    });
+
+    if (renamed) {
+      await tx.book.updateMany({ where: { genres: { some: { genreId: id, position: 0 } } }, data: { genre: name } });
+      await tx.circulationPolicy.updateMany({
+        where: { genre: { equals: existing.name, mode: "insensitive" } },
+        data: { genre: name },
+      });
+    }
+
+    const { _count, ...rest } = genre;
+    return { ...rest, bookCount: _count.books };
+  });
+}
+
+/**
+ * Deletes a genre; its subgenres move up to its parent and its books keep their other genres
+ */
+export async function deleteGenre(id: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const genre = await tx.genre.findUniqueOrThrow({ where: { id }, include: { books: { select: { bookId: true } } } });
+
+    await tx.genre.updateMany({ where: { parentId: id }, data: { parentId: genre.parentId } });
+    await tx.genre.delete({ where: { id } });
+    await syncBookGenres(
+      tx,
+      genre.books.map((link) => link.bookId)
+    );
+  });
+}
+
+/**
+ * Validates merging one genre into another
+ * The target can't sit below the source, and the source's subgenres must still fit under the target
+ */
+export async function validateGenreMerge(sourceId: string, targetId: string): Promise<ApiError | null> {
+  const parents = await getGenreParents();
+  if (!parents.has(sourceId)) {
+    return createGenreNotFoundError(sourceId);
+  }
+  if (!parents.has(targetId)) {
+    return createGenreNotFoundError(targetId);
+  }
+  if (sourceId === targetId) {
+    return createInvalidGenreError("Choose a different genre to merge into");
+  }
+  if (isWithinGenre(parents, targetId, sourceId)) {
+    return createInvalidGenreError("A genre can't be merged into one of its subgenres");
+  }
+
+  const childHeights = Array.from(parents)
+    .filter(([, parentId]) => parentId === sourceId)
+    .map(([childId]) => getSubtreeHeight(parents, childId));
+  if (getGenreDepth(parents, targetId) + Math.max(0, ...childHeights) > MAX_GENRE_DEPTH) {
+    return createInvalidGenreError(`Its subgenres would be more than ${MAX_GENRE_DEPTH} levels deep`);
+  }
+
+  return null;
+}
+
+/**
+ * Merges one genre into another across the catalog
+ * Books, subgenres and synonyms move to the target and the source's name becomes a synonym of it.
+ * A book keeps the earlier of the two positions, so a book filed first under the source is filed first under
+ * the target. Book.genre and circulation policies naming the source are renamed.
+ * @returns The number of books that were linked to the source
+ */
+export async function mergeGenres(sourceId: string, targetId: string): Promise<{ bookCount: number }> {
+  return prisma.$transaction(async (tx) => {
+    const source = await tx.genre.findUniqueOrThrow({
+      where: { id: sourceId },
+      include: { books: { select: { bookId: true } } },
+    });
+    const target = await tx.genre.findUniqueOrThrow({ where: { id: targetId } });
+    const bookIds = source.books.map((link) => link.bookId);
+
+    await tx.$executeRaw`
+      INSERT INTO "BookGenre" ("bookId", "genreId", "position")
+      SELECT "bookId", ${targetId}, "position"
+      FROM "BookGenre"
+      WHERE "genreId" = ${sourceId}
+      ON CONFLICT ("bookId", "genreId") DO UPDATE SET "position" = LEAST("BookGenre"."position", EXCLUDED."position")
+    `;
+    await tx.genre.updateMany({ where: { parentId: sourceId }, data: { parentId: targetId } });
+    await tx.genreSynonym.updateMany({ where: { genreId: sourceId }, data: { genreId: targetId } });
+    await tx.genre.delete({ where: { id: sourceId } });
+    await tx.genreSynonym.create({
+      data: { name: source.name, normalizedName: source.normalizedName, genreId: targetId },
+    });
+    await tx.circulationPolicy.updateMany({
+      where: { genre: { equals: source.name, mode: "insensitive" } },
+      data: { genre: target.name },
+    });
+    await syncBookGenres(tx, bookIds);
+
+    return { bookCount: bookIds.length };
+  });
+}
+
+/**
+ * Lists the free-text tags in the catalog, most used first
+ */
+export async function getCatalogTags(query = "", limit = TAG_LIST_LIMIT): Promise<CatalogTag[]> {
+  const q = query.trim();
+  return prisma.$queryRaw<CatalogTag[]>`
+    SELECT t."name", count(*)::INTEGER AS "bookCount"
+    FROM "Book", unnest("tags") AS t("name")
+    WHERE strpos(lower(t."name"), lower(${q})) > 0
+    GROUP BY t."name"
+    ORDER BY count(*) DESC, t."name"
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Renames a tag on every book that has it, merging it into the new tag where both are present
+ * When the new name is a genre or synonym, the books are linked to that genre and the tag is dropped instead.
+ * @returns The number of books changed, and the genre they were linked to, if any
+ */
+export async function renameTag(from: string, to: string): Promise<{ bookCount: number; genre: string | null }> {
+  const name = cleanName(to);
+
+  return prisma.$transaction(async (tx) => {
+    const books = await tx.book.findMany({ where: { tags: { has: from } }, select: { id: true } });
+    const bookIds = books.map((book) => book.id);
+    const genre = (await findGenresByName(tx, [name])).get(normalizeGenreName(name));
+
+    if (genre) {
+      await tx.$executeRaw`
+        INSERT INTO "BookGenre" ("bookId", "genreId", "position")
+        SELECT b."id", ${genre.id}, COALESCE((SELECT max(bg."position") + 1 FROM "BookGenre" AS bg WHERE bg."bookId" = b."id"), 0)
+        FROM "Book" AS b
+        WHERE b."id" = ANY(${bookIds})
+        ON CONFLICT ("bookId", "genreId") DO NOTHING
+      `;
+      await tx.$executeRaw`
+        UPDATE "Book" SET "tags" = array_remove("tags", ${from}) WHERE "id" = ANY(${bookIds})
+      `;
+      await syncBookGenres(tx, bookIds);
+    } else {
+      // Keep the first spelling of each tag, ignoring case, in the book's order
+      await tx.$executeRaw`
+        UPDATE "Book" AS b
+        SET "tags" = ARRAY(
+          SELECT kept."tag"
+          FROM (
+            SELECT DISTINCT ON (lower(t."tag")) t."tag", t."ord"
+            FROM unnest(array_replace(b."tags", ${from}, ${name})) WITH ORDINALITY AS t("tag", "ord")
+            ORDER BY lower(t."tag"), t."ord"
+          ) AS kept
+          ORDER BY kept."ord"
+        )
+        WHERE b."id" = ANY(${bookIds})
+      `;
+    }
+
+    return { bookCount: bookIds.length, genre: genre?.name ?? null };
+  });
+}
+
+/**
+ * Checks a tag rename: the tag must be in use and the new name can't be blank
+ * @returns An error message, or null when the rename can go ahead
+ */
+export async function validateTagRename(from: string, to: string): Promise<string | null> {
+  if (!cleanName(to ?? "")) {
+    return "New tag name is required";
+  }
+  if (from === cleanName(to)) {
+    return "The new name is the same as the old one";
+  }
+  const count = await prisma.book.count({ where: { tags: { has: from } } });
+  return count === 0 ? `No books are tagged "${from}"` : null;
+}
@@ -0,0 +1,398 @@
+import type { Prisma } from "@prisma/client";
+import { syncBookStatus } from "./copy";
+import { sendHoldReadyEmail } from "./email";
+import {
+  createBookNotFoundError,
+  createHoldAlreadyExistsError,
+  createHoldNotActiveError,
+  createHoldNotAllowedError,
+  createHoldNotFoundError,
+  type ApiError,
+} from "./errors";
+import { notifyUser } from "./notification";
+import { prisma } from "./prisma";
+import type { CreateHoldInput, HoldWithQueuePosition, HoldWithRelations } from "./types/hold";
+
+/**
+ * Number of days a patron has to check out a copy set aside for them
+ */
+export const HOLD_PICKUP_WINDOW_DAYS = 3;
+
+const holdInclude = {
+  book: true,
+  copy: {
+    select: {
+      id: true,
+      barcode: true,
+      shelfLocation: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.HoldInclude;
+
+/**
+ * Holds that compete for a book's copies: holds on the book itself and holds on any edition of its work
+ */
+function getBookHoldsWhere(bookId: string, workId: string | null): Prisma.HoldWhereInput {
+  return workId ? { OR: [{ bookId }, { workId }] } : { bookId };
+}
+
+/**
+ * Holds that share a hold's queue
+ * A hold on any edition queues with every hold on the work; others queue with their book's holds
+ */
+function getQueueWhere(hold: HoldWithRelations): Prisma.HoldWhereInput {
+  return hold.workId
+    ? { OR: [{ workId: hold.workId }, { book: { workId: hold.workId } }] }
+    : getBookHoldsWhere(hold.bookId, hold.book.workId);
+}
+
+/**
+ * Validates if a user can place a hold on a book
+ * Holds are only for books with no copy on the shelf. A hold on any edition needs every edition to be out.
+ */
+export async function validateHold(userId: string, bookId: string, anyEdition = false): Promise<ApiError | null> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  });
+
+  if (!book) {
+    return createBookNotFoundError(bookId);
+  }
+
+  if (anyEdition && !book.workId) {
+    return createHoldNotAllowedError("This book has no other editions", bookId);
+  }
+
+  // The editions a hold on any edition could be filled from
+  const booksWhere: Prisma.BookWhereInput = anyEdition ? { workId: book.workId } : { id: bookId };
+  const [activeHold, activeCheckout, copyCounts] = await Promise.all([
+    prisma.hold.findFirst({
+      where: {
+        userId,
+        status: { in: ["WAITING", "READY"] },
+        ...(anyEdition
+          ? { OR: [{ workId: book.workId }, { book: { workId: book.workId } }] }
+          : getBookHoldsWhere(bookId, book.workId)),
+      },
+    }),
+    prisma.checkout.findFirst({
+      where: { userId, book: booksWhere, returnedDate: null },
+    }),
+    prisma.bookCopy.groupBy({
+      by: ["status"],
+      where: { book: booksWhere, status: { not: "WITHDRAWN" } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  if (activeHold) {
+    return createHoldAlreadyExistsError(bookId);
+  }
+
+  if (activeCheckout) {
+    return createHoldNotAllowedError(
+      anyEdition ? "You already have an edition of this book checked out" : "You already have this book checked out",
+      bookId
+    );
+  }
+
+  const totalCopies = copyCounts.reduce((sum, group) => sum + group._count._all, 0);
+  const availableCopies = copyCounts.find((group) => group.status === "AVAILABLE")?._count._all ?? 0;
+
+  if (totalCopies === 0) {
+    return createHoldNotAllowedError("No copies of this book are in circulation", bookId);
+  }
+
+  if (availableCopies > 0) {
+    return createHoldNotAllowedError(
+      anyEdition
+        ? "A copy of one of this book's editions is available. Check it out instead."
+        : "A copy of this book is available. Check it out instead.",
+      bookId
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Adds a user to the end of a book's hold queue
+ */
+export async function createHold(input: CreateHoldInput): Promise<HoldWithQueuePosition> {
+  const userId = input.userId;
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const error = await validateHold(userId, input.bookId, input.anyEdition);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const book = await prisma.book.findUniqueOrThrow({
+    where: { id: input.bookId },
+    select: { workId: true },
+  });
+
+  const hold = await prisma.hold.create({
+    data: {
+      bookId: input.bookId,
+      userId,
+      ...(input.anyEdition && { workId: book.workId }),
+    },
+    include: holdInclude,
+  });
+
+  const [withPosition] = await withQueuePositions([hold]);
+  return withPosition;
+}
+
+/**
+ * Sets a copy aside for the oldest WAITING hold on the book or on any edition of its work
+ * A hold on any edition moves to this book, so the patron picks up the edition that came back.
+ * Must be called inside the transaction that made the copy AVAILABLE
+ * Returns the hold that is now ready for pickup, or null if nobody is waiting
+ */
+export async function assignCopyToNextHold(
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  copyId: string
+): Promise<HoldWithRelations | null> {
+  const book = await tx.book.findUniqueOrThrow({
+    where: { id: bookId },
+    select: { workId: true },
+  });
+
+  const nextHold = await tx.hold.findFirst({
+    where: { ...getBookHoldsWhere(bookId, book.workId), status: "WAITING" },
+    orderBy: { placedAt: "asc" },
+  });
+
+  if (!nextHold) {
+    return null;
+  }
+
+  const claimed = await tx.bookCopy.updateMany({
+    where: { id: copyId, status: "AVAILABLE" },
+    data: { status: "ON_HOLD" },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const readyAt = new Date();
+  const pickupExpiresAt = new Date(readyAt);
+  pickupExpiresAt.setDate(pickupExpiresAt.getDate() + HOLD_PICKUP_WINDOW_DAYS);
+
+  return tx.hold.update({
+    where: { id: nextHold.id },
+    data: {
+      status: "READY",
+      bookId,
+      copyId,
+      readyAt,
+      pickupExpiresAt,
+    },
+    include: holdInclude,
+  });
+}
+
+/**
+ * Puts a held copy back into circulation, passing it to the next hold in line
+ * Must be called inside the transaction that closed the hold
+ */
+export async function releaseHeldCopy(
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  copyId: string
+): Promise<HoldWithRelations | null> {
+  const released = await tx.bookCopy.updateMany({
+    where: { id: copyId, status: "ON_HOLD" },
+    data: { status: "AVAILABLE" },
+  });
+
+  if (released.count === 0) {
+    return null;
+  }
+
+  return assignCopyToNextHold(tx, bookId, copyId);
+}
+
+/**
+ * Notifies the patron whose hold is ready (non-blocking - graceful degradation)
+ */
+export function notifyHoldReady(hold: HoldWithRelations | null): void {
+  if (!hold?.pickupExpiresAt) {
+    return;
+  }
+
+  const pickupExpiresAt = hold.pickupExpiresAt;
+
+  notifyUser({
+    userId: hold.userId,
+    event: "HOLD_READY",
+    title: "Your hold is ready",
+    message: `"${hold.book.title}" is waiting for you. Pick it up by ${pickupExpiresAt.toLocaleDateString()}.`,
+    link: `/books/${hold.bookId}`,
+    sendEmail: (email, locale) =>
+      sendHoldReadyEmail({
+        email,
+        name: hold.user?.name || "User",
+        bookTitle: hold.book.title,
+        bookAuthor: hold.book.author,
+        bookId: hold.bookId,
+        pickupExpiresAt,
+        locale,
+      }),
+  }).catch((error) => {
+    console.error("Failed to send hold ready notification:", error);
+    // Don't fail the hold assignment if notification fails
+  });
+}
+
+/**
+ * Cancels a WAITING or READY hold
+ * A copy that was set aside is passed on to the next patron
+ */
+export async function cancelHold(holdId: string): Promise<HoldWithRelations> {
+  const hold = await prisma.hold.findUnique({
+    where: { id: holdId },
+  });
+
+  if (!hold) {
+    throw new Error(createHoldNotFoundError(holdId).message);
+  }
+
+  const { cancelledHold, nextHold } = await prisma.$transaction(async (tx) => {
+    // Conditional update guards against cancelling a hold that was just fulfilled or expired
+    const cancelled = await tx.hold.updateMany({
+      where: { id: holdId, status: { in: ["WAITING", "READY"] } },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    });
+
+    if (cancelled.count === 0) {
+      throw new Error(createHoldNotActiveError(holdId).message);
+    }
+
+    let nextHold: HoldWithRelations | null = null;
+    if (hold.status === "READY" && hold.copyId) {
+      nextHold = await releaseHeldCopy(tx, hold.bookId, hold.copyId);
+      await syncBookStatus(tx, hold.bookId);
+    }
+
+    const cancelledHold = await tx.hold.findUniqueOrThrow({
+      where: { id: holdId },
+      include: holdInclude,
+    });
+
+    return { cancelledHold, nextHold };
+  });
+
+  notifyHoldReady(nextHold);
+
+  return cancelledHold;
+}
+
+/**
+ * Expires READY holds whose pickup window has closed and rolls their copies
+ * to the next patron in the queue
+ * @param bookId - Optionally limit to a single book
+ * @returns Number of holds expired
+ */
+export async function expireReadyHolds(bookId?: string): Promise<number> {
+  const expiredHolds = await prisma.hold.findMany({
+    where: {
+      status: "READY",
+      pickupExpiresAt: { lt: new Date() },
+      ...(bookId && { bookId }),
+    },
+    orderBy: { pickupExpiresAt: "asc" },
+  });
+
+  let expiredCount = 0;
+
+  for (const hold of expiredHolds) {
+    const nextHold = await prisma.$transaction(async (tx) => {
+      const expired = await tx.hold.updateMany({
+        where: { id: hold.id, status: "READY" },
+        data: { status: "EXPIRED", expiredAt: new Date() },
+      });
+
+      if (expired.count === 0) {
+        return null;
+      }
+
+      expiredCount++;
+
+      if (!hold.copyId) {
+        return null;
+      }
+
+      const next = await releaseHeldCopy(tx, hold.bookId, hold.copyId);
+      await syncBookStatus(tx, hold.bookId);
+      return next;
+    });
+
+    notifyHoldReady(nextHold);
+  }
+
+  return expiredCount;
+}
+
+/**
+ * Adds queue position and queue length to each hold
+ */
+export async function withQueuePositions(holds: HoldWithRelations[]): Promise<HoldWithQueuePosition[]> {
+  return Promise.all(
+    holds.map(async (hold) => {
+      const queueWhere = getQueueWhere(hold);
+      const queueLength = await prisma.hold.count({
+        where: { ...queueWhere, status: "WAITING" },
+      });
+
+      if (hold.status !== "WAITING") {
+        return { ...hold, queuePosition: null, queueLength };
+      }
+
+      const ahead = await prisma.hold.count({
+        where: { ...queueWhere, status: "WAITING", placedAt: { lt: hold.placedAt } },
+      });
+
+      return { ...hold, queuePosition: ahead + 1, queueLength };
+    })
+  );
+}
+
+/**
+ * Counts patrons waiting for a book, including those waiting for any edition of its work
+ */
+export async function getHoldQueueLength(bookId: string, workId: string | null = null): Promise<number> {
+  return prisma.hold.count({
+    where: { ...getBookHoldsWhere(bookId, workId), status: "WAITING" },
+  });
+}
+
+/**
+ * Lists a user's holds, newest first, with their place in each queue
+ * @param active - Only WAITING and READY holds when true
+ */
+export async function getUserHolds(userId: string, active = false): Promise<HoldWithQueuePosition[]> {
+  const holds = await prisma.hold.findMany({
+    where: {
+      userId,
+      ...(active && { status: { in: ["WAITING", "READY"] } }),
+    },
+    orderBy: { placedAt: "desc" },
+    include: holdInclude,
+  });
+
+  return withQueuePositions(holds);
+}
@@ -7,12 +7,268 @@ export {
   validateCheckout,
   calculateDueDate,
   calculateLateFees,
+  calculateAccruedLateFees,
+  getLateFeeTerms,
   checkOverdueStatus,
   updateAllOverdueStatuses,
   createCheckout,
   returnCheckout,
+  validateRenewal,
+  renewCheckout,
 } from "./checkout";
-export { buildBookSearchQuery, buildGeneralBookSearchQuery } from "./search";
+export {
+  generateCopyBarcode,
+  getAvailabilityForBooks,
+  getBookAvailability,
+  getBookStatusFromAvailability,
+  syncBookStatus,
+} from "./copy";
+export {
+  HOLD_PICKUP_WINDOW_DAYS,
+  validateHold,
+  createHold,
+  cancelHold,
+  assignCopyToNextHold,
+  releaseHeldCopy,
+  notifyHoldReady,
+  expireReadyHolds,
+  withQueuePositions,
+  getHoldQueueLength,
+  getUserHolds,
+} from "./hold";
+export {
+  toSignedAmount,
+  getUserBalance,
+  validateLedgerEntry,
+  recordLedgerEntry,
+  chargeLateFee,
+  getLedgerEntries,
+  getPatronBalances,
+  getFinanceSummary,
+} from "./finance";
+export {
+  DEFAULT_LOAN_TERMS,
+  selectCirculationPolicy,
+  resolveCirculationPolicy,
+  validateCirculationPolicy,
+  getCirculationPolicies,
+  createCirculationPolicy,
+  updateCirculationPolicy,
+  deleteCirculationPolicy,
+} from "./policy";
+export {
+  createLibraryCalendar,
+  getLibraryCalendar,
+  getNextOpenDay,
+  getWeeklySchedule,
+  updateWeeklySchedule,
+  validateWeeklySchedule,
+  getClosures,
+  validateClosure,
+  createClosure,
+  deleteClosure,
+} from "./calendar";
+export {
+  NOTIFICATION_EVENTS,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  getPreferredLocale,
+  updatePreferredLocale,
+  notifyUser,
+  notifyWelcome,
+  getUserNotifications,
+  markNotificationsRead,
+  getNotificationLog,
+} from "./notification";
+export {
+  MAX_SAVED_SEARCHES,
+  getSavedSearches,
+  getSavedSearch,
+  validateSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  queueNewArrival,
+  notifyNewArrival,
+} from "./saved-search";
+export {
+  EMAIL_LOCALES,
+  DEFAULT_EMAIL_LOCALE,
+  renderTemplateString,
+  renderEmailContent,
+  renderEmail,
+  getEmailTemplateDefinitions,
+  getEmailTemplateDefinition,
+  getEffectiveEmailTemplate,
+  getEmailTemplateSummaries,
+  getEmailTemplateVersions,
+  validateEmailTemplate,
+  createEmailTemplateVersion,
+  activateEmailTemplateVersion,
+  resetEmailTemplate,
+} from "./email-templates";
+export { getJobQueue, postgresQueue, processQueuedJobs } from "./queue";
+export { qstashQueue, isQStashAvailable } from "./qstash";
+export {
+  scheduleCheckoutReminder,
+  cancelCheckoutReminder,
+  rescheduleCheckoutReminder,
+  processCheckoutReminder,
+} from "./reminder";
+export { OVERDUE_NOTICE_DAYS, getOverdueNoticeLevel, sendOverdueNotices, sweepOverdueCheckouts } from "./overdue";
+export {
+  registerBackgroundJob,
+  getBackgroundJobs,
+  getBackgroundJob,
+  runBackgroundJob,
+  pruneJobRuns,
+  startJobScheduler,
+  getJobRuns,
+  getJobSummaries,
+} from "./jobs";
+export {
+  AUTHOR_ROLES,
+  BOOK_AUTHORS_INCLUDE,
+  normalizeAuthorName,
+  parseAuthorCredit,
+  getBookAuthorInputs,
+  formatAuthorCredit,
+  resolveBookAuthors,
+  searchAuthors,
+  getAuthor,
+} from "./author";
+export { normalizePublisherName, resolvePublisher } from "./publisher";
+export {
+  MAX_GENRE_DEPTH,
+  BOOK_GENRES_INCLUDE,
+  BOOK_GENRE_LINEAGE_INCLUDE,
+  normalizeGenreName,
+  getGenreLineage,
+  genreLineageIncludes,
+  getBookGenreInputs,
+  resolveBookGenres,
+  resolveBookGenreUpdate,
+  genreWithinNames,
+  searchGenres,
+  getGenreVocabulary,
+  getGenres,
+  validateGenre,
+  createGenre,
+  updateGenre,
+  deleteGenre,
+  validateGenreMerge,
+  mergeGenres,
+  getCatalogTags,
+  renameTag,
+  validateTagRename,
+} from "./genre";
+export { resolveSeries, searchSeries, getSeriesNeighbours, getSeries } from "./series";
+export {
+  CONTINUE_READING_LIMIT,
+  canReadBook,
+  getReadableBookIds,
+  getReaderBook,
+  validateReadingProgress,
+  saveReadingProgress,
+  getContinueReading,
+} from "./reading";
+export {
+  CHAPTER_IMPORT_FORMATS,
+  MAX_IMPORTED_CHAPTERS,
+  splitTextIntoChapters,
+  splitMarkdownIntoChapters,
+  splitEpubIntoChapters,
+  splitManuscript,
+  importChapters,
+  validateChapterOrder,
+  applyChapterOrder,
+  reorderChapters,
+  getNextChapterOrder,
+} from "./chapter";
+export {
+  CHAPTER_EXPORT_FORMATS,
+  isChapterExportFormat,
+  CHAPTER_EXPORT_FILE_TYPES,
+  exportBookChapters,
+} from "./chapter-export";
+export { writePdfBook } from "./pdf";
+export type { PdfBook, PdfBookSection } from "./pdf";
+export { openZip, writeZip } from "./zip";
+export type { ZipArchive, ZipEntry } from "./zip";
+export {
+  BOOK_EDITION_SELECT,
+  withEditionAvailability,
+  getWorkEditions,
+  resolveBookWork,
+  pruneWork,
+  validateBookGrouping,
+} from "./work";
+export {
+  parseBookSearchFilters,
+  buildBookSearchQuery,
+  getBookFacets,
+  escapeLikePattern,
+  rankBooksByText,
+  BOOK_SORT_OPTIONS,
+  isBookSortOption,
+  getBookOrderBy,
+  findBookPage,
+  bookMatchesSearch,
+  getBookSearchHighlights,
+  findFuzzyMatches,
+  suggestSpelling,
+  getBookAutocomplete,
+} from "./search";
+export type { FuzzyMatches } from "./search";
+export {
+  MAX_IMPORT_ROWS,
+  BOOK_IMPORT_BATCH_SIZE,
+  BOOK_IMPORT_FIELDS,
+  parseCsv,
+  escapeCsvFormula,
+  unescapeCsvFormula,
+  guessBookImportMapping,
+  findBooksByIsbn,
+  validateBookImportValues,
+  previewBookImport,
+  commitBookImportBatch,
+} from "./book-import";
+export {
+  parseMarc21,
+  parseMarcXml,
+  writeMarc21,
+  getMarcSubfield,
+  trimMarcPunctuation,
+  marcRecordToBookFields,
+  bookToMarcRecord,
+} from "./marc";
+export { normalizeIsbn, isValidIsbn, toIsbn13, toIsbn10 } from "./isbn";
+export {
+  openLibraryProvider,
+  googleBooksProvider,
+  createFixtureMetadataProvider,
+  fixtureMetadataProvider,
+  getBookMetadataProviders,
+  mergeBookMetadata,
+  lookupBookMetadata,
+} from "./book-metadata";
+export { isValidStorageKey, localFileStorage, s3FileStorage, getFileStorage } from "./storage";
+export {
+  BOOK_COVER_WIDTHS,
+  MAX_COVER_UPLOAD_BYTES,
+  getBookCoverImages,
+  isBookCoverKey,
+  parseBookCoverImages,
+  validateCoverImage,
+  storeBookCover,
+  isPublicAddress,
+  downloadCoverImage,
+  storeRemoteBookCover,
+  readBookCover,
+  deleteBookCover,
+  renderCoverPlaceholder,
+} from "./covers";
+export { BOOK_EXPORT_FORMATS, isBookExportFormat, BOOK_EXPORT_FILE_TYPES, streamBookExport } from "./book-export";
 export { isAIServiceAvailable, generateBookTags, generateBookSummary, enrichBookData } from "./ai";
 export type { BookTagsResult } from "./ai";
 
@@ -24,6 +280,12 @@ export {
   AuthErrorCodes,
   BookErrorCodes,
   CheckoutErrorCodes,
+  HoldErrorCodes,
+  FinanceErrorCodes,
+  PolicyErrorCodes,
+  CalendarErrorCodes,
+  JobErrorCodes,
+  EmailTemplateErrorCodes,
   HttpStatusCodes,
   createError,
   createUnauthorizedError,
@@ -35,13 +297,53 @@ export {
   createBookNotFoundError,
   createBookAlreadyCheckedOutError,
   createBookUnavailableError,
+  createAuthorNotFoundError,
+  createSeriesNotFoundError,
+  createGenreNotFoundError,
+  createInvalidGenreError,
   createChapterNotFoundError,
+  createChapterOrderTakenError,
+  createInvalidChapterOrderError,
+  createReadingNotAllowedError,
+  createCopyNotFoundError,
+  createCopyUnavailableError,
+  createDuplicateBarcodeError,
+  createInvalidIsbnError,
+  createBookMetadataNotFoundError,
+  createInvalidCoverImageError,
   createCheckoutNotFoundError,
   createCheckoutLimitExceededError,
+  createGenreCheckoutLimitExceededError,
   createCheckoutAlreadyReturnedError,
+  createRenewalLimitReachedError,
+  createRenewalBlockedByHoldError,
+  createRenewalNotAllowedError,
+  createHoldNotFoundError,
+  createHoldAlreadyExistsError,
+  createHoldNotAllowedError,
+  createHoldNotActiveError,
+  createOutstandingBalanceError,
+  createInvalidLedgerEntryError,
+  createAmountExceedsBalanceError,
+  createPolicyNotFoundError,
+  createInvalidPolicyError,
+  createDuplicatePolicyError,
+  createClosureNotFoundError,
+  createInvalidClosureError,
+  createInvalidScheduleError,
+  createJobNotFoundError,
+  createEmailTemplateNotFoundError,
+  createInvalidEmailTemplateError,
+  createSmtpNotConfiguredError,
   type AuthErrorCode,
   type BookErrorCode,
   type CheckoutErrorCode,
+  type HoldErrorCode,
+  type FinanceErrorCode,
+  type PolicyErrorCode,
+  type CalendarErrorCode,
+  type JobErrorCode,
+  type EmailTemplateErrorCode,
   type HttpStatusCode,
   type ApiError,
 } from "./errors";
@@ -0,0 +1,58 @@
+/**
+ * Strips hyphens and spaces from an ISBN, e.g. "978-1-60309-502-0" -> "9781603095020"
+ */
+export function normalizeIsbn(isbn: string): string {
+  return isbn.toUpperCase().replace(/[^0-9X]/g, "");
+}
+
+function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  // Weights 10 down to 1; X stands for 10
+  const sum = isbn
+    .split("")
+    .reduce((total, char, index) => total + (char === "X" ? 10 : Number(char)) * (10 - index), 0);
+  return sum % 11 === 0;
+}
+
+function getIsbn13CheckDigit(first12: string): string {
+  // Weights alternate 1, 3
+  const sum = first12.split("").reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+function isValidIsbn13(isbn: string): boolean {
+  return /^97[89]\d{10}$/.test(isbn) && getIsbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+/**
+ * Checks the length and check digit of an ISBN-10 or ISBN-13, in any formatting
+ */
+export function isValidIsbn(isbn: string): boolean {
+  const normalized = normalizeIsbn(isbn);
+  return normalized.length === 10 ? isValidIsbn10(normalized) : isValidIsbn13(normalized);
+}
+
+/**
+ * Converts a valid ISBN-10 or ISBN-13 to the 13-digit form, e.g. "0-441-47812-3" -> "9780441478125"
+ * @returns null when the ISBN is malformed or its check digit is wrong
+ */
+export function toIsbn13(isbn: string): string | null {
+  const normalized = normalizeIsbn(isbn);
+  if (isValidIsbn13(normalized)) return normalized;
+  if (!isValidIsbn10(normalized)) return null;
+  const first12 = `978${normalized.slice(0, 9)}`;
+  return first12 + getIsbn13CheckDigit(first12);
+}
+
+/**
+ * Converts a valid ISBN to the 10-digit form
+ * @returns null when the ISBN is invalid or a 979 ISBN-13, which has no 10-digit form
+ */
+export function toIsbn10(isbn: string): string | null {
+  const isbn13 = toIsbn13(isbn);
+  if (!isbn13?.startsWith("978")) return null;
+  const first9 = isbn13.slice(3, 12);
+  const sum = first9.split("").reduce((total, char, index) => total + Number(char) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return first9 + (check === 10 ? "X" : String(check));
+}
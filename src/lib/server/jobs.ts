@@ -0,0 +1,213 @@
+import type { JobRun, JobTrigger } from "@prisma/client";
+import { JOB_QUEUE_BACKEND, JOB_SCHEDULER_ENABLED, OVERDUE_SWEEP_INTERVAL_MINUTES } from "./constants/env";
+import { createJobNotFoundError } from "./errors";
+import { expireReadyHolds } from "./hold";
+import { sweepOverdueCheckouts } from "./overdue";
+import { prisma } from "./prisma";
+import { processQueuedJobs } from "./queue";
+import { processCheckoutReminder } from "./reminder";
+import { notifyNewArrival } from "./saved-search";
+import type { BackgroundJob, JobSummary } from "./types/job";
+
+/**
+ * Runs left RUNNING for longer than this are assumed to have crashed and no longer block new runs
+ */
+const STALE_RUN_MINUTES = 30;
+
+/**
+ * Runs older than this are deleted, so the every-minute job-queue runs don't pile up
+ */
+export const JOB_RUN_RETENTION_DAYS = 14;
+
+const jobs = new Map<string, BackgroundJob>();
+
+/**
+ * Adds a job to the registry so the scheduler, cron endpoint and admin page can run it
+ */
+export function registerBackgroundJob(job: BackgroundJob): void {
+  jobs.set(job.name, job);
+}
+
+registerBackgroundJob({
+  name: "overdue-sweep",
+  description: "Recomputes overdue status and late fees, then sends 1, 7 and 14 day overdue notices",
+  intervalMinutes: OVERDUE_SWEEP_INTERVAL_MINUTES,
+  run: sweepOverdueCheckouts,
+});
+
+registerBackgroundJob({
+  name: "expire-holds",
+  description: "Expires lapsed hold pickups and passes the copies to the next patron in line",
+  intervalMinutes: 15,
+  run: async () => ({ holdsExpired: await expireReadyHolds() }),
+});
+
+// Registered with either backend so its cron always has a job to call; with QStash it only drains
+// jobs queued in Postgres before the switch
+registerBackgroundJob({
+  name: "job-queue",
+  description:
+    JOB_QUEUE_BACKEND === "postgres"
+      ? "Runs due reminders and new arrival alerts from the Postgres job queue, retrying failures with backoff"
+      : "Runs reminders and new arrival alerts left in the Postgres job queue (new jobs are delivered by QStash)",
+  intervalMinutes: 1,
+  run: () =>
+    processQueuedJobs({
+      overdue_reminder: ({ checkoutId }) => processCheckoutReminder(checkoutId),
+      new_arrival: ({ bookId }) => notifyNewArrival(bookId),
+    }),
+});
+
+/**
+ * Lists registered jobs
+ */
+export function getBackgroundJobs(): BackgroundJob[] {
+  return Array.from(jobs.values());
+}
+
+/**
+ * Gets a registered job by name
+ */
+export function getBackgroundJob(name: string): BackgroundJob | undefined {
+  return jobs.get(name);
+}
+
+/**
+ * Deletes a job's runs older than JOB_RUN_RETENTION_DAYS
+ * @returns the number of runs deleted
+ */
+export async function pruneJobRuns(name: string): Promise<number> {
+  const { count } = await prisma.jobRun.deleteMany({
+    where: { job: name, startedAt: { lt: new Date(Date.now() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+  });
+  return count;
+}
+
+/**
+ * Runs a job and records the outcome, pruning the job's expired runs first
+ * A run is skipped (and recorded as SKIPPED) while another run of the same job is in progress
+ */
+export async function runBackgroundJob(name: string, trigger: JobTrigger): Promise<JobRun> {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(createJobNotFoundError(name).message);
+  }
+
+  await pruneJobRuns(name).catch((error) => {
+    console.error(`[Jobs] Failed to prune ${name} runs:`, error);
+  });
+
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000);
+  const inProgress = await prisma.jobRun.findFirst({
+    where: { job: name, status: "RUNNING", startedAt: { gt: staleBefore } },
+  });
+
+  if (inProgress) {
+    return prisma.jobRun.create({
+      data: {
+        job: name,
+        trigger,
+        status: "SKIPPED",
+        finishedAt: new Date(),
+        durationMs: 0,
+        error: `Run ${inProgress.id} is still in progress`,
+      },
+    });
+  }
+
+  const run = await prisma.jobRun.create({
+    data: { job: name, trigger },
+  });
+  const startedAt = Date.now();
+
+  try {
+    const result = await job.run();
+
+    return prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "SUCCEEDED",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+        result,
+      },
+    });
+  } catch (error) {
+    console.error(`[Jobs] ${name} failed:`, error);
+
+    return prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+  }
+}
+
+const globalForJobs = globalThis as unknown as { jobSchedulerStarted?: boolean };
+
+/**
+ * Starts timers that run each job at its interval inside the server process
+ * Safe to call more than once; does nothing when JOB_SCHEDULER_ENABLED is "false"
+ */
+export function startJobScheduler(): void {
+  if (!JOB_SCHEDULER_ENABLED || globalForJobs.jobSchedulerStarted) {
+    return;
+  }
+  globalForJobs.jobSchedulerStarted = true;
+
+  for (const job of jobs.values()) {
+    const timer = setInterval(
+      () => {
+        runBackgroundJob(job.name, "SCHEDULER").catch((error) => {
+          console.error(`[Jobs] Failed to run ${job.name}:`, error);
+        });
+      },
+      job.intervalMinutes * 60 * 1000
+    );
+    // Don't keep the process alive just for the scheduler
+    timer.unref?.();
+  }
+
+  console.log(`[Jobs] Scheduler started for ${jobs.size} jobs`);
+}
+
+/**
+ * Lists job runs, newest first
+ * @param job - Optionally limit to a single job
+ */
+export async function getJobRuns(page = 1, limit = 20, job?: string): Promise<{ runs: JobRun[]; total: number }> {
+  const where = job ? { job } : {};
+
+  const [runs, total] = await Promise.all([
+    prisma.jobRun.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { startedAt: "desc" },
+    }),
+    prisma.jobRun.count({ where }),
+  ]);
+
+  return { runs, total };
+}
+
+/**
+ * Lists registered jobs with their most recent run
+ */
+export async function getJobSummaries(): Promise<JobSummary[]> {
+  return Promise.all(
+    getBackgroundJobs().map(async (job) => ({
+      name: job.name,
+      description: job.description,
+      intervalMinutes: job.intervalMinutes,
+      lastRun: await prisma.jobRun.findFirst({
+        where: { job: job.name },
+        orderBy: { startedAt: "desc" },
+      }),
+    }))
+  );
+}
@@ -0,0 +1,398 @@
+import type { ExportedBook } from "./types/book-export";
+import type { BookImportValues } from "./types/book-import";
+import type { MarcDataField, MarcRecord } from "./types/marc";
+
+// ISO 2709 structure characters
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = "\u001f";
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+// Lengths are written as 4 (field) and 5 (record) digits
+const MAX_FIELD_LENGTH = 9999;
+const MAX_RECORD_LENGTH = 99999;
+
+// MARC language codes (008/35-37, 041) for the languages the catalog uses most
+const MARC_LANGUAGES: Record<string, string> = {
+  eng: "English",
+  spa: "Spanish",
+  fre: "French",
+  fra: "French",
+  ger: "German",
+  deu: "German",
+  ita: "Italian",
+  por: "Portuguese",
+  dut: "Dutch",
+  nld: "Dutch",
+  rus: "Russian",
+  jpn: "Japanese",
+  chi: "Chinese",
+  zho: "Chinese",
+  kor: "Korean",
+  ara: "Arabic",
+};
+
+/**
+ * Parses binary MARC21 (ISO 2709) records
+ * Malformed records are skipped rather than failing the whole file
+ */
+export function parseMarc21(data: Buffer): MarcRecord[] {
+  const records: MarcRecord[] = [];
+  let start = 0;
+
+  while (start < data.length) {
+    let end = data.indexOf(RECORD_TERMINATOR, start);
+    if (end === -1) end = data.length;
+    const record = parseMarc21Record(data.subarray(start, end));
+    if (record) records.push(record);
+    start = end + 1;
+  }
+
+  return records;
+}
+
+function parseMarc21Record(bytes: Buffer): MarcRecord | null {
+  // Tolerate line breaks some tools put between records
+  let offset = 0;
+  while (offset < bytes.length && (bytes[offset] === 0x0a || bytes[offset] === 0x0d)) offset++;
+  bytes = bytes.subarray(offset);
+  if (bytes.length < LEADER_LENGTH) return null;
+
+  const leader = bytes.subarray(0, LEADER_LENGTH).toString("latin1");
+  const baseAddress = parseInt(leader.slice(12, 17), 10);
+  if (isNaN(baseAddress) || baseAddress > bytes.length) return null;
+
+  const record: MarcRecord = { leader, controlFields: [], dataFields: [] };
+
+  for (
+    let entry = LEADER_LENGTH;
+    entry + DIRECTORY_ENTRY_LENGTH <= baseAddress && bytes[entry] !== FIELD_TERMINATOR;
+    entry += DIRECTORY_ENTRY_LENGTH
+  ) {
+    const directory = bytes.subarray(entry, entry + DIRECTORY_ENTRY_LENGTH).toString("latin1");
+    const tag = directory.slice(0, 3);
+    const length = parseInt(directory.slice(3, 7), 10);
+    const position = parseInt(directory.slice(7, 12), 10);
+    if (isNaN(length) || isNaN(position)) return null;
+
+    const fieldStart = baseAddress + position;
+    // Drop the field terminator
+    let field = bytes.subarray(fieldStart, fieldStart + length).toString("utf8");
+    if (field.endsWith("\u001e")) field = field.slice(0, -1);
+
+    if (tag < "010") {
+      record.controlFields.push({ tag, value: field });
+    } else {
+      const [indicators, ...subfields] = field.split(SUBFIELD_DELIMITER);
+      record.dataFields.push({
+        tag,
+        ind1: indicators[0] ?? " ",
+        ind2: indicators[1] ?? " ",
+        subfields: subfields.filter(Boolean).map((subfield) => ({ code: subfield[0], value: subfield.slice(1) })),
+      });
+    }
+  }
+
+  return record;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+// Structure characters can't appear in field data
+function stripMarcDelimiters(value: string): string {
+  return value.replace(/[\u001d\u001e\u001f]/g, " ");
+}
+
+/**
+ * Writes one record as binary MARC21 (ISO 2709), UTF-8 encoded
+ * Fields too long for the directory are truncated
+ */
+export function writeMarc21(record: MarcRecord): Buffer {
+  const fields = [
+    ...record.controlFields.map((field) => ({ tag: field.tag, text: stripMarcDelimiters(field.value) })),
+    ...record.dataFields.map((field) => ({
+      tag: field.tag,
+      text:
+        field.ind1 +
+        field.ind2 +
+        field.subfields
+          .map((subfield) => SUBFIELD_DELIMITER + subfield.code + stripMarcDelimiters(subfield.value))
+          .join(""),
+    })),
+  ].map(({ tag, text }) => {
+    let data = Buffer.from(text, "utf8");
+    while (data.length + 1 > MAX_FIELD_LENGTH) {
+      text = text.slice(0, Math.floor((text.length * (MAX_FIELD_LENGTH - 1)) / data.length) - 1);
+      data = Buffer.from(text, "utf8");
+    }
+    return { tag, data: Buffer.concat([data, Buffer.from([FIELD_TERMINATOR])]) };
+  });
+
+  let position = 0;
+  const directory = fields
+    .map(({ tag, data }) => {
+      const entry = `${tag}${String(data.length).padStart(4, "0")}${String(position).padStart(5, "0")}`;
+      position += data.length;
+      return entry;
+    })
+    .join("");
+
+  const baseAddress = LEADER_LENGTH + directory.length + 1;
+  const recordLength = baseAddress + position + 1;
+  if (recordLength > MAX_RECORD_LENGTH) {
+    throw new Error(`MARC record is too long (${recordLength} bytes)`);
+  }
+
+  // Record length and base address go in the leader; "a" at position 9 marks UTF-8
+  const leader =
+    String(recordLength).padStart(5, "0") +
+    record.leader.slice(5, 9).padEnd(4, " ") +
+    "a22" +
+    String(baseAddress).padStart(5, "0") +
+    record.leader.slice(17, 20).padEnd(3, " ") +
+    "4500";
+
+  return Buffer.concat([
+    Buffer.from(leader + directory, "latin1"),
+    Buffer.from([FIELD_TERMINATOR]),
+    ...fields.map((field) => field.data),
+    Buffer.from([RECORD_TERMINATOR]),
+  ]);
+}
+
+/**
+ * Parses MARCXML (the Library of Congress slim schema), with or without a namespace prefix
+ */
+export function parseMarcXml(xml: string): MarcRecord[] {
+  const records: MarcRecord[] = [];
+  // Element names may carry any namespace prefix, e.g. <marc:record>
+  const element = (name: string) =>
+    new RegExp(`<(?:[\\w-]+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, "g");
+
+  for (const recordMatch of xml.matchAll(element("record"))) {
+    const body = recordMatch[2] ?? "";
+    const leaderMatch = element("leader").exec(body);
+    const record: MarcRecord = {
+      leader: decodeXmlEntities(leaderMatch?.[2] ?? "").padEnd(LEADER_LENGTH, " "),
+      controlFields: [],
+      dataFields: [],
+    };
+
+    for (const match of body.matchAll(element("controlfield"))) {
+      const { tag } = parseXmlAttributes(match[1]);
+      if (tag) record.controlFields.push({ tag, value: decodeXmlEntities(match[2] ?? "") });
+    }
+
+    for (const match of body.matchAll(element("datafield"))) {
+      const { tag, ind1 = " ", ind2 = " " } = parseXmlAttributes(match[1]);
+      if (!tag) continue;
+      const subfields = Array.from((match[2] ?? "").matchAll(element("subfield")), (subfield) => ({
+        code: parseXmlAttributes(subfield[1]).code ?? "",
+        value: decodeXmlEntities(subfield[2] ?? ""),
+      }));
+      record.dataFields.push({ tag, ind1, ind2, subfields });
+    }
+
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * First value of a subfield across the fields with any of the given tags, in tag order
+ */
+export function getMarcSubfield(record: MarcRecord, tags: string[], code: string): string | undefined {
+  for (const tag of tags) {
+    for (const field of record.dataFields) {
+      if (field.tag !== tag) continue;
+      const subfield = field.subfields.find((candidate) => candidate.code === code);
+      if (subfield?.value.trim()) return subfield.value;
+    }
+  }
+  return undefined;
+}
+
+function getMarcFields(record: MarcRecord, tag: string): MarcDataField[] {
+  return record.dataFields.filter((field) => field.tag === tag);
+}
+
+/**
+ * Strips the ISBD punctuation cataloguers leave at the end of subfields, e.g. "Title /" or "Publisher,"
+ */
+export function trimMarcPunctuation(value: string): string {
+  return value
+    .trim()
+    .replace(/\s*[/:;,=]$/, "")
+    .replace(/(?<![A-Z]|\.\.)\.$/, "")
+    .trim();
+}
+
+/**
+ * "Le Guin, Ursula K." (inverted personal name) -> "Ursula K. Le Guin"
+ */
+function uninvertName(name: string): string {
+  const [surname, forenames] = name.split(/,\s*/, 2);
+  return forenames ? `${forenames} ${surname}` : surname;
+}
+
+/**
+ * Maps a bibliographic record to catalog fields, as the strings a CSV row would hold
+ * Subjects become the genre (first) and tags (all), separated by semicolons
+ */
+export function marcRecordToBookFields(record: MarcRecord): BookImportValues {
+  const fixedData = record.controlFields.find((field) => field.tag === "008")?.value ?? "";
+
+  const isbn = getMarcSubfield(record, ["020"], "a")?.split(/\s/)[0];
+
+  const titleField = getMarcFields(record, "245")[0];
+  const title = titleField
+    ? [titleField.subfields.find((s) => s.code === "a")?.value, titleField.subfields.find((s) => s.code === "b")?.value]
+        .filter((part): part is string => Boolean(part?.trim()))
+        .map(trimMarcPunctuation)
+        .join(": ")
+    : undefined;
+
+  // 100 = personal name (ind1 1 = surname first), 110 = corporate name, 700 = added entry
+  const personalName = getMarcFields(record, "100")[0] ?? getMarcFields(record, "700")[0];
+  const personalAuthor = personalName?.subfields.find((s) => s.code === "a")?.value;
+  const author = personalAuthor
+    ? personalName.ind1 === "1"
+      ? uninvertName(trimMarcPunctuation(personalAuthor))
+      : trimMarcPunctuation(personalAuthor)
+    : getMarcSubfield(record, ["110"], "a");
+
+  // 264 (RDA) has replaced 260 for publication details
+  const publisher = getMarcSubfield(record, ["264", "260"], "b");
+  const dateText = getMarcSubfield(record, ["264", "260"], "c") ?? fixedData.slice(7, 11);
+  const publicationYear = dateText.match(/\d{4}/)?.[0];
+
+  const extent = getMarcSubfield(record, ["300"], "a");
+  const pageCount = extent?.match(/(\d+)\s*(?:p\b|pages)/i)?.[1];
+
+  const languageCode = (getMarcSubfield(record, ["041"], "a") ?? fixedData.slice(35, 38)).trim().toLowerCase();
+  const language = languageCode ? (MARC_LANGUAGES[languageCode] ?? languageCode) : undefined;
+
+  const subjects = Array.from(
+    new Set(
+      [...getMarcFields(record, "655"), ...getMarcFields(record, "650")].flatMap((field) =>
+        field.subfields.filter((s) => s.code === "a").map((s) => trimMarcPunctuation(s.value))
+      )
+    )
+  ).filter(Boolean);
+
+  return {
+    title,
+    author: author ? trimMarcPunctuation(author) : undefined,
+    isbn,
+    description: getMarcSubfield(record, ["520"], "a"),
+    publisher: publisher ? trimMarcPunctuation(publisher) : undefined,
+    publicationYear,
+    genre: subjects[0],
+    tags: subjects.length > 0 ? subjects.join("; ") : undefined,
+    pageCount,
+    language,
+  };
+}
+
+// English name -> MARC code, preferring the first (bibliographic) code listed
+const MARC_LANGUAGE_CODES = Object.entries(MARC_LANGUAGES).reduce<Record<string, string>>((codes, [code, name]) => {
+  codes[name.toLowerCase()] ??= code;
+  return codes;
+}, {});
+
+function formatMarcTimestamp(date: Date): string {
+  // 005 is yyyymmddhhmmss.f
+  return `${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}.0`;
+}
+
+function subfield(code: string, value: string | null | undefined) {
+  return value?.trim() ? [{ code, value: value.trim() }] : [];
+}
+
+/**
+ * Builds a bibliographic record for a book, the reverse of marcRecordToBookFields
+ * Chapters become a contents note (505) and each copy an item field (876) with its barcode, status and shelf
+ */
+export function bookToMarcRecord(book: ExportedBook): MarcRecord {
+  const languageCode = book.language
+    ? (MARC_LANGUAGE_CODES[book.language.toLowerCase()] ??
+      (/^[a-z]{3}$/i.test(book.language) ? book.language.toLowerCase() : undefined))
+    : undefined;
+
+  // 008: date entered, single known date, publication year, language
+  const fixedData =
+    book.createdAt.toISOString().slice(2, 10).replace(/-/g, "") +
+    "s" +
+    (book.publicationYear ? String(book.publicationYear).padStart(4, "0") : "    ") +
+    "    " +
+    "xx " +
+    " ".repeat(17) +
+    (languageCode ?? "   ") +
+    " d";
+
+  const dataFields: MarcDataField[] = [];
+  const addField = (tag: string, ind1: string, ind2: string, subfields: MarcDataField["subfields"]) => {
+    if (subfields.length > 0) dataFields.push({ tag, ind1, ind2, subfields });
+  };
+
+  addField("020", " ", " ", subfield("a", book.isbn));
+  addField("041", "0", " ", subfield("a", languageCode));
+  // Names are stored in direct order, which ind1 0 (forename) records
+  addField("100", "0", " ", subfield("a", book.author));
+  addField("245", "1", "0", subfield("a", book.title));
+  addField("264", " ", "1", [
+    ...subfield("b", book.publisher),
+    ...subfield("c", book.publicationYear ? String(book.publicationYear) : null),
+  ]);
+  addField("300", " ", " ", subfield("a", book.pageCount ? `${book.pageCount} pages` : null));
+  addField("505", "0", " ", subfield("a", book.chapters.map((chapter) => chapter.title).join(" -- ")));
+  addField("520", " ", " ", subfield("a", book.description));
+  // Abstract
+  addField("520", "3", " ", subfield("a", book.summary));
+  addField("655", " ", "7", [...subfield("a", book.genre), ...(book.genre ? subfield("2", "local") : [])]);
+  for (const tag of book.tags.filter((tag) => tag !== book.genre)) {
+    addField("650", " ", "4", subfield("a", tag));
+  }
+  addField("856", "4", "2", [
+    ...subfield("3", book.coverImageUrl ? "Cover image" : null),
+    ...subfield("u", book.coverImageUrl),
+  ]);
+  for (const copy of book.copies) {
+    addField("876", " ", " ", [
+      ...subfield("a", copy.id),
+      ...subfield("p", copy.barcode),
+      ...subfield("j", copy.status),
+      ...subfield("l", copy.shelfLocation),
+      ...subfield("z", copy.notes),
+    ]);
+  }
+
+  return {
+    // New record, language material, monograph, full level, ISBD punctuation omitted
+    leader: "00000nam a2200000 c  4500",
+    controlFields: [
+      { tag: "001", value: book.id },
+      { tag: "005", value: formatMarcTimestamp(book.updatedAt) },
+      { tag: "008", value: fixedData },
+    ],
+    dataFields,
+  };
+}
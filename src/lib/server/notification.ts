@@ -0,0 +1,257 @@
+import type { Notification, NotificationEvent, Prisma } from "@prisma/client";
+import { EMAIL_FROM_NAME } from "./constants/env";
+import { isEmailServiceAvailable, sendWelcomeEmail } from "./email";
+import { DEFAULT_EMAIL_LOCALE } from "./email-templates";
+import { prisma } from "./prisma";
+import type {
+  NotificationLogFilters,
+  NotificationPreferenceInput,
+  NotificationWithUser,
+  NotifyUserInput,
+} from "./types/notification";
+
+/**
+ * Events patrons can choose channels for, in display order
+ */
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ["DUE_SOON", "OVERDUE", "HOLD_READY", "NEW_ARRIVAL", "WELCOME"];
+
+/**
+ * Gets a user's channel preferences for every event
+ * Events without a saved preference go to both email and in-app
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceInput[]> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId },
+  });
+  const preferencesByEvent = new Map(preferences.map((preference) => [preference.event, preference]));
+
+  return NOTIFICATION_EVENTS.map((event) => ({
+    event,
+    email: preferencesByEvent.get(event)?.email ?? true,
+    inApp: preferencesByEvent.get(event)?.inApp ?? true,
+  }));
+}
+
+/**
+ * Saves a user's channel preferences for the given events
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferenceInput[]
+): Promise<NotificationPreferenceInput[]> {
+  await prisma.$transaction(
+    preferences.map((preference) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_event: { userId, event: preference.event } },
+        update: { email: preference.email, inApp: preference.inApp },
+        create: { userId, event: preference.event, email: preference.email, inApp: preference.inApp },
+      })
+    )
+  );
+
+  return getNotificationPreferences(userId);
+}
+
+/**
+ * Gets the language a user receives emails in
+ */
+export async function getPreferredLocale(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { locale: true },
+  });
+
+  return user?.locale ?? DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * Sets the language a user receives emails in
+ */
+export async function updatePreferredLocale(userId: string, locale: string): Promise<string> {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { locale },
+    select: { locale: true },
+  });
+
+  return user.locale;
+}
+
+/**
+ * Sends a notification to a user on the channels they've enabled for the event
+ * Every attempt is logged, including emails skipped by preference or failed delivery
+ * @returns The notification records created, one per channel
+ */
+export async function notifyUser(input: NotifyUserInput): Promise<Notification[]> {
+  const [user, preference] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: input.userId },
+      select: { email: true, locale: true },
+    }),
+    prisma.notificationPreference.findUnique({
+      where: { userId_event: { userId: input.userId, event: input.event } },
+    }),
+  ]);
+
+  if (!user) {
+    return [];
+  }
+
+  const base = {
+    userId: input.userId,
+    event: input.event,
+    title: input.title,
+    message: input.message,
+    link: input.link,
+  };
+  const notifications: Notification[] = [];
+
+  if (preference?.inApp ?? true) {
+    notifications.push(
+      await prisma.notification.create({
+        data: { ...base, channel: "IN_APP", status: "SENT", sentAt: new Date() },
+      })
+    );
+  }
+
+  const skipReason = !(preference?.email ?? true)
+    ? "Email disabled in notification preferences"
+    : !user.email
+      ? "User has no email address"
+      : !isEmailServiceAvailable()
+        ? "Email service not configured"
+        : null;
+
+  if (skipReason) {
+    notifications.push(
+      await prisma.notification.create({
+        data: { ...base, channel: "EMAIL", status: "SKIPPED", error: skipReason },
+      })
+    );
+    return notifications;
+  }
+
+  const emailNotification = await prisma.notification.create({
+    data: { ...base, channel: "EMAIL" },
+  });
+  const result = await input.sendEmail(user.email!, user.locale).catch((error: unknown) => ({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  }));
+
+  notifications.push(
+    await prisma.notification.update({
+      where: { id: emailNotification.id },
+      data: result.success
+        ? { status: "SENT", sentAt: new Date() }
+        : { status: "FAILED", error: result.error || "Unknown error" },
+    })
+  );
+
+  return notifications;
+}
+
+/**
+ * Welcomes a newly created user
+ */
+export async function notifyWelcome(user: { id: string; name: string | null }): Promise<Notification[]> {
+  return notifyUser({
+    userId: user.id,
+    event: "WELCOME",
+    title: `Welcome to ${EMAIL_FROM_NAME}!`,
+    message: "Thanks for joining. Browse the catalog to find your first book.",
+    link: "/books",
+    sendEmail: (email, locale) => sendWelcomeEmail({ email, name: user.name || "User", locale }),
+  });
+}
+
+/**
+ * Gets a user's in-app notifications, newest first
+ */
+export async function getUserNotifications(
+  userId: string,
+  page = 1,
+  limit = 20,
+  unreadOnly = false
+): Promise<{ notifications: Notification[]; total: number; unreadCount: number }> {
+  const where: Prisma.NotificationWhereInput = {
+    userId,
+    channel: "IN_APP",
+    ...(unreadOnly && { readAt: null }),
+  };
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({
+      where: { userId, channel: "IN_APP", readAt: null },
+    }),
+  ]);
+
+  return { notifications, total, unreadCount };
+}
+
+/**
+ * Marks a user's in-app notifications as read
+ * @param notificationIds - Only these notifications; all unread ones when omitted
+ * @returns Number of notifications marked as read
+ */
+export async function markNotificationsRead(userId: string, notificationIds?: string[]): Promise<number> {
+  const updated = await prisma.notification.updateMany({
+    where: {
+      userId,
+      channel: "IN_APP",
+      readAt: null,
+      ...(notificationIds && { id: { in: notificationIds } }),
+    },
+    data: { readAt: new Date() },
+  });
+
+  return updated.count;
+}
+
+/**
+ * Lists notifications across all users with their delivery status, for staff
+ */
+export async function getNotificationLog(
+  filters: NotificationLogFilters = {}
+): Promise<{ notifications: NotificationWithUser[]; total: number }> {
+  const { page = 1, limit = 20, search, event, channel, status } = filters;
+
+  const where: Prisma.NotificationWhereInput = {
+    ...(event && { event }),
+    ...(channel && { channel }),
+    ...(status && { status }),
+    ...(search && {
+      user: {
+        OR: [{ name: { contains: search, mode: "insensitive" } }, { email: { contains: search, mode: "insensitive" } }],
+      },
+    }),
+  };
+
+  const [notifications, total] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.notification.count({ where }),
+  ]);
+
+  return { notifications, total };
+}
@@ -0,0 +1,128 @@
+import { updateAllOverdueStatuses } from "./checkout";
+import { getOverdueNoticeTitle, sendOverdueReminderEmail } from "./email";
+import { notifyUser } from "./notification";
+import { prisma } from "./prisma";
+
+/**
+ * Days overdue at which patrons are sent an escalating notice
+ */
+export const OVERDUE_NOTICE_DAYS = [1, 7, 14] as const;
+
+/**
+ * Number of checkouts handled per query when sending notices
+ */
+const NOTICE_BATCH_SIZE = 200;
+
+/**
+ * Gets the highest notice threshold a loan has reached (0 if none)
+ */
+export function getOverdueNoticeLevel(overdueDays: number): number {
+  return OVERDUE_NOTICE_DAYS.reduce<number>((level, days) => (overdueDays >= days ? days : level), 0);
+}
+
+/**
+ * Notifies patrons whose loans have crossed a notice threshold since their last notice
+ * Only the highest threshold reached is sent, so a loan found 10 days overdue gets the 7-day notice
+ */
+export async function sendOverdueNotices(): Promise<{ noticesSent: number; noticesFailed: number }> {
+  const finalLevel = OVERDUE_NOTICE_DAYS[OVERDUE_NOTICE_DAYS.length - 1];
+  let noticesSent = 0;
+  let noticesFailed = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.checkout.findMany({
+      where: {
+        returnedDate: null,
+        isOverdue: true,
+        overdueDays: { gte: OVERDUE_NOTICE_DAYS[0] },
+        overdueNoticeLevel: { lt: finalLevel },
+        ...(lastId && { id: { gt: lastId } }),
+      },
+      include: {
+        book: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: NOTICE_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    const due = batch
+      .map((checkout) => ({ checkout, level: getOverdueNoticeLevel(checkout.overdueDays) }))
+      .filter(({ checkout, level }) => level > checkout.overdueNoticeLevel);
+
+    // Record the new notice level with one query per level before sending, so a notice is never sent twice
+    for (const level of OVERDUE_NOTICE_DAYS) {
+      const ids = due.filter((notice) => notice.level === level).map((notice) => notice.checkout.id);
+      if (ids.length > 0) {
+        await prisma.checkout.updateMany({
+          where: { id: { in: ids }, overdueNoticeLevel: { lt: level } },
+          data: { overdueNoticeLevel: level },
+        });
+      }
+    }
+
+    for (const { checkout, level } of due) {
+      const fee = checkout.lateFeeAmount ? Number(checkout.lateFeeAmount) : null;
+
+      const notifications = await notifyUser({
+        userId: checkout.userId,
+        event: "OVERDUE",
+        title: getOverdueNoticeTitle(level),
+        message: `"${checkout.book.title}" is ${checkout.overdueDays} day${checkout.overdueDays === 1 ? "" : "s"} overdue.${
+          fee ? ` Late fee so far: $${fee.toFixed(2)}.` : ""
+        }`,
+        link: "/dashboard/checkouts",
+        sendEmail: (email, locale) =>
+          sendOverdueReminderEmail({
+            email,
+            name: checkout.user.name || "User",
+            bookTitle: checkout.book.title,
+            bookAuthor: checkout.book.author,
+            dueDate: checkout.dueDate,
+            overdueDays: checkout.overdueDays,
+            lateFeeAmount: fee,
+            noticeLevel: level,
+            locale,
+          }),
+      });
+
+      if (notifications.some((notification) => notification.status === "FAILED")) {
+        noticesFailed++;
+      } else if (notifications.some((notification) => notification.status === "SENT")) {
+        noticesSent++;
+      }
+    }
+
+    if (batch.length < NOTICE_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return { noticesSent, noticesFailed };
+}
+
+/**
+ * Recomputes overdue status for every active loan, then sends any notices that are due
+ */
+export async function sweepOverdueCheckouts(): Promise<{
+  checkoutsUpdated: number;
+  noticesSent: number;
+  noticesFailed: number;
+}> {
+  const checkoutsUpdated = await updateAllOverdueStatuses();
+  const { noticesSent, noticesFailed } = await sendOverdueNotices();
+
+  return { checkoutsUpdated, noticesSent, noticesFailed };
+}
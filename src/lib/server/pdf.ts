@@ -0,0 +1,335 @@
+import { deflateSync } from "zlib";
+
+// 6 × 9 inch pages (a trade paperback), in points
+const PAGE_WIDTH = 432;
+const PAGE_HEIGHT = 648;
+const MARGIN = 54;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BODY_SIZE = 11;
+const BODY_LEADING = 15;
+const HEADING_SIZE = 18;
+const HEADING_LEADING = 24;
+const FOOTER_SIZE = 9;
+
+// Glyph widths of Times-Roman for characters 32-126, in thousandths of the font size (from its AFM metrics)
+const TIMES_ROMAN_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889,
+  722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500,
+  444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480,
+  200, 480, 541,
+];
+// Times-Bold is a little wider; headings are measured generously rather than carrying a second table
+const BOLD_WIDTH_FACTOR = 1.08;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  ƒ: 0x83,
+  "„": 0x84,
+  "…": 0x85,
+  "†": 0x86,
+  "‡": 0x87,
+  ˆ: 0x88,
+  "‰": 0x89,
+  Š: 0x8a,
+  "‹": 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "˜": 0x98,
+  "™": 0x99,
+  š: 0x9a,
+  "›": 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+
+export interface PdfBookSection {
+  title: string;
+  paragraphs: string[];
+}
+
+export interface PdfBook {
+  title: string;
+  author: string;
+  subtitle?: string | null; // Shown under the author on the title page, e.g. the publisher
+  cover?: { jpeg: Buffer; width: number; height: number } | null;
+  sections: PdfBookSection[];
+}
+
+/**
+ * Text in WinAnsiEncoding, the encoding of the standard PDF fonts; other characters become "?"
+ */
+function toWinAnsi(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) encoded += char;
+    else if (WIN_ANSI_EXTRAS[char]) encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else if (/\s/.test(char)) encoded += " ";
+    else encoded += "?";
+  }
+  return encoded;
+}
+
+function measure(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    width += code >= 32 && code <= 126 ? TIMES_ROMAN_WIDTHS[code - 32] : 500;
+  }
+  return (width * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Breaks WinAnsi text into lines that fit the width; words longer than a line are split
+ */
+function wrapText(text: string, size: number, width: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (let word of text.split(" ").filter(Boolean)) {
+    while (measure(word, size, bold) > width) {
+      let fit = word.length - 1;
+      while (fit > 1 && measure(word.slice(0, fit), size, bold) > width) fit--;
+      if (line) lines.push(line);
+      lines.push(word.slice(0, fit));
+      line = "";
+      word = word.slice(fit);
+    }
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measure(candidate, size, bold) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function pdfString(text: string): string {
+  return `(${text.replace(/[\\()]/g, "\\$&")})`;
+}
+
+// Metadata and bookmark text as UTF-16, so any language survives
+function pdfTextString(text: string): string {
+  const utf16 = Buffer.from(`\ufeff${text}`, "utf16le").swap16();
+  return `<${utf16.toString("hex")}>`;
+}
+
+function pdfDate(date: Date): string {
+  return `(D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z)`;
+}
+
+class PageBuilder {
+  pages: string[][] = [];
+  private y = 0;
+
+  get pageNumber(): number {
+    return this.pages.length;
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page when there isn't room for the given height
+  ensureSpace(height: number): void {
+    if (this.pages.length === 0 || this.y - height < MARGIN + FOOTER_SIZE * 2) this.newPage();
+  }
+
+  text(
+    line: string,
+    { size, leading, bold = false, x = MARGIN }: { size: number; leading: number; bold?: boolean; x?: number }
+  ) {
+    this.ensureSpace(leading);
+    this.y -= leading;
+    this.pages[this.pages.length - 1].push(
+      `BT /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td ${pdfString(line)} Tj ET`
+    );
+  }
+
+  centered(line: string, size: number, leading: number, bold = false): void {
+    this.text(line, { size, leading, bold, x: (PAGE_WIDTH - measure(line, size, bold)) / 2 });
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+}
+
+/**
+ * Writes a book as a PDF: optional cover page, title page, contents and one section per chapter
+ * Uses the built-in Times fonts, so nothing is embedded but the cover; text outside Windows-1252 is replaced.
+ * Each section gets a bookmark, and pages after the contents are numbered.
+ */
+export function writePdfBook(book: PdfBook): Buffer {
+  const builder = new PageBuilder();
+
+  // Title page
+  builder.newPage();
+  builder.space(PAGE_HEIGHT / 4);
+  for (const line of wrapText(toWinAnsi(book.title), 24, TEXT_WIDTH, true)) builder.centered(line, 24, 32, true);
+  builder.space(16);
+  for (const line of wrapText(toWinAnsi(book.author), 14, TEXT_WIDTH)) builder.centered(line, 14, 20);
+  if (book.subtitle) {
+    builder.space(8);
+    builder.centered(toWinAnsi(book.subtitle), BODY_SIZE, BODY_LEADING);
+  }
+
+  // Contents, filled in with page numbers once the sections are laid out
+  const contentsLines = book.sections.map(
+    (section) => wrapText(toWinAnsi(section.title), BODY_SIZE, TEXT_WIDTH - 40)[0] ?? ""
+  );
+  const linesPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2 - HEADING_LEADING * 2 - FOOTER_SIZE * 2) / BODY_LEADING);
+  const contentsPageCount = book.sections.length > 0 ? Math.ceil(contentsLines.length / linesPerPage) : 0;
+  const contentsStart = builder.pageNumber;
+  for (let i = 0; i < contentsPageCount; i++) builder.newPage();
+
+  const sectionPages: number[] = [];
+  for (const section of book.sections) {
+    builder.newPage();
+    sectionPages.push(builder.pageNumber - 1);
+    for (const line of wrapText(toWinAnsi(section.title), HEADING_SIZE, TEXT_WIDTH, true)) {
+      builder.text(line, { size: HEADING_SIZE, leading: HEADING_LEADING, bold: true });
+    }
+    builder.space(HEADING_LEADING);
+    for (const paragraph of section.paragraphs) {
+      for (const line of wrapText(toWinAnsi(paragraph), BODY_SIZE, TEXT_WIDTH)) {
+        builder.text(line, { size: BODY_SIZE, leading: BODY_LEADING });
+      }
+      builder.space(BODY_LEADING / 2);
+    }
+  }
+
+  // The numbered pages start after the contents, so a reader's page 1 is the first chapter
+  const firstNumberedPage = contentsStart + contentsPageCount;
+  for (let i = 0; i < contentsPageCount; i++) {
+    const page = builder.pages[contentsStart + i];
+    let y = PAGE_HEIGHT - MARGIN - HEADING_LEADING;
+    if (i === 0) {
+      page.push(`BT /F2 ${HEADING_SIZE} Tf ${MARGIN} ${y} Td ${pdfString("Contents")} Tj ET`);
+    }
+    y -= HEADING_LEADING;
+    contentsLines.slice(i * linesPerPage, (i + 1) * linesPerPage).forEach((line, index) => {
+      const number = String(sectionPages[i * linesPerPage + index] - firstNumberedPage + 1);
+      const lineY = (y - index * BODY_LEADING).toFixed(2);
+      const numberX = (PAGE_WIDTH - MARGIN - measure(number, BODY_SIZE)).toFixed(2);
+      page.push(`BT /F1 ${BODY_SIZE} Tf ${MARGIN} ${lineY} Td ${pdfString(line)} Tj ET`);
+      page.push(`BT /F1 ${BODY_SIZE} Tf ${numberX} ${lineY} Td ${pdfString(number)} Tj ET`);
+    });
+  }
+  builder.pages.forEach((page, index) => {
+    if (index < firstNumberedPage) return;
+    const number = String(index - firstNumberedPage + 1);
+    page.push(
+      `BT /F1 ${FOOTER_SIZE} Tf ${((PAGE_WIDTH - measure(number, FOOTER_SIZE)) / 2).toFixed(2)} ${MARGIN / 2} Td ${pdfString(number)} Tj ET`
+    );
+  });
+
+  // Page content streams; the cover is drawn to fill its page, keeping its proportions
+  const contents = builder.pages.map((page) => page.join("\n"));
+  if (book.cover) {
+    const scale = Math.min(PAGE_WIDTH / book.cover.width, PAGE_HEIGHT / book.cover.height);
+    const width = book.cover.width * scale;
+    const height = book.cover.height * scale;
+    contents.unshift(
+      `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${((PAGE_WIDTH - width) / 2).toFixed(2)} ${((PAGE_HEIGHT - height) / 2).toFixed(2)} cm /Cover Do Q`
+    );
+  }
+  const pageOffset = book.cover ? 1 : 0;
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, 6 outline root, 7 cover image, then pages
+  const objects: (string | Buffer)[] = [];
+  const firstPageObject = 8;
+  const pageObject = (index: number) => firstPageObject + index * 2;
+  const firstOutlineObject = firstPageObject + contents.length * 2;
+  const outlineObject = (index: number) => firstOutlineObject + index;
+
+  objects[1] = `<< /Type /Catalog /Pages 2 0 R /Outlines 6 0 R /PageMode /UseOutlines >>`;
+  objects[2] = `<< /Type /Pages /Kids [${contents.map((_, index) => `${pageObject(index)} 0 R`).join(" ")}] /Count ${contents.length} >>`;
+  objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /Times-Roman /Encoding /WinAnsiEncoding >>`;
+  objects[4] = `<< /Type /Font /Subtype /Type1 /BaseFont /Times-Bold /Encoding /WinAnsiEncoding >>`;
+  objects[5] = `<< /Title ${pdfTextString(book.title)} /Author ${pdfTextString(book.author)} /CreationDate ${pdfDate(new Date())} >>`;
+  objects[6] =
+    book.sections.length > 0
+      ? `<< /Type /Outlines /First ${outlineObject(0)} 0 R /Last ${outlineObject(book.sections.length - 1)} 0 R /Count ${book.sections.length} >>`
+      : `<< /Type /Outlines /Count 0 >>`;
+  objects[7] = book.cover
+    ? Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${book.cover.width} /Height ${book.cover.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${book.cover.jpeg.length} >>\nstream\n`,
+          "latin1"
+        ),
+        book.cover.jpeg,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    : "null";
+
+  contents.forEach((content, index) => {
+    const stream = deflateSync(Buffer.from(content, "latin1"));
+    objects[pageObject(index)] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${book.cover ? " /XObject << /Cover 7 0 R >>" : ""} >> ` +
+      `/Contents ${pageObject(index) + 1} 0 R >>`;
+    objects[pageObject(index) + 1] = Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      stream,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+  });
+
+  book.sections.forEach((section, index) => {
+    const links = [
+      index > 0 ? `/Prev ${outlineObject(index - 1)} 0 R` : "",
+      index < book.sections.length - 1 ? `/Next ${outlineObject(index + 1)} 0 R` : "",
+    ].join(" ");
+    objects[outlineObject(index)] =
+      `<< /Title ${pdfTextString(section.title)} /Parent 6 0 R ${links} ` +
+      `/Dest [${pageObject(sectionPages[index] + pageOffset)} 0 R /Fit] >>`;
+  });
+
+  // Header, numbered objects, then the cross-reference table of their byte offsets
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  for (let number = 1; number < objects.length; number++) {
+    const body = objects[number];
+    const chunk = Buffer.concat([
+      Buffer.from(`${number} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    offsets[number] = length;
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+
+  const xref = [
+    "xref",
+    `0 ${objects.length}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+  return Buffer.concat(chunks);
+}
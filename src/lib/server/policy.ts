@@ -0,0 +1,239 @@
+import type { CirculationPolicy, Prisma } from "@prisma/client";
+import {
+  createDuplicatePolicyError,
+  createInvalidPolicyError,
+  createPolicyNotFoundError,
+  type ApiError,
+} from "./errors";
+import { normalizeGenreName } from "./genre";
+import { prisma } from "./prisma";
+import type { CirculationPolicyInput, CirculationPolicyWithRole, ResolvedCirculationPolicy } from "./types/policy";
+
+/**
+ * Loan terms used when no circulation policy matches
+ */
+export const DEFAULT_LOAN_TERMS = {
+  loanDays: 14,
+  maxRenewals: 2,
+  lateFeePerDay: 0.5,
+  maxLateFee: null,
+  graceDays: 0,
+} as const;
+
+const policyInclude = {
+  role: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.CirculationPolicyInclude;
+
+/**
+ * Trims a genre, treating blank values as "any genre"
+ */
+function normalizeGenre(genre?: string | null): string | null {
+  return genre?.trim() || null;
+}
+
+/**
+ * Ranks a policy by how specifically it targets a loan
+ * Role matches outrank genre matches; the default policy ranks lowest
+ */
+function specificity(policy: CirculationPolicy): number {
+  return (policy.roleId ? 2 : 0) + (policy.genre ? 1 : 0);
+}
+
+/**
+ * Picks the loan terms from the policies for a patron's roles (or no role), for a book in the given genres
+ * A genre policy applies to its genre and every genre below it. Between otherwise equal policies, one for
+ * a nearer genre wins, so a Mystery policy beats a Fiction one for a mystery novel.
+ * @param genres - The book's genres and the genres above them, nearest first (see getGenreLineage)
+ */
+export function selectCirculationPolicy(policies: CirculationPolicy[], genres: string[]): ResolvedCirculationPolicy {
+  const genreKeys = genres.map(normalizeGenreName);
+  // How far the policy's genre is from the book's own genres; -1 when it doesn't apply
+  const genreDistance = (policy: CirculationPolicy) => {
+    const genre = normalizeGenre(policy.genre);
+    return genre ? genreKeys.indexOf(normalizeGenreName(genre)) : 0;
+  };
+
+  const ranked = policies
+    .filter((policy) => genreDistance(policy) !== -1)
+    .sort(
+      (a, b) =>
+        specificity(b) - specificity(a) ||
+        b.priority - a.priority ||
+        genreDistance(a) - genreDistance(b) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+  const policy = ranked[0];
+  // Limits are resolved separately so a genre policy without a limit doesn't lift the patron's overall limit
+  const limitPolicy = ranked.find((candidate) => !candidate.genre && candidate.checkoutLimit !== null);
+  const genreLimitPolicy = ranked.find((candidate) => candidate.genre && candidate.checkoutLimit !== null);
+
+  return {
+    policyId: policy?.id ?? null,
+    loanDays: policy?.loanDays ?? DEFAULT_LOAN_TERMS.loanDays,
+    maxRenewals: policy?.maxRenewals ?? DEFAULT_LOAN_TERMS.maxRenewals,
+    lateFeePerDay: policy ? Number(policy.lateFeePerDay) : DEFAULT_LOAN_TERMS.lateFeePerDay,
+    maxLateFee: policy?.maxLateFee != null ? Number(policy.maxLateFee) : DEFAULT_LOAN_TERMS.maxLateFee,
+    graceDays: policy?.graceDays ?? DEFAULT_LOAN_TERMS.graceDays,
+    checkoutLimit: limitPolicy?.checkoutLimit ?? null,
+    genre: genreLimitPolicy?.genre ?? null,
+    genreCheckoutLimit: genreLimitPolicy?.checkoutLimit ?? null,
+  };
+}
+
+/**
+ * Resolves the loan terms for a patron borrowing a book in the given genres
+ * Considers policies for any of the patron's roles (or no role) and any of the genres (or no genre)
+ * @param genres - The book's genres and the genres above them, nearest first (see getGenreLineage)
+ */
+export async function resolveCirculationPolicy(
+  userId: string,
+  genres: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<ResolvedCirculationPolicy> {
+  const userRoles = await client.rolesOnUsers.findMany({
+    where: { userId },
+    select: { roleId: true },
+  });
+
+  const policies = await client.circulationPolicy.findMany({
+    where: { OR: [{ roleId: null }, { roleId: { in: userRoles.map((userRole) => userRole.roleId) } }] },
+  });
+
+  return selectCirculationPolicy(policies, genres);
+}
+
+/**
+ * Validates a circulation policy before it is created or updated
+ * Checks: role exists, fee cap, one policy per role and genre
+ * @param policyId - The policy being updated, if any
+ */
+export async function validateCirculationPolicy(
+  input: CirculationPolicyInput,
+  policyId?: string
+): Promise<ApiError | null> {
+  if (policyId) {
+    const existing = await prisma.circulationPolicy.findUnique({
+      where: { id: policyId },
+    });
+
+    if (!existing) {
+      return createPolicyNotFoundError(policyId);
+    }
+  }
+
+  const roleId = input.roleId || null;
+  const genre = normalizeGenre(input.genre);
+
+  if (roleId) {
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+    });
+
+    if (!role) {
+      return createInvalidPolicyError("Role not found");
+    }
+  }
+
+  if (input.maxLateFee != null && input.maxLateFee < input.lateFeePerDay) {
+    return createInvalidPolicyError("Maximum late fee can't be less than the daily fee");
+  }
+
+  const duplicate = await prisma.circulationPolicy.findFirst({
+    where: {
+      roleId,
+      genre: genre ? { equals: genre, mode: "insensitive" } : null,
+      ...(policyId && { id: { not: policyId } }),
+    },
+  });
+
+  if (duplicate) {
+    return createDuplicatePolicyError(roleId, genre);
+  }
+
+  return null;
+}
+
+/**
+ * Maps policy input to the columns stored in the database
+ */
+function toPolicyData(input: CirculationPolicyInput) {
+  return {
+    name: input.name.trim(),
+    roleId: input.roleId || null,
+    genre: normalizeGenre(input.genre),
+    loanDays: input.loanDays,
+    maxRenewals: input.maxRenewals,
+    lateFeePerDay: input.lateFeePerDay,
+    maxLateFee: input.maxLateFee ?? null,
+    graceDays: input.graceDays,
+    checkoutLimit: input.checkoutLimit ?? null,
+    priority: input.priority ?? 0,
+  };
+}
+
+/**
+ * Lists all circulation policies, most specific first
+ */
+export async function getCirculationPolicies(): Promise<CirculationPolicyWithRole[]> {
+  const policies = await prisma.circulationPolicy.findMany({
+    include: policyInclude,
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+  });
+
+  return policies.sort((a, b) => specificity(b) - specificity(a));
+}
+
+/**
+ * Creates a circulation policy
+ */
+export async function createCirculationPolicy(input: CirculationPolicyInput): Promise<CirculationPolicyWithRole> {
+  const error = await validateCirculationPolicy(input);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return prisma.circulationPolicy.create({
+    data: toPolicyData(input),
+    include: policyInclude,
+  });
+}
+
+/**
+ * Updates a circulation policy
+ * Existing checkouts keep the terms they were created with
+ */
+export async function updateCirculationPolicy(
+  policyId: string,
+  input: CirculationPolicyInput
+): Promise<CirculationPolicyWithRole> {
+  const error = await validateCirculationPolicy(input, policyId);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return prisma.circulationPolicy.update({
+    where: { id: policyId },
+    data: toPolicyData(input),
+    include: policyInclude,
+  });
+}
+
+/**
+ * Deletes a circulation policy
+ * Loans created under it keep their terms; new loans fall back to the next matching policy
+ */
+export async function deleteCirculationPolicy(policyId: string): Promise<void> {
+  const deleted = await prisma.circulationPolicy.deleteMany({
+    where: { id: policyId },
+  });
+
+  if (deleted.count === 0) {
+    throw new Error(createPolicyNotFoundError(policyId).message);
+  }
+}
@@ -0,0 +1,34 @@
+import type { Prisma } from "@prisma/client";
+import { normalizeAuthorName } from "./author";
+
+// Company suffixes ignored when matching, so "Penguin Books Ltd" and "Penguin Books" are one publisher
+const COMPANY_SUFFIX = /[\s,]+(?:inc|ltd|llc|co|corp|plc|gmbh)\.?$/i;
+
+/**
+ * Key that publishers are matched on, the same way as authors but ignoring company suffixes
+ */
+export function normalizePublisherName(name: string): string {
+  return normalizeAuthorName(name.replace(COMPANY_SUFFIX, ""));
+}
+
+/**
+ * Finds or creates the publisher for a book's publisher name
+ * @returns The fields to save on the book, both null when the name is empty
+ */
+export async function resolvePublisher(
+  db: Prisma.TransactionClient,
+  name: string | null | undefined
+): Promise<{ publisher: string | null; publisherId: string | null }> {
+  const normalizedName = name ? normalizePublisherName(name) : "";
+  if (!normalizedName) {
+    return { publisher: null, publisherId: null };
+  }
+
+  const publisher = await db.publisher.upsert({
+    where: { normalizedName },
+    update: {},
+    create: { name: name!.replace(/\s+/g, " ").trim(), normalizedName },
+  });
+
+  return { publisher: publisher.name, publisherId: publisher.id };
+}
@@ -1,5 +1,6 @@
 import { Client } from "@upstash/qstash";
 import { QSTASH_TOKEN, QSTASH_URL, APP_URL } from "./constants/env";
+import type { JobQueue, QueueJobType } from "./types/queue";
 
 // Initialize QStash client only if token is available
 const qstash = QSTASH_TOKEN
@@ -10,89 +11,50 @@ const qstash = QSTASH_TOKEN
   : null;
 
 /**
- * Checks if QStash service is available
+ * Webhook that QStash calls for each job type
  */
-export function isQStashAvailable(): boolean {
-  return qstash !== null;
-}
+const webhookPaths: Record<QueueJobType, string> = {
+  overdue_reminder: "/api/qstash/reminder",
+  new_arrival: "/api/qstash/new-arrival",
+};
 
 /**
- * Logs a warning if QStash service is not available
+ * Checks if QStash service is available
  */
-function logQStashUnavailable(): void {
-  if (!isQStashAvailable()) {
-    console.warn(
-      "[QStash Service] QSTASH_TOKEN not configured. QStash service is disabled. Reminders will not be scheduled."
-    );
-  }
+export function isQStashAvailable(): boolean {
+  return qstash !== null;
 }
 
 /**
- * Schedule a reminder for a checkout 1 day before the due date
- * @param checkoutId - The checkout ID
- * @param dueDate - The due date of the checkout
- * @returns The QStash message ID if successful, null if service unavailable
+ * Job queue backed by QStash
+ * Jobs are published to QStash and delivered to the matching webhook at their run time
  */
-export async function scheduleCheckoutReminder(checkoutId: string, dueDate: Date): Promise<string | null> {
-  if (!isQStashAvailable()) {
-    logQStashUnavailable();
-    return null;
-  }
-
-  try {
-    // Calculate reminder time: 1 day before due date
-    const reminderDate = new Date(dueDate);
-    reminderDate.setDate(reminderDate.getDate() - 1);
-    reminderDate.setHours(9, 0, 0, 0); // Set to 9 AM on the reminder day
+export const qstashQueue: JobQueue = {
+  name: "qstash",
 
-    // Don't schedule if reminder time is in the past
-    if (reminderDate < new Date()) {
-      console.warn(
-        `[QStash Service] Cannot schedule reminder for checkout ${checkoutId}: reminder date is in the past`
-      );
-      return null;
+  async enqueue({ type, payload, runAt }) {
+    if (!qstash) {
+      throw new Error("QSTASH_TOKEN not configured");
     }
 
-    const webhookUrl = `${APP_URL}/api/qstash/reminder`;
-
-    const result = await qstash!.publishJSON({
-      url: webhookUrl,
+    const result = await qstash.publishJSON({
+      url: `${APP_URL}${webhookPaths[type]}`,
       body: {
-        checkoutId,
-        type: "overdue_reminder",
+        ...payload,
+        type,
       },
-      schedule: reminderDate.toISOString(),
+      notBefore: Math.floor(runAt.getTime() / 1000), // Unix timestamp in seconds
     });
 
-    const messageId = typeof result === "string" ? result : result.messageId;
-
-    console.log(`[QStash Service] Scheduled reminder for checkout ${checkoutId} at ${reminderDate.toISOString()}`);
-
-    return messageId;
-  } catch (error) {
-    console.error("[QStash Service] Error scheduling reminder:", error);
-    // Return null to not block application flow
-    return null;
-  }
-}
+    return typeof result === "string" ? result : result.messageId;
+  },
 
-/**
- * Cancel a scheduled QStash reminder
- * @param messageId - The QStash message ID to cancel
- */
-export async function cancelCheckoutReminder(messageId: string): Promise<boolean> {
-  if (!isQStashAvailable()) {
-    logQStashUnavailable();
-    return false;
-  }
+  async cancel(messageId) {
+    if (!qstash) {
+      throw new Error("QSTASH_TOKEN not configured");
+    }
 
-  try {
-    await qstash!.messages.delete(messageId);
-    console.log(`[QStash Service] Cancelled reminder with message ID: ${messageId}`);
+    await qstash.messages.delete(messageId);
     return true;
-  } catch (error) {
-    console.error("[QStash Service] Error cancelling reminder:", error);
-    // Return false but don't throw - graceful degradation
-    return false;
-  }
-}
+  },
+};
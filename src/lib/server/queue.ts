@@ -0,0 +1,134 @@
+import { Prisma, type QueuedJob } from "@prisma/client";
+import { JOB_QUEUE_BACKEND } from "./constants/env";
+import { prisma } from "./prisma";
+import { qstashQueue } from "./qstash";
+import type { JobQueue, QueueJobHandlers, QueueJobType } from "./types/queue";
+
+/**
+ * Number of due jobs a worker claims at a time
+ */
+const WORKER_BATCH_SIZE = 50;
+
+/**
+ * Jobs left RUNNING for longer than this are assumed to have crashed and are picked up again
+ */
+const LOCK_TIMEOUT_MINUTES = 10;
+
+/**
+ * Job queue backed by the QueuedJob table
+ * Jobs are processed by processQueuedJobs, which runs as the "job-queue" background job
+ */
+export const postgresQueue: JobQueue = {
+  name: "postgres",
+
+  async enqueue({ type, payload, runAt }) {
+    const job = await prisma.queuedJob.create({
+      data: { type, payload, runAt },
+    });
+
+    return job.id;
+  },
+
+  async cancel(jobId) {
+    const cancelled = await prisma.queuedJob.updateMany({
+      where: { id: jobId, status: "PENDING" },
+      data: { status: "CANCELLED" },
+    });
+
+    return cancelled.count > 0;
+  },
+};
+
+/**
+ * Gets the job queue selected by JOB_QUEUE_BACKEND
+ */
+export function getJobQueue(): JobQueue {
+  return JOB_QUEUE_BACKEND === "qstash" ? qstashQueue : postgresQueue;
+}
+
+/**
+ * The part of the Prisma client the worker needs; it only runs raw SQL, so tests can run it on a test database
+ */
+export type QueueClient = Pick<Prisma.TransactionClient, "$queryRaw" | "$executeRaw">;
+
+/**
+ * Claims due jobs, including ones whose worker appears to have crashed
+ * SKIP LOCKED lets several workers poll the table without claiming the same job
+ */
+async function claimDueJobs(client: QueueClient): Promise<QueuedJob[]> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MINUTES * 60 * 1000);
+
+  return client.$queryRaw<QueuedJob[]>(Prisma.sql`
+    UPDATE "QueuedJob"
+    SET "status" = 'RUNNING', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "QueuedJob"
+      WHERE ("status" = 'PENDING' AND "runAt" <= NOW())
+        OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      LIMIT ${WORKER_BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `);
+}
+
+/**
+ * Runs due jobs from the Postgres queue
+ * Failed jobs are retried with exponential backoff until they reach maxAttempts
+ */
+export async function processQueuedJobs(
+  handlers: QueueJobHandlers,
+  client: QueueClient = prisma
+): Promise<{ jobsCompleted: number; jobsRetried: number; jobsFailed: number }> {
+  let jobsCompleted = 0;
+  let jobsRetried = 0;
+  let jobsFailed = 0;
+
+  for (;;) {
+    const jobs = await claimDueJobs(client);
+
+    for (const job of jobs) {
+      try {
+        const handler = handlers[job.type as QueueJobType] as ((payload: unknown) => Promise<unknown>) | undefined;
+        if (!handler) {
+          throw new Error(`No handler for job type "${job.type}"`);
+        }
+
+        await handler(job.payload);
+
+        await client.$executeRaw`
+          UPDATE "QueuedJob"
+          SET "status" = 'COMPLETED', "completedAt" = NOW(), "lockedAt" = NULL, "lastError" = NULL, "updatedAt" = NOW()
+          WHERE "id" = ${job.id}
+        `;
+        jobsCompleted++;
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : "Unknown error";
+        const retry = job.attempts < job.maxAttempts;
+        console.error(`[Job Queue] ${job.type} job ${job.id} failed (attempt ${job.attempts}):`, error);
+
+        // Wait 2, 4, 8... minutes between attempts
+        const runAt = retry ? new Date(Date.now() + 2 ** job.attempts * 60 * 1000) : job.runAt;
+        await client.$executeRaw`
+          UPDATE "QueuedJob"
+          SET "status" = ${retry ? "PENDING" : "FAILED"}::"QueuedJobStatus", "lockedAt" = NULL, "lastError" = ${lastError},
+            "runAt" = ${runAt}, "updatedAt" = NOW()
+          WHERE "id" = ${job.id}
+        `;
+
+        if (retry) {
+          jobsRetried++;
+        } else {
+          jobsFailed++;
+        }
+      }
+    }
+
+    if (jobs.length < WORKER_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return { jobsCompleted, jobsRetried, jobsFailed };
+}
@@ -0,0 +1,168 @@
+import { createChapterNotFoundError, type ApiError } from "./errors";
+import { prisma } from "./prisma";
+import type { AuthenticatedUser } from "./types/auth";
+import type { ContinueReadingItem, ReaderBook, ReadingProgressInput } from "./types/reading";
+
+// Books shown on the dashboard's "continue reading" shelf
+export const CONTINUE_READING_LIMIT = 6;
+
+/**
+ * Whether a user may read a book's chapters: they need an active checkout of it
+ * Staff who can edit books may read any book, e.g. to proofread its chapters.
+ */
+export async function canReadBook(
+  user: Pick<AuthenticatedUser, "id" | "permissions">,
+  bookId: string
+): Promise<boolean> {
+  if (user.permissions.includes("book:update")) {
+    return true;
+  }
+
+  const checkout = await prisma.checkout.findFirst({
+    where: { userId: user.id, bookId, returnedDate: null },
+    select: { id: true },
+  });
+  return checkout !== null;
+}
+
+/**
+ * Which of the given books a user may read the chapters of, by the same rules as canReadBook
+ * Anonymous visitors can't read any.
+ */
+export async function getReadableBookIds(
+  user: Pick<AuthenticatedUser, "id" | "permissions"> | undefined,
+  bookIds: string[]
+): Promise<string[]> {
+  if (!user || bookIds.length === 0) {
+    return [];
+  }
+  if (user.permissions.includes("book:update")) {
+    return bookIds;
+  }
+
+  const checkouts = await prisma.checkout.findMany({
+    where: { userId: user.id, bookId: { in: bookIds }, returnedDate: null },
+    select: { bookId: true },
+    distinct: ["bookId"],
+  });
+  return checkouts.map((checkout) => checkout.bookId);
+}
+
+/**
+ * Opens a book in the reader at the given chapter, or where the user left off (the first chapter if they haven't started)
+ * @returns null when the book doesn't exist; chapter is null when the book has no chapters
+ */
+export async function getReaderBook(userId: string, bookId: string, chapterId?: string): Promise<ReaderBook | null> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: {
+      id: true,
+      title: true,
+      author: true,
+      chapters: { select: { id: true, title: true, order: true }, orderBy: { order: "asc" } },
+    },
+  });
+  if (!book) {
+    return null;
+  }
+
+  const progress = await prisma.readingProgress.findUnique({
+    where: { userId_bookId: { userId, bookId } },
+    select: { chapterId: true, position: true, updatedAt: true },
+  });
+  const { chapters, ...rest } = book;
+  const openChapterId = chapterId ?? progress?.chapterId ?? chapters[0]?.id;
+  const chapter = openChapterId
+    ? await prisma.chapter.findFirst({
+        where: { id: openChapterId, bookId },
+        select: { id: true, title: true, order: true, content: true },
+      })
+    : null;
+
+  return { book: rest, chapters, chapter, progress };
+}
+
+/**
+ * Checks that the chapter being saved as read belongs to the book
+ * @returns An error if it doesn't, null otherwise
+ */
+export async function validateReadingProgress(bookId: string, input: ReadingProgressInput): Promise<ApiError | null> {
+  const chapter = await prisma.chapter.findFirst({
+    where: { id: input.chapterId, bookId },
+    select: { id: true },
+  });
+  if (!chapter) {
+    return createChapterNotFoundError(input.chapterId);
+  }
+
+  return null;
+}
+
+/**
+ * Saves where a user is in a book, replacing their previous position
+ */
+export async function saveReadingProgress(
+  userId: string,
+  bookId: string,
+  input: ReadingProgressInput
+): Promise<NonNullable<ReaderBook["progress"]>> {
+  const position = Math.min(Math.max(input.position, 0), 1);
+
+  return prisma.readingProgress.upsert({
+    where: { userId_bookId: { userId, bookId } },
+    update: { chapterId: input.chapterId, position },
+    create: { userId, bookId, chapterId: input.chapterId, position },
+    select: { chapterId: true, position: true, updatedAt: true },
+  });
+}
+
+/**
+ * Books a user has started reading and still has checked out, most recently read first
+ * Progress on returned books is kept for the next time they borrow them, but left off the shelf.
+ */
+export async function getContinueReading(
+  userId: string,
+  limit = CONTINUE_READING_LIMIT
+): Promise<ContinueReadingItem[]> {
+  const progress = await prisma.readingProgress.findMany({
+    where: { userId, book: { checkouts: { some: { userId, returnedDate: null } } } },
+    select: {
+      chapterId: true,
+      position: true,
+      updatedAt: true,
+      chapter: { select: { id: true, title: true, order: true } },
+      book: {
+        select: {
+          id: true,
+          title: true,
+          author: true,
+          coverImageUrl: true,
+          coverImages: true,
+          chapters: { select: { id: true }, orderBy: { order: "asc" } },
+          checkouts: {
+            where: { userId, returnedDate: null },
+            select: { dueDate: true },
+            orderBy: { dueDate: "desc" },
+            take: 1,
+          },
+        },
+      },
+    },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+
+  return progress.map(({ book: { chapters, checkouts, ...book }, ...item }) => {
+    const chapterIndex = chapters.findIndex((chapter) => chapter.id === item.chapterId);
+    const percentComplete =
+      chapters.length > 0 && chapterIndex >= 0 ? ((chapterIndex + item.position) / chapters.length) * 100 : 0;
+
+    return {
+      ...item,
+      book,
+      chapterCount: chapters.length,
+      percentComplete: Math.round(percentComplete),
+      dueDate: checkouts[0].dueDate,
+    };
+  });
+}
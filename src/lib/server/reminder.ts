@@ -0,0 +1,184 @@
+import type { Checkout } from "@prisma/client";
+import { getLibraryCalendar } from "./calendar";
+import { calculateLateFees, getLateFeeTerms } from "./checkout";
+import { getOverdueNoticeTitle, sendDueSoonEmail, sendOverdueReminderEmail } from "./email";
+import { notifyUser } from "./notification";
+import { prisma } from "./prisma";
+import { getJobQueue } from "./queue";
+
+/**
+ * Schedule a reminder for a checkout 1 day before the due date
+ * @param checkoutId - The checkout ID
+ * @param dueDate - The due date of the checkout
+ * @returns The job queue ID if successful, null if the reminder couldn't be scheduled
+ */
+export async function scheduleCheckoutReminder(checkoutId: string, dueDate: Date): Promise<string | null> {
+  const queue = getJobQueue();
+
+  try {
+    // Calculate reminder time: 1 day before due date
+    const reminderDate = new Date(dueDate);
+    reminderDate.setDate(reminderDate.getDate() - 1);
+    reminderDate.setHours(9, 0, 0, 0); // Set to 9 AM on the reminder day
+
+    // Don't schedule if reminder time is in the past
+    if (reminderDate < new Date()) {
+      console.warn(`[Reminders] Cannot schedule reminder for checkout ${checkoutId}: reminder date is in the past`);
+      return null;
+    }
+
+    const jobId = await queue.enqueue({
+      type: "overdue_reminder",
+      payload: { checkoutId },
+      runAt: reminderDate,
+    });
+
+    console.log(
+      `[Reminders] Scheduled reminder for checkout ${checkoutId} at ${reminderDate.toISOString()} (${queue.name})`
+    );
+
+    return jobId;
+  } catch (error) {
+    console.error(`[Reminders] Error scheduling reminder (${queue.name}):`, error);
+    // Return null to not block application flow
+    return null;
+  }
+}
+
+/**
+ * Cancel a scheduled reminder
+ * @param jobId - The job queue ID returned by scheduleCheckoutReminder
+ */
+export async function cancelCheckoutReminder(jobId: string): Promise<boolean> {
+  const queue = getJobQueue();
+
+  try {
+    const cancelled = await queue.cancel(jobId);
+    if (cancelled) {
+      console.log(`[Reminders] Cancelled reminder ${jobId} (${queue.name})`);
+    }
+    return cancelled;
+  } catch (error) {
+    console.error(`[Reminders] Error cancelling reminder (${queue.name}):`, error);
+    // Return false but don't throw - graceful degradation
+    return false;
+  }
+}
+
+/**
+ * Moves a checkout's reminder to a new due date, cancelling the one scheduled for the old date
+ * Failures are logged rather than thrown, like scheduling and cancelling
+ */
+export async function rescheduleCheckoutReminder(
+  checkout: Pick<Checkout, "id" | "reminderJobId">,
+  dueDate: Date
+): Promise<void> {
+  if (checkout.reminderJobId) {
+    await cancelCheckoutReminder(checkout.reminderJobId);
+  }
+
+  const jobId = await scheduleCheckoutReminder(checkout.id, dueDate);
+  if (jobId !== checkout.reminderJobId) {
+    await prisma.checkout
+      .update({
+        where: { id: checkout.id },
+        data: { reminderJobId: jobId },
+      })
+      .catch((error) => {
+        console.error("Failed to update checkout with reminder job ID:", error);
+      });
+  }
+}
+
+/**
+ * Refreshes a checkout's overdue status and notifies the borrower that the book is due soon (or overdue)
+ * Called by whichever job queue backend delivers the reminder
+ * @returns "not_found" if the checkout no longer exists, "returned" if the book is already back
+ */
+export async function processCheckoutReminder(checkoutId: string): Promise<"sent" | "returned" | "not_found"> {
+  const checkout = await prisma.checkout.findUnique({
+    where: { id: checkoutId },
+    include: {
+      book: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  if (!checkout) {
+    console.warn(`[Reminders] Checkout ${checkoutId} not found`);
+    return "not_found";
+  }
+
+  // Check if book has already been returned
+  if (checkout.returnedDate) {
+    console.log(`[Reminders] Checkout ${checkoutId} already returned, skipping reminder`);
+    return "returned";
+  }
+
+  const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
+    checkout.dueDate,
+    Number(checkout.lateFeePerDay),
+    null,
+    getLateFeeTerms(checkout),
+    await getLibraryCalendar(checkout.dueDate)
+  );
+
+  // Update checkout with current overdue status
+  await prisma.checkout.update({
+    where: { id: checkoutId },
+    data: {
+      isOverdue,
+      overdueDays,
+      lateFeeAmount: isOverdue ? lateFeeAmount : null,
+    },
+  });
+
+  const name = checkout.user.name || "User";
+
+  // The reminder is due the day before the due date, but may run late if the queue was down
+  if (isOverdue) {
+    await notifyUser({
+      userId: checkout.userId,
+      event: "OVERDUE",
+      title: getOverdueNoticeTitle(),
+      message: `"${checkout.book.title}" is ${overdueDays} day${overdueDays === 1 ? "" : "s"} overdue.`,
+      link: "/dashboard/checkouts",
+      sendEmail: (email, locale) =>
+        sendOverdueReminderEmail({
+          email,
+          name,
+          bookTitle: checkout.book.title,
+          bookAuthor: checkout.book.author,
+          dueDate: checkout.dueDate,
+          overdueDays,
+          lateFeeAmount: lateFeeAmount > 0 ? lateFeeAmount : null,
+          locale,
+        }),
+    });
+  } else {
+    await notifyUser({
+      userId: checkout.userId,
+      event: "DUE_SOON",
+      title: "Book due soon",
+      message: `"${checkout.book.title}" is due on ${checkout.dueDate.toLocaleDateString()}.`,
+      link: "/dashboard/checkouts",
+      sendEmail: (email, locale) =>
+        sendDueSoonEmail({
+          email,
+          name,
+          bookTitle: checkout.book.title,
+          bookAuthor: checkout.book.author,
+          dueDate: checkout.dueDate,
+          locale,
+        }),
+    });
+  }
+
+  return "sent";
+}
@@ -0,0 +1,174 @@
+import type { Prisma, SavedSearch } from "@prisma/client";
+import { sendNewArrivalEmail } from "./email";
+import { createSavedSearchLimitReachedError, type ApiError } from "./errors";
+import { notifyUser } from "./notification";
+import { prisma } from "./prisma";
+import { getJobQueue } from "./queue";
+import { bookMatchesSearch } from "./search";
+import type { BookSearchFilters } from "./types/book";
+import type { CreateSavedSearchInput, SavedSearchWithFilters, UpdateSavedSearchInput } from "./types/saved-search";
+
+// Most searches a patron can save
+export const MAX_SAVED_SEARCHES = 25;
+
+function withFilters(savedSearch: SavedSearch): SavedSearchWithFilters {
+  return { ...savedSearch, filters: savedSearch.filters as BookSearchFilters };
+}
+
+/**
+ * Gets a user's saved searches, newest first
+ */
+export async function getSavedSearches(userId: string): Promise<SavedSearchWithFilters[]> {
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return savedSearches.map(withFilters);
+}
+
+/**
+ * Checks that a user has room for another saved search
+ * @returns An error if the limit is reached, null otherwise
+ */
+export async function validateSavedSearch(userId: string): Promise<ApiError | null> {
+  const count = await prisma.savedSearch.count({ where: { userId } });
+  if (count >= MAX_SAVED_SEARCHES) {
+    return createSavedSearchLimitReachedError(MAX_SAVED_SEARCHES);
+  }
+
+  return null;
+}
+
+/**
+ * Saves a search for a user
+ */
+export async function createSavedSearch(
+  userId: string,
+  input: CreateSavedSearchInput
+): Promise<SavedSearchWithFilters> {
+  const savedSearch = await prisma.savedSearch.create({
+    data: {
+      userId,
+      name: input.name,
+      filters: input.filters as Prisma.InputJsonObject,
+      notifyNewArrivals: input.notifyNewArrivals ?? false,
+    },
+  });
+
+  return withFilters(savedSearch);
+}
+
+/**
+ * Renames a saved search or turns its new arrival alerts on or off
+ */
+export async function updateSavedSearch(
+  savedSearchId: string,
+  input: UpdateSavedSearchInput
+): Promise<SavedSearchWithFilters> {
+  const savedSearch = await prisma.savedSearch.update({
+    where: { id: savedSearchId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.notifyNewArrivals !== undefined && { notifyNewArrivals: input.notifyNewArrivals }),
+    },
+  });
+
+  return withFilters(savedSearch);
+}
+
+/**
+ * Gets a saved search, only if it belongs to the user
+ */
+export async function getSavedSearch(userId: string, savedSearchId: string): Promise<SavedSearchWithFilters | null> {
+  const savedSearch = await prisma.savedSearch.findFirst({
+    where: { id: savedSearchId, userId },
+  });
+
+  return savedSearch ? withFilters(savedSearch) : null;
+}
+
+/**
+ * Deletes a saved search
+ */
+export async function deleteSavedSearch(savedSearchId: string): Promise<void> {
+  await prisma.savedSearch.delete({ where: { id: savedSearchId } });
+}
+
+/**
+ * Queues new arrival alerts for a newly added book, so matching it against every saved search
+ * happens in the job queue rather than the request that added it
+ * @returns The job queue ID
+ */
+export async function queueNewArrival(bookId: string): Promise<string> {
+  return getJobQueue().enqueue({
+    type: "new_arrival",
+    payload: { bookId },
+    runAt: new Date(),
+  });
+}
+
+/**
+ * Alerts patrons whose saved searches match a newly added book
+ * Each patron is notified once per book, naming the oldest matching search
+ * Called by whichever job queue backend delivers the new_arrival job (see queueNewArrival)
+ * @returns The number of patrons notified
+ */
+export async function notifyNewArrival(bookId: string): Promise<number> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: { id: true, title: true, author: true },
+  });
+  if (!book) {
+    return 0;
+  }
+
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { notifyNewArrivals: true },
+    include: { user: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const matches = new Map<string, (typeof savedSearches)[number]>();
+  for (const savedSearch of savedSearches) {
+    if (matches.has(savedSearch.userId)) {
+      continue;
+    }
+    if (await bookMatchesSearch(book.id, savedSearch.filters as BookSearchFilters)) {
+      matches.set(savedSearch.userId, savedSearch);
+    }
+  }
+
+  if (matches.size === 0) {
+    return 0;
+  }
+
+  await prisma.savedSearch.updateMany({
+    where: { id: { in: Array.from(matches.values(), (savedSearch) => savedSearch.id) } },
+    data: { lastNotifiedAt: new Date() },
+  });
+
+  await Promise.all(
+    Array.from(matches.values(), (savedSearch) =>
+      notifyUser({
+        userId: savedSearch.userId,
+        event: "NEW_ARRIVAL",
+        title: "New arrival for your saved search",
+        message: `"${book.title}" by ${book.author} matches your saved search "${savedSearch.name}".`,
+        link: `/books/${book.id}`,
+        sendEmail: (email, locale) =>
+          sendNewArrivalEmail({
+            email,
+            name: savedSearch.user.name || "User",
+            bookTitle: book.title,
+            bookAuthor: book.author,
+            bookId: book.id,
+            searchName: savedSearch.name,
+            locale,
+          }),
+      })
+    )
+  );
+
+  return matches.size;
+}
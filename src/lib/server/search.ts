@@ -1,34 +1,147 @@
-import { Prisma } from "@prisma/client";
-import type { BookSearchFilters } from "./types/book";
+import { Prisma, type BookStatus } from "@prisma/client";
+import type { NextApiRequest } from "next";
+import { normalizeAuthorName } from "./author";
+import { genreWithinNames } from "./genre";
+import { prisma } from "./prisma";
+import { normalizePublisherName } from "./publisher";
+import type {
+  BookAutocompleteSuggestion,
+  BookFacetValue,
+  BookPage,
+  BookSearchFacets,
+  BookSearchFilters,
+  BookSearchHighlight,
+  BookSortOption,
+} from "./types/book";
+
+// Text search configuration used by the Book.searchVector triggers (stemming and stop words)
+const TEXT_SEARCH_CONFIG = "english";
+// Most full-text matches considered for a single search, best ranked first
+const MAX_TEXT_MATCHES = 1000;
+// Markers ts_headline puts around matched words; swapped for <mark> after escaping
+const HIGHLIGHT_START = "\u2983";
+const HIGHLIGHT_END = "\u2984";
+// Most values returned per facet, most common first
+const FACET_LIMIT = 20;
+// pg_trgm word similarity (0-1) needed for a title/author to count as a misspelled match
+const FUZZY_MATCH_THRESHOLD = 0.45;
+// Similarity needed for a catalog word to be suggested in place of a search word
+const SUGGESTION_THRESHOLD = 0.4;
+const AUTOCOMPLETE_LIMIT = 5;
+
+// Repeated query params (?genres=a&genres=b) arrive as arrays
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads search filters from query params, e.g. ?q=dragons&genres=Fantasy&genres=Horror&minYear=1990
+ * Params that are not filters (sort, cursor, limit) are ignored
+ */
+export function parseBookSearchFilters(query: NextApiRequest["query"]): BookSearchFilters {
+  const {
+    q,
+    title,
+    author,
+    authorId,
+    genre,
+    isbn,
+    publisher,
+    publisherId,
+    status,
+    language,
+    minYear,
+    maxYear,
+    genres,
+    languages,
+    publishers,
+    decades,
+    statuses,
+    tags,
+  } = query;
+
+  return {
+    ...(q && { q: q as string }),
+    ...(title && { title: title as string }),
+    ...(author && { author: author as string }),
+    ...(authorId && { authorId: authorId as string }),
+    ...(genre && { genre: genre as string }),
+    ...(isbn && { isbn: isbn as string }),
+    ...(publisher && { publisher: publisher as string }),
+    ...(publisherId && { publisherId: publisherId as string }),
+    ...(status && { status: status as "AVAILABLE" | "CHECKED_OUT" }),
+    ...(language && { language: language as string }),
+    ...(minYear && { minYear: parseInt(minYear as string, 10) }),
+    ...(maxYear && { maxYear: parseInt(maxYear as string, 10) }),
+    ...(genres && { genres: toArray(genres) }),
+    ...(languages && { languages: toArray(languages) }),
+    ...(publishers && { publishers: toArray(publishers) }),
+    ...(decades && { decades: toArray(decades).map((decade) => parseInt(decade, 10)) }),
+    ...(statuses && { statuses: toArray(statuses) as BookStatus[] }),
+    ...(tags && { tags: toArray(tags) }),
+  };
+}
+
+/**
+ * IDs of books whose title or author closely match the title/author search terms
+ */
+export interface FuzzyMatches {
+  title?: string[];
+  author?: string[];
+}
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
 
 /**
  * Builds a Prisma query for searching books based on filters
+ * @param fuzzyMatches - Books whose title/author are close to the search terms (from findFuzzyMatches)
  */
-export function buildBookSearchQuery(filters: BookSearchFilters): Prisma.BookWhereInput {
+export function buildBookSearchQuery(
+  filters: BookSearchFilters,
+  fuzzyMatches: FuzzyMatches = {}
+): Prisma.BookWhereInput {
   const where: Prisma.BookWhereInput = {};
+  // Facet selections and fuzzy matches, ANDed together
+  const conditions: Prisma.BookWhereInput[] = [];
 
-  // Title search (case-insensitive, partial match)
+  // Title search (case-insensitive, partial match or close spelling)
   if (filters.title) {
-    where.title = {
-      contains: filters.title,
-      mode: "insensitive",
-    };
+    conditions.push({
+      OR: [
+        { title: { contains: filters.title, mode: "insensitive" } },
+        ...(fuzzyMatches.title?.length ? [{ id: { in: fuzzyMatches.title } }] : []),
+      ],
+    });
   }
 
-  // Author search (case-insensitive, partial match)
+  // Author search (case-insensitive, partial match or close spelling)
+  // Credited names are also compared without punctuation, so "JRR Tolkien" finds "J.R.R. Tolkien"
   if (filters.author) {
-    where.author = {
-      contains: filters.author,
-      mode: "insensitive",
-    };
+    const normalizedAuthor = normalizeAuthorName(filters.author);
+    conditions.push({
+      OR: [
+        { author: { contains: filters.author, mode: "insensitive" } },
+        ...(normalizedAuthor
+          ? [{ authors: { some: { author: { normalizedName: { contains: normalizedAuthor } } } } }]
+          : []),
+        ...(fuzzyMatches.author?.length ? [{ id: { in: fuzzyMatches.author } }] : []),
+      ],
+    });
+  }
+
+  // Books crediting an author in any role
+  if (filters.authorId) {
+    conditions.push({ authors: { some: { authorId: filters.authorId } } });
   }
 
-  // Genre search (case-insensitive, exact or partial match)
+  // Genre search (case-insensitive, partial match on any of the book's genres or their synonyms)
   if (filters.genre) {
-    where.genre = {
-      contains: filters.genre,
-      mode: "insensitive",
-    };
+    const contains = { contains: filters.genre, mode: "insensitive" as const };
+    conditions.push({
+      OR: [
+        { genre: contains },
+        { genres: { some: { genre: { OR: [{ name: contains }, { synonyms: { some: { name: contains } } }] } } } },
+      ],
+    });
   }
 
   // ISBN search (exact match)
@@ -39,12 +152,19 @@ export function buildBookSearchQuery(filters: BookSearchFilters): Prisma.BookWhe
     };
   }
 
-  // Publisher search (case-insensitive, partial match)
+  // Publisher search (case-insensitive, partial match, ignoring punctuation and company suffixes)
   if (filters.publisher) {
-    where.publisher = {
-      contains: filters.publisher,
-      mode: "insensitive",
-    };
+    const normalizedPublisher = normalizePublisherName(filters.publisher);
+    conditions.push({
+      OR: [
+        { publisher: { contains: filters.publisher, mode: "insensitive" } },
+        ...(normalizedPublisher ? [{ publishedBy: { normalizedName: { contains: normalizedPublisher } } }] : []),
+      ],
+    });
+  }
+
+  if (filters.publisherId) {
+    where.publisherId = filters.publisherId;
   }
 
   // Language search (case-insensitive, exact match)
@@ -71,56 +191,449 @@ export function buildBookSearchQuery(filters: BookSearchFilters): Prisma.BookWhe
     }
   }
 
+  // Facet selections
+
+  // A genre includes its subgenres
+  if (filters.genres?.length) {
+    conditions.push({ genres: { some: { genre: genreWithinNames(filters.genres) } } });
+  }
+
+  if (filters.languages?.length) {
+    conditions.push({ language: { in: filters.languages } });
+  }
+
+  if (filters.publishers?.length) {
+    conditions.push({ publisher: { in: filters.publishers } });
+  }
+
+  if (filters.decades?.length) {
+    conditions.push({
+      OR: filters.decades.map((decade) => ({ publicationYear: { gte: decade, lte: decade + 9 } })),
+    });
+  }
+
+  if (filters.statuses?.length) {
+    conditions.push({ status: { in: filters.statuses } });
+  }
+
+  if (filters.tags?.length) {
+    conditions.push({ tags: { hasSome: filters.tags } });
+  }
+
+  if (conditions.length > 0) {
+    where.AND = conditions;
+  }
+
   return where;
 }
 
+function isEmptyWhere(where: Prisma.BookWhereInput): boolean {
+  return Object.keys(where).length === 0;
+}
+
 /**
- * Builds a combined search query that searches across multiple fields
- * Useful for a general search box that searches title, author, ISBN, etc.
+ * Counts books per tag, most common first, in the database rather than loading every book's tags
+ * @param allBooks - The where matches every book, so the IDs don't need looking up first
  */
-export function buildGeneralBookSearchQuery(searchTerm: string): Prisma.BookWhereInput {
-  if (!searchTerm.trim()) {
-    return {};
+async function countBookTags(where: Prisma.BookWhereInput, allBooks: boolean): Promise<BookFacetValue[]> {
+  // Prisma can't group by array elements, so narrow to the matching books first and count in SQL
+  const bookIds = allBooks
+    ? null
+    : (await prisma.book.findMany({ where, select: { id: true } })).map((book) => book.id);
+  if (bookIds?.length === 0) {
+    return [];
   }
 
-  return {
-    OR: [
-      {
-        title: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
-      {
-        author: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
-      {
-        isbn: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
-      {
-        publisher: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
-      {
-        genre: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
-      {
-        description: {
-          contains: searchTerm,
-          mode: "insensitive",
-        },
-      },
+  return prisma.$queryRaw<BookFacetValue[]>(Prisma.sql`
+    SELECT t."value", count(DISTINCT b."id")::INTEGER AS "count"
+    FROM "Book" AS b, unnest(b."tags") AS t("value")
+    ${bookIds ? Prisma.sql`WHERE b."id" = ANY(${bookIds})` : Prisma.empty}
+    GROUP BY t."value"
+    ORDER BY count(DISTINCT b."id") DESC, t."value"
+    LIMIT ${FACET_LIMIT}
+  `);
+}
+
+/**
+ * Counts matching books per genre, language, publisher, decade, status and tag
+ * @param textMatchIds - Restrict to these books, when a full-text query is active
+ * @param fuzzyMatches - Close title/author matches, as passed to buildBookSearchQuery
+ */
+export async function getBookFacets(
+  filters: BookSearchFilters,
+  textMatchIds?: string[],
+  fuzzyMatches: FuzzyMatches = {}
+): Promise<BookSearchFacets> {
+  // Each facet ignores its own selections, so picking one genre still shows the other genres to add
+  const whereExcept = (facet: keyof BookSearchFacets, condition: Prisma.BookWhereInput): Prisma.BookWhereInput => ({
+    AND: [
+      buildBookSearchQuery({ ...filters, [facet]: undefined }, fuzzyMatches),
+      condition,
+      ...(textMatchIds ? [{ id: { in: textMatchIds } }] : []),
     ],
+  });
+
+  const [genres, languages, publishers, years, statuses, tags] = await Promise.all([
+    prisma.bookGenre.groupBy({
+      by: ["genreId"],
+      where: { book: whereExcept("genres", {}) },
+      _count: { _all: true },
+      orderBy: { _count: { genreId: "desc" } },
+      take: FACET_LIMIT,
+    }),
+    prisma.book.groupBy({
+      by: ["language"],
+      where: whereExcept("languages", { language: { not: null } }),
+      _count: { _all: true },
+      orderBy: { _count: { language: "desc" } },
+      take: FACET_LIMIT,
+    }),
+    prisma.book.groupBy({
+      by: ["publisher"],
+      where: whereExcept("publishers", { publisher: { not: null } }),
+      _count: { _all: true },
+      orderBy: { _count: { publisher: "desc" } },
+      take: FACET_LIMIT,
+    }),
+    prisma.book.groupBy({
+      by: ["publicationYear"],
+      where: whereExcept("decades", { publicationYear: { not: null } }),
+      _count: { _all: true },
+    }),
+    prisma.book.groupBy({
+      by: ["status"],
+      where: whereExcept("statuses", {}),
+      _count: { _all: true },
+    }),
+    countBookTags(
+      whereExcept("tags", {}),
+      !textMatchIds && isEmptyWhere(buildBookSearchQuery({ ...filters, tags: undefined }, fuzzyMatches))
+    ),
+  ]);
+
+  const decadeCounts = new Map<number, number>();
+  for (const row of years) {
+    const decade = Math.floor(row.publicationYear! / 10) * 10;
+    decadeCounts.set(decade, (decadeCounts.get(decade) || 0) + row._count._all);
+  }
+
+  const byCount = (a: BookFacetValue, b: BookFacetValue) => b.count - a.count || a.value.localeCompare(b.value);
+
+  const genreNames = new Map(
+    (
+      await prisma.genre.findMany({
+        where: { id: { in: genres.map((row) => row.genreId) } },
+        select: { id: true, name: true },
+      })
+    ).map((genre) => [genre.id, genre.name])
+  );
+
+  return {
+    genres: genres.flatMap((row) =>
+      genreNames.has(row.genreId) ? [{ value: genreNames.get(row.genreId)!, count: row._count._all }] : []
+    ),
+    languages: languages.map((row) => ({ value: row.language!, count: row._count._all })),
+    publishers: publishers.map((row) => ({ value: row.publisher!, count: row._count._all })),
+    decades: Array.from(decadeCounts, ([decade, count]) => ({ value: decade.toString(), count })).sort(
+      (a, b) => Number(b.value) - Number(a.value)
+    ),
+    statuses: statuses.map((row) => ({ value: row.status, count: row._count._all })).sort(byCount),
+    tags,
   };
 }
+
+/**
+ * Escapes the LIKE wildcards % and _ (and the escape character) so user input only matches itself
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Ranks books against a full-text query using the weighted Book.searchVector
+ * Accepts web-search syntax: quoted phrases, "or" and -excluded words. ISBN substrings also match.
+ * @returns Book IDs mapped to relevance, best match first
+ */
+export async function rankBooksByText(query: string): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>(Prisma.sql`
+    SELECT "id", coalesce(ts_rank_cd("searchVector", query), 0)::float8 AS "rank"
+    FROM "Book", websearch_to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${query}) AS query
+    WHERE "searchVector" @@ query OR "isbn" ILIKE ${`%${escapeLikePattern(query.trim())}%`}
+    ORDER BY "rank" DESC, "id" ASC
+    LIMIT ${MAX_TEXT_MATCHES}
+  `);
+
+  return new Map(rows.map((row) => [row.id, row.rank]));
+}
+
+/**
+ * Checks whether a single book matches search filters, including the full-text query
+ * Title and author are compared as substrings only, without typo tolerance
+ */
+export async function bookMatchesSearch(bookId: string, filters: BookSearchFilters): Promise<boolean> {
+  const query = filters.q?.trim();
+  if (query) {
+    const rows = await prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+      SELECT "id"
+      FROM "Book", websearch_to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${query}) AS query
+      WHERE "id" = ${bookId} AND ("searchVector" @@ query OR "isbn" ILIKE ${`%${escapeLikePattern(query)}%`})
+    `);
+    if (rows.length === 0) {
+      return false;
+    }
+  }
+
+  const count = await prisma.book.count({
+    where: { AND: [{ id: bookId }, buildBookSearchQuery(filters)] },
+  });
+
+  return count > 0;
+}
+
+export const BOOK_SORT_OPTIONS: readonly BookSortOption[] = [
+  "newest",
+  "title",
+  "author",
+  "year",
+  "popularity",
+  "recently_returned",
+  "relevance",
+];
+
+export function isBookSortOption(value: unknown): value is BookSortOption {
+  return typeof value === "string" && (BOOK_SORT_OPTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Orders books for a sort option; every ordering ends with id so pages never overlap or skip ties
+ */
+export function getBookOrderBy(sort: BookSortOption): Prisma.BookOrderByWithRelationInput[] {
+  switch (sort) {
+    case "title":
+      return [{ title: "asc" }, { id: "asc" }];
+    case "author":
+      return [{ author: "asc" }, { title: "asc" }, { id: "asc" }];
+    case "year":
+      return [{ publicationYear: { sort: "desc", nulls: "last" } }, { id: "desc" }];
+    case "popularity":
+      return [{ checkoutCount: "desc" }, { id: "desc" }];
+    case "recently_returned":
+      return [{ lastReturnedAt: { sort: "desc", nulls: "last" } }, { id: "desc" }];
+    default:
+      // Relevance has no column to sort on; callers without ranks fall back to newest
+      return [{ createdAt: "desc" }, { id: "desc" }];
+  }
+}
+
+/**
+ * Finds one page of books matching a query, starting after the cursor book
+ * Cursors are book IDs, so books added or removed elsewhere in the list don't shift later pages.
+ * @param ranks - Full-text matches from rankBooksByText; limits results to them and enables the relevance sort
+ */
+export async function findBookPage(
+  where: Prisma.BookWhereInput,
+  options: { sort: BookSortOption; cursor?: string; limit: number; ranks?: Map<string, number> | null }
+): Promise<BookPage> {
+  const { sort, cursor, limit, ranks } = options;
+  const scopedWhere = ranks ? { AND: [where, { id: { in: Array.from(ranks.keys()) } }] } : where;
+
+  if (ranks && sort === "relevance") {
+    if (ranks.size === 0) {
+      return { bookIds: [], nextCursor: null, total: 0 };
+    }
+    const matches = await prisma.book.findMany({ where: scopedWhere, select: { id: true } });
+    const matchIds = new Set(matches.map((match) => match.id));
+    // Map iteration keeps the rank order from the query
+    const rankedIds = Array.from(ranks.keys()).filter((id) => matchIds.has(id));
+    // An unknown cursor (e.g. the book was deleted) starts over from the top
+    const start = cursor ? rankedIds.indexOf(cursor) + 1 : 0;
+    const bookIds = rankedIds.slice(start, start + limit);
+
+    return {
+      bookIds,
+      nextCursor: start + limit < rankedIds.length ? bookIds[bookIds.length - 1] : null,
+      total: rankedIds.length,
+    };
+  }
+
+  const [rows, total] = await Promise.all([
+    prisma.book.findMany({
+      where: scopedWhere,
+      orderBy: getBookOrderBy(sort),
+      // One extra row tells us whether another page follows
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: { id: true },
+    }),
+    prisma.book.count({ where: scopedWhere }),
+  ]);
+  const bookIds = rows.slice(0, limit).map((row) => row.id);
+
+  return {
+    bookIds,
+    nextCursor: rows.length > limit ? bookIds[bookIds.length - 1] : null,
+    total,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function toHighlightHtml(headline: string): string {
+  return escapeHtml(headline).replaceAll(HIGHLIGHT_START, "<mark>").replaceAll(HIGHLIGHT_END, "</mark>");
+}
+
+/**
+ * Builds excerpts showing where a full-text query matched each book
+ * Includes the description/summary and the best matching chapter, when they match. Chapter text is only
+ * for borrowers, so chapter excerpts are limited to readableBookIds (see getReadableBookIds).
+ */
+export async function getBookSearchHighlights(
+  bookIds: string[],
+  query: string,
+  readableBookIds: string[] = []
+): Promise<Map<string, BookSearchHighlight[]>> {
+  const highlights = new Map<string, BookSearchHighlight[]>(bookIds.map((id) => [id, []]));
+  if (bookIds.length === 0) {
+    return highlights;
+  }
+  const chapterBookIds = readableBookIds.filter((id) => highlights.has(id));
+
+  const [descriptionMatches, chapterMatches] = await Promise.all([
+    prisma.$queryRaw<{ bookId: string; headline: string }[]>(Prisma.sql`
+      SELECT b."id" AS "bookId",
+        ts_headline(${TEXT_SEARCH_CONFIG}::regconfig, concat_ws(' ', b."description", b."summary"), query, ${HEADLINE_OPTIONS}) AS "headline"
+      FROM "Book" b, websearch_to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${query}) AS query
+      WHERE b."id" IN (${Prisma.join(bookIds)})
+        AND to_tsvector(${TEXT_SEARCH_CONFIG}::regconfig, concat_ws(' ', b."description", b."summary")) @@ query
+    `),
+    chapterBookIds.length > 0
+      ? prisma.$queryRaw<{ bookId: string; chapterId: string; chapterTitle: string; headline: string }[]>(Prisma.sql`
+          SELECT DISTINCT ON (c."bookId") c."bookId", c."id" AS "chapterId", c."title" AS "chapterTitle",
+            ts_headline(${TEXT_SEARCH_CONFIG}::regconfig, coalesce(c."content", c."title"), query, ${HEADLINE_OPTIONS}) AS "headline"
+          FROM "Chapter" c, websearch_to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${query}) AS query
+          WHERE c."bookId" IN (${Prisma.join(chapterBookIds)})
+            AND to_tsvector(${TEXT_SEARCH_CONFIG}::regconfig, concat_ws(' ', c."title", c."content")) @@ query
+          ORDER BY c."bookId", ts_rank(to_tsvector(${TEXT_SEARCH_CONFIG}::regconfig, concat_ws(' ', c."title", c."content")), query) DESC, c."order" ASC
+        `)
+      : [],
+  ]);
+
+  for (const match of descriptionMatches) {
+    highlights.get(match.bookId)?.push({ source: "description", text: toHighlightHtml(match.headline) });
+  }
+  for (const match of chapterMatches) {
+    highlights.get(match.bookId)?.push({
+      source: "chapter",
+      text: toHighlightHtml(match.headline),
+      chapterId: match.chapterId,
+      chapterTitle: match.chapterTitle,
+    });
+  }
+
+  return highlights;
+}
+
+/**
+ * Finds books whose title or author is a close spelling of the search terms (e.g. "Tolkein", "harry poter")
+ * Uses the pg_trgm word similarity operator, which can use the trigram indexes
+ */
+export async function findFuzzyMatches(filters: BookSearchFilters): Promise<FuzzyMatches> {
+  const findIds = async (field: "title" | "author", term: string) => {
+    const column = Prisma.raw(`"${field}"`);
+    const [, rows] = await prisma.$transaction([
+      prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${FUZZY_MATCH_THRESHOLD.toString()}, true)`,
+      prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+        SELECT "id" FROM "Book"
+        WHERE ${term} <% ${column}
+        ORDER BY word_similarity(${term}, ${column}) DESC
+        LIMIT ${MAX_TEXT_MATCHES}
+      `),
+    ]);
+    return rows.map((row) => row.id);
+  };
+
+  const [title, author] = await Promise.all([
+    filters.title?.trim() ? findIds("title", filters.title.trim()) : undefined,
+    filters.author?.trim() ? findIds("author", filters.author.trim()) : undefined,
+  ]);
+
+  return { title, author };
+}
+
+/**
+ * Suggests a corrected spelling for search text, word by word, from words in titles and authors
+ * @returns The corrected text, or null when every word is already known or nothing is close
+ */
+export async function suggestSpelling(text: string): Promise<string | null> {
+  const terms = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 8);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const rows = await prisma.$queryRaw<{ term: string; word: string }[]>(Prisma.sql`
+    WITH words AS (
+      SELECT DISTINCT word
+      FROM "Book", regexp_split_to_table(lower(concat_ws(' ', "title", "author")), '[^[:alnum:]]+') AS word
+      WHERE length(word) > 1
+    )
+    SELECT input.term, best.word
+    FROM unnest(${terms}::text[]) AS input(term)
+    CROSS JOIN LATERAL (
+      SELECT word FROM words
+      WHERE similarity(word, input.term) >= ${SUGGESTION_THRESHOLD}
+      ORDER BY similarity(word, input.term) DESC, word ASC
+      LIMIT 1
+    ) AS best
+  `);
+
+  const corrections = new Map(rows.map((row) => [row.term, row.word]));
+  const corrected = terms.map((term) => corrections.get(term) ?? term);
+
+  return corrected.some((word, index) => word !== terms[index]) ? corrected.join(" ") : null;
+}
+
+/**
+ * Suggests titles and authors for a partially typed search, prefix matches first
+ */
+export async function getBookAutocomplete(text: string): Promise<BookAutocompleteSuggestion[]> {
+  const term = text.trim();
+  if (term.length < 2) {
+    return [];
+  }
+  const prefix = `${escapeLikePattern(term)}%`;
+  const contains = `%${escapeLikePattern(term)}%`;
+
+  const [titles, authors] = await Promise.all([
+    prisma.$queryRaw<{ id: string; title: string }[]>(Prisma.sql`
+      SELECT "id", "title" FROM "Book"
+      WHERE "title" ILIKE ${contains} OR ${term} <% "title"
+      ORDER BY ("title" ILIKE ${prefix}) DESC, word_similarity(${term}, "title") DESC, "title" ASC
+      LIMIT ${AUTOCOMPLETE_LIMIT}
+    `),
+    prisma.$queryRaw<{ id: string; name: string; bookCount: number }[]>(Prisma.sql`
+      SELECT a."id", a."name", count(DISTINCT ba."bookId")::int AS "bookCount"
+      FROM "Author" AS a
+      JOIN "BookAuthor" AS ba ON ba."authorId" = a."id"
+      WHERE a."name" ILIKE ${contains} OR ${term} <% a."name"
+      GROUP BY a."id"
+      ORDER BY (a."name" ILIKE ${prefix}) DESC, word_similarity(${term}, a."name") DESC, a."name" ASC
+      LIMIT ${AUTOCOMPLETE_LIMIT}
+    `),
+  ]);
+
+  return [
+    ...titles.map((row) => ({ type: "title" as const, value: row.title, bookId: row.id })),
+    ...authors.map((row) => ({
+      type: "author" as const,
+      value: row.name,
+      authorId: row.id,
+      bookCount: row.bookCount,
+    })),
+  ];
+}
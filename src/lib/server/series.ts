@@ -0,0 +1,121 @@
+import type { Book, Prisma } from "@prisma/client";
+import { BOOK_AUTHORS_INCLUDE, normalizeAuthorName } from "./author";
+import { getAvailabilityForBooks, getBookStatusFromAvailability } from "./copy";
+import { prisma } from "./prisma";
+import type { BookEdition, SeriesSummary, SeriesWithBooks } from "./types/series";
+import { BOOK_EDITION_SELECT, withEditionAvailability } from "./work";
+
+const SERIES_SEARCH_LIMIT = 20;
+
+/**
+ * Finds or creates the series for a book's series name
+ * @returns The field to save on the book, null when the name is empty
+ */
+export async function resolveSeries(
+  db: Prisma.TransactionClient,
+  name: string | null | undefined
+): Promise<{ seriesId: string | null }> {
+  const normalizedName = name ? normalizeAuthorName(name) : "";
+  if (!normalizedName) {
+    return { seriesId: null };
+  }
+
+  const series = await db.series.upsert({
+    where: { normalizedName },
+    update: {},
+    create: { name: name!.replace(/\s+/g, " ").trim(), normalizedName },
+  });
+
+  return { seriesId: series.id };
+}
+
+/**
+ * Finds series by name for the book form, leaving out series with no books left
+ */
+export async function searchSeries(query: string, limit = SERIES_SEARCH_LIMIT): Promise<SeriesSummary[]> {
+  return prisma.series.findMany({
+    where: {
+      books: { some: {} },
+      ...(query.trim() && { name: { contains: query.trim(), mode: "insensitive" } }),
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Picks one book for a volume from its editions: the reader's language first, then one that's on the shelf
+ */
+async function findAdjacentVolume(
+  seriesId: string,
+  seriesVolume: Prisma.FloatNullableFilter,
+  order: Prisma.SortOrder,
+  language: string | null
+): Promise<BookEdition | null> {
+  const nearest = await prisma.book.findFirst({
+    where: { seriesId, seriesVolume },
+    orderBy: { seriesVolume: order },
+    select: { seriesVolume: true },
+  });
+  if (!nearest) {
+    return null;
+  }
+
+  const editions = await withEditionAvailability(
+    await prisma.book.findMany({
+      where: { seriesId, seriesVolume: nearest.seriesVolume },
+      select: BOOK_EDITION_SELECT,
+    })
+  );
+  editions.sort(
+    (a, b) =>
+      Number(b.language === language) - Number(a.language === language) ||
+      b.availability.availableCopies - a.availability.availableCopies
+  );
+  return editions[0];
+}
+
+/**
+ * Gets the books before and after a book in its series' reading order
+ */
+export async function getSeriesNeighbours(
+  book: Pick<Book, "seriesId" | "seriesVolume" | "language">
+): Promise<{ previousInSeries: BookEdition | null; nextInSeries: BookEdition | null }> {
+  if (!book.seriesId || book.seriesVolume === null) {
+    return { previousInSeries: null, nextInSeries: null };
+  }
+
+  const [previousInSeries, nextInSeries] = await Promise.all([
+    findAdjacentVolume(book.seriesId, { lt: book.seriesVolume }, "desc", book.language),
+    findAdjacentVolume(book.seriesId, { gt: book.seriesVolume }, "asc", book.language),
+  ]);
+  return { previousInSeries, nextInSeries };
+}
+
+/**
+ * Gets a series with its books in reading order; books without a volume number come last
+ */
+export async function getSeries(id: string): Promise<SeriesWithBooks | null> {
+  const series = await prisma.series.findUnique({
+    where: { id },
+    include: {
+      books: {
+        include: { authors: BOOK_AUTHORS_INCLUDE },
+        orderBy: [{ seriesVolume: { sort: "asc", nulls: "last" } }, { publicationYear: "asc" }, { title: "asc" }],
+      },
+    },
+  });
+  if (!series) {
+    return null;
+  }
+
+  const availability = await getAvailabilityForBooks(series.books.map((book) => book.id));
+  return {
+    ...series,
+    books: series.books.map((book) => {
+      const bookAvailability = availability.get(book.id)!;
+      return { ...book, availability: bookAvailability, status: getBookStatusFromAvailability(bookAvailability) };
+    }),
+  };
+}
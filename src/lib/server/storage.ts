@@ -0,0 +1,181 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import {
+  FILE_STORAGE_BACKEND,
+  LOCAL_STORAGE_DIR,
+  S3_ACCESS_KEY_ID,
+  S3_BUCKET,
+  S3_ENDPOINT,
+  S3_PUBLIC_URL,
+  S3_REGION,
+  S3_SECRET_ACCESS_KEY,
+} from "./constants/env";
+import type { FileStorage } from "./types/storage";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".webp": "image/webp",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".svg": "image/svg+xml",
+};
+
+/**
+ * Checks a storage key is a plain relative path, so it can't escape the storage directory
+ */
+export function isValidStorageKey(key: string): boolean {
+  return /^[\w-]+(\/[\w.-]+)*$/.test(key) && !key.split("/").includes("..");
+}
+
+function assertValidKey(key: string): void {
+  if (!isValidStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+function getLocalPath(key: string): string {
+  assertValidKey(key);
+  return path.resolve(LOCAL_STORAGE_DIR, ...key.split("/"));
+}
+
+/**
+ * Files under LOCAL_STORAGE_DIR, served by /api/files/[...key]
+ * Content types come from the file extension
+ */
+export const localFileStorage: FileStorage = {
+  name: "local",
+
+  async put(key, data) {
+    const filePath = getLocalPath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  },
+
+  async get(key) {
+    try {
+      const data = await readFile(getLocalPath(key));
+      return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream" };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await rm(getLocalPath(key), { force: true });
+  },
+
+  getUrl(key) {
+    return `/api/files/${key}`;
+  },
+};
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Sends a request to the bucket, signed with AWS Signature Version 4
+ * Works with any S3-compatible API, so no SDK is needed for the few calls we make
+ */
+async function s3Request(
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  body?: Buffer,
+  contentType?: string
+): Promise<Response> {
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error("S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  assertValidKey(key);
+
+  const url = new URL(`${S3_ENDPOINT.replace(/\/$/, "")}/${S3_BUCKET}/${key}`);
+  // e.g. 20250101T120000Z
+  const amzDate = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const date = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body ?? "");
+
+  const headers: Record<string, string> = {
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    ...(contentType && { "content-type": contentType }),
+  };
+  // fetch sets the host header itself, but it still has to be signed
+  const signed: Record<string, string> = { ...headers, host: url.host };
+  const signedHeaders = Object.keys(signed).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "", // No query string
+    ...signedHeaders.map((name) => `${name}:${signed[name]}`),
+    "",
+    signedHeaders.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${S3_REGION}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, date), S3_REGION), "s3"), "aws4_request");
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  });
+}
+
+async function assertS3Ok(response: Response, action: string): Promise<void> {
+  if (!response.ok) {
+    throw new Error(`S3 ${action} failed: ${response.status} ${await response.text()}`);
+  }
+}
+
+/**
+ * Objects in the S3-compatible bucket named by S3_BUCKET, served from S3_PUBLIC_URL
+ */
+export const s3FileStorage: FileStorage = {
+  name: "s3",
+
+  async put(key, data, contentType) {
+    await assertS3Ok(await s3Request("PUT", key, data, contentType), "upload");
+  },
+
+  async get(key) {
+    const response = await s3Request("GET", key);
+    if (response.status === 404) return null;
+    await assertS3Ok(response, "download");
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") ?? "application/octet-stream",
+    };
+  },
+
+  async delete(key) {
+    const response = await s3Request("DELETE", key);
+    // Deleting a missing object is not an error
+    if (response.status !== 404) await assertS3Ok(response, "delete");
+  },
+
+  getUrl(key) {
+    return `${S3_PUBLIC_URL.replace(/\/$/, "")}/${key}`;
+  },
+};
+
+/**
+ * Gets the file storage selected by FILE_STORAGE_BACKEND
+ */
+export function getFileStorage(): FileStorage {
+  return FILE_STORAGE_BACKEND === "s3" ? s3FileStorage : localFileStorage;
+}
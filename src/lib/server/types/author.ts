@@ -0,0 +1,39 @@
+import type { Author, AuthorRole, BookAuthor, Publisher } from "@prisma/client";
+import type { BookWithRelations } from "./book";
+
+/**
+ * A name credited on a book, as entered in the book form or read from a credit line
+ */
+export interface BookAuthorInput {
+  name: string;
+  role?: AuthorRole; // Defaults to AUTHOR
+}
+
+/**
+ * A book's credit with the author it links to
+ */
+export type BookContributor = BookAuthor & {
+  author: Pick<Author, "id" | "name">;
+};
+
+/**
+ * Authors matched or created for a book's credits, ready to save as BookAuthor rows
+ * credit is the matching Book.author line
+ */
+export interface ResolvedBookAuthors {
+  credit: string;
+  authors: { authorId: string; role: AuthorRole; position: number }[];
+}
+
+export type AuthorSummary = Pick<Author, "id" | "name"> & {
+  bookCount: number;
+};
+
+/**
+ * An author page: the author and every book they are credited on, with their roles
+ */
+export type AuthorWithBooks = Author & {
+  books: (BookWithRelations & { roles: AuthorRole[] })[];
+};
+
+export type PublisherSummary = Pick<Publisher, "id" | "name">;
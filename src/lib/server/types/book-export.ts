@@ -0,0 +1,16 @@
+import type { Book, BookCopy, Chapter } from "@prisma/client";
+import type { BookAvailability } from "./book";
+
+export type BookExportFormat = "csv" | "jsonl" | "marc21";
+
+// Offline copies of a book's chapters
+export type ChapterExportFormat = "epub" | "pdf";
+
+/**
+ * A book with everything an export writes out
+ */
+export type ExportedBook = Book & {
+  chapters: Chapter[];
+  copies: BookCopy[];
+  availability: BookAvailability;
+};
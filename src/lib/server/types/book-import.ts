@@ -0,0 +1,72 @@
+import type { CreateBookInput } from "./book";
+
+export type BookImportFormat = "csv" | "marc21" | "marcxml";
+
+/**
+ * Catalog fields a file can fill in; copyCount sets how many copies new books get
+ * Uploaded covers can't be imported, only cover image URLs; credits come from the author column.
+ * Series and editions are linked in the book form; the genre column sets a book's first genre.
+ */
+export type BookImportField = Exclude<
+  keyof CreateBookInput,
+  "coverImageKey" | "authors" | "genres" | "series" | "seriesVolume" | "editionOf"
+>;
+
+/**
+ * Raw values read from one row or record, before validation
+ */
+export type BookImportValues = Partial<Record<BookImportField, string>>;
+
+/**
+ * CSV column (by header) to read each field from; unmapped fields are left empty
+ */
+export type BookImportMapping = Partial<Record<BookImportField, string>>;
+
+/**
+ * What to do with rows whose ISBN is already in the catalog
+ */
+export type BookImportDuplicateStrategy = "skip" | "update";
+
+export interface BookImportPreviewInput {
+  format: BookImportFormat;
+  data: Buffer;
+  mapping?: BookImportMapping; // CSV only; guessed from the headers when omitted
+  duplicateStrategy: BookImportDuplicateStrategy;
+}
+
+export interface BookImportChange {
+  field: BookImportField;
+  from: string | number | string[] | null;
+  to: string | number | string[];
+}
+
+/**
+ * One row of a dry run and what committing it would do
+ */
+export interface BookImportRow {
+  rowNumber: number; // Line in the CSV (header is line 1) or position of the MARC record
+  action: "create" | "update" | "skip" | "invalid";
+  book: CreateBookInput | null; // Null when the row is invalid
+  errors: string[];
+  existingBookId?: string; // Book with the same ISBN
+  changes?: BookImportChange[]; // Fields an update would change
+}
+
+export interface BookImportPreview {
+  columns: string[]; // CSV headers, empty for MARC
+  mapping: BookImportMapping;
+  rows: BookImportRow[];
+  summary: Record<BookImportRow["action"], number>;
+}
+
+export interface BookImportCommitRow {
+  rowNumber: number;
+  book: CreateBookInput;
+}
+
+export interface BookImportResult {
+  rowNumber: number;
+  status: "created" | "updated" | "skipped" | "failed";
+  bookId?: string;
+  error?: string;
+}
@@ -0,0 +1,34 @@
+import type { CreateBookInput } from "./book";
+
+/**
+ * Catalog fields a metadata provider can supply for an ISBN
+ */
+export type BookMetadata = Partial<
+  Omit<CreateBookInput, "copyCount" | "coverImageKey" | "authors" | "genres" | "series" | "seriesVolume" | "editionOf">
+>;
+
+export type BookMetadataField = keyof BookMetadata;
+
+/**
+ * A source of bibliographic data looked up by ISBN (Open Library, Google Books, test fixtures)
+ */
+export interface BookMetadataProvider {
+  name: "openlibrary" | "googlebooks" | "fixture";
+  lookupByIsbn(isbn13: string): Promise<BookMetadata | null>; // null when the provider doesn't know the ISBN
+}
+
+export interface BookMetadataLookupResult {
+  isbn13: string;
+  isbn10: string | null; // 979 ISBNs have no 10-digit form
+  metadata: BookMetadata; // Combined across providers; earlier providers win
+  sources: BookMetadataProvider["name"][]; // Providers that had the ISBN
+}
+
+/**
+ * Outcome of merging looked-up metadata into values staff have already entered
+ */
+export interface BookMetadataMergeResult {
+  values: BookMetadata; // Only the fields to fill in
+  filled: BookMetadataField[];
+  kept: BookMetadataField[]; // Fields where the provider differed but the entered value was kept
+}
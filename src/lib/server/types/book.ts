@@ -1,7 +1,37 @@
-import type { Book, Chapter, BookStatus } from "@prisma/client";
+import type { Book, BookCopy, Chapter, BookStatus, CopyCondition, CopyStatus } from "@prisma/client";
+import type { BookAuthorInput, BookContributor, PublisherSummary } from "./author";
+import type { BookGenreLink } from "./genre";
+import type { BookEdition, SeriesSummary } from "./series";
+
+/**
+ * Copy counts for a title, e.g. "2 of 4 available"
+ */
+export interface BookAvailability {
+  totalCopies: number;
+  availableCopies: number;
+}
+
+export type BookCoverVariant = "thumbnail" | "medium" | "large";
+
+/**
+ * An uploaded cover, stored once per size (Book.coverImages)
+ * key is the storage folder holding the variants
+ */
+export type BookCoverImages = { key: string } & Record<BookCoverVariant, string>;
 
 export type BookWithRelations = Book & {
-  chapters?: Chapter[];
+  chapters?: Omit<Chapter, "content">[]; // Chapter text is only served through the reader
+  copies?: BookCopy[];
+  authors?: BookContributor[]; // Credits in order
+  genres?: BookGenreLink[]; // In order; the first is Book.genre
+  publishedBy?: PublisherSummary | null;
+  series?: SeriesSummary | null;
+  editions?: BookEdition[]; // Every edition of the book's work, including this one
+  previousInSeries?: BookEdition | null;
+  nextInSeries?: BookEdition | null;
+  availability?: BookAvailability;
+  holdQueueLength?: number; // Patrons waiting in the hold queue
+  highlights?: BookSearchHighlight[]; // Where a full-text search matched, when searching
   checkouts?: Array<{
     id: string;
     userId: string;
@@ -20,33 +50,100 @@ export interface CreateBookInput {
   publisher?: string;
   publicationYear?: number;
   genre?: string;
-  tags?: string[];
+  genres?: string[]; // Genre names in order; when omitted, genre is used. Unknown names are added to the vocabulary
+  tags?: string[]; // Tags naming a genre or synonym are linked as genres instead
   pageCount?: number;
   language?: string;
   coverImageUrl?: string;
-  status?: BookStatus;
+  coverImageKey?: string | null; // Storage key of an uploaded cover; null removes it
+  authors?: BookAuthorInput[]; // Credits with roles; when omitted they are read from the author line
+  series?: string | null; // Series name; null removes the book from its series
+  seriesVolume?: number | null;
+  editionOf?: string | null; // ID of a book this is another edition of; null removes it from its work
+  copyCount?: number; // Number of physical copies to create with the book (defaults to 1)
 }
 
 export interface UpdateBookInput extends Partial<CreateBookInput> {
   id: string;
 }
 
+/**
+ * Excerpt around the words a full-text search matched
+ * text is HTML-escaped, with the matched words wrapped in <mark>
+ */
+export interface BookSearchHighlight {
+  source: "description" | "chapter";
+  text: string;
+  chapterId?: string;
+  chapterTitle?: string;
+}
+
 export interface BookSearchFilters {
+  q?: string; // Full-text query across title, author, genre, tags, description, summary and chapters
   title?: string;
   author?: string;
+  authorId?: string; // Books crediting this author in any role
   genre?: string;
   isbn?: string;
   publisher?: string;
+  publisherId?: string;
   status?: BookStatus;
   language?: string;
   minYear?: number;
   maxYear?: number;
+  // Facet selections; a book matches if it has any of the selected values
+  genres?: string[];
+  languages?: string[];
+  publishers?: string[];
+  decades?: number[]; // First year of the decade, e.g. 1990
+  statuses?: BookStatus[];
+  tags?: string[];
+}
+
+/**
+ * Catalog orderings; relevance only applies to full-text searches
+ */
+export type BookSortOption = "newest" | "title" | "author" | "year" | "popularity" | "recently_returned" | "relevance";
+
+/**
+ * One page of book ids in sort order
+ * nextCursor is the last id on the page, or null when there are no more books
+ */
+export interface BookPage {
+  bookIds: string[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Title or author offered while a search is being typed
+ */
+export type BookAutocompleteSuggestion =
+  | { type: "title"; value: string; bookId: string }
+  | { type: "author"; value: string; authorId: string; bookCount: number };
+
+export interface BookFacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Number of matching books per value, for narrowing a search
+ * Each facet is counted with every filter applied except its own selections
+ */
+export interface BookSearchFacets {
+  genres: BookFacetValue[];
+  languages: BookFacetValue[];
+  publishers: BookFacetValue[];
+  decades: BookFacetValue[];
+  statuses: BookFacetValue[];
+  tags: BookFacetValue[];
 }
 
 export interface CreateChapterInput {
   title: string;
   content?: string;
-  order: number;
+  order?: number; // Defaults to after the book's last chapter
   bookId: string;
 }
 
@@ -56,3 +153,30 @@ export interface UpdateChapterInput {
   content?: string;
   order?: number;
 }
+
+export type ChapterImportFormat = "text" | "markdown" | "epub";
+
+/**
+ * A chapter split out of an imported manuscript, before it is saved
+ */
+export interface ImportedChapter {
+  title: string;
+  content: string;
+}
+
+export interface CreateBookCopyInput {
+  bookId: string;
+  barcode?: string; // Generated when omitted
+  condition?: CopyCondition;
+  shelfLocation?: string;
+  notes?: string;
+}
+
+export interface UpdateBookCopyInput {
+  id: string;
+  barcode?: string;
+  condition?: CopyCondition;
+  shelfLocation?: string | null;
+  status?: CopyStatus;
+  notes?: string | null;
+}
@@ -0,0 +1,19 @@
+/**
+ * Answers whether the library is closed on a given day
+ */
+export interface LibraryCalendar {
+  isClosed(date: Date): boolean;
+}
+
+export interface WeeklyScheduleInput {
+  dayOfWeek: number; // 0 = Sunday
+  isOpen: boolean;
+  opensAt?: string | null; // "HH:mm"
+  closesAt?: string | null; // "HH:mm"
+}
+
+export interface CreateClosureInput {
+  startDate: string; // "yyyy-MM-dd"
+  endDate?: string; // "yyyy-MM-dd", defaults to startDate
+  reason?: string;
+}
@@ -1,21 +1,30 @@
-import type { Checkout, Book, User } from "@prisma/client";
+import type { Checkout, CheckoutRenewal, Book, BookCopy, User } from "@prisma/client";
 
 export type CheckoutWithRelations = Checkout & {
   book: Book;
+  copy?: Pick<BookCopy, "id" | "barcode" | "shelfLocation">;
   user: Pick<User, "id" | "name" | "email">;
+  renewals?: CheckoutRenewal[];
 };
 
 export interface CreateCheckoutInput {
   bookId: string;
+  copyId?: string; // Optional - the first available copy is used if not provided
   userId?: string; // Optional - will use authenticated user's ID if not provided
   maxDurationDays?: number;
   lateFeePerDay?: number;
+  maxRenewals?: number;
 }
 
 export interface ReturnCheckoutInput {
   checkoutId: string;
 }
 
+export interface RenewCheckoutInput {
+  checkoutId: string;
+  renewedById?: string; // User who performed the renewal (patron or staff)
+}
+
 export interface CheckoutValidationResult {
   valid: boolean;
   error?: string;
@@ -0,0 +1,45 @@
+import type { EmailTemplate, User } from "@prisma/client";
+
+export type EmailTemplateKey =
+  | "welcome"
+  | "verification"
+  | "password_reset"
+  | "staff_invitation"
+  | "due_soon"
+  | "overdue_reminder"
+  | "hold_ready"
+  | "new_arrival";
+
+/**
+ * Editable parts of an email; the layout around them is fixed
+ */
+export interface EmailTemplateContent {
+  subject: string;
+  title: string; // Heading shown at the top of the email
+  html: string;
+  text: string; // Plain-text alternative
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  variables: Record<string, string>; // Placeholder name -> what it contains
+  sample: Record<string, string>; // Values used for previews and test sends
+  defaults: EmailTemplateContent; // Used until a version is saved
+}
+
+export interface EmailTemplateInput extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  locale: string;
+}
+
+export type EmailTemplateWithAuthor = EmailTemplate & {
+  createdBy: Pick<User, "id" | "name" | "email"> | null;
+};
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
@@ -0,0 +1,21 @@
+import type { Book, Checkout, LedgerEntry, LedgerEntryType, User } from "@prisma/client";
+
+export type LedgerEntryWithRelations = LedgerEntry & {
+  actor?: Pick<User, "id" | "name" | "email"> | null;
+  checkout?: (Pick<Checkout, "id" | "dueDate" | "returnedDate"> & { book: Pick<Book, "id" | "title"> }) | null;
+};
+
+export interface CreateLedgerEntryInput {
+  userId: string;
+  type: LedgerEntryType;
+  amount: number; // Positive for charges, payments and waivers; signed for adjustments
+  reason?: string;
+  checkoutId?: string;
+  actorId?: string;
+}
+
+export interface PatronBalance {
+  user: Pick<User, "id" | "name" | "email">;
+  balance: number;
+  lastEntryAt: Date | null;
+}
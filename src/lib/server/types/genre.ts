@@ -0,0 +1,46 @@
+import type { BookGenre, Genre, GenreSynonym } from "@prisma/client";
+
+/**
+ * A book's genre link with the genre it points to
+ */
+export type BookGenreLink = BookGenre & {
+  genre: Pick<Genre, "id" | "name">;
+};
+
+/**
+ * Genres matched or created for a book, ready to save as BookGenre rows
+ * genre is the matching Book.genre (the first genre's name); tags are what's left once genre names are moved out
+ */
+export interface ResolvedBookGenres {
+  genre: string | null;
+  genres: { genreId: string; position: number }[];
+  genreNames: string[]; // Names of genres, in the same order
+  tags: string[];
+}
+
+export type GenreSummary = Pick<Genre, "id" | "name" | "parentId"> & {
+  bookCount: number;
+};
+
+/**
+ * A vocabulary term as managed by staff, with the other names that map to it
+ */
+export type GenreWithSynonyms = Genre & {
+  synonyms: Pick<GenreSynonym, "id" | "name">[];
+  bookCount: number;
+};
+
+export interface GenreInput {
+  name: string;
+  parentId?: string | null; // Null for a top-level genre
+  description?: string | null;
+  synonyms?: string[]; // Replaces the genre's synonyms when given
+}
+
+/**
+ * A free-text tag and how many books carry it
+ */
+export interface CatalogTag {
+  name: string;
+  bookCount: number;
+}
@@ -0,0 +1,18 @@
+import type { Book, BookCopy, Hold, User } from "@prisma/client";
+
+export type HoldWithRelations = Hold & {
+  book: Book;
+  copy?: Pick<BookCopy, "id" | "barcode" | "shelfLocation"> | null;
+  user?: Pick<User, "id" | "name" | "email">;
+};
+
+export type HoldWithQueuePosition = HoldWithRelations & {
+  queuePosition: number | null; // 1-based position among WAITING holds, null once the hold has left the queue
+  queueLength: number;
+};
+
+export interface CreateHoldInput {
+  bookId: string;
+  userId?: string; // Optional - will use authenticated user's ID if not provided
+  anyEdition?: boolean; // Hold the first copy of any edition of the book's work
+}
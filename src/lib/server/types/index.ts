@@ -2,15 +2,96 @@
 export type { AuthenticatedUser, AuthMiddlewareOptions, AuthMiddlewareResult } from "./auth";
 export type {
   BookWithRelations,
+  BookAvailability,
+  BookCoverVariant,
+  BookCoverImages,
   CreateBookInput,
   UpdateBookInput,
   BookSearchFilters,
+  BookSearchHighlight,
+  BookFacetValue,
+  BookSearchFacets,
+  BookAutocompleteSuggestion,
+  BookSortOption,
+  BookPage,
   CreateChapterInput,
   UpdateChapterInput,
+  ChapterImportFormat,
+  ImportedChapter,
+  CreateBookCopyInput,
+  UpdateBookCopyInput,
 } from "./book";
 export type {
   CheckoutWithRelations,
   CreateCheckoutInput,
   ReturnCheckoutInput,
+  RenewCheckoutInput,
   CheckoutValidationResult,
 } from "./checkout";
+export type { HoldWithRelations, HoldWithQueuePosition, CreateHoldInput } from "./hold";
+export type { LedgerEntryWithRelations, CreateLedgerEntryInput, PatronBalance } from "./finance";
+export type {
+  CirculationPolicyWithRole,
+  CirculationPolicyInput,
+  ResolvedCirculationPolicy,
+  LateFeeTerms,
+} from "./policy";
+export type { LibraryCalendar, WeeklyScheduleInput, CreateClosureInput } from "./calendar";
+export type { BackgroundJob, JobSummary } from "./job";
+export type { QueueJobPayloads, QueueJobType, EnqueueJobInput, JobQueue, QueueJobHandlers } from "./queue";
+export type {
+  NotificationWithUser,
+  NotifyUserInput,
+  NotificationPreferenceInput,
+  NotificationLogFilters,
+} from "./notification";
+export type {
+  EmailTemplateKey,
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateInput,
+  EmailTemplateWithAuthor,
+  RenderedEmail,
+} from "./email-template";
+export type { SavedSearchWithFilters, CreateSavedSearchInput, UpdateSavedSearchInput } from "./saved-search";
+export type {
+  BookImportFormat,
+  BookImportField,
+  BookImportValues,
+  BookImportMapping,
+  BookImportDuplicateStrategy,
+  BookImportPreviewInput,
+  BookImportChange,
+  BookImportRow,
+  BookImportPreview,
+  BookImportCommitRow,
+  BookImportResult,
+} from "./book-import";
+export type { MarcRecord, MarcDataField } from "./marc";
+export type { BookExportFormat, ChapterExportFormat, ExportedBook } from "./book-export";
+export type { FileStorage } from "./storage";
+export type {
+  BookAuthorInput,
+  BookContributor,
+  ResolvedBookAuthors,
+  AuthorSummary,
+  AuthorWithBooks,
+  PublisherSummary,
+} from "./author";
+export type { SeriesSummary, BookEdition, SeriesWithBooks } from "./series";
+export type {
+  BookGenreLink,
+  ResolvedBookGenres,
+  GenreSummary,
+  GenreWithSynonyms,
+  GenreInput,
+  CatalogTag,
+} from "./genre";
+export type { ReaderChapterSummary, ReaderBook, ReadingProgressInput, ContinueReadingItem } from "./reading";
+export type {
+  BookMetadata,
+  BookMetadataField,
+  BookMetadataProvider,
+  BookMetadataLookupResult,
+  BookMetadataMergeResult,
+} from "./book-metadata";
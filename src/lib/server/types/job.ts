@@ -0,0 +1,18 @@
+import type { JobRun, Prisma } from "@prisma/client";
+
+/**
+ * A task that runs on a schedule and records its outcome as a JobRun
+ */
+export interface BackgroundJob {
+  name: string;
+  description: string;
+  intervalMinutes: number; // How often the in-process scheduler runs it
+  run(): Promise<Prisma.InputJsonObject>; // Returns counts to store on the run record
+}
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  lastRun: JobRun | null;
+}
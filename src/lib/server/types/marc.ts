@@ -0,0 +1,15 @@
+/**
+ * A MARC21 bibliographic record, as read from binary (ISO 2709) or MARCXML files
+ */
+export interface MarcRecord {
+  leader: string; // 24 characters
+  controlFields: { tag: string; value: string }[]; // 001-009
+  dataFields: MarcDataField[];
+}
+
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: { code: string; value: string }[];
+}
@@ -0,0 +1,29 @@
+import type { Notification, NotificationChannel, NotificationEvent, NotificationStatus, User } from "@prisma/client";
+
+export type NotificationWithUser = Notification & {
+  user: Pick<User, "id" | "name" | "email">;
+};
+
+export interface NotifyUserInput {
+  userId: string;
+  event: NotificationEvent;
+  title: string;
+  message: string; // Short plain text shown in-app
+  link?: string;
+  sendEmail: (email: string, locale: string) => Promise<{ success: boolean; error?: string }>; // Sends the full email in the recipient's language
+}
+
+export interface NotificationPreferenceInput {
+  event: NotificationEvent;
+  email: boolean;
+  inApp: boolean;
+}
+
+export interface NotificationLogFilters {
+  page?: number;
+  limit?: number;
+  search?: string; // Patron name or email
+  event?: NotificationEvent;
+  channel?: NotificationChannel;
+  status?: NotificationStatus;
+}
@@ -0,0 +1,38 @@
+import type { CirculationPolicy, Role } from "@prisma/client";
+
+export type CirculationPolicyWithRole = CirculationPolicy & {
+  role: Pick<Role, "id" | "name"> | null;
+};
+
+export interface CirculationPolicyInput {
+  name: string;
+  roleId?: string | null; // Null applies to every patron
+  genre?: string | null; // Null applies to every genre
+  loanDays: number;
+  maxRenewals: number;
+  lateFeePerDay: number;
+  maxLateFee?: number | null;
+  graceDays: number;
+  checkoutLimit?: number | null;
+  priority?: number;
+}
+
+/**
+ * Loan terms resolved for a patron borrowing a particular book
+ */
+export interface ResolvedCirculationPolicy {
+  policyId: string | null; // Null when no policy matched and the built-in defaults apply
+  loanDays: number;
+  maxRenewals: number;
+  lateFeePerDay: number;
+  maxLateFee: number | null;
+  graceDays: number;
+  checkoutLimit: number | null; // Limit across all genres, null falls back to the patron's own limit
+  genre: string | null; // Genre the genre limit applies to
+  genreCheckoutLimit: number | null;
+}
+
+export interface LateFeeTerms {
+  graceDays?: number;
+  maxLateFee?: number | null;
+}
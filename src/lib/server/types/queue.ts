@@ -0,0 +1,31 @@
+/**
+ * Payload for each kind of queued job, keyed by job type
+ */
+export interface QueueJobPayloads {
+  overdue_reminder: { checkoutId: string };
+  new_arrival: { bookId: string };
+}
+
+export type QueueJobType = keyof QueueJobPayloads;
+
+export interface EnqueueJobInput<T extends QueueJobType = QueueJobType> {
+  type: T;
+  payload: QueueJobPayloads[T];
+  runAt: Date;
+}
+
+/**
+ * A backend that runs jobs at a later time (QStash or the Postgres queue table)
+ */
+export interface JobQueue {
+  name: "qstash" | "postgres";
+  enqueue<T extends QueueJobType>(input: EnqueueJobInput<T>): Promise<string>; // Returns the backend's job ID
+  cancel(jobId: string): Promise<boolean>;
+}
+
+/**
+ * Functions that process each kind of job when it falls due
+ */
+export type QueueJobHandlers = {
+  [T in QueueJobType]: (payload: QueueJobPayloads[T]) => Promise<unknown>;
+};
@@ -0,0 +1,29 @@
+import type { Book, Chapter, ReadingProgress } from "@prisma/client";
+
+export type ReaderChapterSummary = Pick<Chapter, "id" | "title" | "order">;
+
+/**
+ * A book opened in the reader: its table of contents, the chapter being read and where the reader left off
+ */
+export interface ReaderBook {
+  book: Pick<Book, "id" | "title" | "author">;
+  chapters: ReaderChapterSummary[];
+  chapter: Pick<Chapter, "id" | "title" | "order" | "content"> | null; // Null when the book has no chapters
+  progress: Pick<ReadingProgress, "chapterId" | "position" | "updatedAt"> | null;
+}
+
+export interface ReadingProgressInput {
+  chapterId: string;
+  position: number; // From 0 (start of the chapter) to 1 (end)
+}
+
+/**
+ * A book on the "continue reading" shelf
+ */
+export type ContinueReadingItem = Pick<ReadingProgress, "chapterId" | "position" | "updatedAt"> & {
+  book: Pick<Book, "id" | "title" | "author" | "coverImageUrl" | "coverImages">;
+  chapter: ReaderChapterSummary | null;
+  chapterCount: number;
+  percentComplete: number; // 0-100, across the whole book
+  dueDate: Date; // Of the loan that gives access
+};
@@ -0,0 +1,17 @@
+import type { SavedSearch } from "@prisma/client";
+import type { BookSearchFilters } from "./book";
+
+export type SavedSearchWithFilters = Omit<SavedSearch, "filters"> & {
+  filters: BookSearchFilters; // Stored as JSON
+};
+
+export interface CreateSavedSearchInput {
+  name: string;
+  filters: BookSearchFilters;
+  notifyNewArrivals?: boolean;
+}
+
+export interface UpdateSavedSearchInput {
+  name?: string;
+  notifyNewArrivals?: boolean;
+}
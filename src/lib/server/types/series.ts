@@ -0,0 +1,21 @@
+import type { Book, Series } from "@prisma/client";
+import type { BookAvailability, BookWithRelations } from "./book";
+
+export type SeriesSummary = Pick<Series, "id" | "name">;
+
+/**
+ * A book listed alongside its other editions or the rest of its series, with enough detail to tell them apart
+ */
+export type BookEdition = Pick<
+  Book,
+  "id" | "title" | "author" | "isbn" | "publisher" | "publicationYear" | "language" | "seriesVolume" | "status"
+> & {
+  availability: BookAvailability;
+};
+
+/**
+ * A series page: the series and its books in reading order
+ */
+export type SeriesWithBooks = Series & {
+  books: BookWithRelations[];
+};
@@ -0,0 +1,11 @@
+/**
+ * A place to keep uploaded files (the local filesystem or an S3-compatible bucket)
+ * Keys are slash-separated paths, e.g. "covers/<id>/large.webp"
+ */
+export interface FileStorage {
+  name: "local" | "s3";
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<{ data: Buffer; contentType: string } | null>; // null when the file doesn't exist
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string; // Public URL the file is served from
+}
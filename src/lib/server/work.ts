@@ -0,0 +1,101 @@
+import type { Prisma } from "@prisma/client";
+import { getAvailabilityForBooks } from "./copy";
+import { prisma } from "./prisma";
+import type { BookEdition } from "./types/series";
+
+/**
+ * Fields shown for each book in the edition picker and series links
+ */
+export const BOOK_EDITION_SELECT = {
+  id: true,
+  title: true,
+  author: true,
+  isbn: true,
+  publisher: true,
+  publicationYear: true,
+  language: true,
+  seriesVolume: true,
+  status: true,
+} satisfies Prisma.BookSelect;
+
+/**
+ * Adds copy availability to books selected with BOOK_EDITION_SELECT
+ */
+export async function withEditionAvailability(
+  books: Prisma.BookGetPayload<{ select: typeof BOOK_EDITION_SELECT }>[]
+): Promise<BookEdition[]> {
+  const availability = await getAvailabilityForBooks(books.map((book) => book.id));
+  return books.map((book) => ({ ...book, availability: availability.get(book.id)! }));
+}
+
+/**
+ * Gets every edition of a work, oldest first
+ */
+export async function getWorkEditions(workId: string): Promise<BookEdition[]> {
+  const books = await prisma.book.findMany({
+    where: { workId },
+    select: BOOK_EDITION_SELECT,
+    orderBy: [{ publicationYear: { sort: "asc", nulls: "last" } }, { title: "asc" }, { id: "asc" }],
+  });
+  return withEditionAvailability(books);
+}
+
+/**
+ * Finds the work to group a book with, given another edition of it
+ * The other book's work is used, or one is created for the pair and titled after it.
+ * @returns The work ID to save on the book
+ */
+export async function resolveBookWork(tx: Prisma.TransactionClient, editionOfBookId: string): Promise<string> {
+  const other = await tx.book.findUniqueOrThrow({
+    where: { id: editionOfBookId },
+    select: { id: true, title: true, workId: true },
+  });
+  if (other.workId) {
+    return other.workId;
+  }
+
+  const work = await tx.work.create({ data: { title: other.title } });
+  await tx.book.update({ where: { id: other.id }, data: { workId: work.id } });
+  return work.id;
+}
+
+/**
+ * Removes a work once it no longer groups two or more editions
+ * Must be called inside the transaction that moved or deleted one of its books.
+ * Holds on any edition of it become holds on the book that's left.
+ */
+export async function pruneWork(tx: Prisma.TransactionClient, workId: string): Promise<void> {
+  const bookCount = await tx.book.count({ where: { workId } });
+  if (bookCount > 1) {
+    return;
+  }
+
+  await tx.book.updateMany({ where: { workId }, data: { workId: null } });
+  await tx.work.delete({ where: { id: workId } });
+}
+
+/**
+ * Checks the series and edition fields of a book form
+ * @returns Why they can't be saved, or null when they're fine
+ */
+export async function validateBookGrouping(
+  data: { seriesVolume?: number | null; editionOf?: string | null },
+  bookId?: string
+): Promise<string | null> {
+  if (
+    data.seriesVolume !== undefined &&
+    data.seriesVolume !== null &&
+    (typeof data.seriesVolume !== "number" || !Number.isFinite(data.seriesVolume) || data.seriesVolume < 0)
+  ) {
+    return "Series volume must be a number of 0 or more";
+  }
+
+  if (data.editionOf) {
+    const other = data.editionOf === bookId ? null : await prisma.book.findUnique({ where: { id: data.editionOf } });
+    if (!other) {
+      return "Choose another book in the catalog that this is an edition of";
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Written archives are stamped 1980-01-01 00:00 in MS-DOS format, so the same files always zip the same
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Buffer | null; // Null when the archive has no such file
+}
+
+/**
+ * Opens a ZIP archive (e.g. an EPUB) held in memory
+ * Files are only inflated when read. Stored and deflated files are supported, which covers EPUB and
+ * office documents; ZIP64 archives and encryption are not.
+ */
+export function openZip(data: Buffer): ZipArchive {
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - MAX_END_RECORD_SEARCH); offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a ZIP file");
+  }
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, { method: number; compressedSize: number; localOffset: number }>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The ZIP file is damaged");
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      localOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read(name) {
+      const entry = entries.get(name);
+      if (!entry) return null;
+
+      const header = entry.localOffset;
+      if (data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+        throw new Error(`The ZIP file is damaged at ${name}`);
+      }
+      const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+      const compressed = data.subarray(start, start + entry.compressedSize);
+
+      if (entry.method === 0) return Buffer.from(compressed);
+      if (entry.method === 8) return inflateRawSync(compressed);
+      throw new Error(`Unsupported compression in ${name}`);
+    },
+  };
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string; // Strings are written as UTF-8
+  store?: boolean; // Leave uncompressed, e.g. an EPUB's mimetype file
+}
+
+/**
+ * Writes a ZIP archive with the files in the given order
+ * Files are deflated unless marked to be stored; like openZip, ZIP64 (over 4 GB) is not supported.
+ */
+export function writeZip(files: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const data = typeof file.data === "string" ? Buffer.from(file.data, "utf8") : file.data;
+    const compressed = file.store ? data : deflateRawSync(data);
+    const method = file.store ? 0 : 8;
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(20, 4); // Version needed to extract (2.0)
+    header.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    entry.writeUInt16LE(20, 4); // Version made by
+    header.copy(entry, 6, 4, 30); // Same fields as the local header, from version needed to name length
+    entry.writeUInt32LE(offset, 42);
+    centralDirectory.push(entry, name);
+
+    parts.push(header, name, compressed);
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directory, end]);
+}
@@ -2,10 +2,14 @@ import * as React from "react";
 import { useRouter } from "next/router";
 import { useBook, useUpdateBook } from "@/hooks/useBooks";
 import { BookForm } from "@/components/books/BookForm";
+import { BookCopyManager } from "@/components/books/BookCopyManager";
+import { ChapterImport } from "@/components/books/ChapterImport";
+import { ChapterList } from "@/components/books/ChapterList";
+import { useReorderChapters } from "@/hooks/useChapters";
 import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { CreateBookInput, UpdateBookInput } from "@/lib/server/types";
+import type { BookContributor, BookEdition, BookGenreLink, CreateBookInput, UpdateBookInput } from "@/lib/server/types";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -15,6 +19,7 @@ export default function EditBookPage() {
   const { hasPermission } = useAuth();
   const { data, isLoading } = useBook(id as string);
   const updateMutation = useUpdateBook();
+  const reorderMutation = useReorderChapters();
 
   if (!hasPermission("book:update")) {
     return (
@@ -44,6 +49,11 @@ export default function EditBookPage() {
     );
   }
 
+  // Any other edition links this book to the same work
+  const otherEdition = (data.book.editions as BookEdition[] | undefined)?.find(
+    (edition) => edition.id !== data.book.id
+  );
+
   const handleSubmit = async (data: CreateBookInput | UpdateBookInput) => {
     if (!id || typeof id !== "string") return;
     // Extract id if present, otherwise use route id
@@ -61,6 +71,15 @@ export default function EditBookPage() {
     }
   };
 
+  const handleReorder = async (chapterIds: string[]) => {
+    try {
+      await reorderMutation.mutateAsync({ bookId: id as string, chapterIds });
+      toast.success("Chapter order saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reorder chapters");
+    }
+  };
+
   const handleCancel = () => {
     router.push("/admin/books");
   };
@@ -69,7 +88,14 @@ export default function EditBookPage() {
     <AdminDashboardLayout>
       <PageHeader title="Edit Book" description="Update book information" />
       <BookForm
-        initialData={data.book}
+        initialData={{
+          ...data.book,
+          authors: (data.book.authors as BookContributor[]).map(({ author, role }) => ({ name: author.name, role })),
+          genres: (data.book.genres as BookGenreLink[]).map((link) => link.genre.name),
+          series: data.book.series?.name ?? null,
+          editionOf: otherEdition?.id ?? null,
+          editionOfTitle: otherEdition?.title,
+        }}
         onSubmit={handleSubmit}
         onCancel={handleCancel}
         isLoading={updateMutation.isPending}
@@ -79,6 +105,11 @@ export default function EditBookPage() {
           router.replace(router.asPath);
         }}
       />
+      <BookCopyManager bookId={id as string} />
+      <div className="mt-6">
+        <ChapterList chapters={data.book.chapters ?? []} onReorder={handleReorder} />
+      </div>
+      <ChapterImport bookId={id as string} existingChapterCount={data.book.chapters?.length ?? 0} />
     </AdminDashboardLayout>
   );
 }
@@ -0,0 +1,466 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CTAButton } from "@/components/ui/button-variants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { readFileAsBase64 } from "@/lib/client/utils";
+import type {
+  BookImportDuplicateStrategy,
+  BookImportField,
+  BookImportFormat,
+  BookImportMapping,
+  BookImportPreview,
+  BookImportResult,
+  BookImportRow,
+} from "@/lib/server/types";
+import { useQueryClient } from "@tanstack/react-query";
+import { Download, Upload } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+
+// Matches BOOK_IMPORT_BATCH_SIZE on the server
+const BATCH_SIZE = 100;
+// Rows shown in the dry-run table; the error report has all of them
+const PREVIEW_ROW_LIMIT = 200;
+
+const formatLabels: Record<BookImportFormat, string> = {
+  csv: "CSV",
+  marc21: "MARC21 (binary .mrc)",
+  marcxml: "MARCXML",
+};
+
+const fieldLabels: Record<BookImportField, string> = {
+  title: "Title",
+  author: "Author",
+  isbn: "ISBN",
+  description: "Description",
+  summary: "Summary",
+  publisher: "Publisher",
+  publicationYear: "Publication Year",
+  genre: "Genre",
+  tags: "Tags (separated by ; or |)",
+  pageCount: "Page Count",
+  language: "Language",
+  coverImageUrl: "Cover Image URL",
+  copyCount: "Copies",
+};
+
+const actionLabels: Record<BookImportRow["action"], string> = {
+  create: "New",
+  update: "Update",
+  skip: "Skip",
+  invalid: "Error",
+};
+
+const actionVariants: Record<BookImportRow["action"], "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  skip: "outline",
+  invalid: "destructive",
+};
+
+function detectFormat(fileName: string): BookImportFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "mrc" || extension === "marc") return "marc21";
+  if (extension === "xml") return "marcxml";
+  return "csv";
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  return Array.isArray(value) ? value.join("; ") : String(value);
+}
+
+function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map((value) => `"${value.replace(/"/g, '""')}"`).join(",")).join("\r\n");
+}
+
+export default function ImportBooksPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<BookImportFormat>("csv");
+  const [duplicateStrategy, setDuplicateStrategy] = useState<BookImportDuplicateStrategy>("skip");
+  const [mapping, setMapping] = useState<BookImportMapping | undefined>();
+  const [preview, setPreview] = useState<BookImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [results, setResults] = useState<BookImportResult[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const canImport = hasPermission("book:create");
+  const canUpdate = hasPermission("book:update");
+
+  if (!canImport) {
+    return (
+      <AdminDashboardLayout>
+        <div className="text-center py-12">
+          <p className="text-destructive">You do not have permission to import books</p>
+        </div>
+      </AdminDashboardLayout>
+    );
+  }
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setResults(null);
+    setMapping(undefined);
+    if (selected) {
+      setFormat(detectFormat(selected.name));
+    }
+  };
+
+  const runPreview = async (nextMapping = mapping) => {
+    if (!file) return;
+    setIsPreviewing(true);
+    try {
+      const response = await fetch("/api/admin/books/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          data: await readFileAsBase64(file),
+          mapping: format === "csv" ? nextMapping : undefined,
+          duplicateStrategy,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to preview import");
+      setPreview(data.preview);
+      setMapping(data.preview.mapping);
+      setResults(null);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview import");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleMappingChange = (field: BookImportField, column: string) => {
+    const nextMapping = { ...mapping };
+    if (column === "none") {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = column;
+    }
+    setMapping(nextMapping);
+  };
+
+  const handleCommit = async () => {
+    if (!preview) return;
+    const rows = preview.rows.flatMap((row) =>
+      (row.action === "create" || row.action === "update") && row.book
+        ? [{ rowNumber: row.rowNumber, book: row.book }]
+        : []
+    );
+    const collected: BookImportResult[] = [];
+    setProgress({ done: 0, total: rows.length });
+
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      const batch = rows.slice(start, start + BATCH_SIZE);
+      try {
+        const response = await fetch("/api/admin/books/import/commit", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ rows: batch, duplicateStrategy }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to import batch");
+        collected.push(...data.results);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Failed to import batch";
+        collected.push(
+          ...batch.map((row) => ({ rowNumber: row.rowNumber, status: "failed" as const, error: message }))
+        );
+      }
+      setProgress({ done: Math.min(start + BATCH_SIZE, rows.length), total: rows.length });
+    }
+
+    setResults(collected);
+    setProgress(null);
+    queryClient.invalidateQueries({ queryKey: ["books"] });
+
+    const failed = collected.filter((result) => result.status === "failed").length;
+    if (failed > 0) {
+      toast.error(`${failed} row${failed === 1 ? "" : "s"} failed to import`);
+    } else {
+      toast.success("Import complete");
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!preview) return;
+    const rowsByNumber = new Map(preview.rows.map((row) => [row.rowNumber, row]));
+    const reportRows = [
+      ...preview.rows
+        .filter((row) => row.action === "invalid")
+        .map((row) => [String(row.rowNumber), "invalid", row.errors.join("; ")]),
+      ...(results ?? [])
+        .filter((result) => result.status === "failed")
+        .map((result) => [String(result.rowNumber), "failed", result.error ?? "Unknown error"]),
+    ].map(([rowNumber, status, error]) => {
+      const book = rowsByNumber.get(Number(rowNumber))?.book;
+      return [rowNumber, status, book?.title ?? "", book?.isbn ?? "", error];
+    });
+
+    const csv = toCsv([["Row", "Status", "Title", "ISBN", "Error"], ...reportRows]);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `import-errors-${file?.name.replace(/\.[^.]+$/, "") || "catalog"}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importableCount = preview ? preview.summary.create + preview.summary.update : 0;
+  const resultCounts = results?.reduce<Record<string, number>>((counts, result) => {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+    return counts;
+  }, {});
+  const hasErrors =
+    (preview?.summary.invalid ?? 0) > 0 || Boolean(results?.some((result) => result.status === "failed"));
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Import Books"
+        description="Load books in bulk from a CSV spreadsheet or MARC21/MARCXML records"
+        actions={
+          <Link href="/admin/books">
+            <Button variant="outline">Back to Books</Button>
+          </Link>
+        }
+      />
+      <div className="space-y-6">
+        {/* Step 1: File */}
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Choose a file</CardTitle>
+            <CardDescription>
+              CSV files need a header row. Books with an ISBN already in the catalog are matched by ISBN.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="import-file">File</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,.mrc,.marc,.xml,text/csv,application/marc,application/xml"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-format">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as BookImportFormat)}>
+                  <SelectTrigger id="import-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(formatLabels) as BookImportFormat[]).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {formatLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Books already in the catalog</Label>
+              <RadioGroup
+                value={duplicateStrategy}
+                onValueChange={(value) => setDuplicateStrategy(value as BookImportDuplicateStrategy)}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="skip" id="duplicates-skip" />
+                  <Label htmlFor="duplicates-skip" className="font-normal">
+                    Skip them
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="update" id="duplicates-update" disabled={!canUpdate} />
+                  <Label htmlFor="duplicates-update" className="font-normal">
+                    Update them with the file&apos;s values (empty cells are left alone)
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <CTAButton onClick={() => runPreview()} disabled={!file || isPreviewing || Boolean(progress)}>
+              <Upload className="size-4 mr-2" />
+              {isPreviewing ? "Checking..." : preview ? "Check Again" : "Check File"}
+            </CTAButton>
+          </CardContent>
+        </Card>
+
+        {/* Step 2: Column mapping (CSV only) */}
+        {preview && format === "csv" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Match columns</CardTitle>
+              <CardDescription>Choose which column holds each field, then check the file again.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {(Object.keys(fieldLabels) as BookImportField[]).map((field) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`mapping-${field}`}>{fieldLabels[field]}</Label>
+                    <Select
+                      value={mapping?.[field] ?? "none"}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger id={`mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not imported</SelectItem>
+                        {preview.columns
+                          .filter((column) => column)
+                          .map((column) => (
+                            <SelectItem key={column} value={column}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" onClick={() => runPreview(mapping)} disabled={isPreviewing}>
+                Apply Mapping
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 3: Dry run */}
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{format === "csv" ? "3" : "2"}. Review changes</CardTitle>
+              <CardDescription>Nothing has been saved yet.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(actionLabels) as BookImportRow["action"][]).map((action) => (
+                  <Badge key={action} variant={actionVariants[action]}>
+                    {actionLabels[action]}: {preview.summary[action]}
+                  </Badge>
+                ))}
+              </div>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead className="w-24">Action</TableHead>
+                      <TableHead>Book</TableHead>
+                      <TableHead>ISBN</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <Badge variant={actionVariants[row.action]}>{actionLabels[row.action]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {row.book ? (
+                            <>
+                              <div className="font-medium">{row.book.title}</div>
+                              <div className="text-sm text-muted-foreground">{row.book.author}</div>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{row.book?.isbn ?? "—"}</TableCell>
+                        <TableCell className="text-sm">
+                          {row.action === "invalid" && (
+                            <ul className="text-destructive">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {row.action === "update" &&
+                            row.changes?.map((change) => (
+                              <div key={change.field}>
+                                <span className="font-medium">{fieldLabels[change.field]}:</span>{" "}
+                                <span className="text-muted-foreground line-through">{formatValue(change.from)}</span> →{" "}
+                                {formatValue(change.to)}
+                              </div>
+                            ))}
+                          {row.action === "skip" && (
+                            <span className="text-muted-foreground">
+                              {row.changes?.length ? "Already in the catalog" : "Already in the catalog, no changes"}
+                            </span>
+                          )}
+                          {row.action === "create" && (
+                            <span className="text-muted-foreground">
+                              {row.book?.copyCount ?? 1} cop{(row.book?.copyCount ?? 1) === 1 ? "y" : "ies"}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {preview.rows.length} rows.
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <CTAButton
+                  onClick={handleCommit}
+                  disabled={importableCount === 0 || Boolean(progress) || Boolean(results)}
+                >
+                  {progress
+                    ? `Importing ${progress.done} of ${progress.total}...`
+                    : `Import ${importableCount} Book${importableCount === 1 ? "" : "s"}`}
+                </CTAButton>
+                {hasErrors && (
+                  <Button variant="outline" onClick={handleDownloadErrors}>
+                    <Download className="size-4 mr-2" />
+                    Download Error Report
+                  </Button>
+                )}
+              </div>
+              {progress && (
+                <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                  />
+                </div>
+              )}
+              {resultCounts && (
+                <p className="text-sm">
+                  Created {resultCounts.created ?? 0}, updated {resultCounts.updated ?? 0}, skipped{" "}
+                  {resultCounts.skipped ?? 0}, failed {resultCounts.failed ?? 0}.{" "}
+                  <Link href="/admin/books" className="underline underline-offset-4">
+                    View books
+                  </Link>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AdminDashboardLayout>
+  );
+}
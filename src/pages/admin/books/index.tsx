@@ -2,11 +2,19 @@ import * as React from "react";
 import { useState } from "react";
 import { useRouter } from "next/router";
 import { useBooks, useDeleteBook } from "@/hooks/useBooks";
+import { useCursorPagination } from "@/hooks/useCursorPagination";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
 import { CTAButton, ErrorButton } from "@/components/ui/button-variants";
 import { Button } from "@/components/ui/button";
-import { Pagination } from "@/components/ui/pagination";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookCover } from "@/components/books/BookCover";
+import { CursorPagination } from "@/components/ui/pagination";
 import {
   Dialog,
   DialogContent,
@@ -23,23 +31,29 @@ import { useSession } from "next-auth/react";
 import { useAuth } from "@/hooks/useAuth";
 import type { BookWithRelations } from "@/lib/server/types";
 import { BookStatus } from "@prisma/client";
-import Image from "next/image";
-import { Edit, Trash2 } from "lucide-react";
+import { Download, Edit, Trash2 } from "lucide-react";
+
+const exportFormatLabels = {
+  csv: "CSV (spreadsheet)",
+  jsonl: "JSON Lines",
+  marc21: "MARC21",
+};
 
 export default function AdminBooksPage() {
   const router = useRouter();
   const { data: session } = useSession();
-  const { hasPermission } = useAuth();
-  const [page, setPage] = useState(1);
+  const { hasPermission, hasRole } = useAuth();
+  const { cursor, page, goToNext, goToPrevious } = useCursorPagination();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [bookToDelete, setBookToDelete] = useState<{ id: string; title: string } | null>(null);
 
-  const { data, isLoading } = useBooks(page, 20);
+  const { data, isLoading } = useBooks(20, { cursor });
   const deleteMutation = useDeleteBook();
 
   const canCreate = hasPermission("book:create");
   const canUpdate = hasPermission("book:update");
   const canDelete = hasPermission("book:delete");
+  const canExport = hasPermission("book:read") && hasRole("Admin");
 
   const handleDelete = async () => {
     if (!bookToDelete) return;
@@ -90,7 +104,35 @@ export default function AdminBooksPage() {
         title="Manage Books"
         description="Create, edit, and delete books"
         actions={
-          canCreate ? <CTAButton onClick={() => router.push("/admin/books/new")}>Create New Book</CTAButton> : null
+          <div className="flex gap-2">
+            {canExport && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Download className="size-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {Object.entries(exportFormatLabels).map(([format, label]) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={`/api/admin/books/export?format=${format}`} download>
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {canCreate && (
+              <>
+                <Button variant="outline" onClick={() => router.push("/admin/books/import")}>
+                  Import Books
+                </Button>
+                <CTAButton onClick={() => router.push("/admin/books/new")}>Create New Book</CTAButton>
+              </>
+            )}
+          </div>
         }
       />
       <div className="rounded-md border border-border overflow-x-auto">
@@ -147,7 +189,7 @@ export default function AdminBooksPage() {
                     <TableCell>
                       {book.coverImageUrl ? (
                         <div className="relative h-16 w-12 overflow-hidden rounded border border-border">
-                          <Image src={book.coverImageUrl} alt={book.title} fill className="object-cover" sizes="48px" />
+                          <BookCover book={book} sizes="48px" />
                         </div>
                       ) : (
                         <div className="h-16 w-12 rounded border border-border bg-muted flex items-center justify-center">
@@ -173,9 +215,16 @@ export default function AdminBooksPage() {
                       )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={status === BookStatus.AVAILABLE ? "default" : "secondary"}>
-                        {status === BookStatus.AVAILABLE ? "Available" : "Checked Out"}
-                      </Badge>
+                      <div className="flex flex-col gap-1">
+                        <Badge variant={status === BookStatus.AVAILABLE ? "default" : "secondary"}>
+                          {status === BookStatus.AVAILABLE ? "Available" : "Checked Out"}
+                        </Badge>
+                        {book.availability && (
+                          <span className="text-xs text-muted-foreground">
+                            {book.availability.availableCopies} of {book.availability.totalCopies} copies
+                          </span>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
@@ -211,10 +260,12 @@ export default function AdminBooksPage() {
         </Table>
       </div>
       {data?.pagination && (
-        <Pagination
-          currentPage={data.pagination.page}
-          totalPages={data.pagination.totalPages}
-          onPageChange={setPage}
+        <CursorPagination
+          page={page}
+          hasPreviousPage={page > 1}
+          hasNextPage={Boolean(data.pagination.nextCursor)}
+          onPrevious={goToPrevious}
+          onNext={() => goToNext(data.pagination.nextCursor)}
           className="mt-6"
         />
       )}
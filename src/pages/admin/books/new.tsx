@@ -33,16 +33,22 @@ export default function NewBookPage() {
     const createData: CreateBookInput = {
       title: data.title,
       author: data.author,
+      authors: data.authors,
       isbn: data.isbn,
       description: data.description,
       summary: data.summary,
       publisher: data.publisher,
       publicationYear: data.publicationYear,
       genre: data.genre,
+      genres: data.genres,
       pageCount: data.pageCount,
       language: data.language,
       coverImageUrl: data.coverImageUrl,
-      status: data.status,
+      coverImageKey: data.coverImageKey,
+      series: data.series,
+      seriesVolume: data.seriesVolume,
+      editionOf: data.editionOf,
+      copyCount: data.copyCount,
     };
     try {
       await createMutation.mutateAsync(createData);
@@ -0,0 +1,329 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import type { WeeklyScheduleInput } from "@/lib/server/types";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface Closure {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+}
+
+const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Closure dates are calendar days stored at UTC midnight
+function formatClosureDate(date: string) {
+  return format(new Date(`${date.slice(0, 10)}T00:00:00`), "EEE, MMM dd, yyyy");
+}
+
+export default function LibraryCalendarPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [schedule, setSchedule] = useState<WeeklyScheduleInput[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [isAddingClosure, setIsAddingClosure] = useState(false);
+  const [deletingClosureId, setDeletingClosureId] = useState<string | null>(null);
+
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fetchCalendar = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/calendar");
+      if (!response.ok) throw new Error("Failed to fetch calendar");
+      const data = await response.json();
+      setSchedule(data.schedule);
+      setClosures(data.closures);
+    } catch {
+      toast.error("Failed to load library calendar");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission("checkout:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchCalendar();
+  }, [hasPermission, router, fetchCalendar]);
+
+  const updateDay = (dayOfWeek: number, changes: Partial<WeeklyScheduleInput>) => {
+    setSchedule((current) => current.map((day) => (day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day)));
+  };
+
+  const onSaveSchedule = async () => {
+    setIsSavingSchedule(true);
+    try {
+      const response = await fetch("/api/admin/calendar", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days: schedule }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to update opening hours");
+      }
+
+      const data = await response.json();
+      setSchedule(data.schedule);
+      toast.success("Opening hours updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update opening hours");
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const onAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAddingClosure(true);
+    try {
+      const response = await fetch("/api/admin/calendar/closures", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startDate,
+          ...(endDate && { endDate }),
+          ...(reason && { reason }),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to add closure");
+      }
+
+      toast.success("Closure added");
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      fetchCalendar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add closure");
+    } finally {
+      setIsAddingClosure(false);
+    }
+  };
+
+  const onDeleteClosure = async (closureId: string) => {
+    setDeletingClosureId(closureId);
+    try {
+      const response = await fetch(`/api/admin/calendar/closures/${closureId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to delete closure");
+      }
+
+      toast.success("Closure removed");
+      fetchCalendar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete closure");
+    } finally {
+      setDeletingClosureId(null);
+    }
+  };
+
+  if (!hasPermission("checkout:manage")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Library Calendar"
+        description="Opening hours and closures. Books never fall due on a closed day and closed days don't count as overdue."
+      />
+      <div className="space-y-4">
+        {/* Weekly Schedule */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Hours</CardTitle>
+            <CardDescription>Regular weekly schedule</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 7 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Day</TableHead>
+                        <TableHead>Open</TableHead>
+                        <TableHead>Opens</TableHead>
+                        <TableHead>Closes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {schedule.map((day) => (
+                        <TableRow key={day.dayOfWeek}>
+                          <TableCell className="font-medium">{dayNames[day.dayOfWeek]}</TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={day.isOpen}
+                              onCheckedChange={(checked) => updateDay(day.dayOfWeek, { isOpen: checked })}
+                              disabled={isSavingSchedule}
+                              aria-label={`${dayNames[day.dayOfWeek]} open`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="time"
+                              value={day.opensAt || ""}
+                              onChange={(e) => updateDay(day.dayOfWeek, { opensAt: e.target.value || null })}
+                              disabled={!day.isOpen || isSavingSchedule}
+                              className="w-[130px]"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="time"
+                              value={day.closesAt || ""}
+                              onChange={(e) => updateDay(day.dayOfWeek, { closesAt: e.target.value || null })}
+                              disabled={!day.isOpen || isSavingSchedule}
+                              className="w-[130px]"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={onSaveSchedule} disabled={isSavingSchedule}>
+                    {isSavingSchedule ? "Saving..." : "Save Hours"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Closures */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Closures</CardTitle>
+            <CardDescription>
+              Holidays and other one-off closures. Loans due during a new closure move to the next open day.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={onAddClosure} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="closure-start">Start Date</Label>
+                <Input
+                  id="closure-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  disabled={isAddingClosure}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closure-end">End Date</Label>
+                <Input
+                  id="closure-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  disabled={isAddingClosure}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closure-reason">Reason</Label>
+                <Input
+                  id="closure-reason"
+                  placeholder="e.g., New Year's Day"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  disabled={isAddingClosure}
+                />
+              </div>
+              <Button type="submit" disabled={isAddingClosure || !startDate}>
+                <Plus className="size-4 mr-2" />
+                {isAddingClosure ? "Adding..." : "Add Closure"}
+              </Button>
+            </form>
+
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : closures.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">No upcoming closures</p>
+              </div>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {closures.map((closure) => (
+                      <TableRow key={closure.id}>
+                        <TableCell>
+                          {formatClosureDate(closure.startDate)}
+                          {closure.endDate !== closure.startDate && ` – ${formatClosureDate(closure.endDate)}`}
+                        </TableCell>
+                        <TableCell>{closure.reason || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onDeleteClosure(closure.id)}
+                            disabled={deletingClosureId === closure.id}
+                            className="h-8 w-8 text-destructive hover:text-destructive-foreground hover:bg-destructive/10 dark:hover:bg-destructive/20"
+                            aria-label="Delete closure"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminDashboardLayout>
+  );
+}
@@ -14,7 +14,7 @@ import Link from "next/link";
 export default function AdminDashboardPage() {
   const { user, isAuthenticated, isStaff, hasPermission } = useAuth();
   const { data: checkoutsData, isLoading: checkoutsLoading } = useCheckouts(1, 5, "all");
-  const { data: booksData, isLoading: booksLoading } = useBooks(1, 5);
+  const { data: booksData, isLoading: booksLoading } = useBooks(5);
 
   if (!isAuthenticated) {
     return (
@@ -0,0 +1,500 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import type {
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateWithAuthor,
+  RenderedEmail,
+} from "@/lib/server/types";
+import { format } from "date-fns";
+import { ArrowLeft, RotateCcw, Send } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const languageLabels: Record<string, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+const sourceLabels = {
+  locale: "Custom",
+  fallback: "Using English version",
+  default: "Built-in text",
+};
+
+interface EmailTemplateDetails {
+  definition: EmailTemplateDefinition;
+  content: EmailTemplateContent;
+  source: keyof typeof sourceLabels;
+  versions: EmailTemplateWithAuthor[];
+  smtpAvailable: boolean;
+}
+
+export default function EmailTemplateEditorPage() {
+  const router = useRouter();
+  const key = router.query.key as string | undefined;
+  const { hasPermission, user } = useAuth();
+  const [locale, setLocale] = useState("en");
+  const [details, setDetails] = useState<EmailTemplateDetails | null>(null);
+  // Unsaved changes; null while the editor shows the content in use
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewMode, setPreviewMode] = useState<"html" | "text">("html");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTestDialogOpen, setIsTestDialogOpen] = useState(false);
+  const [testRecipient, setTestRecipient] = useState<string | null>(null);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+
+  const content = draft ?? details?.content ?? null;
+
+  const fetchTemplate = useCallback(async () => {
+    if (!key) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}?locale=${locale}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to fetch email template");
+      }
+      setDetails(await response.json());
+      setDraft(null);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load email template");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [key, locale]);
+
+  useEffect(() => {
+    if (!hasPermission("user:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchTemplate();
+  }, [hasPermission, router, fetchTemplate]);
+
+  // Re-render the preview shortly after typing stops
+  useEffect(() => {
+    if (!key || !content) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/admin/email-templates/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, locale, ...content }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setPreviewError(data.error || "Failed to render preview");
+          return;
+        }
+        setPreview(data.email);
+        setPreviewError(null);
+      } catch {
+        setPreviewError("Failed to render preview");
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [key, locale, content]);
+
+  const updateContent = (changes: Partial<EmailTemplateContent>) => {
+    if (!content) return;
+    setDraft({ ...content, ...changes });
+  };
+
+  const onSave = async () => {
+    if (!content) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locale, ...content }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save email template");
+      }
+
+      const { template } = await response.json();
+      toast.success(`Saved version ${template.version}`);
+      fetchTemplate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save email template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onRestore = async (templateId: string, version: number) => {
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to restore version");
+      }
+
+      toast.success(`Version ${version} is now active`);
+      fetchTemplate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore version");
+    }
+  };
+
+  const onReset = async () => {
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}?locale=${locale}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to revert email template");
+      }
+
+      toast.success("Reverted to the default text");
+      fetchTemplate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revert email template");
+    }
+  };
+
+  const recipient = testRecipient ?? user?.email ?? "";
+
+  const onSendTest = async () => {
+    if (!content) return;
+    setIsSendingTest(true);
+    try {
+      const response = await fetch("/api/admin/email-templates/test-send", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: recipient, key, locale, ...content }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send test email");
+      }
+
+      toast.success(data.message);
+      setIsTestDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test email");
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  if (!hasPermission("user:manage")) {
+    return null;
+  }
+
+  const definition = details?.definition;
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title={definition ? definition.name : "Email Template"}
+        description={definition?.description}
+        actions={
+          <Link href="/admin/email-templates">
+            <Button variant="outline">
+              <ArrowLeft className="size-4 mr-1" />
+              All Templates
+            </Button>
+          </Link>
+        }
+      />
+      {isLoading && !details ? (
+        <Skeleton className="h-96 w-full" />
+      ) : !details || !content || !definition ? (
+        <div className="text-center py-12">
+          <p className="text-destructive">Email template not found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {/* Editor */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle>Content</CardTitle>
+                  <Badge variant={details.source === "locale" ? "default" : "outline"}>
+                    {sourceLabels[details.source]}
+                  </Badge>
+                </div>
+                <CardDescription>
+                  Use {"{{name}}"} for values, {"{{#name}}...{{/name}}"} for text shown only when a value is set.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-locale">Language</Label>
+                  <Select value={locale} onValueChange={setLocale}>
+                    <SelectTrigger id="template-locale" className="w-full md:w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(languageLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={content.subject}
+                    onChange={(e) => updateContent({ subject: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-title">Heading</Label>
+                  <Input
+                    id="template-title"
+                    value={content.title}
+                    onChange={(e) => updateContent({ title: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-html">HTML Body</Label>
+                  <Textarea
+                    id="template-html"
+                    value={content.html}
+                    onChange={(e) => updateContent({ html: e.target.value })}
+                    className="min-h-64 font-mono text-xs"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-text">Plain Text Body</Label>
+                  <Textarea
+                    id="template-text"
+                    value={content.text}
+                    onChange={(e) => updateContent({ text: e.target.value })}
+                    className="min-h-40 font-mono text-xs"
+                    disabled={isSaving}
+                  />
+                  <p className="text-xs text-muted-foreground">Shown by mail clients that don&apos;t display HTML.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Available Values</Label>
+                  <ul className="text-sm space-y-1">
+                    {Object.entries({ appName: "Library name", ...definition.variables }).map(([name, description]) => (
+                      <li key={name}>
+                        <code className="text-xs bg-muted rounded px-1 py-0.5">{`{{${name}}}`}</code>{" "}
+                        <span className="text-muted-foreground">{description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  {details.source === "locale" && (
+                    <Button variant="outline" onClick={onReset} disabled={isSaving}>
+                      <RotateCcw className="size-4 mr-1" />
+                      Revert to Default
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsTestDialogOpen(true)}
+                    disabled={!details.smtpAvailable || isSaving}
+                    title={details.smtpAvailable ? undefined : "SMTP_HOST is not configured"}
+                  >
+                    <Send className="size-4 mr-1" />
+                    Send Test
+                  </Button>
+                  <Button onClick={onSave} disabled={isSaving || !!previewError}>
+                    {isSaving ? "Saving..." : "Save Version"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle>Preview</CardTitle>
+                  <div className="flex gap-1">
+                    <Button
+                      variant={previewMode === "html" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setPreviewMode("html")}
+                    >
+                      HTML
+                    </Button>
+                    <Button
+                      variant={previewMode === "text" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setPreviewMode("text")}
+                    >
+                      Plain Text
+                    </Button>
+                  </div>
+                </div>
+                <CardDescription>Rendered with sample values</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+                {preview ? (
+                  <>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Subject:</span> {preview.subject}
+                    </p>
+                    {previewMode === "html" ? (
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-[640px] rounded-md border bg-white"
+                      />
+                    ) : (
+                      <pre className="whitespace-pre-wrap rounded-md border p-4 text-sm">{preview.text}</pre>
+                    )}
+                  </>
+                ) : (
+                  <Skeleton className="h-[640px] w-full" />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Version History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Version History</CardTitle>
+              <CardDescription>Saved versions for {languageLabels[locale]}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {details.versions.length === 0 ? (
+                <p className="py-4 text-center text-muted-foreground">No saved versions yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Subject</TableHead>
+                        <TableHead>Saved By</TableHead>
+                        <TableHead>Saved</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {details.versions.map((version) => (
+                        <TableRow key={version.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              v{version.version}
+                              {version.isActive && <Badge>Active</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate">{version.subject}</TableCell>
+                          <TableCell>{version.createdBy?.name || version.createdBy?.email || "—"}</TableCell>
+                          <TableCell>{format(new Date(version.createdAt), "MMM dd, yyyy HH:mm")}</TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setDraft({
+                                  subject: version.subject,
+                                  title: version.title,
+                                  html: version.html,
+                                  text: version.text,
+                                })
+                              }
+                            >
+                              Load
+                            </Button>
+                            {!version.isActive && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onRestore(version.id, version.version)}
+                              >
+                                Restore
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Test Send Dialog */}
+      <Dialog open={isTestDialogOpen} onOpenChange={setIsTestDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Send Test Email</DialogTitle>
+            <DialogDescription>
+              Sends the current content with sample values to the local SMTP server. Real recipients are never used.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="test-recipient">Recipient</Label>
+            <Input
+              id="test-recipient"
+              type="email"
+              value={recipient}
+              onChange={(e) => setTestRecipient(e.target.value)}
+              disabled={isSendingTest}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsTestDialogOpen(false)} disabled={isSendingTest}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={onSendTest} disabled={isSendingTest || !recipient}>
+              {isSendingTest ? "Sending..." : "Send"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminDashboardLayout>
+  );
+}
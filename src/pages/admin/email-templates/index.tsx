@@ -0,0 +1,125 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { Pencil } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface EmailTemplateSummary {
+  key: string;
+  name: string;
+  description: string;
+  activeVersions: { locale: string; version: number; updatedAt: string }[];
+}
+
+export default function EmailTemplatesPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [locales, setLocales] = useState<Record<string, string>>({});
+  const [smtpAvailable, setSmtpAvailable] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/email-templates");
+      if (!response.ok) throw new Error("Failed to fetch email templates");
+      const data = await response.json();
+      setTemplates(data.templates);
+      setLocales(data.locales);
+      setSmtpAvailable(data.smtpAvailable);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load email templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission("user:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchTemplates();
+  }, [hasPermission, router, fetchTemplates]);
+
+  if (!hasPermission("user:manage")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Email Templates"
+        description="Wording of the emails sent to patrons and staff. Emails without a saved version use the built-in text."
+      />
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          {!isLoading && !smtpAvailable && (
+            <p className="text-sm text-muted-foreground">
+              Set SMTP_HOST to a local mail catcher (such as Mailpit) to send test emails from the editor.
+            </p>
+          )}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Customized Languages</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.key}>
+                      <TableCell>
+                        <div className="font-medium">{template.name}</div>
+                        <div className="text-sm text-muted-foreground">{template.description}</div>
+                      </TableCell>
+                      <TableCell>
+                        {template.activeVersions.length === 0 ? (
+                          <span className="text-muted-foreground">Default</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {template.activeVersions.map((active) => (
+                              <Badge key={active.locale} variant="secondary">
+                                {locales[active.locale] || active.locale} v{active.version}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/admin/email-templates/${template.key}`}>
+                          <Button variant="outline" size="sm">
+                            <Pencil className="size-4 mr-1" />
+                            Edit
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AdminDashboardLayout>
+  );
+}
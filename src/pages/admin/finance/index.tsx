@@ -0,0 +1,495 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Pagination } from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import type { LedgerEntryWithRelations, PatronBalance } from "@/lib/server/types";
+import type { LedgerEntryType } from "@prisma/client";
+import { format } from "date-fns";
+import { Plus, Receipt, Search } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface FinanceSummary {
+  totalOutstanding: number;
+  patronsWithBalance: number;
+  paymentsCollected: number;
+  amountWaived: number;
+  blockThreshold: number;
+}
+
+interface PatronLedger {
+  patron: { id: string; name: string | null; email: string | null };
+  balance: number;
+  entries: LedgerEntryWithRelations[];
+}
+
+const entryTypeLabels: Record<LedgerEntryType, string> = {
+  CHARGE: "Charge",
+  PAYMENT: "Payment",
+  WAIVER: "Waiver",
+  ADJUSTMENT: "Adjustment",
+};
+
+function formatCurrency(amount: number) {
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export default function FinanceManagementPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [summary, setSummary] = useState<FinanceSummary | null>(null);
+  const [balances, setBalances] = useState<PatronBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const [ledger, setLedger] = useState<PatronLedger | null>(null);
+  const [isLedgerOpen, setIsLedgerOpen] = useState(false);
+  const [isLedgerLoading, setIsLedgerLoading] = useState(false);
+
+  const [isEntryDialogOpen, setIsEntryDialogOpen] = useState(false);
+  const [entryEmail, setEntryEmail] = useState("");
+  const [entryType, setEntryType] = useState<LedgerEntryType>("PAYMENT");
+  const [entryAmount, setEntryAmount] = useState("");
+  const [entryReason, setEntryReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/finance/summary");
+      if (!response.ok) throw new Error("Failed to fetch finance summary");
+      const data = await response.json();
+      setSummary(data.summary);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load finance summary");
+    }
+  }, []);
+
+  const fetchBalances = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(searchQuery && { search: searchQuery }),
+      });
+      const response = await fetch(`/api/admin/finance/balances?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch balances");
+      const data = await response.json();
+      setBalances(data.balances);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load balances");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, searchQuery]);
+
+  const fetchLedger = useCallback(async (userId: string) => {
+    setIsLedgerLoading(true);
+    try {
+      const response = await fetch(`/api/admin/finance/patrons/${userId}?limit=50`);
+      if (!response.ok) throw new Error("Failed to fetch ledger");
+      const data = await response.json();
+      setLedger(data);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load ledger");
+    } finally {
+      setIsLedgerLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission("finance:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchSummary();
+    fetchBalances();
+  }, [hasPermission, router, fetchSummary, fetchBalances]);
+
+  const handleViewLedger = (userId: string) => {
+    setLedger(null);
+    setIsLedgerOpen(true);
+    fetchLedger(userId);
+  };
+
+  const openEntryDialog = (type: LedgerEntryType, email = "") => {
+    setEntryType(type);
+    setEntryEmail(email);
+    setEntryAmount("");
+    setEntryReason("");
+    setIsEntryDialogOpen(true);
+  };
+
+  const onSubmitEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(entryAmount);
+    if (Number.isNaN(amount)) {
+      toast.error("Enter a valid amount");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/admin/finance/entries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(ledger && isLedgerOpen ? { userId: ledger.patron.id } : { email: entryEmail }),
+          type: entryType,
+          amount,
+          ...(entryReason && { reason: entryReason }),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to record entry");
+      }
+
+      toast.success(`${entryTypeLabels[entryType]} recorded`);
+      setIsEntryDialogOpen(false);
+      fetchSummary();
+      fetchBalances();
+      if (ledger && isLedgerOpen) {
+        fetchLedger(ledger.patron.id);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record entry");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!hasPermission("finance:manage")) {
+    return null;
+  }
+
+  const recordingForLedger = !!ledger && isLedgerOpen;
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Finance"
+        description="Fines, payments and waivers for library patrons"
+        actions={
+          <Button onClick={() => openEntryDialog("CHARGE")}>
+            <Plus className="size-4 mr-2" />
+            New Charge
+          </Button>
+        }
+      />
+      <div className="space-y-4">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Outstanding</CardTitle>
+              <CardDescription>Owed by {summary?.patronsWithBalance ?? 0} patrons</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary ? (
+                <div className="text-3xl font-bold">{formatCurrency(summary.totalOutstanding)}</div>
+              ) : (
+                <Skeleton className="h-8 w-24" />
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Collected</CardTitle>
+              <CardDescription>Payments in the last 30 days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary ? (
+                <div className="text-3xl font-bold">{formatCurrency(summary.paymentsCollected)}</div>
+              ) : (
+                <Skeleton className="h-8 w-24" />
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Waived</CardTitle>
+              <CardDescription>Waivers in the last 30 days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary ? (
+                <div className="text-3xl font-bold">{formatCurrency(summary.amountWaived)}</div>
+              ) : (
+                <Skeleton className="h-8 w-24" />
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Checkout Block</CardTitle>
+              <CardDescription>Balance that blocks new checkouts</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary ? (
+                <div className="text-3xl font-bold">{formatCurrency(summary.blockThreshold)}</div>
+              ) : (
+                <Skeleton className="h-8 w-24" />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Search */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground size-4" />
+              <Input
+                placeholder="Search patrons by name or email..."
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Balances Table */}
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : balances.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No patrons with an outstanding balance</p>
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Patron</TableHead>
+                        <TableHead>Balance</TableHead>
+                        <TableHead>Last Activity</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {balances.map((entry) => (
+                        <TableRow key={entry.user.id}>
+                          <TableCell>
+                            <div className="font-medium">{entry.user.name || "No name"}</div>
+                            <div className="text-sm text-muted-foreground">{entry.user.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{formatCurrency(entry.balance)}</span>
+                              {summary && entry.balance > summary.blockThreshold && (
+                                <Badge variant="destructive">Blocked</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {entry.lastEntryAt ? format(new Date(entry.lastEntryAt), "MMM dd, yyyy") : "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="outline" size="sm" onClick={() => handleViewLedger(entry.user.id)}>
+                              <Receipt className="size-4 mr-1" />
+                              Ledger
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {totalPages > 1 && (
+                  <div className="mt-4">
+                    <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Patron Ledger Dialog */}
+      <Dialog open={isLedgerOpen} onOpenChange={setIsLedgerOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{ledger?.patron.name || ledger?.patron.email || "Patron Ledger"}</DialogTitle>
+            <DialogDescription>
+              {ledger ? `Current balance: ${formatCurrency(ledger.balance)}` : "Loading ledger..."}
+            </DialogDescription>
+          </DialogHeader>
+          {isLedgerLoading && !ledger ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : ledger && ledger.entries.length > 0 ? (
+            <div className="max-h-96 overflow-y-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Recorded By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(entry.createdAt), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.type === "CHARGE" ? "secondary" : "outline"}>
+                          {entryTypeLabels[entry.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">{formatCurrency(Number(entry.amount))}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{entry.reason || "—"}</div>
+                        {entry.checkout && (
+                          <div className="text-xs text-muted-foreground">{entry.checkout.book.title}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.actor ? entry.actor.name || entry.actor.email : "System"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-6 text-center">No ledger entries</p>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => openEntryDialog("ADJUSTMENT")} disabled={!ledger}>
+              Adjust
+            </Button>
+            <Button variant="outline" onClick={() => openEntryDialog("WAIVER")} disabled={!ledger}>
+              Waive
+            </Button>
+            <Button variant="outline" onClick={() => openEntryDialog("CHARGE")} disabled={!ledger}>
+              Charge
+            </Button>
+            <Button onClick={() => openEntryDialog("PAYMENT")} disabled={!ledger}>
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Record Entry Dialog */}
+      <Dialog open={isEntryDialogOpen} onOpenChange={setIsEntryDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record {entryTypeLabels[entryType]}</DialogTitle>
+            <DialogDescription>
+              {recordingForLedger
+                ? `For ${ledger.patron.name || ledger.patron.email}`
+                : "Enter the patron's email address"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={onSubmitEntry} className="space-y-4">
+            {!recordingForLedger && (
+              <div className="space-y-2">
+                <Label htmlFor="entry-email">Patron Email</Label>
+                <Input
+                  id="entry-email"
+                  type="email"
+                  value={entryEmail}
+                  onChange={(e) => setEntryEmail(e.target.value)}
+                  disabled={isSaving}
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="entry-type">Type</Label>
+              <Select value={entryType} onValueChange={(value) => setEntryType(value as LedgerEntryType)}>
+                <SelectTrigger id="entry-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(entryTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-amount">Amount</Label>
+              <Input
+                id="entry-amount"
+                type="number"
+                step="0.01"
+                value={entryAmount}
+                onChange={(e) => setEntryAmount(e.target.value)}
+                disabled={isSaving}
+                required
+              />
+              {entryType === "ADJUSTMENT" && (
+                <p className="text-xs text-muted-foreground">
+                  Positive amounts increase what the patron owes, negative amounts reduce it.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-reason">
+                Reason{entryType === "WAIVER" || entryType === "ADJUSTMENT" ? "" : " (optional)"}
+              </Label>
+              <Textarea
+                id="entry-reason"
+                value={entryReason}
+                onChange={(e) => setEntryReason(e.target.value)}
+                disabled={isSaving}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEntryDialogOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : `Record ${entryTypeLabels[entryType]}`}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminDashboardLayout>
+  );
+}
@@ -0,0 +1,619 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import type { CatalogTag, GenreWithSynonyms } from "@/lib/server/types";
+import { Edit, GitMerge, Pencil, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+const NO_PARENT = "none";
+
+const genreSchema = z.object({
+  name: z.string().trim().min(1, "Genre name is required"),
+  parentId: z.string(),
+  synonyms: z.string(),
+  description: z.string(),
+});
+
+type GenreFormData = z.infer<typeof genreSchema>;
+
+const emptyGenre: GenreFormData = {
+  name: "",
+  parentId: NO_PARENT,
+  synonyms: "",
+  description: "",
+};
+
+interface GenreRow {
+  genre: GenreWithSynonyms;
+  depth: number;
+}
+
+// Orders genres as a tree: each genre is followed by its subgenres, alphabetically at every level
+function toGenreRows(genres: GenreWithSynonyms[]): GenreRow[] {
+  const ids = new Set(genres.map((genre) => genre.id));
+  const rows: GenreRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const genre of genres) {
+      const isChild = parentId === null ? !genre.parentId || !ids.has(genre.parentId) : genre.parentId === parentId;
+      if (isChild) {
+        rows.push({ genre, depth });
+        visit(genre.id, depth + 1);
+      }
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
+
+// A genre and everything below it, which can't become its parent
+function getSubtreeIds(genres: GenreWithSynonyms[], id: string): Set<string> {
+  const subtree = new Set([id]);
+  let size = 0;
+  while (size !== subtree.size) {
+    size = subtree.size;
+    for (const genre of genres) {
+      if (genre.parentId && subtree.has(genre.parentId)) subtree.add(genre.id);
+    }
+  }
+  return subtree;
+}
+
+export default function GenresPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [genres, setGenres] = useState<GenreWithSynonyms[]>([]);
+  const [tags, setTags] = useState<CatalogTag[]>([]);
+  const [tagQuery, setTagQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
+  const [selectedGenre, setSelectedGenre] = useState<GenreWithSynonyms | null>(null);
+  const [selectedTag, setSelectedTag] = useState<CatalogTag | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [newTagName, setNewTagName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<GenreFormData>({
+    resolver: zodResolver(genreSchema),
+    defaultValues: emptyGenre,
+  });
+
+  const parentId = watch("parentId");
+  const genreRows = useMemo(() => toGenreRows(genres), [genres]);
+  const parentOptions = useMemo(() => {
+    const excluded = selectedGenre ? getSubtreeIds(genres, selectedGenre.id) : new Set<string>();
+    return genreRows.filter((row) => !excluded.has(row.genre.id));
+  }, [genres, genreRows, selectedGenre]);
+
+  const fetchGenres = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/genres");
+      if (!response.ok) throw new Error("Failed to fetch genres");
+      const data = await response.json();
+      setGenres(data.genres);
+    } catch {
+      toast.error("Failed to load genres");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchTags = useCallback(async (query: string) => {
+    try {
+      const params = new URLSearchParams({ q: query });
+      const response = await fetch(`/api/admin/tags?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch tags");
+      const data = await response.json();
+      setTags(data.tags);
+    } catch {
+      toast.error("Failed to load tags");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission("book:update")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchGenres();
+  }, [hasPermission, router, fetchGenres]);
+
+  useEffect(() => {
+    if (!hasPermission("book:update")) return;
+    const timeout = setTimeout(() => fetchTags(tagQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [hasPermission, fetchTags, tagQuery]);
+
+  const handleCreateGenre = () => {
+    setSelectedGenre(null);
+    reset(emptyGenre);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEditGenre = (genre: GenreWithSynonyms) => {
+    setSelectedGenre(genre);
+    reset({
+      name: genre.name,
+      parentId: genre.parentId || NO_PARENT,
+      synonyms: genre.synonyms.map((synonym) => synonym.name).join(", "),
+      description: genre.description || "",
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleMergeGenre = (genre: GenreWithSynonyms) => {
+    setSelectedGenre(genre);
+    setMergeTargetId("");
+    setIsMergeDialogOpen(true);
+  };
+
+  const handleDeleteGenre = (genre: GenreWithSynonyms) => {
+    setSelectedGenre(genre);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const handleRenameTag = (tag: CatalogTag) => {
+    setSelectedTag(tag);
+    setNewTagName(tag.name);
+    setIsRenameDialogOpen(true);
+  };
+
+  const onSubmit = async (data: GenreFormData) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(selectedGenre ? `/api/admin/genres/${selectedGenre.id}` : "/api/admin/genres", {
+        method: selectedGenre ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: data.name,
+          parentId: data.parentId === NO_PARENT ? null : data.parentId,
+          description: data.description.trim() || null,
+          synonyms: data.synonyms
+            .split(",")
+            .map((synonym) => synonym.trim())
+            .filter(Boolean),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save genre");
+      }
+
+      toast.success(selectedGenre ? "Genre updated successfully" : "Genre created successfully");
+      setIsFormDialogOpen(false);
+      fetchGenres();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save genre");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onConfirmMerge = async () => {
+    if (!selectedGenre || !mergeTargetId) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/genres/${selectedGenre.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetId: mergeTargetId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to merge genres");
+      }
+
+      const data = await response.json();
+      toast.success(
+        `Merged ${selectedGenre.name}; ${data.bookCount} ${data.bookCount === 1 ? "book" : "books"} updated`
+      );
+      setIsMergeDialogOpen(false);
+      fetchGenres();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge genres");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onConfirmDelete = async () => {
+    if (!selectedGenre) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/genres/${selectedGenre.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to delete genre");
+      }
+
+      toast.success("Genre deleted successfully");
+      setIsDeleteDialogOpen(false);
+      fetchGenres();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete genre");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onConfirmRename = async () => {
+    if (!selectedTag || !newTagName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/admin/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from: selectedTag.name, to: newTagName }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to rename tag");
+      }
+
+      const data = await response.json();
+      toast.success(
+        data.genre
+          ? `Moved ${selectedTag.name} into the ${data.genre} genre`
+          : `Renamed ${selectedTag.name} on ${data.bookCount} ${data.bookCount === 1 ? "book" : "books"}`
+      );
+      setIsRenameDialogOpen(false);
+      fetchTags(tagQuery);
+      if (data.genre) fetchGenres();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename tag");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!hasPermission("book:update")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Genres & Tags"
+        description="The genre vocabulary books are filed under, and the free-text tags in the catalog"
+        actions={
+          <Button onClick={handleCreateGenre}>
+            <Plus className="size-4 mr-2" />
+            Add Genre
+          </Button>
+        }
+      />
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Genres</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : genreRows.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No genres yet. Genres are added as books are catalogued.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Genre</TableHead>
+                      <TableHead>Synonyms</TableHead>
+                      <TableHead>Books</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {genreRows.map(({ genre, depth }) => (
+                      <TableRow key={genre.id}>
+                        <TableCell>
+                          <div className="font-medium" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                            {genre.name}
+                          </div>
+                          {genre.description && (
+                            <div
+                              className="text-sm text-muted-foreground line-clamp-1"
+                              style={{ paddingLeft: `${depth * 1.5}rem` }}
+                            >
+                              {genre.description}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {genre.synonyms.map((synonym) => (
+                              <Badge key={synonym.id} variant="outline">
+                                {synonym.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>{genre.bookCount}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => handleEditGenre(genre)}>
+                              <Edit className="size-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleMergeGenre(genre)}
+                              disabled={genres.length < 2}
+                            >
+                              <GitMerge className="size-4 mr-1" />
+                              Merge
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteGenre(genre)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="size-4 mr-1" />
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tags</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              value={tagQuery}
+              onChange={(e) => setTagQuery(e.target.value)}
+              placeholder="Search tags..."
+              className="max-w-sm"
+            />
+            {tags.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No tags found.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tag</TableHead>
+                      <TableHead>Books</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tags.map((tag) => (
+                      <TableRow key={tag.name}>
+                        <TableCell className="font-medium">{tag.name}</TableCell>
+                        <TableCell>{tag.bookCount}</TableCell>
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => handleRenameTag(tag)}>
+                            <Pencil className="size-4 mr-1" />
+                            Rename
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create/Edit Genre Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedGenre ? "Edit Genre" : "Add Genre"}</DialogTitle>
+            <DialogDescription>
+              Books, imports and metadata suggestions using any of a genre&apos;s synonyms are filed under it. Renaming
+              a genre keeps the old name as a synonym.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="genre-name">Name</Label>
+                <Input id="genre-name" {...register("name")} placeholder="e.g., Science Fiction" disabled={isSaving} />
+                {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="genre-parent">Parent</Label>
+                <Select value={parentId} onValueChange={(value) => setValue("parentId", value)} disabled={isSaving}>
+                  <SelectTrigger id="genre-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                    {parentOptions.map(({ genre, depth }) => (
+                      <SelectItem key={genre.id} value={genre.id}>
+                        {"\u00a0".repeat(depth * 3)}
+                        {genre.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="genre-synonyms">Synonyms</Label>
+              <Input id="genre-synonyms" {...register("synonyms")} placeholder="e.g., Sci-Fi, SF" disabled={isSaving} />
+              <p className="text-xs text-muted-foreground">Separate names with commas.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="genre-description">Description</Label>
+              <Textarea id="genre-description" {...register("description")} rows={3} disabled={isSaving} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : selectedGenre ? "Save Changes" : "Add Genre"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Genre Dialog */}
+      <Dialog open={isMergeDialogOpen} onOpenChange={setIsMergeDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Merge Genre</DialogTitle>
+            <DialogDescription>
+              Every book, subgenre and synonym of {selectedGenre?.name} moves to the genre you choose, and{" "}
+              {selectedGenre?.name} becomes one of its synonyms. Circulation policies follow the merge.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="merge-target">Merge Into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId} disabled={isSaving}>
+              <SelectTrigger id="merge-target">
+                <SelectValue placeholder="Choose a genre" />
+              </SelectTrigger>
+              <SelectContent>
+                {genreRows
+                  .filter(({ genre }) => genre.id !== selectedGenre?.id)
+                  .map(({ genre, depth }) => (
+                    <SelectItem key={genre.id} value={genre.id}>
+                      {"\u00a0".repeat(depth * 3)}
+                      {genre.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsMergeDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={onConfirmMerge} disabled={isSaving || !mergeTargetId}>
+              {isSaving ? "Merging..." : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Genre Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Genre</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {selectedGenre?.name}? It is removed from {selectedGenre?.bookCount ?? 0}{" "}
+              {selectedGenre?.bookCount === 1 ? "book" : "books"}, and its subgenres move up a level. To keep its books
+              filed, merge it instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={onConfirmDelete} disabled={isSaving}>
+              {isSaving ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rename Tag Dialog */}
+      <Dialog open={isRenameDialogOpen} onOpenChange={setIsRenameDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename Tag</DialogTitle>
+            <DialogDescription>
+              Renames {selectedTag?.name} on {selectedTag?.bookCount ?? 0}{" "}
+              {selectedTag?.bookCount === 1 ? "book" : "books"}. Use an existing tag&apos;s name to merge the two, or a
+              genre&apos;s name to file those books under that genre.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">New Name</Label>
+            <Input
+              id="tag-name"
+              list="tag-rename-options"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              disabled={isSaving}
+            />
+            <datalist id="tag-rename-options">
+              {genres.map((genre) => (
+                <option key={genre.id} value={genre.name} />
+              ))}
+              {tags
+                .filter((tag) => tag.name !== selectedTag?.name)
+                .map((tag) => (
+                  <option key={tag.name} value={tag.name} />
+                ))}
+            </datalist>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsRenameDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={onConfirmRename} disabled={isSaving || !newTagName.trim()}>
+              {isSaving ? "Saving..." : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminDashboardLayout>
+  );
+}
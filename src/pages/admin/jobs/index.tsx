@@ -0,0 +1,300 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Pagination } from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import type { JobRunStatus, JobTrigger } from "@prisma/client";
+import { format } from "date-fns";
+import { Play } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface JobRun {
+  id: string;
+  job: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+interface Job {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  lastRun: JobRun | null;
+}
+
+const statusVariants: Record<JobRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  RUNNING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+  SKIPPED: "outline",
+};
+
+const triggerLabels: Record<JobTrigger, string> = {
+  SCHEDULER: "Scheduler",
+  CRON: "Cron",
+  MANUAL: "Manual",
+};
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return "—";
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatInterval(minutes: number) {
+  return minutes % 60 === 0 ? `Every ${minutes / 60}h` : `Every ${minutes}m`;
+}
+
+export default function BackgroundJobsPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [jobFilter, setJobFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(jobFilter !== "all" && { job: jobFilter }),
+      });
+      const response = await fetch(`/api/admin/jobs?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch background jobs");
+      const data = await response.json();
+      setJobs(data.jobs);
+      setRuns(data.runs);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load background jobs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, jobFilter]);
+
+  useEffect(() => {
+    if (!hasPermission("checkout:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchJobs();
+  }, [hasPermission, router, fetchJobs]);
+
+  const onRunJob = async (job: string) => {
+    setRunningJob(job);
+    try {
+      const response = await fetch("/api/admin/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ job }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to run job");
+      }
+
+      const { run } = (await response.json()) as { run: JobRun };
+      if (run.status === "SUCCEEDED") {
+        toast.success(`${job} finished in ${formatDuration(run.durationMs)}`);
+      } else if (run.status === "SKIPPED") {
+        toast.info(`${job} is already running`);
+      } else {
+        toast.error(run.error || `${job} failed`);
+      }
+      fetchJobs();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run job");
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  if (!hasPermission("checkout:manage")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Background Jobs"
+        description="Scheduled maintenance such as the overdue sweep. Jobs run on a timer in the server or from the cron endpoint."
+      />
+      <div className="space-y-4">
+        {/* Jobs */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>Registered jobs and their most recent run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && jobs.length === 0 ? (
+              <div className="space-y-2">
+                {Array.from({ length: 2 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Interval</TableHead>
+                      <TableHead>Last Run</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobs.map((job) => (
+                      <TableRow key={job.name}>
+                        <TableCell>
+                          <div className="font-medium">{job.name}</div>
+                          <div className="text-sm text-muted-foreground">{job.description}</div>
+                        </TableCell>
+                        <TableCell>{formatInterval(job.intervalMinutes)}</TableCell>
+                        <TableCell>
+                          {job.lastRun ? (
+                            <div className="flex items-center gap-2">
+                              <Badge variant={statusVariants[job.lastRun.status]}>{job.lastRun.status}</Badge>
+                              <span className="text-sm text-muted-foreground">
+                                {format(new Date(job.lastRun.startedAt), "MMM dd, HH:mm")}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Never</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRunJob(job.name)}
+                            disabled={runningJob !== null}
+                          >
+                            <Play className="size-4 mr-1" />
+                            {runningJob === job.name ? "Running..." : "Run Now"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Run History */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle>Run History</CardTitle>
+                <CardDescription>Every scheduled, cron and manual run</CardDescription>
+              </div>
+              <Select
+                value={jobFilter}
+                onValueChange={(value) => {
+                  setJobFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="All jobs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.name} value={job.name}>
+                      {job.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : runs.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No runs yet</p>
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Job</TableHead>
+                        <TableHead>Trigger</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Duration</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {runs.map((run) => (
+                        <TableRow key={run.id}>
+                          <TableCell className="font-medium">{run.job}</TableCell>
+                          <TableCell>{triggerLabels[run.trigger]}</TableCell>
+                          <TableCell>
+                            <Badge variant={statusVariants[run.status]}>{run.status}</Badge>
+                          </TableCell>
+                          <TableCell>{format(new Date(run.startedAt), "MMM dd, yyyy HH:mm:ss")}</TableCell>
+                          <TableCell>{formatDuration(run.durationMs)}</TableCell>
+                          <TableCell className="text-sm">
+                            {run.error ? (
+                              <span className="text-destructive">{run.error}</span>
+                            ) : run.result ? (
+                              <div className="space-y-0.5">
+                                {Object.entries(run.result).map(([key, value]) => (
+                                  <div key={key}>
+                                    <span className="text-muted-foreground">{key}:</span> {String(value)}
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {totalPages > 1 && (
+                  <div className="mt-4">
+                    <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminDashboardLayout>
+  );
+}
@@ -0,0 +1,213 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Pagination } from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import type { NotificationWithUser } from "@/lib/server/types";
+import type { NotificationChannel, NotificationEvent, NotificationStatus } from "@prisma/client";
+import { format } from "date-fns";
+import { Search } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const eventLabels: Record<NotificationEvent, string> = {
+  DUE_SOON: "Due Soon",
+  OVERDUE: "Overdue",
+  HOLD_READY: "Hold Ready",
+  NEW_ARRIVAL: "New Arrival",
+  WELCOME: "Welcome",
+};
+
+const channelLabels: Record<NotificationChannel, string> = {
+  EMAIL: "Email",
+  IN_APP: "In-app",
+};
+
+const statusVariants: Record<NotificationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "secondary",
+  SENT: "default",
+  FAILED: "destructive",
+  SKIPPED: "outline",
+};
+
+export default function NotificationsManagementPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [notifications, setNotifications] = useState<NotificationWithUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [eventFilter, setEventFilter] = useState("all");
+  const [channelFilter, setChannelFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const fetchNotifications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(searchQuery && { search: searchQuery }),
+        ...(eventFilter !== "all" && { event: eventFilter }),
+        ...(channelFilter !== "all" && { channel: channelFilter }),
+        ...(statusFilter !== "all" && { status: statusFilter }),
+      });
+      const response = await fetch(`/api/admin/notifications?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch notifications");
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load notifications");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, searchQuery, eventFilter, channelFilter, statusFilter]);
+
+  useEffect(() => {
+    if (!hasPermission("user:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchNotifications();
+  }, [hasPermission, router, fetchNotifications]);
+
+  // Any filter change goes back to the first page
+  const withPageReset = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  if (!hasPermission("user:manage")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader title="Notifications" description="Every message sent to patrons and whether it was delivered" />
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by patron name or email..."
+                value={searchQuery}
+                onChange={(e) => withPageReset(setSearchQuery)(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={eventFilter} onValueChange={withPageReset(setEventFilter)}>
+              <SelectTrigger className="w-full lg:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {Object.entries(eventLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={channelFilter} onValueChange={withPageReset(setChannelFilter)}>
+              <SelectTrigger className="w-full lg:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                {Object.entries(channelLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={withPageReset(setStatusFilter)}>
+              <SelectTrigger className="w-full lg:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.keys(statusVariants).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No notifications found</p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Patron</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Message</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Created</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {notifications.map((notification) => (
+                      <TableRow key={notification.id}>
+                        <TableCell>
+                          <div className="font-medium">{notification.user.name || "No name"}</div>
+                          <div className="text-sm text-muted-foreground">{notification.user.email}</div>
+                        </TableCell>
+                        <TableCell>{eventLabels[notification.event]}</TableCell>
+                        <TableCell>{channelLabels[notification.channel]}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="font-medium">{notification.title}</div>
+                          <div className="text-sm text-muted-foreground truncate">{notification.message}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[notification.status]}>{notification.status}</Badge>
+                          {notification.error && (
+                            <div className="text-xs text-muted-foreground mt-1">{notification.error}</div>
+                          )}
+                          {notification.channel === "IN_APP" && notification.readAt && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Read {format(new Date(notification.readAt), "MMM dd, HH:mm")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{format(new Date(notification.createdAt), "MMM dd, yyyy HH:mm")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {totalPages > 1 && (
+                <div className="mt-4">
+                  <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </AdminDashboardLayout>
+  );
+}
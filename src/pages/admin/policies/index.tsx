@@ -0,0 +1,476 @@
+import { AdminDashboardLayout } from "@/components/layout/AdminDashboardLayout";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import type { CirculationPolicyWithRole } from "@/lib/server/types";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+const ALL_ROLES = "all";
+
+const policySchema = z.object({
+  name: z.string().min(1, "Policy name is required"),
+  roleId: z.string(),
+  genre: z.string().optional(),
+  loanDays: z.number({ message: "Loan period is required" }).int().min(1, "Loan period must be at least 1 day"),
+  maxRenewals: z.number({ message: "Renewals are required" }).int().min(0),
+  lateFeePerDay: z.number({ message: "Daily fee is required" }).min(0),
+  maxLateFee: z.number().min(0).nullable(),
+  graceDays: z.number({ message: "Grace days are required" }).int().min(0),
+  checkoutLimit: z.number().int().min(1, "Limit must be at least 1").nullable(),
+  priority: z.number().int(),
+});
+
+type PolicyFormData = z.infer<typeof policySchema>;
+
+// Wire format: policy Decimal columns are serialized as strings
+type Policy = Omit<CirculationPolicyWithRole, "lateFeePerDay" | "maxLateFee"> & {
+  lateFeePerDay: string;
+  maxLateFee: string | null;
+};
+
+interface RoleOption {
+  id: string;
+  name: string;
+}
+
+const emptyPolicy: PolicyFormData = {
+  name: "",
+  roleId: ALL_ROLES,
+  genre: "",
+  loanDays: 14,
+  maxRenewals: 2,
+  lateFeePerDay: 0.5,
+  maxLateFee: null,
+  graceDays: 0,
+  checkoutLimit: null,
+  priority: 0,
+};
+
+// Blank optional number inputs mean "no value" rather than NaN
+const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+export default function CirculationPoliciesPage() {
+  const router = useRouter();
+  const { hasPermission } = useAuth();
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [genres, setGenres] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedPolicy, setSelectedPolicy] = useState<Policy | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<PolicyFormData>({
+    resolver: zodResolver(policySchema),
+    defaultValues: emptyPolicy,
+  });
+
+  const roleId = watch("roleId");
+
+  const fetchPolicies = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/policies");
+      if (!response.ok) throw new Error("Failed to fetch policies");
+      const data = await response.json();
+      setPolicies(data.policies);
+      setRoles(data.roles);
+      setGenres(data.genres);
+    } catch {
+      toast.error("Failed to load circulation policies");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission("checkout:manage")) {
+      router.push("/admin/dashboard");
+      return;
+    }
+    fetchPolicies();
+  }, [hasPermission, router, fetchPolicies]);
+
+  const handleCreatePolicy = () => {
+    setSelectedPolicy(null);
+    reset(emptyPolicy);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEditPolicy = (policy: Policy) => {
+    setSelectedPolicy(policy);
+    reset({
+      name: policy.name,
+      roleId: policy.roleId || ALL_ROLES,
+      genre: policy.genre || "",
+      loanDays: policy.loanDays,
+      maxRenewals: policy.maxRenewals,
+      lateFeePerDay: Number(policy.lateFeePerDay),
+      maxLateFee: policy.maxLateFee === null ? null : Number(policy.maxLateFee),
+      graceDays: policy.graceDays,
+      checkoutLimit: policy.checkoutLimit,
+      priority: policy.priority,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleDeletePolicy = (policy: Policy) => {
+    setSelectedPolicy(policy);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const onSubmit = async (data: PolicyFormData) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        selectedPolicy ? `/api/admin/policies/${selectedPolicy.id}` : "/api/admin/policies",
+        {
+          method: selectedPolicy ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...data,
+            roleId: data.roleId === ALL_ROLES ? null : data.roleId,
+            genre: data.genre || null,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save policy");
+      }
+
+      toast.success(selectedPolicy ? "Policy updated successfully" : "Policy created successfully");
+      setIsFormDialogOpen(false);
+      fetchPolicies();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onConfirmDelete = async () => {
+    if (!selectedPolicy) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/admin/policies/${selectedPolicy.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to delete policy");
+      }
+
+      toast.success("Policy deleted successfully");
+      setIsDeleteDialogOpen(false);
+      fetchPolicies();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete policy");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!hasPermission("checkout:manage")) {
+    return null;
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <PageHeader
+        title="Circulation Policies"
+        description="Loan periods, renewals, fees and limits by role and genre"
+        actions={
+          <Button onClick={handleCreatePolicy}>
+            <Plus className="size-4 mr-2" />
+            Create Policy
+          </Button>
+        }
+      />
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : policies.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No policies found. Built-in defaults apply to every loan.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Policy</TableHead>
+                      <TableHead>Applies To</TableHead>
+                      <TableHead>Loan</TableHead>
+                      <TableHead>Fees</TableHead>
+                      <TableHead>Limit</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map((policy) => (
+                      <TableRow key={policy.id}>
+                        <TableCell>
+                          <div className="font-medium">{policy.name}</div>
+                          {policy.priority !== 0 && (
+                            <div className="text-sm text-muted-foreground">Priority {policy.priority}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={policy.role ? "secondary" : "outline"}>
+                              {policy.role?.name || "All roles"}
+                            </Badge>
+                            <Badge variant={policy.genre ? "secondary" : "outline"}>
+                              {policy.genre || "All genres"}
+                            </Badge>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{policy.loanDays} days</div>
+                          <div className="text-sm text-muted-foreground">
+                            {policy.maxRenewals} {policy.maxRenewals === 1 ? "renewal" : "renewals"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">${Number(policy.lateFeePerDay).toFixed(2)}/day</div>
+                          <div className="text-sm text-muted-foreground">
+                            {policy.maxLateFee !== null ? `Max $${Number(policy.maxLateFee).toFixed(2)}` : "No cap"}
+                            {policy.graceDays > 0 && `, ${policy.graceDays} grace days`}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            {policy.checkoutLimit !== null ? `${policy.checkoutLimit} books` : "Patron limit"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => handleEditPolicy(policy)}>
+                              <Edit className="size-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeletePolicy(policy)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="size-4 mr-1" />
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create/Edit Policy Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedPolicy ? "Edit Policy" : "Create Policy"}</DialogTitle>
+            <DialogDescription>
+              The most specific policy for a patron&apos;s role and the book&apos;s genre applies. Changes only affect
+              new checkouts.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Policy Name</Label>
+              <Input id="policy-name" {...register("name")} placeholder="e.g., Staff loans" disabled={isSaving} />
+              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-role">Role</Label>
+                <Select value={roleId} onValueChange={(value) => setValue("roleId", value)} disabled={isSaving}>
+                  <SelectTrigger id="policy-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ROLES}>All roles</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-genre">Genre</Label>
+                <Input
+                  id="policy-genre"
+                  list="policy-genres"
+                  {...register("genre")}
+                  placeholder="All genres"
+                  disabled={isSaving}
+                />
+                <datalist id="policy-genres">
+                  {genres.map((genre) => (
+                    <option key={genre} value={genre} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-loan-days">Loan Days</Label>
+                <Input
+                  id="policy-loan-days"
+                  type="number"
+                  {...register("loanDays", { valueAsNumber: true })}
+                  disabled={isSaving}
+                />
+                {errors.loanDays && <p className="text-sm text-destructive">{errors.loanDays.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-renewals">Max Renewals</Label>
+                <Input
+                  id="policy-renewals"
+                  type="number"
+                  {...register("maxRenewals", { valueAsNumber: true })}
+                  disabled={isSaving}
+                />
+                {errors.maxRenewals && <p className="text-sm text-destructive">{errors.maxRenewals.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-checkout-limit">Checkout Limit</Label>
+                <Input
+                  id="policy-checkout-limit"
+                  type="number"
+                  placeholder="Patron limit"
+                  {...register("checkoutLimit", { setValueAs: optionalNumber })}
+                  disabled={isSaving}
+                />
+                {errors.checkoutLimit && <p className="text-sm text-destructive">{errors.checkoutLimit.message}</p>}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-fee">Daily Late Fee</Label>
+                <Input
+                  id="policy-fee"
+                  type="number"
+                  step="0.01"
+                  {...register("lateFeePerDay", { valueAsNumber: true })}
+                  disabled={isSaving}
+                />
+                {errors.lateFeePerDay && <p className="text-sm text-destructive">{errors.lateFeePerDay.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-max-fee">Max Late Fee</Label>
+                <Input
+                  id="policy-max-fee"
+                  type="number"
+                  step="0.01"
+                  placeholder="No cap"
+                  {...register("maxLateFee", { setValueAs: optionalNumber })}
+                  disabled={isSaving}
+                />
+                {errors.maxLateFee && <p className="text-sm text-destructive">{errors.maxLateFee.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-grace">Grace Days</Label>
+                <Input
+                  id="policy-grace"
+                  type="number"
+                  {...register("graceDays", { valueAsNumber: true })}
+                  disabled={isSaving}
+                />
+                {errors.graceDays && <p className="text-sm text-destructive">{errors.graceDays.message}</p>}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-priority">Priority</Label>
+              <Input
+                id="policy-priority"
+                type="number"
+                {...register("priority", { valueAsNumber: true })}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Breaks ties when a patron has several roles with matching policies. Higher wins.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : selectedPolicy ? "Save Changes" : "Create Policy"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Policy Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Policy</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {selectedPolicy?.name}? Existing checkouts keep their terms; new checkouts
+              will use the next matching policy.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={onConfirmDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminDashboardLayout>
+  );
+}
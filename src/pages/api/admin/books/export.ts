@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  BOOK_EXPORT_FILE_TYPES,
+  BOOK_EXPORT_FORMATS,
+  createAuthHandler,
+  isBookExportFormat,
+  parseBookSearchFilters,
+  streamBookExport,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+export const config = {
+  api: {
+    // Exports are streamed and can be much larger than Next's 4 MB response warning
+    responseLimit: false,
+  },
+};
+
+/**
+ * GET /api/admin/books/export - Download the catalog as CSV, JSON Lines or MARC21
+ * ?format=csv|jsonl|marc21 (csv by default); search filters (q, genres, minYear, ...) narrow the export
+ * Includes chapters, copies and availability for each book
+ * Requires: book:read permission and the Admin role
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:read") || !user.roles.includes("Admin")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to export the catalog",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const { format = "csv" } = req.query;
+    if (!isBookExportFormat(format)) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: `Format must be one of: ${BOOK_EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const filters = parseBookSearchFilters(req.query);
+    const { contentType, extension } = BOOK_EXPORT_FILE_TYPES[format];
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="catalog-${date}.${extension}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    try {
+      for await (const chunk of streamBookExport(filters, format)) {
+        // Wait for the client to catch up rather than buffering the whole catalog
+        if (!res.write(chunk)) {
+          await new Promise<void>((resolve) => {
+            const done = () => {
+              res.off("drain", done);
+              res.off("close", done);
+              resolve();
+            };
+            res.on("drain", done);
+            res.on("close", done);
+          });
+        }
+        // The client went away
+        if (res.destroyed) return;
+      }
+      res.end();
+    } catch (error) {
+      console.error("Error exporting books:", error);
+      if (!res.headersSent) {
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to export books",
+        });
+      }
+      // Part of the file has been sent; cut the response so the download shows as failed
+      res.destroy();
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:read"],
+    requireRoles: ["Admin"],
+  }
+);
@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { BOOK_IMPORT_BATCH_SIZE, commitBookImportBatch, createAuthHandler } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const bookSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  author: z.string().trim().min(1),
+  isbn: z
+    .string()
+    .regex(/^(\d{9}[\dX]|\d{13})$/, "ISBN must have 10 or 13 digits")
+    .optional(),
+  description: z.string().optional(),
+  summary: z.string().optional(),
+  publisher: z.string().optional(),
+  publicationYear: z.number().int().min(0).optional(),
+  genre: z.string().optional(),
+  tags: z.array(z.string()).max(20).optional(),
+  pageCount: z.number().int().positive().optional(),
+  language: z.string().optional(),
+  coverImageUrl: z.string().url().optional(),
+  copyCount: z.number().int().min(0).max(100).optional(),
+});
+
+const commitSchema = z.object({
+  rows: z
+    .array(z.object({ rowNumber: z.number().int(), book: bookSchema }))
+    .min(1, "No rows to import")
+    .max(BOOK_IMPORT_BATCH_SIZE, `Send at most ${BOOK_IMPORT_BATCH_SIZE} rows per batch`),
+  duplicateStrategy: z.enum(["skip", "update"]).default("skip"),
+});
+
+/**
+ * POST /api/admin/books/import/commit - Save one batch of previewed import rows
+ * Each batch is a single transaction; returns the outcome of every row
+ * Requires: book:create permission (and book:update to update existing books)
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:create")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to import books",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = commitSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { rows, duplicateStrategy } = validationResult.data;
+
+    if (duplicateStrategy === "update" && !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to update existing books",
+      });
+    }
+
+    try {
+      const results = await commitBookImportBatch(rows, duplicateStrategy);
+      return res.status(HttpStatusCodes.OK).json({ results });
+    } catch (error) {
+      console.error("Error committing book import:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to import books",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:create"],
+  }
+);
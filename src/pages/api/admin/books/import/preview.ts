@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { BOOK_IMPORT_FIELDS, createAuthHandler, previewBookImport } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { BookImportField } from "@/lib/server/types";
+import * as z from "zod";
+
+export const config = {
+  api: {
+    // Base64 of a file up to about 7 MB
+    bodyParser: { sizeLimit: "10mb" },
+  },
+};
+
+const previewSchema = z.object({
+  format: z.enum(["csv", "marc21", "marcxml"]),
+  data: z.string().min(1, "File is empty"), // Base64 file contents
+  mapping: z
+    .partialRecord(z.enum(BOOK_IMPORT_FIELDS as [BookImportField, ...BookImportField[]]), z.string())
+    .optional(),
+  duplicateStrategy: z.enum(["skip", "update"]).default("skip"),
+});
+
+/**
+ * POST /api/admin/books/import/preview - Dry run of a CSV, MARC21 or MARCXML import
+ * Returns each row's planned action (create, update, skip or invalid) with errors and field changes
+ * Requires: book:create permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:create")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to import books",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = previewSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { format, data, mapping, duplicateStrategy } = validationResult.data;
+
+    try {
+      const preview = await previewBookImport({
+        format,
+        data: Buffer.from(data, "base64"),
+        mapping,
+        duplicateStrategy,
+      });
+
+      return res.status(HttpStatusCodes.OK).json({ preview });
+    } catch (error) {
+      console.error("Error previewing book import:", error);
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: error instanceof Error ? error.message : "Failed to read import file",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:create"],
+  }
+);
@@ -0,0 +1,162 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createAuthHandler,
+  findBooksByIsbn,
+  generateCopyBarcode,
+  isValidIsbn,
+  lookupBookMetadata,
+  mergeBookMetadata,
+  parseAuthorCredit,
+  prisma,
+  resolveBookAuthors,
+  resolveBookGenreUpdate,
+  resolveBookGenres,
+  resolvePublisher,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { BookMetadataField } from "@/lib/server/types";
+import * as z from "zod";
+
+// Each ISBN can take a few seconds per provider
+const MAX_ISBNS = 25;
+
+const metadataSchema = z.object({
+  isbns: z.array(z.string().min(1)).min(1, "Enter at least one ISBN").max(MAX_ISBNS),
+  copyCount: z.number().int().min(0).max(100).default(1), // Copies created for books not yet in the catalog
+});
+
+interface IsbnResult {
+  isbn: string;
+  status: "created" | "updated" | "unchanged" | "invalid" | "not_found" | "incomplete";
+  bookId?: string;
+  filled?: BookMetadataField[];
+}
+
+/**
+ * POST /api/admin/books/metadata - Add or complete catalog books from ISBN lookups
+ * Books already in the catalog only get their empty fields filled; new books need a title and author
+ * Requires: book:create and book:update permissions
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:create") || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to add books by ISBN",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = metadataSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { isbns, copyCount } = validationResult.data;
+    const results: IsbnResult[] = [];
+
+    try {
+      for (const isbn of isbns) {
+        if (!isValidIsbn(isbn)) {
+          results.push({ isbn, status: "invalid" });
+          continue;
+        }
+
+        const lookup = await lookupBookMetadata(isbn);
+        if (!lookup) {
+          results.push({ isbn, status: "not_found" });
+          continue;
+        }
+
+        // Stored ISBNs may be in either form
+        const existingByIsbn = await findBooksByIsbn([lookup.isbn13, ...(lookup.isbn10 ? [lookup.isbn10] : [])]);
+        const existing =
+          existingByIsbn.get(lookup.isbn13) ?? (lookup.isbn10 ? existingByIsbn.get(lookup.isbn10) : undefined);
+
+        if (existing) {
+          const { values, filled } = mergeBookMetadata(existing, lookup.metadata);
+          if (filled.length > 0) {
+            await prisma.$transaction(async (tx) => {
+              // Provider subjects are mapped onto the genre vocabulary, never added to it
+              const genres = await resolveBookGenreUpdate(
+                tx,
+                existing,
+                {
+                  ...(filled.includes("genre") && { genre: values.genre }),
+                  ...(filled.includes("tags") && { tags: values.tags }),
+                },
+                { createMissing: false }
+              );
+              return tx.book.update({
+                where: { id: existing.id },
+                data: {
+                  ...values,
+                  ...(filled.includes("publisher") && (await resolvePublisher(tx, values.publisher))),
+                  ...(genres && {
+                    genre: genres.genre,
+                    genres: { deleteMany: {}, create: genres.genres },
+                    tags: genres.tags,
+                  }),
+                },
+              });
+            });
+          }
+          results.push({ isbn, status: filled.length > 0 ? "updated" : "unchanged", bookId: existing.id, filled });
+          continue;
+        }
+
+        const { title, author, ...metadata } = lookup.metadata;
+        const credits = parseAuthorCredit(author ?? "");
+        if (!title || credits.length === 0) {
+          results.push({ isbn, status: "incomplete" });
+          continue;
+        }
+
+        const book = await prisma.$transaction(async (tx) => {
+          const authors = await resolveBookAuthors(tx, credits);
+          const genres = await resolveBookGenres(tx, metadata.genre ? [metadata.genre] : [], metadata.tags, {
+            createMissing: false,
+          });
+          return tx.book.create({
+            data: {
+              ...metadata,
+              title,
+              author: authors.credit,
+              authors: { create: authors.authors },
+              genre: genres.genre,
+              genres: { create: genres.genres },
+              tags: genres.tags,
+              ...(await resolvePublisher(tx, metadata.publisher)),
+              isbn: lookup.isbn13,
+              status: copyCount > 0 ? "AVAILABLE" : "CHECKED_OUT",
+              copies: {
+                create: Array.from({ length: copyCount }, () => ({ barcode: generateCopyBarcode() })),
+              },
+            },
+          });
+        });
+        results.push({ isbn, status: "created", bookId: book.id });
+      }
+
+      return res.status(HttpStatusCodes.OK).json({ results });
+    } catch (error) {
+      console.error("Error adding books by ISBN:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to add books by ISBN",
+        results,
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:create", "book:update"],
+    requireAllPermissions: true,
+  }
+);
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, deleteClosure } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+/**
+ * DELETE /api/admin/calendar/closures/[id] - Remove a closure
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage the library calendar",
+      });
+    }
+
+    if (req.method !== "DELETE") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    try {
+      await deleteClosure(req.query.id as string);
+
+      return res.status(HttpStatusCodes.OK).json({
+        message: "Closure deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting closure:", error);
+      return res.status(HttpStatusCodes.NOT_FOUND).json({
+        error: error instanceof Error ? error.message : "Failed to delete closure",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, createClosure, validateClosure } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const createClosureSchema = z.object({
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().optional(),
+  reason: z.string().max(200).optional(),
+});
+
+/**
+ * POST /api/admin/calendar/closures - Record a closure such as a holiday
+ * Active loans due during the closure are moved to the next open day
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage the library calendar",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = createClosureSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const closureError = validateClosure(validationResult.data);
+    if (closureError) {
+      return res.status(closureError.statusCode).json({
+        error: closureError.message,
+        code: closureError.code,
+      });
+    }
+
+    try {
+      const closure = await createClosure(validationResult.data);
+
+      return res.status(HttpStatusCodes.CREATED).json({ closure });
+    } catch (error) {
+      console.error("Error creating closure:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: error instanceof Error ? error.message : "Failed to create closure",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
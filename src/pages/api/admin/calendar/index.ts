@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createAuthHandler,
+  getClosures,
+  getWeeklySchedule,
+  updateWeeklySchedule,
+  validateWeeklySchedule,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const updateScheduleSchema = z.object({
+  days: z
+    .array(
+      z.object({
+        dayOfWeek: z.number().int().min(0).max(6),
+        isOpen: z.boolean(),
+        opensAt: z.string().optional().nullable(),
+        closesAt: z.string().optional().nullable(),
+      })
+    )
+    .min(1, "At least one day is required")
+    .max(7),
+});
+
+/**
+ * GET /api/admin/calendar - Weekly opening hours and upcoming closures
+ * PUT /api/admin/calendar - Update weekly opening hours
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage the library calendar",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const [schedule, closures] = await Promise.all([getWeeklySchedule(), getClosures(req.query.all !== "true")]);
+
+        return res.status(HttpStatusCodes.OK).json({ schedule, closures });
+      } catch (error) {
+        console.error("Error fetching library calendar:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch library calendar",
+        });
+      }
+    }
+
+    if (req.method === "PUT") {
+      const validationResult = updateScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const { days } = validationResult.data;
+
+      const scheduleError = await validateWeeklySchedule(days);
+      if (scheduleError) {
+        return res.status(scheduleError.statusCode).json({
+          error: scheduleError.message,
+          code: scheduleError.code,
+        });
+      }
+
+      try {
+        const schedule = await updateWeeklySchedule(days);
+
+        return res.status(HttpStatusCodes.OK).json({ schedule });
+      } catch (error) {
+        console.error("Error updating library hours:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: error instanceof Error ? error.message : "Failed to update library hours",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
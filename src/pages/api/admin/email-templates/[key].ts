@@ -0,0 +1,165 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  activateEmailTemplateVersion,
+  createAuthHandler,
+  createEmailTemplateVersion,
+  getEffectiveEmailTemplate,
+  getEmailTemplateDefinition,
+  getEmailTemplateVersions,
+  resetEmailTemplate,
+  validateEmailTemplate,
+} from "@/lib/server";
+import { isSmtpAvailable } from "@/lib/server/email";
+import { HttpStatusCodes, createEmailTemplateNotFoundError } from "@/lib/server/errors";
+import * as z from "zod";
+
+const localeSchema = z
+  .string()
+  .refine((locale) => locale in EMAIL_LOCALES, "Unsupported language")
+  .default(DEFAULT_EMAIL_LOCALE);
+
+const saveTemplateSchema = z.object({
+  locale: localeSchema,
+  subject: z.string().min(1, "Subject is required").max(300),
+  title: z.string().max(300),
+  html: z.string().max(100000),
+  text: z.string().max(50000),
+});
+
+const activateVersionSchema = z.object({
+  templateId: z.string().min(1, "Template version is required"),
+});
+
+/**
+ * GET /api/admin/email-templates/[key]?locale= - Content in use for a language and its saved versions
+ * POST /api/admin/email-templates/[key] - Save a new version and make it active
+ * PUT /api/admin/email-templates/[key] - Restore an earlier version
+ * DELETE /api/admin/email-templates/[key]?locale= - Revert a language to the built-in wording
+ * Requires: user:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("user:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage email templates",
+      });
+    }
+
+    const definition = getEmailTemplateDefinition(req.query.key as string);
+    if (!definition) {
+      const notFoundError = createEmailTemplateNotFoundError(req.query.key as string);
+      return res.status(notFoundError.statusCode).json({
+        error: notFoundError.message,
+        code: notFoundError.code,
+      });
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const localeResult = localeSchema.safeParse(req.query.locale);
+      if (!localeResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: localeResult.error.issues,
+        });
+      }
+      const locale = localeResult.data;
+
+      if (req.method === "DELETE") {
+        try {
+          await resetEmailTemplate(definition.key, locale);
+
+          return res.status(HttpStatusCodes.OK).json({
+            message: "Email template reverted to default",
+          });
+        } catch (error) {
+          console.error("Error resetting email template:", error);
+          return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+            error: "Failed to reset email template",
+          });
+        }
+      }
+
+      try {
+        const [{ content, template }, versions] = await Promise.all([
+          getEffectiveEmailTemplate(definition.key, locale),
+          getEmailTemplateVersions(definition.key, locale),
+        ]);
+
+        return res.status(HttpStatusCodes.OK).json({
+          definition,
+          content,
+          // Where the content comes from: this language, the English version, or the built-in wording
+          source: !template ? "default" : template.locale === locale ? "locale" : "fallback",
+          versions,
+          smtpAvailable: isSmtpAvailable(),
+        });
+      } catch (error) {
+        console.error("Error fetching email template:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch email template",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = saveTemplateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const input = { key: definition.key, ...validationResult.data };
+      const templateError = validateEmailTemplate(input);
+      if (templateError) {
+        return res.status(templateError.statusCode).json({
+          error: templateError.message,
+          code: templateError.code,
+        });
+      }
+
+      try {
+        const template = await createEmailTemplateVersion(input, user.id);
+
+        return res.status(HttpStatusCodes.CREATED).json({ template });
+      } catch (error) {
+        console.error("Error saving email template:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: error instanceof Error ? error.message : "Failed to save email template",
+        });
+      }
+    }
+
+    if (req.method === "PUT") {
+      const validationResult = activateVersionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      try {
+        const template = await activateEmailTemplateVersion(definition.key, validationResult.data.templateId);
+
+        return res.status(HttpStatusCodes.OK).json({ template });
+      } catch (error) {
+        console.error("Error restoring email template version:", error);
+        return res.status(HttpStatusCodes.NOT_FOUND).json({
+          error: error instanceof Error ? error.message : "Failed to restore email template version",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["user:manage"],
+  }
+);
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { EMAIL_LOCALES, createAuthHandler, getEmailTemplateSummaries } from "@/lib/server";
+import { isSmtpAvailable } from "@/lib/server/email";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+/**
+ * GET /api/admin/email-templates - Customizable emails with their active version per language
+ * Requires: user:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("user:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage email templates",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    try {
+      const templates = await getEmailTemplateSummaries();
+
+      return res.status(HttpStatusCodes.OK).json({
+        templates,
+        locales: EMAIL_LOCALES,
+        smtpAvailable: isSmtpAvailable(),
+      });
+    } catch (error) {
+      console.error("Error fetching email templates:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch email templates",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["user:manage"],
+  }
+);
@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  createAuthHandler,
+  getEmailTemplateDefinition,
+  renderEmailContent,
+  validateEmailTemplate,
+} from "@/lib/server";
+import { HttpStatusCodes, createEmailTemplateNotFoundError } from "@/lib/server/errors";
+import * as z from "zod";
+
+const previewSchema = z.object({
+  key: z.string().min(1, "Template is required"),
+  locale: z.string().default(DEFAULT_EMAIL_LOCALE),
+  subject: z.string().max(300),
+  title: z.string().max(300),
+  html: z.string().max(100000),
+  text: z.string().max(50000),
+});
+
+/**
+ * POST /api/admin/email-templates/preview - Render unsaved template content with sample values
+ * Requires: user:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("user:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage email templates",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = previewSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const input = validationResult.data;
+    const definition = getEmailTemplateDefinition(input.key);
+    if (!definition) {
+      const notFoundError = createEmailTemplateNotFoundError(input.key);
+      return res.status(notFoundError.statusCode).json({
+        error: notFoundError.message,
+        code: notFoundError.code,
+      });
+    }
+
+    const templateError = validateEmailTemplate({ ...input, key: definition.key });
+    if (templateError) {
+      return res.status(templateError.statusCode).json({
+        error: templateError.message,
+        code: templateError.code,
+      });
+    }
+
+    const email = renderEmailContent(input, definition.sample, input.locale);
+
+    return res.status(HttpStatusCodes.OK).json({ email });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["user:manage"],
+  }
+);
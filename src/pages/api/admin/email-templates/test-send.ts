@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  createAuthHandler,
+  getEmailTemplateDefinition,
+  renderEmailContent,
+  validateEmailTemplate,
+} from "@/lib/server";
+import { isSmtpAvailable, sendTestEmail } from "@/lib/server/email";
+import { HttpStatusCodes, createEmailTemplateNotFoundError, createSmtpNotConfiguredError } from "@/lib/server/errors";
+import * as z from "zod";
+
+const testSendSchema = z.object({
+  to: z.string().email("Invalid email address"),
+  key: z.string().min(1, "Template is required"),
+  locale: z.string().default(DEFAULT_EMAIL_LOCALE),
+  subject: z.string().max(300),
+  title: z.string().max(300),
+  html: z.string().max(100000),
+  text: z.string().max(50000),
+});
+
+/**
+ * POST /api/admin/email-templates/test-send - Send template content with sample values to the local SMTP sink
+ * Requires: user:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("user:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage email templates",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    if (!isSmtpAvailable()) {
+      const smtpError = createSmtpNotConfiguredError();
+      return res.status(smtpError.statusCode).json({
+        error: smtpError.message,
+        code: smtpError.code,
+      });
+    }
+
+    const validationResult = testSendSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { to, ...input } = validationResult.data;
+    const definition = getEmailTemplateDefinition(input.key);
+    if (!definition) {
+      const notFoundError = createEmailTemplateNotFoundError(input.key);
+      return res.status(notFoundError.statusCode).json({
+        error: notFoundError.message,
+        code: notFoundError.code,
+      });
+    }
+
+    const templateError = validateEmailTemplate({ ...input, key: definition.key });
+    if (templateError) {
+      return res.status(templateError.statusCode).json({
+        error: templateError.message,
+        code: templateError.code,
+      });
+    }
+
+    const result = await sendTestEmail(to, renderEmailContent(input, definition.sample, input.locale));
+
+    if (!result.success) {
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: result.error || "Failed to send test email",
+      });
+    }
+
+    return res.status(HttpStatusCodes.OK).json({
+      message: `Test email sent to ${to}`,
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["user:manage"],
+  }
+);
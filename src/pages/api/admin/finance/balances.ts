@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, getPatronBalances } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+/**
+ * GET /api/admin/finance/balances - List patrons with a non-zero balance
+ * Requires: finance:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("finance:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage finances",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    try {
+      const { page = "1", limit = "20", search = "" } = req.query;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const { balances, total } = await getPatronBalances(pageNum, limitNum, (search as string) || undefined);
+
+      return res.status(HttpStatusCodes.OK).json({
+        balances,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching balances:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch balances",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["finance:manage"],
+  }
+);
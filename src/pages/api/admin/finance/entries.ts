@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, createAuthHandler, recordLedgerEntry } from "@/lib/server";
+import { FinanceErrorCodes, HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const createEntrySchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.string().email("Invalid email address").optional(), // Alternative to userId for patrons with no history
+    type: z.enum(["CHARGE", "PAYMENT", "WAIVER", "ADJUSTMENT"]),
+    amount: z.number(),
+    reason: z.string().max(500).optional(),
+    checkoutId: z.string().optional(),
+  })
+  .refine((data) => data.userId || data.email, { message: "User ID or email is required", path: ["userId"] });
+
+/**
+ * POST /api/admin/finance/entries - Record a charge, payment, waiver or adjustment
+ * Requires: finance:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("finance:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage finances",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = createEntrySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { email, userId: bodyUserId, ...data } = validationResult.data;
+
+    let userId = bodyUserId;
+    if (!userId && email) {
+      const patron = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true },
+      });
+
+      if (!patron) {
+        return res.status(HttpStatusCodes.NOT_FOUND).json({
+          error: "No user with that email address",
+        });
+      }
+
+      userId = patron.id;
+    }
+
+    // The signed-in staff member is always recorded as the actor
+    const input = { ...data, userId: userId!, actorId: user.id };
+
+    try {
+      const entry = await recordLedgerEntry(input);
+      if ("statusCode" in entry) {
+        return res.status(entry.statusCode).json({
+          error: entry.message,
+          code: entry.code,
+        });
+      }
+
+      return res.status(HttpStatusCodes.CREATED).json({ entry });
+    } catch (error) {
+      console.error("Error recording ledger entry:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to record ledger entry",
+        code: FinanceErrorCodes.LEDGER_ENTRY_FAILED,
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["finance:manage"],
+  }
+);
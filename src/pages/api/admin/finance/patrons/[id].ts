@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, createAuthHandler, getLedgerEntries, getUserBalance } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+/**
+ * GET /api/admin/finance/patrons/[id] - Patron balance and ledger history
+ * Requires: finance:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("finance:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage finances",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const { id, page = "1", limit = "20" } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    try {
+      const patron = await prisma.user.findUnique({
+        where: { id: id as string },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      });
+
+      if (!patron) {
+        return res.status(HttpStatusCodes.NOT_FOUND).json({
+          error: "User not found",
+        });
+      }
+
+      const [balance, { entries, total }] = await Promise.all([
+        getUserBalance(patron.id),
+        getLedgerEntries(patron.id, pageNum, limitNum),
+      ]);
+
+      return res.status(HttpStatusCodes.OK).json({
+        patron,
+        balance,
+        entries,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching patron ledger:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch patron ledger",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["finance:manage"],
+  }
+);
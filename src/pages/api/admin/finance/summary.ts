@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, getFinanceSummary } from "@/lib/server";
+import { FINES_BLOCK_THRESHOLD } from "@/lib/server/constants/env";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+/**
+ * GET /api/admin/finance/summary - Outstanding fines and recent payments/waivers
+ * Requires: finance:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("finance:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage finances",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    try {
+      const { days = "30" } = req.query;
+      const summary = await getFinanceSummary(parseInt(days as string, 10) || 30);
+
+      return res.status(HttpStatusCodes.OK).json({
+        summary: {
+          ...summary,
+          blockThreshold: FINES_BLOCK_THRESHOLD,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching finance summary:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch finance summary",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["finance:manage"],
+  }
+);
@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, deleteGenre, updateGenre, validateGenre } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const updateGenreSchema = z.object({
+  name: z.string().trim().min(1, "Genre name is required").max(100),
+  parentId: z.string().optional().nullable(),
+  description: z.string().max(2000).optional().nullable(),
+  synonyms: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+/**
+ * PUT /api/admin/genres/[id] - Rename, move or edit a genre; the old name is kept as a synonym
+ * DELETE /api/admin/genres/[id] - Delete a genre; its subgenres move up a level
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage genres",
+      });
+    }
+
+    const id = req.query.id as string;
+
+    if (req.method === "PUT") {
+      const validationResult = updateGenreSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const genreError = await validateGenre(validationResult.data, id);
+      if (genreError) {
+        return res.status(genreError.statusCode).json({
+          error: genreError.message,
+          code: genreError.code,
+        });
+      }
+
+      try {
+        const genre = await updateGenre(id, validationResult.data);
+
+        return res.status(HttpStatusCodes.OK).json({ genre });
+      } catch (error) {
+        console.error("Error updating genre:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to update genre",
+        });
+      }
+    }
+
+    if (req.method === "DELETE") {
+      try {
+        await deleteGenre(id);
+
+        return res.status(HttpStatusCodes.OK).json({
+          message: "Genre deleted successfully",
+        });
+      } catch (error) {
+        console.error("Error deleting genre:", error);
+        return res.status(HttpStatusCodes.NOT_FOUND).json({
+          error: error instanceof Error ? error.message : "Failed to delete genre",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, mergeGenres, validateGenreMerge } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const mergeSchema = z.object({
+  targetId: z.string().min(1, "Choose a genre to merge into"),
+});
+
+/**
+ * POST /api/admin/genres/[id]/merge - Merge this genre into another across the catalog
+ * Its books, subgenres and synonyms move to the target, and its name becomes a synonym of the target
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage genres",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const id = req.query.id as string;
+    const validationResult = mergeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const mergeError = await validateGenreMerge(id, validationResult.data.targetId);
+    if (mergeError) {
+      return res.status(mergeError.statusCode).json({
+        error: mergeError.message,
+        code: mergeError.code,
+      });
+    }
+
+    try {
+      const result = await mergeGenres(id, validationResult.data.targetId);
+
+      return res.status(HttpStatusCodes.OK).json(result);
+    } catch (error) {
+      console.error("Error merging genres:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to merge genres",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, createGenre, getGenres, validateGenre } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const createGenreSchema = z.object({
+  name: z.string().trim().min(1, "Genre name is required").max(100),
+  parentId: z.string().optional().nullable(),
+  description: z.string().max(2000).optional().nullable(),
+  synonyms: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+/**
+ * GET /api/admin/genres - List the genre vocabulary with synonyms and book counts
+ * POST /api/admin/genres - Add a genre
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage genres",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const genres = await getGenres();
+
+        return res.status(HttpStatusCodes.OK).json({ genres });
+      } catch (error) {
+        console.error("Error fetching genres:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch genres",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = createGenreSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const genreError = await validateGenre(validationResult.data);
+      if (genreError) {
+        return res.status(genreError.statusCode).json({
+          error: genreError.message,
+          code: genreError.code,
+        });
+      }
+
+      try {
+        const genre = await createGenre(validationResult.data);
+
+        return res.status(HttpStatusCodes.CREATED).json({ genre });
+      } catch (error) {
+        console.error("Error creating genre:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to create genre",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
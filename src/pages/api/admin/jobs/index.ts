@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createAuthHandler,
+  createJobNotFoundError,
+  getBackgroundJob,
+  getJobRuns,
+  getJobSummaries,
+  runBackgroundJob,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const runJobSchema = z.object({
+  job: z.string().min(1, "Job is required"),
+});
+
+/**
+ * GET /api/admin/jobs - Registered background jobs and recent runs
+ * POST /api/admin/jobs - Run a background job now
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage background jobs",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+        const job = typeof req.query.job === "string" && req.query.job ? req.query.job : undefined;
+
+        const [jobs, { runs, total }] = await Promise.all([getJobSummaries(), getJobRuns(page, limit, job)]);
+
+        return res.status(HttpStatusCodes.OK).json({
+          jobs,
+          runs,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        });
+      } catch (error) {
+        console.error("Error fetching background jobs:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch background jobs",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = runJobSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const { job } = validationResult.data;
+
+      if (!getBackgroundJob(job)) {
+        const jobError = createJobNotFoundError(job);
+        return res.status(jobError.statusCode).json({
+          error: jobError.message,
+          code: jobError.code,
+        });
+      }
+
+      try {
+        const run = await runBackgroundJob(job, "MANUAL");
+
+        return res.status(HttpStatusCodes.OK).json({ run });
+      } catch (error) {
+        console.error("Error running background job:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: error instanceof Error ? error.message : "Failed to run background job",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
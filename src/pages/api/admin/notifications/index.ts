@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, getNotificationLog } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const filtersSchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  search: z.string().optional(),
+  event: z.enum(["DUE_SOON", "OVERDUE", "HOLD_READY", "NEW_ARRIVAL", "WELCOME"]).optional(),
+  channel: z.enum(["EMAIL", "IN_APP"]).optional(),
+  status: z.enum(["PENDING", "SENT", "FAILED", "SKIPPED"]).optional(),
+});
+
+/**
+ * GET /api/admin/notifications - Notification log with delivery status
+ * Requires: user:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("user:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to view notifications",
+      });
+    }
+
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = filtersSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    try {
+      const { page = 1, limit = 20, ...filters } = validationResult.data;
+      const { notifications, total } = await getNotificationLog({ page, limit, ...filters });
+
+      return res.status(HttpStatusCodes.OK).json({
+        notifications,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching notification log:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch notifications",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["user:manage"],
+  }
+);
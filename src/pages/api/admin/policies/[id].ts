@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createAuthHandler,
+  deleteCirculationPolicy,
+  updateCirculationPolicy,
+  validateCirculationPolicy,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const updatePolicySchema = z.object({
+  name: z.string().min(1, "Policy name is required").max(100),
+  roleId: z.string().optional().nullable(),
+  genre: z.string().max(100).optional().nullable(),
+  loanDays: z.number().int().min(1, "Loan period must be at least 1 day").max(365),
+  maxRenewals: z.number().int().min(0).max(50),
+  lateFeePerDay: z.number().min(0).max(1000),
+  maxLateFee: z.number().min(0).optional().nullable(),
+  graceDays: z.number().int().min(0).max(365),
+  checkoutLimit: z.number().int().min(1).optional().nullable(),
+  priority: z.number().int().optional(),
+});
+
+/**
+ * PUT /api/admin/policies/[id] - Update a circulation policy
+ * DELETE /api/admin/policies/[id] - Delete a circulation policy
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage circulation policies",
+      });
+    }
+
+    const id = req.query.id as string;
+
+    if (req.method === "PUT") {
+      const validationResult = updatePolicySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const policyError = await validateCirculationPolicy(validationResult.data, id);
+      if (policyError) {
+        return res.status(policyError.statusCode).json({
+          error: policyError.message,
+          code: policyError.code,
+        });
+      }
+
+      try {
+        const policy = await updateCirculationPolicy(id, validationResult.data);
+
+        return res.status(HttpStatusCodes.OK).json({ policy });
+      } catch (error) {
+        console.error("Error updating circulation policy:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: error instanceof Error ? error.message : "Failed to update circulation policy",
+        });
+      }
+    }
+
+    if (req.method === "DELETE") {
+      try {
+        await deleteCirculationPolicy(id);
+
+        return res.status(HttpStatusCodes.OK).json({
+          message: "Circulation policy deleted successfully",
+        });
+      } catch (error) {
+        console.error("Error deleting circulation policy:", error);
+        return res.status(HttpStatusCodes.NOT_FOUND).json({
+          error: error instanceof Error ? error.message : "Failed to delete circulation policy",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
@@ -0,0 +1,102 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  prisma,
+  createAuthHandler,
+  createCirculationPolicy,
+  getCirculationPolicies,
+  validateCirculationPolicy,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const createPolicySchema = z.object({
+  name: z.string().min(1, "Policy name is required").max(100),
+  roleId: z.string().optional().nullable(),
+  genre: z.string().max(100).optional().nullable(),
+  loanDays: z.number().int().min(1, "Loan period must be at least 1 day").max(365),
+  maxRenewals: z.number().int().min(0).max(50),
+  lateFeePerDay: z.number().min(0).max(1000),
+  maxLateFee: z.number().min(0).optional().nullable(),
+  graceDays: z.number().int().min(0).max(365),
+  checkoutLimit: z.number().int().min(1).optional().nullable(),
+  priority: z.number().int().optional(),
+});
+
+/**
+ * GET /api/admin/policies - List circulation policies with the roles and genres they can target
+ * POST /api/admin/policies - Create a circulation policy
+ * Requires: checkout:manage permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage circulation policies",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const [policies, roles, genres] = await Promise.all([
+          getCirculationPolicies(),
+          prisma.role.findMany({
+            select: { id: true, name: true },
+            orderBy: { name: "asc" },
+          }),
+          prisma.genre.findMany({
+            select: { name: true },
+            orderBy: { name: "asc" },
+          }),
+        ]);
+
+        return res.status(HttpStatusCodes.OK).json({
+          policies,
+          roles,
+          genres: genres.map((genre) => genre.name),
+        });
+      } catch (error) {
+        console.error("Error fetching circulation policies:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch circulation policies",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = createPolicySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const policyError = await validateCirculationPolicy(validationResult.data);
+      if (policyError) {
+        return res.status(policyError.statusCode).json({
+          error: policyError.message,
+          code: policyError.code,
+        });
+      }
+
+      try {
+        const policy = await createCirculationPolicy(validationResult.data);
+
+        return res.status(HttpStatusCodes.CREATED).json({ policy });
+      } catch (error) {
+        console.error("Error creating circulation policy:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: error instanceof Error ? error.message : "Failed to create circulation policy",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["checkout:manage"],
+  }
+);
@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, getCatalogTags, renameTag, validateTagRename } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const renameSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().trim().min(1, "New tag name is required").max(100),
+});
+
+/**
+ * GET /api/admin/tags?q= - List free-text tags with the number of books carrying each
+ * POST /api/admin/tags - Rename a tag on every book, merging it into an existing tag or genre of that name
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage tags",
+      });
+    }
+
+    if (req.method === "GET") {
+      const q = typeof req.query.q === "string" ? req.query.q.slice(0, 100) : "";
+
+      try {
+        const tags = await getCatalogTags(q);
+
+        return res.status(HttpStatusCodes.OK).json({ tags });
+      } catch (error) {
+        console.error("Error fetching tags:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch tags",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = renameSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const { from, to } = validationResult.data;
+      const renameError = await validateTagRename(from, to);
+      if (renameError) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: renameError,
+        });
+      }
+
+      try {
+        const result = await renameTag(from, to);
+
+        return res.status(HttpStatusCodes.OK).json(result);
+      } catch (error) {
+        console.error("Error renaming tag:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to rename tag",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
@@ -1,7 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma, createAuthHandler } from "@/lib/server";
 import { HttpStatusCodes } from "@/lib/server/errors";
-import { sendStaffInvitationEmail, sendWelcomeEmail, sendVerificationEmail } from "@/lib/server/email";
+import { sendStaffInvitationEmail, sendVerificationEmail } from "@/lib/server/email";
+import { notifyWelcome } from "@/lib/server/notification";
 import bcrypt from "bcryptjs";
 import * as z from "zod";
 import crypto from "crypto";
@@ -119,12 +120,9 @@ export default createAuthHandler(
         },
       });
 
-      // Send welcome email, invitation email, and verification email (non-blocking - graceful degradation)
+      // Send welcome notification, invitation email, and verification email (non-blocking - graceful degradation)
       Promise.all([
-        sendWelcomeEmail({
-          email: newUser.email!,
-          name: newUser.name || "Staff Member",
-        }),
+        notifyWelcome({ id: newUser.id, name: newUser.name || "Staff Member" }),
         sendStaffInvitationEmail({
           email: newUser.email!,
           name: newUser.name || "Staff Member",
@@ -68,6 +68,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       email: user.email!,
       name: user.name,
       resetUrl,
+      locale: user.locale,
     });
 
     // In development, log the reset URL if email service is not available
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "@/lib/server/prisma";
-import { sendWelcomeEmail, sendVerificationEmail } from "@/lib/server/email";
+import { sendVerificationEmail } from "@/lib/server/email";
+import { notifyWelcome } from "@/lib/server/notification";
 import bcrypt from "bcryptjs";
 import { HttpStatusCodes } from "@/lib/server/errors";
 import * as z from "zod";
@@ -95,12 +96,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     });
 
-    // Send welcome and verification emails (non-blocking - graceful degradation)
+    // Send welcome notification and verification email (non-blocking - graceful degradation)
     Promise.all([
-      sendWelcomeEmail({
-        email: user.email!,
-        name: user.name || "User",
-      }),
+      notifyWelcome(user),
       sendVerificationEmail({
         email: user.email!,
         name: user.name || "User",
@@ -28,7 +28,7 @@ export default createAuthHandler(
       // Check if user is already verified
       const dbUser = await prisma.user.findUnique({
         where: { email: user.email },
-        select: { id: true, email: true, name: true, emailVerified: true },
+        select: { id: true, email: true, name: true, emailVerified: true, locale: true },
       });
 
       if (!dbUser) {
@@ -67,6 +67,7 @@ export default createAuthHandler(
         email: dbUser.email!,
         name: dbUser.name || "User",
         token: verificationToken,
+        locale: dbUser.locale,
       }).catch((error) => {
         console.error("Failed to send verification email:", error);
         // Don't fail the request if email fails
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthorNotFoundError, getAuthor } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/authors/[id] - Author with every book they are credited on (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== "string") {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({
+      error: "Invalid author ID",
+    });
+  }
+
+  try {
+    const author = await getAuthor(id);
+    if (!author) {
+      const error = createAuthorNotFoundError(id);
+      return res.status(error.statusCode).json(error);
+    }
+
+    return res.status(HttpStatusCodes.OK).json(author);
+  } catch (error) {
+    console.error("Error fetching author:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to fetch author",
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { searchAuthors } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/authors?q= - Authors matching a name, with how many books they are credited on (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const q = typeof req.query.q === "string" ? req.query.q.slice(0, 100) : "";
+
+  try {
+    const authors = await searchAuthors(q);
+
+    return res.status(HttpStatusCodes.OK).json({ authors });
+  } catch (error) {
+    console.error("Error searching authors:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to search authors",
+    });
+  }
+}
@@ -1,7 +1,41 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma, createMethodAuthHandler } from "@/lib/server";
-import type { UpdateBookInput } from "@/lib/server/types";
-import { createBookNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+import { Prisma } from "@prisma/client";
+import {
+  prisma,
+  BOOK_AUTHORS_INCLUDE,
+  BOOK_GENRES_INCLUDE,
+  createMethodAuthHandler,
+  deleteBookCover,
+  getBookAuthorInputs,
+  getBookCoverImages,
+  getBookStatusFromAvailability,
+  getHoldQueueLength,
+  getSeriesNeighbours,
+  getWorkEditions,
+  isBookCoverKey,
+  parseBookCoverImages,
+  pruneWork,
+  resolveBookAuthors,
+  resolveBookGenreUpdate,
+  resolveBookWork,
+  resolvePublisher,
+  resolveSeries,
+  validateBookGrouping,
+} from "@/lib/server";
+import type { BookCoverImages, UpdateBookInput } from "@/lib/server/types";
+import {
+  createBookNotFoundError,
+  createInvalidCoverImageError,
+  HttpStatusCodes,
+  BookErrorCodes,
+} from "@/lib/server/errors";
+
+function removeCoverFiles(images: BookCoverImages | null): void {
+  if (!images) return;
+  deleteBookCover(images).catch((error) => {
+    console.error(`Failed to delete cover files ${images.key}:`, error);
+  });
+}
 
 // GET /api/books/[id] - Get single book (public)
 // PUT /api/books/[id] - Update book (requires book:update permission)
@@ -22,9 +56,18 @@ export default createMethodAuthHandler(
       const book = await prisma.book.findUnique({
         where: { id },
         include: {
+          // Chapter text is only served to borrowers, through the reader
           ...(includeChapters === "true" && {
-            chapters: { orderBy: { order: "asc" } },
+            chapters: { omit: { content: true }, orderBy: { order: "asc" } },
           }),
+          copies: {
+            where: { status: { not: "WITHDRAWN" } },
+            orderBy: { createdAt: "asc" },
+          },
+          authors: BOOK_AUTHORS_INCLUDE,
+          genres: BOOK_GENRES_INCLUDE,
+          publishedBy: { select: { id: true, name: true } },
+          series: { select: { id: true, name: true } },
           checkouts: {
             where: {
               returnedDate: null,
@@ -47,14 +90,26 @@ export default createMethodAuthHandler(
         return res.status(error.statusCode).json(error);
       }
 
-      // Update status based on active checkouts
-      const activeCheckouts = book.checkouts || [];
-      const status = activeCheckouts.length > 0 ? "CHECKED_OUT" : "AVAILABLE";
+      // Update status based on copy availability
+      const availability = {
+        totalCopies: book.copies.length,
+        availableCopies: book.copies.filter((copy) => copy.status === "AVAILABLE").length,
+      };
+
+      const [holdQueueLength, editions, seriesNeighbours] = await Promise.all([
+        getHoldQueueLength(id, book.workId),
+        book.workId ? getWorkEditions(book.workId) : [],
+        getSeriesNeighbours(book),
+      ]);
 
       return res.status(HttpStatusCodes.OK).json({
         book: {
           ...book,
-          status,
+          availability,
+          holdQueueLength,
+          editions,
+          ...seriesNeighbours,
+          status: getBookStatusFromAvailability(availability),
         },
       });
     }
@@ -79,33 +134,99 @@ export default createMethodAuthHandler(
 
       const data: UpdateBookInput = req.body;
 
+      if (data.coverImageKey && !isBookCoverKey(data.coverImageKey)) {
+        const error = createInvalidCoverImageError("Unknown uploaded cover");
+        return res.status(error.statusCode).json(error);
+      }
+
+      // Credits are replaced when an authors list or a new author line is sent
+      const authorInputs = data.authors !== undefined || data.author ? getBookAuthorInputs(data) : null;
+      if (authorInputs && (authorInputs.credits.length === 0 || authorInputs.invalid.length > 0)) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Each author needs a name and a known role",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      const groupingError = await validateBookGrouping(data, id);
+      if (groupingError) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: groupingError,
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      // The uploaded cover is dropped when it's removed, replaced, or its URL is swapped for another
+      const currentCover = parseBookCoverImages(book.coverImages);
+      let coverImages: BookCoverImages | null | undefined;
+      if (data.coverImageKey) {
+        coverImages = data.coverImageKey === currentCover?.key ? currentCover : getBookCoverImages(data.coverImageKey);
+      } else if (
+        data.coverImageKey === null ||
+        (data.coverImageUrl !== undefined && currentCover && data.coverImageUrl !== currentCover.large)
+      ) {
+        coverImages = null;
+      }
+
       try {
-        const updatedBook = await prisma.book.update({
-          where: { id },
-          data: {
-            ...(data.title && { title: data.title }),
-            ...(data.author && { author: data.author }),
-            ...(data.isbn !== undefined && { isbn: data.isbn }),
-            ...(data.description !== undefined && { description: data.description }),
-            ...(data.summary !== undefined && { summary: data.summary }),
-            ...(data.publisher !== undefined && { publisher: data.publisher }),
-            ...(data.publicationYear !== undefined && { publicationYear: data.publicationYear }),
-            ...(data.genre !== undefined && { genre: data.genre }),
-            ...(data.tags !== undefined && { tags: data.tags }),
-            ...(data.pageCount !== undefined && { pageCount: data.pageCount }),
-            ...(data.language !== undefined && { language: data.language }),
-            ...(data.coverImageUrl !== undefined && { coverImageUrl: data.coverImageUrl }),
-            ...(data.status && { status: data.status }),
-          },
-          include: {
-            checkouts: {
-              where: {
-                returnedDate: null,
+        const updatedBook = await prisma.$transaction(async (tx) => {
+          const authors = authorInputs && (await resolveBookAuthors(tx, authorInputs.credits));
+          const publisher = data.publisher !== undefined ? await resolvePublisher(tx, data.publisher) : null;
+          const genres = await resolveBookGenreUpdate(tx, book, data);
+          const series = data.series !== undefined ? await resolveSeries(tx, data.series) : null;
+          const workId = data.editionOf ? await resolveBookWork(tx, data.editionOf) : data.editionOf;
+
+          const updated = await tx.book.update({
+            where: { id },
+            data: {
+              ...(data.title && { title: data.title }),
+              ...(authors && { author: authors.credit, authors: { deleteMany: {}, create: authors.authors } }),
+              ...(data.isbn !== undefined && { isbn: data.isbn }),
+              ...(data.description !== undefined && { description: data.description }),
+              ...(data.summary !== undefined && { summary: data.summary }),
+              ...publisher,
+              ...series,
+              ...(data.seriesVolume !== undefined && { seriesVolume: data.seriesVolume }),
+              ...(workId !== undefined && { workId }),
+              ...(data.publicationYear !== undefined && { publicationYear: data.publicationYear }),
+              ...(genres && {
+                genre: genres.genre,
+                genres: { deleteMany: {}, create: genres.genres },
+                tags: genres.tags,
+              }),
+              ...(data.pageCount !== undefined && { pageCount: data.pageCount }),
+              ...(data.language !== undefined && { language: data.language }),
+              ...(data.coverImageUrl !== undefined && { coverImageUrl: data.coverImageUrl }),
+              ...(coverImages && { coverImages, coverImageUrl: coverImages.large }),
+              ...(coverImages === null && { coverImages: Prisma.DbNull }),
+              // Don't leave the cover URL pointing at removed files
+              ...(coverImages === null &&
+                currentCover &&
+                (data.coverImageUrl ?? book.coverImageUrl) === currentCover.large && { coverImageUrl: null }),
+            },
+            include: {
+              authors: BOOK_AUTHORS_INCLUDE,
+              genres: BOOK_GENRES_INCLUDE,
+              checkouts: {
+                where: {
+                  returnedDate: null,
+                },
               },
             },
-          },
+          });
+
+          // Leaving a work can leave it with a single edition
+          if (book.workId && workId !== undefined && workId !== book.workId) {
+            await pruneWork(tx, book.workId);
+          }
+
+          return updated;
         });
 
+        if (coverImages !== undefined && currentCover && coverImages?.key !== currentCover.key) {
+          removeCoverFiles(currentCover);
+        }
+
         return res.status(HttpStatusCodes.OK).json({ book: updatedBook });
       } catch (error) {
         console.error("Error updating book:", error);
@@ -150,9 +271,15 @@ export default createMethodAuthHandler(
       }
 
       try {
-        await prisma.book.delete({
-          where: { id },
+        await prisma.$transaction(async (tx) => {
+          await tx.book.delete({
+            where: { id },
+          });
+          if (book.workId) {
+            await pruneWork(tx, book.workId);
+          }
         });
+        removeCoverFiles(parseBookCoverImages(book.coverImages));
 
         res.status(HttpStatusCodes.NO_CONTENT).end();
         return;
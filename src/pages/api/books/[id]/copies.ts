@@ -0,0 +1,136 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  prisma,
+  createMethodAuthHandler,
+  createBookNotFoundError,
+  createDuplicateBarcodeError,
+  generateCopyBarcode,
+  syncBookStatus,
+  assignCopyToNextHold,
+  notifyHoldReady,
+} from "@/lib/server";
+import type { CreateBookCopyInput } from "@/lib/server/types";
+import { HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+
+// GET /api/books/[id]/copies - List all copies of a book, including withdrawn ones (requires book:update permission)
+// POST /api/books/[id]/copies - Add a physical copy to a book (requires book:update permission)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }): Promise<void> => {
+    const { id } = req.query;
+
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid book ID",
+      });
+    }
+
+    // User is guaranteed to be defined due to method config
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to manage book copies",
+        code: BookErrorCodes.BOOK_UPDATE_FAILED,
+      });
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+
+    if (!book) {
+      const error = createBookNotFoundError(id);
+      return res.status(error.statusCode).json(error);
+    }
+
+    if (req.method === "GET") {
+      const copies = await prisma.bookCopy.findMany({
+        where: { bookId: id },
+        orderBy: { createdAt: "asc" },
+        include: {
+          checkouts: {
+            where: { returnedDate: null },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+          holds: {
+            where: { status: "READY" },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      return res.status(HttpStatusCodes.OK).json({ copies });
+    }
+
+    if (req.method === "POST") {
+      const data: Omit<CreateBookCopyInput, "bookId"> = req.body || {};
+      const barcode = data.barcode?.trim() || generateCopyBarcode();
+
+      const existingCopy = await prisma.bookCopy.findUnique({
+        where: { barcode },
+      });
+
+      if (existingCopy) {
+        const error = createDuplicateBarcodeError(barcode);
+        return res.status(error.statusCode).json(error);
+      }
+
+      try {
+        const { copy, readyHold } = await prisma.$transaction(async (tx) => {
+          let created = await tx.bookCopy.create({
+            data: {
+              bookId: id,
+              barcode,
+              condition: data.condition,
+              shelfLocation: data.shelfLocation,
+              notes: data.notes,
+            },
+          });
+
+          // A new copy goes to the first patron waiting in the hold queue
+          const readyHold = await assignCopyToNextHold(tx, id, created.id);
+
+          if (readyHold) {
+            created = await tx.bookCopy.findUniqueOrThrow({ where: { id: created.id } });
+          }
+
+          await syncBookStatus(tx, id);
+
+          return { copy: created, readyHold };
+        });
+
+        notifyHoldReady(readyHold);
+
+        return res.status(HttpStatusCodes.CREATED).json({ copy });
+      } catch (error) {
+        console.error("Error creating copy:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to create copy",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true, requirePermissions: ["book:update"] }, // Auth required to see copy details
+    POST: { requireAuth: true, requirePermissions: ["book:update"] }, // Auth required for create
+  }
+);
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, createBookNotFoundError, parseBookCoverImages, renderCoverPlaceholder } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { BookCoverVariant } from "@/lib/server/types";
+
+const COVER_SIZES: BookCoverVariant[] = ["thumbnail", "medium", "large"];
+
+// GET /api/books/[id]/cover?size=medium - Redirect to the book's cover, or a generated placeholder (public)
+// Gives emails, exports and other clients one stable cover URL per book
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({ error: "Method not allowed" });
+  }
+
+  const { id, size = "medium" } = req.query;
+  if (typeof id !== "string") {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({ error: "Invalid book ID" });
+  }
+  if (!COVER_SIZES.includes(size as BookCoverVariant)) {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({
+      error: `Size must be one of: ${COVER_SIZES.join(", ")}`,
+    });
+  }
+
+  const book = await prisma.book.findUnique({
+    where: { id },
+    select: { title: true, author: true, coverImageUrl: true, coverImages: true },
+  });
+  if (!book) {
+    const error = createBookNotFoundError(id);
+    return res.status(error.statusCode).json(error);
+  }
+
+  const coverUrl = parseBookCoverImages(book.coverImages)?.[size as BookCoverVariant] ?? book.coverImageUrl;
+  // The cover can change, so only cache briefly
+  res.setHeader("Cache-Control", "public, max-age=300");
+  if (coverUrl) {
+    return res.redirect(HttpStatusCodes.FOUND, coverUrl);
+  }
+
+  res.setHeader("Content-Type", "image/svg+xml");
+  return res.status(HttpStatusCodes.OK).send(renderCoverPlaceholder(book.title, book.author));
+}
@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  prisma,
+  CHAPTER_EXPORT_FILE_TYPES,
+  CHAPTER_EXPORT_FORMATS,
+  canReadBook,
+  createAuthHandler,
+  createBookNotFoundError,
+  createReadingNotAllowedError,
+  exportBookChapters,
+  isChapterExportFormat,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+export const config = {
+  api: {
+    // Books with long chapters and a cover can pass Next's 4 MB response warning
+    responseLimit: false,
+  },
+};
+
+/**
+ * GET /api/books/[id]/download?format=epub|pdf - Download a book's chapters for reading offline
+ * The file has the cover, a title page, a table of contents and every chapter in order
+ * Requires an active checkout of the book (staff with book:update can download any book)
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const { id, format = "epub" } = req.query;
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid book ID",
+      });
+    }
+    if (!isChapterExportFormat(format)) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: `Format must be one of: ${CHAPTER_EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    try {
+      if (!(await canReadBook(user, id))) {
+        const error = createReadingNotAllowedError(id, "Check out this book to download it");
+        return res.status(error.statusCode).json(error);
+      }
+
+      const book = await prisma.book.findUnique({
+        where: { id },
+        select: { _count: { select: { chapters: true } } },
+      });
+      if (!book) {
+        const error = createBookNotFoundError(id);
+        return res.status(error.statusCode).json(error);
+      }
+      if (book._count.chapters === 0) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "This book has no chapters to download",
+        });
+      }
+
+      const file = await exportBookChapters(id, format);
+      if (!file) {
+        const error = createBookNotFoundError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      const { contentType, extension } = CHAPTER_EXPORT_FILE_TYPES[format];
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}.${extension}"`);
+      res.setHeader("Content-Length", file.data.length);
+      res.setHeader("Cache-Control", "private, no-store");
+      return res.status(HttpStatusCodes.OK).send(file.data);
+    } catch (error) {
+      console.error("Error exporting book chapters:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to prepare the download",
+      });
+    }
+  },
+  { requireAuth: true }
+);
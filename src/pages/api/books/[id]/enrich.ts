@@ -1,10 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
 import {
   prisma,
   createMethodAuthHandler,
   enrichBookData,
   isAIServiceAvailable,
   createBookNotFoundError,
+  getGenreVocabulary,
+  resolveBookGenres,
+  BOOK_GENRES_INCLUDE,
 } from "@/lib/server";
 import { HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
 
@@ -44,6 +48,7 @@ export default createMethodAuthHandler(
     // Fetch the book
     const book = await prisma.book.findUnique({
       where: { id },
+      include: { genres: BOOK_GENRES_INCLUDE },
     });
 
     if (!book) {
@@ -53,7 +58,12 @@ export default createMethodAuthHandler(
 
     try {
       // Generate AI enrichment
-      const aiResult = await enrichBookData(book.title, book.author, book.description || undefined);
+      const aiResult = await enrichBookData(
+        book.title,
+        book.author,
+        book.description || undefined,
+        await getGenreVocabulary()
+      );
 
       if (!aiResult.tags && !aiResult.summary) {
         return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
@@ -63,31 +73,35 @@ export default createMethodAuthHandler(
       }
 
       // Update book with AI-generated data
-      const updateData: {
-        genre?: string;
-        tags?: string[];
-        summary?: string;
-      } = {};
+      const updatedBook = await prisma.$transaction(async (tx) => {
+        const updateData: Prisma.BookUpdateInput = {};
 
-      if (aiResult.tags) {
-        if (aiResult.tags.genres.length > 0) {
-          updateData.genre = aiResult.tags.genres[0]; // Use first genre
+        // Suggested genres are added after the book's own, mapped onto the vocabulary; any without a match
+        // are kept as tags rather than added to it
+        if (aiResult.tags) {
+          const genres = await resolveBookGenres(
+            tx,
+            [...book.genres.map((link) => link.genre.name), ...aiResult.tags.genres],
+            aiResult.tags.tags.length > 0 ? aiResult.tags.tags : book.tags,
+            { createMissing: false }
+          );
+          updateData.genre = genres.genre;
+          updateData.genres = { deleteMany: {}, create: genres.genres };
+          updateData.tags = genres.tags;
         }
-        if (aiResult.tags.tags.length > 0) {
-          updateData.tags = aiResult.tags.tags;
-        }
-      }
 
-      if (aiResult.summary) {
-        updateData.summary = aiResult.summary;
-      }
+        if (aiResult.summary) {
+          updateData.summary = aiResult.summary;
+        }
 
-      const updatedBook = await prisma.book.update({
-        where: { id },
-        data: updateData,
-        include: {
-          chapters: true,
-        },
+        return tx.book.update({
+          where: { id },
+          data: updateData,
+          include: {
+            chapters: true,
+            genres: BOOK_GENRES_INCLUDE,
+          },
+        });
       });
 
       return res.status(HttpStatusCodes.OK).json({
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  canReadBook,
+  createAuthHandler,
+  createReadingNotAllowedError,
+  saveReadingProgress,
+  validateReadingProgress,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const progressSchema = z.object({
+  chapterId: z.string().min(1),
+  position: z.number().min(0).max(1),
+});
+
+// PUT /api/books/[id]/progress - Save where the current user is in a book (requires an active checkout)
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (req.method !== "PUT") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const { id } = req.query;
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid book ID",
+      });
+    }
+
+    const validationResult = progressSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    try {
+      if (!(await canReadBook(user, id))) {
+        const error = createReadingNotAllowedError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      const progressError = await validateReadingProgress(id, validationResult.data);
+      if (progressError) {
+        return res.status(progressError.statusCode).json(progressError);
+      }
+
+      const progress = await saveReadingProgress(user.id, id, validationResult.data);
+
+      return res.status(HttpStatusCodes.OK).json({ progress });
+    } catch (error) {
+      console.error("Error saving reading progress:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to save reading progress",
+      });
+    }
+  },
+  { requireAuth: true }
+);
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  canReadBook,
+  createAuthHandler,
+  createBookNotFoundError,
+  createChapterNotFoundError,
+  createReadingNotAllowedError,
+  getReaderBook,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/books/[id]/read?chapter= - Open a book in the reader, at the given chapter or where the user left off
+// Requires an active checkout of the book (staff with book:update can read any book)
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const { id, chapter } = req.query;
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid book ID",
+      });
+    }
+    const chapterId = typeof chapter === "string" && chapter ? chapter : undefined;
+
+    try {
+      if (!(await canReadBook(user, id))) {
+        const error = createReadingNotAllowedError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      const reader = await getReaderBook(user.id, id, chapterId);
+      if (!reader) {
+        const error = createBookNotFoundError(id);
+        return res.status(error.statusCode).json(error);
+      }
+      if (chapterId && !reader.chapter) {
+        const error = createChapterNotFoundError(chapterId);
+        return res.status(error.statusCode).json(error);
+      }
+
+      return res.status(HttpStatusCodes.OK).json(reader);
+    } catch (error) {
+      console.error("Error opening book in reader:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to open book",
+      });
+    }
+  },
+  { requireAuth: true }
+);
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getBookAutocomplete } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/books/autocomplete?q= - Title and author suggestions while typing a search (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const q = typeof req.query.q === "string" ? req.query.q.slice(0, 100) : "";
+
+  try {
+    const suggestions = await getBookAutocomplete(q);
+
+    return res.status(HttpStatusCodes.OK).json({ suggestions });
+  } catch (error) {
+    console.error("Error fetching autocomplete suggestions:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to fetch suggestions",
+    });
+  }
+}
@@ -1,56 +1,100 @@
-import { buildGeneralBookSearchQuery, createMethodAuthHandler, prisma } from "@/lib/server";
+import {
+  BOOK_AUTHORS_INCLUDE,
+  BOOK_GENRES_INCLUDE,
+  BOOK_SORT_OPTIONS,
+  createInvalidCoverImageError,
+  createMethodAuthHandler,
+  findBookPage,
+  generateCopyBarcode,
+  getAvailabilityForBooks,
+  getBookAuthorInputs,
+  getBookGenreInputs,
+  getBookCoverImages,
+  getBookStatusFromAvailability,
+  isBookCoverKey,
+  isBookSortOption,
+  queueNewArrival,
+  prisma,
+  rankBooksByText,
+  resolveBookAuthors,
+  resolveBookGenres,
+  resolveBookWork,
+  resolvePublisher,
+  resolveSeries,
+  validateBookGrouping,
+} from "@/lib/server";
 import { BookErrorCodes, HttpStatusCodes } from "@/lib/server/errors";
 import type { CreateBookInput } from "@/lib/server/types";
 import type { NextApiRequest, NextApiResponse } from "next";
+import * as z from "zod";
 
-// GET /api/books - List books with optional search (public)
+const pageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// GET /api/books - List books with optional search, sort and cursor (public)
 // POST /api/books - Create a new book (requires book:create permission)
 export default createMethodAuthHandler(
   async (req: NextApiRequest, res: NextApiResponse, { user }) => {
     if (req.method === "GET") {
-      const { search, page = "1", limit = "20", includeChapters = "false" } = req.query;
-
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
-      const skip = (pageNum - 1) * limitNum;
-
-      const where = search ? buildGeneralBookSearchQuery(search as string) : {};
-
-      const [books, total] = await Promise.all([
-        prisma.book.findMany({
-          where,
-          skip,
-          take: limitNum,
-          orderBy: { createdAt: "desc" },
-          include: {
-            chapters: includeChapters === "true" ? { orderBy: { order: "asc" } } : false,
-            _count: {
-              select: {
-                checkouts: {
-                  where: {
-                    returnedDate: null,
-                  },
-                },
-              },
-            },
-          },
-        }),
-        prisma.book.count({ where }),
-      ]);
+      const { search, sort, cursor, includeChapters = "false" } = req.query;
+
+      const pageResult = pageSchema.safeParse({ limit: req.query.limit });
+      if (!pageResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: pageResult.error.issues,
+        });
+      }
+      const { limit } = pageResult.data;
+      const query = typeof search === "string" ? search.trim() : "";
 
-      // Update status based on active checkouts
-      const booksWithStatus = books.map((book) => ({
-        ...book,
-        status: book._count.checkouts > 0 ? "CHECKED_OUT" : "AVAILABLE",
-      }));
+      if (sort !== undefined && !isBookSortOption(sort)) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: `Sort must be one of: ${BOOK_SORT_OPTIONS.join(", ")}`,
+        });
+      }
+
+      // Full-text searches default to most relevant first, the plain listing to newest
+      const ranks = query ? await rankBooksByText(query) : null;
+      const page = await findBookPage(
+        {},
+        {
+          sort: sort ?? (ranks ? "relevance" : "newest"),
+          cursor: typeof cursor === "string" && cursor ? cursor : undefined,
+          limit,
+          ranks,
+        }
+      );
+
+      const pageBooks = await prisma.book.findMany({
+        where: { id: { in: page.bookIds } },
+        include: {
+          chapters:
+            includeChapters === "true" ? { omit: { content: true }, orderBy: { order: "asc" as const } } : false,
+        },
+      });
+      // Keep the page order
+      const booksById = new Map(pageBooks.map((book) => [book.id, book]));
+      const books = page.bookIds.flatMap((id) => booksById.get(id) ?? []);
+
+      // Update status based on copy availability
+      const availability = await getAvailabilityForBooks(books.map((book) => book.id));
+      const booksWithStatus = books.map((book) => {
+        const bookAvailability = availability.get(book.id)!;
+        return {
+          ...book,
+          availability: bookAvailability,
+          status: getBookStatusFromAvailability(bookAvailability),
+        };
+      });
 
       return res.status(HttpStatusCodes.OK).json({
         books: booksWithStatus,
         pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          totalPages: Math.ceil(total / limitNum),
+          limit,
+          total: page.total,
+          nextCursor: page.nextCursor,
         },
       });
     }
@@ -67,34 +111,91 @@ export default createMethodAuthHandler(
       const data: CreateBookInput = req.body;
 
       // Validate required fields
-      if (!data.title || !data.author) {
+      const { credits, invalid } = getBookAuthorInputs(data);
+      if (!data.title || credits.length === 0) {
         return res.status(HttpStatusCodes.BAD_REQUEST).json({
           error: "Title and author are required",
           code: BookErrorCodes.BOOK_CREATE_FAILED,
         });
       }
+      if (invalid.length > 0) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Each author needs a name and a known role",
+          code: BookErrorCodes.BOOK_CREATE_FAILED,
+        });
+      }
+
+      const copyCount = data.copyCount ?? 1;
+      if (!Number.isInteger(copyCount) || copyCount < 0 || copyCount > 100) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Copy count must be a whole number between 0 and 100",
+          code: BookErrorCodes.BOOK_CREATE_FAILED,
+        });
+      }
+
+      const groupingError = await validateBookGrouping(data);
+      if (groupingError) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: groupingError,
+          code: BookErrorCodes.BOOK_CREATE_FAILED,
+        });
+      }
+
+      if (data.coverImageKey && !isBookCoverKey(data.coverImageKey)) {
+        const error = createInvalidCoverImageError("Unknown uploaded cover");
+        return res.status(error.statusCode).json(error);
+      }
+      const coverImages = data.coverImageKey ? getBookCoverImages(data.coverImageKey) : null;
 
       try {
-        // Merge user data with AI-enriched data (user data takes precedence)
-        const book = await prisma.book.create({
-          data: {
-            title: data.title,
-            author: data.author,
-            isbn: data.isbn,
-            description: data.description,
-            summary: data.summary,
-            publisher: data.publisher,
-            publicationYear: data.publicationYear,
-            genre: data.genre,
-            tags: data.tags,
-            pageCount: data.pageCount,
-            language: data.language,
-            coverImageUrl: data.coverImageUrl,
-            status: data.status || "AVAILABLE",
-          },
-          include: {
-            chapters: true,
-          },
+        const book = await prisma.$transaction(async (tx) => {
+          const authors = await resolveBookAuthors(tx, credits);
+          const publisher = await resolvePublisher(tx, data.publisher);
+          const genres = await resolveBookGenres(tx, getBookGenreInputs(data), data.tags);
+          const series = await resolveSeries(tx, data.series);
+          const workId = data.editionOf ? await resolveBookWork(tx, data.editionOf) : null;
+
+          // Merge user data with AI-enriched data (user data takes precedence)
+          return tx.book.create({
+            data: {
+              title: data.title,
+              author: authors.credit,
+              authors: { create: authors.authors },
+              isbn: data.isbn,
+              description: data.description,
+              summary: data.summary,
+              ...publisher,
+              ...series,
+              seriesVolume: data.seriesVolume,
+              workId,
+              publicationYear: data.publicationYear,
+              genre: genres.genre,
+              genres: { create: genres.genres },
+              tags: genres.tags,
+              pageCount: data.pageCount,
+              language: data.language,
+              // An uploaded cover is shown at its largest size where no srcset is used
+              coverImageUrl: coverImages?.large ?? data.coverImageUrl,
+              ...(coverImages && { coverImages }),
+              status: copyCount > 0 ? "AVAILABLE" : "CHECKED_OUT",
+              copies: {
+                create: Array.from({ length: copyCount }, () => ({
+                  barcode: generateCopyBarcode(),
+                })),
+              },
+            },
+            include: {
+              chapters: true,
+              copies: true,
+              authors: BOOK_AUTHORS_INCLUDE,
+              genres: BOOK_GENRES_INCLUDE,
+            },
+          });
+        });
+
+        // Alert patrons whose saved searches match, from the job queue (non-blocking)
+        queueNewArrival(book.id).catch((error) => {
+          console.error("Failed to queue new arrival notifications:", error);
         });
 
         return res.status(HttpStatusCodes.CREATED).json({ book });
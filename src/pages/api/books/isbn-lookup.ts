@@ -0,0 +1,93 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createAuthHandler,
+  createBookMetadataNotFoundError,
+  createInvalidIsbnError,
+  isValidIsbn,
+  lookupBookMetadata,
+  mergeBookMetadata,
+  parseAuthorCredit,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const lookupSchema = z.object({
+  isbn: z.string().min(1, "ISBN is required"),
+  // Values already in the form; empty number inputs arrive as null
+  current: z
+    .object({
+      title: z.string().nullish(),
+      author: z.string().nullish(),
+      isbn: z.string().nullish(),
+      description: z.string().nullish(),
+      summary: z.string().nullish(),
+      publisher: z.string().nullish(),
+      publicationYear: z.number().nullish(),
+      genre: z.string().nullish(),
+      tags: z.array(z.string()).nullish(),
+      pageCount: z.number().nullish(),
+      language: z.string().nullish(),
+      coverImageUrl: z.string().nullish(),
+    })
+    .default({}),
+});
+
+/**
+ * POST /api/books/isbn-lookup - Look up book details by ISBN for the book form
+ * Returns only the fields to fill in: values already entered in current are never replaced
+ * A filled author is also returned as separate credits, for the form's contributor rows
+ * Requires: book:create or book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = lookupSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { isbn, current } = validationResult.data;
+
+    if (!isValidIsbn(isbn)) {
+      const error = createInvalidIsbnError(isbn);
+      return res.status(error.statusCode).json(error);
+    }
+
+    try {
+      const lookup = await lookupBookMetadata(isbn);
+      if (!lookup) {
+        const error = createBookMetadataNotFoundError(isbn);
+        return res.status(error.statusCode).json(error);
+      }
+
+      const { values, filled, kept } = mergeBookMetadata(current, lookup.metadata);
+
+      return res.status(HttpStatusCodes.OK).json({
+        isbn13: lookup.isbn13,
+        isbn10: lookup.isbn10,
+        sources: lookup.sources,
+        values,
+        filled,
+        kept,
+        authors: values.author ? parseAuthorCredit(values.author) : [],
+      });
+    } catch (error) {
+      console.error("Error looking up ISBN:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to look up ISBN",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:create", "book:update"],
+  }
+);
@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { enrichBookData, isAIServiceAvailable } from "@/lib/server";
+import { enrichBookData, getGenreVocabulary, isAIServiceAvailable, prisma, resolveBookGenres } from "@/lib/server";
 import { HttpStatusCodes } from "@/lib/server/errors";
 
 // POST /api/books/preview-enrich - Preview AI enrichment for a book (public, but requires title/author)
@@ -27,7 +27,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     // Generate AI enrichment
-    const aiResult = await enrichBookData(title, author, description);
+    const aiResult = await enrichBookData(title, author, description, await getGenreVocabulary());
 
     if (!aiResult.tags && !aiResult.summary) {
       return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
@@ -38,16 +38,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Return preview data
     const previewData: {
       genre?: string;
+      genres?: string[];
       tags?: string[];
       summary?: string;
     } = {};
 
+    // Suggestions are mapped onto the genre vocabulary; genres it doesn't have come back as tags
     if (aiResult.tags) {
-      if (aiResult.tags.genres.length > 0) {
-        previewData.genre = aiResult.tags.genres[0]; // Use first genre
+      const mapped = await resolveBookGenres(prisma, aiResult.tags.genres, aiResult.tags.tags, {
+        createMissing: false,
+      });
+      if (mapped.genre) {
+        previewData.genre = mapped.genre;
+        previewData.genres = mapped.genreNames;
       }
-      if (aiResult.tags.tags.length > 0) {
-        previewData.tags = aiResult.tags.tags;
+      if (mapped.tags.length > 0) {
+        previewData.tags = mapped.tags;
       }
     }
 
@@ -1,9 +1,35 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma, buildBookSearchQuery } from "@/lib/server";
-import type { BookSearchFilters } from "@/lib/server/types";
+import {
+  prisma,
+  BOOK_SORT_OPTIONS,
+  buildBookSearchQuery,
+  findBookPage,
+  getAvailabilityForBooks,
+  findFuzzyMatches,
+  getBookFacets,
+  getBookSearchHighlights,
+  getBookStatusFromAvailability,
+  getReadableBookIds,
+  isBookSortOption,
+  parseBookSearchFilters,
+  rankBooksByText,
+  suggestSpelling,
+  withAuth,
+} from "@/lib/server";
+import type { BookSearchFilters, BookSearchHighlight } from "@/lib/server/types";
 import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const pageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
 
 // GET /api/books/search - Advanced search with filters
+// With q, results are ranked by full-text relevance and include highlighted excerpts
+// (chapter excerpts only for books the signed-in user may read)
+// Title and author also match close spellings; when nothing matches, suggestion holds corrected filters
+// facets=true adds facet counts to the response; facetsOnly=true returns only the facet counts
+// sort picks the order (relevance by default with q, otherwise newest); pass nextCursor as cursor for the next page
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
     return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
@@ -11,77 +37,101 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 
-  const {
-    title,
-    author,
-    genre,
-    isbn,
-    publisher,
-    status,
-    language,
-    minYear,
-    maxYear,
-    page = "1",
-    limit = "20",
-    includeChapters = "false",
-  } = req.query;
-
-  const filters: BookSearchFilters = {
-    ...(title && { title: title as string }),
-    ...(author && { author: author as string }),
-    ...(genre && { genre: genre as string }),
-    ...(isbn && { isbn: isbn as string }),
-    ...(publisher && { publisher: publisher as string }),
-    ...(status && { status: status as "AVAILABLE" | "CHECKED_OUT" }),
-    ...(language && { language: language as string }),
-    ...(minYear && { minYear: parseInt(minYear as string, 10) }),
-    ...(maxYear && { maxYear: parseInt(maxYear as string, 10) }),
-  };
+  const { facets: includeFacets = "false", facetsOnly = "false", sort, cursor, includeChapters = "false" } = req.query;
+  const filters = parseBookSearchFilters(req.query);
 
-  const where = buildBookSearchQuery(filters);
+  const pageResult = pageSchema.safeParse({ limit: req.query.limit });
+  if (!pageResult.success) {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({
+      error: "Validation failed",
+      details: pageResult.error.issues,
+    });
+  }
+  const { limit } = pageResult.data;
 
-  const pageNum = parseInt(page as string, 10);
-  const limitNum = parseInt(limit as string, 10);
-  const skip = (pageNum - 1) * limitNum;
+  if (sort !== undefined && !isBookSortOption(sort)) {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({
+      error: `Sort must be one of: ${BOOK_SORT_OPTIONS.join(", ")}`,
+    });
+  }
 
   try {
-    const [books, total] = await Promise.all([
-      prisma.book.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy: { createdAt: "desc" },
-        include: {
-          chapters: includeChapters === "true" ? { orderBy: { order: "asc" } } : false,
-          _count: {
-            select: {
-              checkouts: {
-                where: {
-                  returnedDate: null,
-                },
-              },
-            },
-          },
-        },
-      }),
-      prisma.book.count({ where }),
+    const [ranks, fuzzyMatches] = await Promise.all([
+      filters.q?.trim() ? rankBooksByText(filters.q) : null,
+      findFuzzyMatches(filters),
     ]);
+    const where = buildBookSearchQuery(filters, fuzzyMatches);
+    const facets =
+      includeFacets === "true" || facetsOnly === "true"
+        ? await getBookFacets(filters, ranks ? Array.from(ranks.keys()) : undefined, fuzzyMatches)
+        : undefined;
 
-    // Update status based on active checkouts
-    const booksWithStatus = books.map((book) => ({
-      ...book,
-      status: book._count.checkouts > 0 ? "CHECKED_OUT" : "AVAILABLE",
-    }));
+    if (facetsOnly === "true") {
+      return res.status(HttpStatusCodes.OK).json({ facets, filters });
+    }
+
+    const page = await findBookPage(where, {
+      sort: sort ?? (ranks ? "relevance" : "newest"),
+      cursor: typeof cursor === "string" && cursor ? cursor : undefined,
+      limit,
+      ranks,
+    });
+    const total = page.total;
+
+    const pageBooks = await prisma.book.findMany({
+      where: { id: { in: page.bookIds } },
+      include: {
+        chapters: includeChapters === "true" ? { omit: { content: true }, orderBy: { order: "asc" as const } } : false,
+      },
+    });
+    // Keep the page order
+    const booksById = new Map(pageBooks.map((book) => [book.id, book]));
+    const books = page.bookIds.flatMap((id) => booksById.get(id) ?? []);
+    let highlights: Map<string, BookSearchHighlight[]> | null = null;
+    if (ranks && filters.q) {
+      const { user } = await withAuth(req, res, { requireAuth: false });
+      const readableBookIds = await getReadableBookIds(user, page.bookIds);
+      highlights = await getBookSearchHighlights(page.bookIds, filters.q, readableBookIds);
+    }
+
+    // Offer a corrected spelling of the free-text fields when nothing matched
+    let suggestion: BookSearchFilters | null = null;
+    if (total === 0) {
+      const [q, title, author] = await Promise.all(
+        [filters.q, filters.title, filters.author].map((text) => (text?.trim() ? suggestSpelling(text) : null))
+      );
+      if (q || title || author) {
+        suggestion = {
+          ...filters,
+          ...(q && { q }),
+          ...(title && { title }),
+          ...(author && { author }),
+        };
+      }
+    }
+
+    // Update status based on copy availability
+    const availability = await getAvailabilityForBooks(books.map((book) => book.id));
+    const booksWithStatus = books.map((book) => {
+      const bookAvailability = availability.get(book.id)!;
+      return {
+        ...book,
+        availability: bookAvailability,
+        status: getBookStatusFromAvailability(bookAvailability),
+        ...(highlights && { highlights: highlights.get(book.id) || [] }),
+      };
+    });
 
     return res.status(HttpStatusCodes.OK).json({
       books: booksWithStatus,
       pagination: {
-        page: pageNum,
-        limit: limitNum,
+        limit,
         total,
-        totalPages: Math.ceil(total / limitNum),
+        nextCursor: page.nextCursor,
       },
+      facets,
       filters,
+      suggestion,
     });
   } catch (error) {
     console.error("Error searching books:", error);
@@ -90,4 +140,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
-
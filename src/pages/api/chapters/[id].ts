@@ -1,7 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
 import { prisma, createMethodAuthHandler } from "@/lib/server";
 import type { UpdateChapterInput } from "@/lib/server/types";
-import { createChapterNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+import {
+  createChapterNotFoundError,
+  createChapterOrderTakenError,
+  HttpStatusCodes,
+  BookErrorCodes,
+} from "@/lib/server/errors";
 
 // PUT /api/chapters/[id] - Update chapter (requires book:update permission)
 // DELETE /api/chapters/[id] - Delete chapter (requires book:update permission)
@@ -47,6 +53,14 @@ export default createMethodAuthHandler(
 
         return res.status(HttpStatusCodes.OK).json({ chapter: updatedChapter });
       } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002" &&
+          data.order !== undefined
+        ) {
+          const conflict = createChapterOrderTakenError(data.order, chapter.bookId);
+          return res.status(conflict.statusCode).json(conflict);
+        }
         console.error("Error updating chapter:", error);
         return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
           error: "Failed to update chapter",
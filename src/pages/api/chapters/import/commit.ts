@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, MAX_IMPORTED_CHAPTERS, createAuthHandler, importChapters } from "@/lib/server";
+import { createBookNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: "10mb" },
+  },
+};
+
+const commitSchema = z.object({
+  bookId: z.string().min(1),
+  chapters: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, "Every chapter needs a title").max(500),
+        content: z.string(),
+      })
+    )
+    .min(1, "No chapters to import")
+    .max(MAX_IMPORTED_CHAPTERS, `Import at most ${MAX_IMPORTED_CHAPTERS} chapters at once`),
+  replace: z.boolean().default(false), // Delete the book's existing chapters first
+});
+
+/**
+ * POST /api/chapters/import/commit - Save previewed chapters to a book in one transaction
+ * They are added after the existing chapters, or replace them when replace is set
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to import chapters",
+        code: BookErrorCodes.BOOK_UPDATE_FAILED,
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = commitSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { bookId, chapters, replace } = validationResult.data;
+
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } });
+    if (!book) {
+      const error = createBookNotFoundError(bookId);
+      return res.status(error.statusCode).json(error);
+    }
+
+    try {
+      const count = await importChapters(bookId, chapters, { replace });
+      return res.status(HttpStatusCodes.CREATED).json({ count });
+    } catch (error) {
+      console.error("Error importing chapters:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to import chapters",
+        code: BookErrorCodes.BOOK_UPDATE_FAILED,
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
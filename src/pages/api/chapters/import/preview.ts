@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { CHAPTER_IMPORT_FORMATS, createAuthHandler, splitManuscript } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { ChapterImportFormat } from "@/lib/server/types";
+import * as z from "zod";
+
+export const config = {
+  api: {
+    // Base64 of a manuscript up to about 7 MB
+    bodyParser: { sizeLimit: "10mb" },
+  },
+};
+
+const previewSchema = z
+  .object({
+    format: z.enum(CHAPTER_IMPORT_FORMATS as [ChapterImportFormat, ...ChapterImportFormat[]]),
+    text: z.string().optional(), // Pasted manuscript
+    data: z.string().optional(), // Base64 file contents
+  })
+  .refine((input) => input.text?.trim() || input.data, { message: "Paste a manuscript or choose a file" })
+  .refine((input) => input.format !== "epub" || input.data, { message: "EPUB manuscripts must be uploaded" });
+
+/**
+ * POST /api/chapters/import/preview - Split a plain text, Markdown or EPUB manuscript into chapters by its headings
+ * Nothing is saved; the chapters are returned for review before committing them
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to import chapters",
+      });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = previewSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { format, text, data } = validationResult.data;
+
+    try {
+      const chapters = splitManuscript(data ? Buffer.from(data, "base64") : Buffer.from(text ?? "", "utf8"), format);
+      return res.status(HttpStatusCodes.OK).json({ chapters });
+    } catch (error) {
+      console.error("Error splitting manuscript:", error);
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: error instanceof Error ? error.message : "Failed to read manuscript",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
@@ -1,10 +1,16 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma, createMethodAuthHandler } from "@/lib/server";
+import { Prisma } from "@prisma/client";
+import { prisma, createMethodAuthHandler, getNextChapterOrder } from "@/lib/server";
 import type { CreateChapterInput } from "@/lib/server/types";
-import { createBookNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+import {
+  createBookNotFoundError,
+  createChapterOrderTakenError,
+  HttpStatusCodes,
+  BookErrorCodes,
+} from "@/lib/server/errors";
 
-// GET /api/chapters - Get chapters by bookId (public)
-// POST /api/chapters - Create a new chapter (requires book:update permission)
+// GET /api/chapters - Get chapter titles by bookId (public)
+// POST /api/chapters - Create a new chapter, after the last one unless an order is given (requires book:update permission)
 export default createMethodAuthHandler(
   async (req: NextApiRequest, res: NextApiResponse, { user }) => {
     if (req.method === "GET") {
@@ -26,8 +32,10 @@ export default createMethodAuthHandler(
         return res.status(error.statusCode).json(error);
       }
 
+      // Chapter text is only served to borrowers, through the reader
       const chapters = await prisma.chapter.findMany({
         where: { bookId },
+        omit: { content: true },
         orderBy: { order: "asc" },
       });
 
@@ -46,9 +54,9 @@ export default createMethodAuthHandler(
       const data: CreateChapterInput = req.body;
 
       // Validate required fields
-      if (!data.title || !data.bookId || data.order === undefined) {
+      if (!data.title || !data.bookId) {
         return res.status(HttpStatusCodes.BAD_REQUEST).json({
-          error: "Title, bookId, and order are required",
+          error: "Title and bookId are required",
           code: BookErrorCodes.BOOK_UPDATE_FAILED,
         });
       }
@@ -63,18 +71,24 @@ export default createMethodAuthHandler(
         return res.status(error.statusCode).json(error);
       }
 
+      const order = data.order ?? (await getNextChapterOrder(data.bookId));
+
       try {
         const chapter = await prisma.chapter.create({
           data: {
             title: data.title,
             content: data.content,
-            order: data.order,
+            order,
             bookId: data.bookId,
           },
         });
 
         return res.status(HttpStatusCodes.CREATED).json({ chapter });
       } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          const conflict = createChapterOrderTakenError(order, data.bookId);
+          return res.status(conflict.statusCode).json(conflict);
+        }
         console.error("Error creating chapter:", error);
         return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
           error: "Failed to create chapter",
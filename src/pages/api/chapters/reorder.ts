@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, createAuthHandler, reorderChapters, validateChapterOrder } from "@/lib/server";
+import { createBookNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+const reorderSchema = z.object({
+  bookId: z.string().min(1),
+  chapterIds: z.array(z.string().min(1)).min(1, "No chapters to reorder"),
+});
+
+/**
+ * PUT /api/chapters/reorder - Set the order of all of a book's chapters at once
+ * chapterIds must list every chapter of the book; they are numbered 1, 2, 3... in one transaction
+ * Requires: book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (!user || !user.permissions.includes("book:update")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to reorder chapters",
+        code: BookErrorCodes.BOOK_UPDATE_FAILED,
+      });
+    }
+
+    if (req.method !== "PUT") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = reorderSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { bookId, chapterIds } = validationResult.data;
+
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } });
+    if (!book) {
+      const error = createBookNotFoundError(bookId);
+      return res.status(error.statusCode).json(error);
+    }
+
+    const orderError = await validateChapterOrder(bookId, chapterIds);
+    if (orderError) {
+      return res.status(orderError.statusCode).json(orderError);
+    }
+
+    try {
+      await reorderChapters(bookId, chapterIds);
+
+      const chapters = await prisma.chapter.findMany({
+        where: { bookId },
+        omit: { content: true },
+        orderBy: { order: "asc" },
+      });
+      return res.status(HttpStatusCodes.OK).json({ chapters });
+    } catch (error) {
+      console.error("Error reordering chapters:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to reorder chapters",
+        code: BookErrorCodes.BOOK_UPDATE_FAILED,
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:update"],
+  }
+);
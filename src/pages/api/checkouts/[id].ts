@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma, createMethodAuthHandler, returnCheckout } from "@/lib/server";
+import { prisma, createMethodAuthHandler, renewCheckout, returnCheckout, validateRenewal } from "@/lib/server";
 import {
   createCheckoutNotFoundError,
   createCheckoutAlreadyReturnedError,
@@ -9,6 +9,7 @@ import {
 
 // GET /api/checkouts/[id] - Get single checkout (auth required)
 // PUT /api/checkouts/[id] - Return a book (requires checkout:return or checkout:manage permission) - AUTH REQUIRED
+// PUT /api/checkouts/[id] { action: "renew" } - Renew a checkout (owner or checkout:manage permission) - AUTH REQUIRED
 export default createMethodAuthHandler(
   async (req: NextApiRequest, res: NextApiResponse, { user }) => {
     const { id } = req.query;
@@ -24,6 +25,13 @@ export default createMethodAuthHandler(
         where: { id },
         include: {
           book: true,
+          copy: {
+            select: {
+              id: true,
+              barcode: true,
+              shelfLocation: true,
+            },
+          },
           user: {
             select: {
               id: true,
@@ -31,6 +39,9 @@ export default createMethodAuthHandler(
               email: true,
             },
           },
+          renewals: {
+            orderBy: { renewedAt: "desc" },
+          },
         },
       });
 
@@ -71,6 +82,39 @@ export default createMethodAuthHandler(
         return res.status(error.statusCode).json(error);
       }
 
+      const { action = "return" } = (req.body || {}) as { action?: "return" | "renew" };
+
+      if (action === "renew") {
+        // Users can renew their own checkouts, or if they have checkout:manage
+        if (checkout.userId !== user.id && !user.permissions.includes("checkout:manage")) {
+          return res.status(HttpStatusCodes.FORBIDDEN).json({
+            error: "You do not have permission to renew this checkout",
+            code: CheckoutErrorCodes.CHECKOUT_RENEW_FAILED,
+          });
+        }
+
+        const renewalError = await validateRenewal(checkout);
+        if (renewalError) {
+          return res.status(renewalError.statusCode).json({
+            error: renewalError.message,
+            code: renewalError.code,
+          });
+        }
+
+        try {
+          const renewedCheckout = await renewCheckout({ checkoutId: id, renewedById: user.id });
+
+          return res.status(HttpStatusCodes.OK).json({ checkout: renewedCheckout });
+        } catch (error) {
+          console.error("Error renewing checkout:", error);
+          const errorMessage = error instanceof Error ? error.message : "Failed to renew checkout";
+          return res.status(HttpStatusCodes.BAD_REQUEST).json({
+            error: errorMessage,
+            code: CheckoutErrorCodes.CHECKOUT_RENEW_FAILED,
+          });
+        }
+      }
+
       // Check if user can return this checkout
       const canReturn =
         checkout.userId === user.id ||
@@ -109,6 +153,6 @@ export default createMethodAuthHandler(
   },
   {
     GET: { requireAuth: true }, // Auth required to view checkout
-    PUT: { requireAuth: true }, // Auth REQUIRED to return book
+    PUT: { requireAuth: true }, // Auth REQUIRED to return or renew book
   }
 );
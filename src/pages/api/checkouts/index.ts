@@ -40,6 +40,13 @@ export default createMethodAuthHandler(
           orderBy: { checkoutDate: "desc" },
           include: {
             book: true,
+            copy: {
+              select: {
+                id: true,
+                barcode: true,
+                shelfLocation: true,
+              },
+            },
             user: {
               select: {
                 id: true,
@@ -47,6 +54,9 @@ export default createMethodAuthHandler(
                 email: true,
               },
             },
+            renewals: {
+              orderBy: { renewedAt: "desc" },
+            },
           },
         }),
         prisma.checkout.count({ where }),
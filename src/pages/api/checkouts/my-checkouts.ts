@@ -38,6 +38,16 @@ export default createAuthHandler(
         orderBy: { checkoutDate: "desc" },
         include: {
           book: true,
+          copy: {
+            select: {
+              id: true,
+              barcode: true,
+              shelfLocation: true,
+            },
+          },
+          renewals: {
+            orderBy: { renewedAt: "desc" },
+          },
         },
       }),
       prisma.checkout.count({ where }),
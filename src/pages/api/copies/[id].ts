@@ -0,0 +1,200 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  prisma,
+  createMethodAuthHandler,
+  createDuplicateBarcodeError,
+  syncBookStatus,
+  assignCopyToNextHold,
+  notifyHoldReady,
+} from "@/lib/server";
+import type { UpdateBookCopyInput } from "@/lib/server/types";
+import { createCopyNotFoundError, HttpStatusCodes, BookErrorCodes } from "@/lib/server/errors";
+
+// PUT /api/copies/[id] - Update copy barcode, condition, location or status (requires book:update permission)
+// DELETE /api/copies/[id] - Delete a copy that has never been borrowed (requires book:delete permission)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }): Promise<void> => {
+    const { id } = req.query;
+
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid copy ID",
+      });
+    }
+
+    if (req.method === "PUT") {
+      // User is guaranteed to be defined due to method config
+      if (!user || !user.permissions.includes("book:update")) {
+        return res.status(HttpStatusCodes.FORBIDDEN).json({
+          error: "You do not have permission to update copies",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      const copy = await prisma.bookCopy.findUnique({
+        where: { id },
+        include: {
+          checkouts: {
+            where: { returnedDate: null },
+          },
+        },
+      });
+
+      if (!copy) {
+        const error = createCopyNotFoundError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      const data: UpdateBookCopyInput = req.body;
+      const isOnLoan = copy.checkouts.length > 0;
+
+      // CHECKED_OUT and ON_HOLD are owned by the checkout and hold flows and can't be set by hand
+      if ((data.status === "CHECKED_OUT" || data.status === "ON_HOLD") && data.status !== copy.status) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Copies are marked as checked out or on hold by the checkout and hold flows",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      if (copy.status === "ON_HOLD" && data.status && data.status !== copy.status) {
+        return res.status(HttpStatusCodes.CONFLICT).json({
+          error: "This copy is set aside for a hold. Cancel the hold before changing its status.",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      // A copy on loan can only be reported lost until it is returned
+      if (isOnLoan && data.status && data.status !== copy.status && data.status !== "LOST") {
+        return res.status(HttpStatusCodes.CONFLICT).json({
+          error: "This copy is currently checked out. Return it before changing its status.",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+
+      const barcode = data.barcode?.trim();
+      if (barcode && barcode !== copy.barcode) {
+        const existingCopy = await prisma.bookCopy.findUnique({
+          where: { barcode },
+        });
+
+        if (existingCopy) {
+          const error = createDuplicateBarcodeError(barcode);
+          return res.status(error.statusCode).json(error);
+        }
+      }
+
+      try {
+        const { updatedCopy, readyHold } = await prisma.$transaction(async (tx) => {
+          let updated = await tx.bookCopy.update({
+            where: { id },
+            data: {
+              ...(barcode && { barcode }),
+              ...(data.condition && { condition: data.condition }),
+              ...(data.shelfLocation !== undefined && { shelfLocation: data.shelfLocation }),
+              ...(data.status && { status: data.status }),
+              ...(data.notes !== undefined && { notes: data.notes }),
+            },
+          });
+
+          // A copy coming back into circulation goes to the next patron in the hold queue
+          const readyHold =
+            copy.status !== "AVAILABLE" && updated.status === "AVAILABLE"
+              ? await assignCopyToNextHold(tx, copy.bookId, id)
+              : null;
+
+          if (readyHold) {
+            updated = await tx.bookCopy.findUniqueOrThrow({ where: { id } });
+          }
+
+          await syncBookStatus(tx, copy.bookId);
+
+          return { updatedCopy: updated, readyHold };
+        });
+
+        notifyHoldReady(readyHold);
+
+        return res.status(HttpStatusCodes.OK).json({ copy: updatedCopy });
+      } catch (error) {
+        console.error("Error updating copy:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to update copy",
+          code: BookErrorCodes.BOOK_UPDATE_FAILED,
+        });
+      }
+    }
+
+    if (req.method === "DELETE") {
+      // User is guaranteed to be defined due to method config
+      if (!user || !user.permissions.includes("book:delete")) {
+        return res.status(HttpStatusCodes.FORBIDDEN).json({
+          error: "You do not have permission to delete copies",
+          code: BookErrorCodes.BOOK_DELETE_FAILED,
+        });
+      }
+
+      const copy = await prisma.bookCopy.findUnique({
+        where: { id },
+        include: {
+          checkouts: {
+            select: { returnedDate: true },
+          },
+        },
+      });
+
+      if (!copy) {
+        const error = createCopyNotFoundError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      if (copy.checkouts.some((checkout) => checkout.returnedDate === null)) {
+        return res.status(HttpStatusCodes.CONFLICT).json({
+          error: "Cannot delete a copy that is currently checked out",
+          code: BookErrorCodes.BOOK_DELETE_FAILED,
+        });
+      }
+
+      // Past loans (and the fines and stats linked to them) are kept, so the copy is withdrawn rather than deleted
+      if (copy.checkouts.length > 0) {
+        return res.status(HttpStatusCodes.CONFLICT).json({
+          error:
+            "This copy has been borrowed before, so deleting it would erase its loan history. Mark it as withdrawn instead.",
+          code: BookErrorCodes.BOOK_DELETE_FAILED,
+        });
+      }
+
+      if (copy.status === "ON_HOLD") {
+        return res.status(HttpStatusCodes.CONFLICT).json({
+          error: "Cannot delete a copy that is set aside for a hold",
+          code: BookErrorCodes.BOOK_DELETE_FAILED,
+        });
+      }
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.bookCopy.delete({
+            where: { id },
+          });
+
+          await syncBookStatus(tx, copy.bookId);
+        });
+
+        res.status(HttpStatusCodes.NO_CONTENT).end();
+        return;
+      } catch (error) {
+        console.error("Error deleting copy:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to delete copy",
+          code: BookErrorCodes.BOOK_DELETE_FAILED,
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    PUT: { requireAuth: true, requirePermissions: ["book:update"] }, // Auth required for update
+    DELETE: { requireAuth: true, requirePermissions: ["book:delete"] }, // Auth required for delete
+  }
+);
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, downloadCoverImage, storeBookCover, validateCoverImage } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import * as z from "zod";
+
+export const config = {
+  api: {
+    // Base64 of an image up to the 8 MB upload limit
+    bodyParser: { sizeLimit: "12mb" },
+  },
+};
+
+const coverSchema = z.union([
+  z.object({ data: z.string().min(1, "File is empty") }), // Base64 image
+  z.object({ url: z.url() }), // Remote image to copy into storage
+]);
+
+/**
+ * POST /api/covers - Upload a cover image and store it resized to each cover size
+ * The returned key is saved with the book as coverImageKey
+ * Requires: book:create or book:update permission
+ */
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    if (req.method !== "POST") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    const validationResult = coverSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      });
+    }
+
+    const body = validationResult.data;
+    const image = "data" in body ? Buffer.from(body.data, "base64") : await downloadCoverImage(body.url);
+    if (!Buffer.isBuffer(image)) {
+      return res.status(image.statusCode).json(image);
+    }
+
+    const invalid = await validateCoverImage(image);
+    if (invalid) {
+      return res.status(invalid.statusCode).json(invalid);
+    }
+
+    try {
+      const coverImages = await storeBookCover(image);
+      return res.status(HttpStatusCodes.CREATED).json({ coverImages });
+    } catch (error) {
+      console.error("Error storing cover image:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to store cover image",
+      });
+    }
+  },
+  {
+    requireAuth: true,
+    requirePermissions: ["book:create", "book:update"],
+  }
+);
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { timingSafeEqual } from "crypto";
+import { getBackgroundJob, runBackgroundJob } from "@/lib/server/jobs";
+import { HttpStatusCodes, JobErrorCodes, createJobNotFoundError } from "@/lib/server/errors";
+import { CRON_SECRET } from "@/lib/server/constants/env";
+
+/**
+ * Compares the bearer token against CRON_SECRET in constant time
+ */
+function isAuthorized(authorization: string | undefined): boolean {
+  if (!CRON_SECRET || !authorization) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${CRON_SECRET}`);
+  const received = Buffer.from(authorization);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * GET/POST /api/cron/[job] - Run a background job from an external scheduler (e.g. Vercel Cron)
+ * Requires: "Authorization: Bearer <CRON_SECRET>" header
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  if (!CRON_SECRET) {
+    return res.status(HttpStatusCodes.SERVICE_UNAVAILABLE).json({
+      error: "Cron endpoint is disabled. Set CRON_SECRET to enable it.",
+      code: JobErrorCodes.CRON_DISABLED,
+    });
+  }
+
+  if (!isAuthorized(req.headers.authorization)) {
+    return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+      error: "Unauthorized",
+    });
+  }
+
+  const { job } = req.query;
+  if (typeof job !== "string" || !getBackgroundJob(job)) {
+    const jobError = createJobNotFoundError(String(job));
+    return res.status(jobError.statusCode).json({
+      error: jobError.message,
+      code: jobError.code,
+    });
+  }
+
+  try {
+    const run = await runBackgroundJob(job, "CRON");
+
+    return res.status(HttpStatusCodes.OK).json({ run });
+  } catch (error) {
+    console.error(`[Cron] Error running ${job}:`, error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to run job",
+    });
+  }
+}
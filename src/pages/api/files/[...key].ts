@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getFileStorage, isValidStorageKey } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/files/[...key] - Serve a stored file, e.g. a cover image (public)
+// Keys are never reused, so files can be cached indefinitely
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({ error: "Method not allowed" });
+  }
+
+  const key = Array.isArray(req.query.key) ? req.query.key.join("/") : "";
+  if (!isValidStorageKey(key)) {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({ error: "Invalid file key" });
+  }
+
+  const storage = getFileStorage();
+  // Links saved while using local storage keep working after a move to S3
+  if (storage.name !== "local") {
+    return res.redirect(HttpStatusCodes.FOUND, storage.getUrl(key));
+  }
+
+  try {
+    const file = await storage.get(key);
+    if (!file) {
+      return res.status(HttpStatusCodes.NOT_FOUND).json({ error: "File not found" });
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return res.status(HttpStatusCodes.OK).send(file.data);
+  } catch (error) {
+    console.error("Error serving file:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({ error: "Failed to read file" });
+  }
+}
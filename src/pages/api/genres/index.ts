@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { searchGenres } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/genres?q= - Genres matching a name or synonym, for the book form and search (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const q = typeof req.query.q === "string" ? req.query.q.slice(0, 100) : "";
+
+  try {
+    const genres = await searchGenres(q);
+
+    return res.status(HttpStatusCodes.OK).json({ genres });
+  } catch (error) {
+    console.error("Error searching genres:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to search genres",
+    });
+  }
+}
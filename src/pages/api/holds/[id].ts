@@ -0,0 +1,97 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma, cancelHold, createMethodAuthHandler, withQueuePositions } from "@/lib/server";
+import {
+  createHoldNotActiveError,
+  createHoldNotFoundError,
+  HoldErrorCodes,
+  HttpStatusCodes,
+} from "@/lib/server/errors";
+
+// GET /api/holds/[id] - Get single hold with queue position (auth required)
+// DELETE /api/holds/[id] - Cancel a hold (owner or checkout:manage permission) - AUTH REQUIRED
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    const { id } = req.query;
+
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid hold ID",
+      });
+    }
+
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const hold = await prisma.hold.findUnique({
+      where: { id },
+      include: {
+        book: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!hold) {
+      const error = createHoldNotFoundError(id);
+      return res.status(error.statusCode).json(error);
+    }
+
+    // Users can manage their own holds, or if they have checkout:manage permission
+    if (hold.userId !== user.id && !user.permissions.includes("checkout:manage")) {
+      return res.status(HttpStatusCodes.FORBIDDEN).json({
+        error: "You do not have permission to access this hold",
+        code: HoldErrorCodes.HOLD_NOT_FOUND,
+      });
+    }
+
+    if (req.method === "GET") {
+      const [holdWithPosition] = await withQueuePositions([hold]);
+      return res.status(HttpStatusCodes.OK).json({ hold: holdWithPosition });
+    }
+
+    if (req.method === "DELETE") {
+      if (hold.status !== "WAITING" && hold.status !== "READY") {
+        const error = createHoldNotActiveError(id);
+        return res.status(error.statusCode).json(error);
+      }
+
+      try {
+        const cancelledHold = await cancelHold(id);
+
+        return res.status(HttpStatusCodes.OK).json({ hold: cancelledHold });
+      } catch (error) {
+        console.error("Error cancelling hold:", error);
+        const errorMessage = error instanceof Error ? error.message : "Failed to cancel hold";
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: errorMessage,
+          code: HoldErrorCodes.HOLD_CANCEL_FAILED,
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true }, // Auth required to view hold
+    DELETE: { requireAuth: true }, // Auth REQUIRED to cancel hold
+  }
+);
@@ -0,0 +1,88 @@
+import { createHold, createMethodAuthHandler, expireReadyHolds, getUserHolds, validateHold } from "@/lib/server";
+import { HoldErrorCodes, HttpStatusCodes } from "@/lib/server/errors";
+import type { CreateHoldInput } from "@/lib/server/types";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/holds - Get current user's holds with queue positions (auth required)
+// POST /api/holds - Place a hold on a checked-out book, or with anyEdition on whichever of its editions
+// comes back first (requires checkout:create permission) - AUTH REQUIRED
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (req.method === "GET") {
+      const { status = "active" } = req.query;
+
+      try {
+        // Roll lapsed pickups so the user sees up-to-date positions
+        await expireReadyHolds();
+
+        const holds = await getUserHolds(user.id, status === "active");
+
+        return res.status(HttpStatusCodes.OK).json({ holds });
+      } catch (error) {
+        console.error("Error fetching holds:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch holds",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      if (!user.permissions.includes("checkout:create")) {
+        return res.status(HttpStatusCodes.FORBIDDEN).json({
+          error: "You do not have permission to place holds",
+          code: HoldErrorCodes.HOLD_CREATE_FAILED,
+        });
+      }
+
+      const data: CreateHoldInput = req.body;
+
+      if (!data.bookId) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Book ID is required",
+          code: HoldErrorCodes.HOLD_CREATE_FAILED,
+        });
+      }
+
+      // Only staff can place holds on behalf of another patron
+      const userId = data.userId && user.permissions.includes("checkout:manage") ? data.userId : user.id;
+
+      const anyEdition = data.anyEdition === true;
+      const validationError = await validateHold(userId, data.bookId, anyEdition);
+      if (validationError) {
+        return res.status(validationError.statusCode).json({
+          error: validationError.message,
+          code: validationError.code,
+        });
+      }
+
+      try {
+        const hold = await createHold({ bookId: data.bookId, userId, anyEdition });
+
+        return res.status(HttpStatusCodes.CREATED).json({ hold });
+      } catch (error) {
+        console.error("Error creating hold:", error);
+        const errorMessage = error instanceof Error ? error.message : "Failed to place hold";
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: errorMessage,
+          code: HoldErrorCodes.HOLD_CREATE_FAILED,
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true }, // Auth required to view own holds
+    POST: { requireAuth: true, requirePermissions: ["checkout:create"] }, // Same permission as borrowing
+  }
+);
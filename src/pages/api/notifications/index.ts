@@ -0,0 +1,81 @@
+import { createMethodAuthHandler, getUserNotifications, markNotificationsRead } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { NextApiRequest, NextApiResponse } from "next";
+import * as z from "zod";
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).min(1).optional(), // All unread notifications when omitted
+});
+
+// GET /api/notifications - Get current user's in-app notifications and unread count (auth required)
+// PATCH /api/notifications - Mark notifications as read (auth required)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+
+        const { notifications, total, unreadCount } = await getUserNotifications(
+          user.id,
+          page,
+          limit,
+          req.query.unread === "true"
+        );
+
+        return res.status(HttpStatusCodes.OK).json({
+          notifications,
+          unreadCount,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        });
+      } catch (error) {
+        console.error("Error fetching notifications:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch notifications",
+        });
+      }
+    }
+
+    if (req.method === "PATCH") {
+      const validationResult = markReadSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      try {
+        const updated = await markNotificationsRead(user.id, validationResult.data.ids);
+
+        return res.status(HttpStatusCodes.OK).json({ updated });
+      } catch (error) {
+        console.error("Error marking notifications read:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to update notifications",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true },
+    PATCH: { requireAuth: true },
+  }
+);
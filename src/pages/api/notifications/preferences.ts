@@ -0,0 +1,90 @@
+import {
+  EMAIL_LOCALES,
+  createMethodAuthHandler,
+  getNotificationPreferences,
+  getPreferredLocale,
+  updateNotificationPreferences,
+  updatePreferredLocale,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { NextApiRequest, NextApiResponse } from "next";
+import * as z from "zod";
+
+const updatePreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        event: z.enum(["DUE_SOON", "OVERDUE", "HOLD_READY", "NEW_ARRIVAL", "WELCOME"]),
+        email: z.boolean(),
+        inApp: z.boolean(),
+      })
+    )
+    .min(1, "At least one preference is required"),
+  locale: z
+    .string()
+    .refine((locale) => locale in EMAIL_LOCALES, "Unsupported language")
+    .optional(),
+});
+
+// GET /api/notifications/preferences - Get current user's channel preferences per event and email language (auth required)
+// PUT /api/notifications/preferences - Update channel preferences and optionally the email language (auth required)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const [preferences, locale] = await Promise.all([
+          getNotificationPreferences(user.id),
+          getPreferredLocale(user.id),
+        ]);
+
+        return res.status(HttpStatusCodes.OK).json({ preferences, locale });
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch notification preferences",
+        });
+      }
+    }
+
+    if (req.method === "PUT") {
+      const validationResult = updatePreferencesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      try {
+        const { preferences: input, locale: localeInput } = validationResult.data;
+        const preferences = await updateNotificationPreferences(user.id, input);
+        const locale = localeInput
+          ? await updatePreferredLocale(user.id, localeInput)
+          : await getPreferredLocale(user.id);
+
+        return res.status(HttpStatusCodes.OK).json({ preferences, locale });
+      } catch (error) {
+        console.error("Error updating notification preferences:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to update notification preferences",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true },
+    PUT: { requireAuth: true },
+  }
+);
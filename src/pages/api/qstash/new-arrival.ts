@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { notifyNewArrival } from "@/lib/server/saved-search";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import { verifySignature } from "@upstash/qstash/nextjs";
+import { QSTASH_TOKEN } from "@/lib/server/constants/env";
+
+// Disable body parsing for QStash signature verification
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+/**
+ * QStash webhook endpoint to send new arrival alerts for a newly added book
+ * With the Postgres queue backend the same alerts are sent by the "job-queue" background job instead
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  try {
+    // verifySignature parses the body automatically
+    const body = req.body as { bookId?: string; type?: string };
+    const { bookId, type } = body;
+
+    if (!bookId || type !== "new_arrival") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid request body",
+      });
+    }
+
+    const patronsNotified = await notifyNewArrival(bookId);
+
+    return res.status(HttpStatusCodes.OK).json({
+      message: "New arrival alerts sent",
+      bookId,
+      patronsNotified,
+    });
+  } catch (error) {
+    console.error("[QStash Webhook] Error sending new arrival alerts:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to send new arrival alerts",
+    });
+  }
+}
+
+// Verify QStash signature if token is configured
+const wrappedHandler = QSTASH_TOKEN
+  ? verifySignature(handler)
+  : (() => {
+      console.warn("[QStash Webhook] QSTASH_TOKEN not configured. Webhook signature verification is disabled.");
+      return handler;
+    })();
+
+export default wrappedHandler;
@@ -1,6 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma } from "@/lib/server/prisma";
-import { sendOverdueReminderEmail } from "@/lib/server/email";
+import { processCheckoutReminder } from "@/lib/server/reminder";
 import { HttpStatusCodes } from "@/lib/server/errors";
 import { verifySignature } from "@upstash/qstash/nextjs";
 import { QSTASH_TOKEN } from "@/lib/server/constants/env";
@@ -15,6 +14,7 @@ export const config = {
 /**
  * QStash webhook endpoint to handle overdue book reminders
  * This endpoint is called by QStash when a scheduled reminder is triggered
+ * With the Postgres queue backend the same reminder is processed by the "job-queue" background job instead
  */
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
@@ -35,69 +35,20 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
-    // Fetch checkout with book and user details
-    const checkout = await prisma.checkout.findUnique({
-      where: { id: checkoutId },
-      include: {
-        book: true,
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
+    const outcome = await processCheckoutReminder(checkoutId);
 
-    if (!checkout) {
-      console.warn(`[QStash Webhook] Checkout ${checkoutId} not found`);
+    if (outcome === "not_found") {
       return res.status(HttpStatusCodes.NOT_FOUND).json({
         error: "Checkout not found",
       });
     }
 
-    // Check if book has already been returned
-    if (checkout.returnedDate) {
-      console.log(`[QStash Webhook] Checkout ${checkoutId} already returned, skipping reminder`);
+    if (outcome === "returned") {
       return res.status(HttpStatusCodes.OK).json({
         message: "Checkout already returned, reminder skipped",
       });
     }
 
-    // Update overdue status
-    const { calculateLateFees } = await import("@/lib/server/checkout");
-    const { isOverdue, overdueDays, lateFeeAmount } = calculateLateFees(
-      checkout.dueDate,
-      Number(checkout.lateFeePerDay)
-    );
-
-    // Update checkout with current overdue status
-    await prisma.checkout.update({
-      where: { id: checkoutId },
-      data: {
-        isOverdue,
-        overdueDays,
-        lateFeeAmount: isOverdue ? lateFeeAmount : null,
-      },
-    });
-
-    // Send overdue reminder email (non-blocking - graceful degradation)
-    if (checkout.user.email) {
-      sendOverdueReminderEmail({
-        email: checkout.user.email,
-        name: checkout.user.name || "User",
-        bookTitle: checkout.book.title,
-        bookAuthor: checkout.book.author,
-        dueDate: checkout.dueDate,
-        overdueDays: overdueDays > 0 ? overdueDays : 0,
-        lateFeeAmount: lateFeeAmount > 0 ? lateFeeAmount : null,
-      }).catch((error) => {
-        console.error("Failed to send overdue reminder email:", error);
-        // Don't fail the webhook if email fails
-      });
-    }
-
     return res.status(HttpStatusCodes.OK).json({
       message: "Reminder processed successfully",
       checkoutId,
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAuthHandler, getContinueReading } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/reading - Books the current user is reading and still has checked out, for the "continue reading" shelf
+export default createAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    if (req.method !== "GET") {
+      return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+        error: "Method not allowed",
+      });
+    }
+
+    try {
+      const reading = await getContinueReading(user.id);
+
+      return res.status(HttpStatusCodes.OK).json({ reading });
+    } catch (error) {
+      console.error("Error fetching reading progress:", error);
+      return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+        error: "Failed to fetch reading progress",
+      });
+    }
+  },
+  { requireAuth: true }
+);
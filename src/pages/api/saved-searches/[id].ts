@@ -0,0 +1,80 @@
+import { createMethodAuthHandler, deleteSavedSearch, getSavedSearch, updateSavedSearch } from "@/lib/server";
+import { createSavedSearchNotFoundError, HttpStatusCodes } from "@/lib/server/errors";
+import type { NextApiRequest, NextApiResponse } from "next";
+import * as z from "zod";
+
+const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  notifyNewArrivals: z.boolean().optional(),
+});
+
+// PUT /api/saved-searches/[id] - Rename a saved search or toggle its new arrival alerts (owner only)
+// DELETE /api/saved-searches/[id] - Delete a saved search (owner only)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    const { id } = req.query;
+
+    if (typeof id !== "string") {
+      return res.status(HttpStatusCodes.BAD_REQUEST).json({
+        error: "Invalid saved search ID",
+      });
+    }
+
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    // Other users' searches are reported as missing
+    const savedSearch = await getSavedSearch(user.id, id);
+    if (!savedSearch) {
+      const error = createSavedSearchNotFoundError(id);
+      return res.status(error.statusCode).json(error);
+    }
+
+    if (req.method === "PUT") {
+      const validationResult = updateSavedSearchSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      try {
+        const updated = await updateSavedSearch(id, validationResult.data);
+        return res.status(HttpStatusCodes.OK).json({ savedSearch: updated });
+      } catch (error) {
+        console.error("Error updating saved search:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to update saved search",
+        });
+      }
+    }
+
+    if (req.method === "DELETE") {
+      try {
+        await deleteSavedSearch(id);
+        return res.status(HttpStatusCodes.OK).json({
+          message: "Saved search deleted successfully",
+        });
+      } catch (error) {
+        console.error("Error deleting saved search:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to delete saved search",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    PUT: { requireAuth: true },
+    DELETE: { requireAuth: true },
+  }
+);
@@ -0,0 +1,105 @@
+import {
+  createMethodAuthHandler,
+  createSavedSearch,
+  getSavedSearches,
+  MAX_SAVED_SEARCHES,
+  validateSavedSearch,
+} from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+import type { NextApiRequest, NextApiResponse } from "next";
+import * as z from "zod";
+
+const bookStatusSchema = z.enum(["AVAILABLE", "CHECKED_OUT"]);
+
+// Mirrors BookSearchFilters
+const filtersSchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    title: z.string().trim().max(200).optional(),
+    author: z.string().trim().max(200).optional(),
+    authorId: z.string().max(50).optional(),
+    genre: z.string().trim().max(100).optional(),
+    isbn: z.string().trim().max(20).optional(),
+    publisher: z.string().trim().max(200).optional(),
+    publisherId: z.string().max(50).optional(),
+    status: bookStatusSchema.optional(),
+    language: z.string().trim().max(50).optional(),
+    minYear: z.number().int().optional(),
+    maxYear: z.number().int().optional(),
+    genres: z.array(z.string()).max(50).optional(),
+    languages: z.array(z.string()).max(50).optional(),
+    publishers: z.array(z.string()).max(50).optional(),
+    decades: z.array(z.number().int()).max(50).optional(),
+    statuses: z.array(bookStatusSchema).max(2).optional(),
+    tags: z.array(z.string()).max(50).optional(),
+  })
+  .strict()
+  .refine(
+    (filters) => Object.values(filters).some((value) => (Array.isArray(value) ? value.length > 0 : Boolean(value))),
+    "Choose at least one filter to save"
+  );
+
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: filtersSchema,
+  notifyNewArrivals: z.boolean().optional(),
+});
+
+// GET /api/saved-searches - List the current user's saved searches (auth required)
+// POST /api/saved-searches - Save the current search filters, optionally with new arrival alerts (auth required)
+export default createMethodAuthHandler(
+  async (req: NextApiRequest, res: NextApiResponse, { user }) => {
+    // User is guaranteed to be defined due to method config
+    if (!user) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        error: "Authentication required",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (req.method === "GET") {
+      try {
+        const savedSearches = await getSavedSearches(user.id);
+        return res.status(HttpStatusCodes.OK).json({ savedSearches, limit: MAX_SAVED_SEARCHES });
+      } catch (error) {
+        console.error("Error fetching saved searches:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to fetch saved searches",
+        });
+      }
+    }
+
+    if (req.method === "POST") {
+      const validationResult = createSavedSearchSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(HttpStatusCodes.BAD_REQUEST).json({
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        });
+      }
+
+      const validationError = await validateSavedSearch(user.id);
+      if (validationError) {
+        return res.status(validationError.statusCode).json(validationError);
+      }
+
+      try {
+        const savedSearch = await createSavedSearch(user.id, validationResult.data);
+        return res.status(HttpStatusCodes.CREATED).json({ savedSearch });
+      } catch (error) {
+        console.error("Error saving search:", error);
+        return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+          error: "Failed to save search",
+        });
+      }
+    }
+
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  },
+  {
+    GET: { requireAuth: true },
+    POST: { requireAuth: true },
+  }
+);
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createSeriesNotFoundError, getSeries } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/series/[id] - Series with its books in reading order (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== "string") {
+    return res.status(HttpStatusCodes.BAD_REQUEST).json({
+      error: "Invalid series ID",
+    });
+  }
+
+  try {
+    const series = await getSeries(id);
+    if (!series) {
+      const error = createSeriesNotFoundError(id);
+      return res.status(error.statusCode).json(error);
+    }
+
+    return res.status(HttpStatusCodes.OK).json(series);
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to fetch series",
+    });
+  }
+}
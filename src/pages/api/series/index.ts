@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { searchSeries } from "@/lib/server";
+import { HttpStatusCodes } from "@/lib/server/errors";
+
+// GET /api/series?q= - Series matching a name, for the book form (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(HttpStatusCodes.METHOD_NOT_ALLOWED).json({
+      error: "Method not allowed",
+    });
+  }
+
+  const q = typeof req.query.q === "string" ? req.query.q.slice(0, 100) : "";
+
+  try {
+    const series = await searchSeries(q);
+
+    return res.status(HttpStatusCodes.OK).json({ series });
+  } catch (error) {
+    console.error("Error searching series:", error);
+    return res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Failed to search series",
+    });
+  }
+}
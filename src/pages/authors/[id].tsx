@@ -0,0 +1,102 @@
+import * as React from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import { useAuthor } from "@/hooks/useAuthors";
+import { useCheckoutBook } from "@/hooks/useCheckouts";
+import { useAuth } from "@/hooks/useAuth";
+import { BookList } from "@/components/books/BookList";
+import { AUTHOR_ROLE_LABELS } from "@/components/books/BookContributors";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { PublicLayout } from "@/components/layout/PublicLayout";
+import { SecondaryButton } from "@/components/ui/button-variants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { AuthorWithBooks } from "@/lib/server/types";
+import type { AuthorRole } from "@prisma/client";
+import { toast } from "sonner";
+
+type AuthorBook = AuthorWithBooks["books"][number];
+
+// Books they wrote come first, then one section per other role, e.g. "As translator"
+const ROLE_ORDER: AuthorRole[] = ["AUTHOR", "EDITOR", "TRANSLATOR", "ILLUSTRATOR"];
+
+export default function AuthorPage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const { data: author, isLoading, error } = useAuthor(id as string);
+  const { isAuthenticated, hasPermission } = useAuth();
+  const checkoutMutation = useCheckoutBook();
+
+  const canCheckout = isAuthenticated && hasPermission("checkout:create");
+  const books: AuthorBook[] = author?.books || [];
+
+  // A book appears under the first of its roles, so it is only listed once
+  const sections = ROLE_ORDER.map((role) => ({
+    role,
+    books: books.filter((book) => ROLE_ORDER.find((bookRole) => book.roles.includes(bookRole)) === role),
+  })).filter((section) => section.books.length > 0);
+
+  const handleCheckout = async (bookId: string) => {
+    try {
+      await checkoutMutation.mutateAsync({ bookId });
+      toast.success("Book checked out successfully!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to checkout book");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (error || !author) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-destructive">Author not found</p>
+              <Link href="/books">
+                <SecondaryButton className="mt-4">Back to Catalog</SecondaryButton>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  return (
+    <PublicLayout>
+      <div className="container mx-auto py-6">
+        <PageHeader
+          title={author.name}
+          description={`${books.length} ${books.length === 1 ? "book" : "books"} in the catalog`}
+        />
+        <div className="space-y-8 p-4">
+          {author.bio && <p className="max-w-3xl whitespace-pre-wrap text-muted-foreground">{author.bio}</p>}
+          {sections.map((section) => (
+            <section key={section.role} className="space-y-4">
+              {sections.length > 1 && (
+                <h2 className="text-xl font-semibold">
+                  {section.role === "AUTHOR" ? "Books" : `As ${AUTHOR_ROLE_LABELS[section.role].toLowerCase()}`}
+                </h2>
+              )}
+              <BookList
+                books={section.books}
+                onCheckout={canCheckout ? handleCheckout : undefined}
+                canCheckout={canCheckout}
+              />
+            </section>
+          ))}
+        </div>
+      </div>
+    </PublicLayout>
+  );
+}
@@ -2,56 +2,75 @@ import * as React from "react";
 import { useRouter } from "next/router";
 import { useBook } from "@/hooks/useBooks";
 import { useCheckoutBook } from "@/hooks/useCheckouts";
+import { useCancelHold, useMyHolds, usePlaceHold } from "@/hooks/useHolds";
+import { BookContributors } from "@/components/books/BookContributors";
+import { BookCover } from "@/components/books/BookCover";
 import { ChapterList } from "@/components/books/ChapterList";
 import { CTAButton, SecondaryButton } from "@/components/ui/button-variants";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { BookStatus } from "@prisma/client";
+import type { BookEdition, BookGenreLink, ChapterExportFormat, HoldWithQueuePosition } from "@/lib/server/types";
+import { format } from "date-fns";
 import { toast } from "sonner";
-import Image from "next/image";
+import { BookOpen, ChevronLeft, ChevronRight, Download } from "lucide-react";
 import Link from "next/link";
-import { BookOpen } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { PublicLayout } from "@/components/layout/PublicLayout";
 
-// Default book cover component
-function DefaultBookCover({ title, author }: { title: string; author?: string }) {
-  const initials = title
-    .split(" ")
-    .map((word) => word[0])
-    .filter(Boolean)
-    .slice(0, 2)
-    .join("")
-    .toUpperCase();
-
-  return (
-    <div className="relative w-full h-full bg-linear-to-br from-primary/20 to-primary/5 dark:from-primary/30 dark:to-primary/10 flex items-center justify-center">
-      <div className="flex flex-col items-center justify-center gap-2 text-center p-4">
-        <BookOpen className="size-16 text-primary/60 dark:text-primary/80" />
-        <div className="text-2xl font-bold text-foreground/80">{initials}</div>
-        {author && <div className="text-xs text-muted-foreground line-clamp-1">{author}</div>}
-      </div>
-    </div>
-  );
+// e.g. "2019 · French · Gallimard"
+function describeEdition(edition: BookEdition): string {
+  return [edition.publicationYear, edition.language, edition.publisher].filter(Boolean).join(" · ") || edition.title;
 }
 
+const downloadFormatLabels: Record<ChapterExportFormat, string> = {
+  epub: "EPUB (e-readers)",
+  pdf: "PDF",
+};
+
 export default function BookDetailsPage() {
   const router = useRouter();
   const { id } = router.query;
-  const { isAuthenticated, hasPermission } = useAuth();
+  const { isAuthenticated, hasPermission, userId } = useAuth();
   const { data, isLoading, error } = useBook(id as string, true);
   const checkoutMutation = useCheckoutBook();
+  const { data: holdsData } = useMyHolds("active", isAuthenticated);
+  const placeHoldMutation = usePlaceHold();
+  const cancelHoldMutation = useCancelHold();
 
   const book = data?.book;
-  const [imageError, setImageError] = React.useState(false);
 
   // Consolidate missing data with fallbacks
   const title = book?.title || "Untitled Book";
   const author = book?.author || "Unknown Author";
   const isAvailable = book?.status === BookStatus.AVAILABLE;
+  const availability = book?.availability;
   const canCheckout = isAuthenticated && hasPermission("checkout:create");
-  const hasCoverImage = Boolean(book?.coverImageUrl) && !imageError;
+  const editions: BookEdition[] = book?.editions || [];
+  const genreNames: string[] = book?.genres?.length
+    ? (book.genres as BookGenreLink[]).map((link) => link.genre.name)
+    : book?.genre
+      ? [book.genre]
+      : [];
+  // A hold on any edition shows on every edition's page
+  const myHold = (holdsData?.holds as HoldWithQueuePosition[] | undefined)?.find(
+    (hold) => hold.bookId === book?.id || (hold.workId && hold.workId === book?.workId)
+  );
+  const holdQueueLength: number = book?.holdQueueLength || 0;
+  // Borrowers can read the chapters online; so can staff who edit books
+  const canRead =
+    isAuthenticated &&
+    (hasPermission("book:update") ||
+      Boolean((book?.checkouts as { userId: string }[] | undefined)?.some((checkout) => checkout.userId === userId)));
+  const hasChapters = Boolean(book?.chapters?.length);
 
   const handleCheckout = async () => {
     if (!book) return;
@@ -72,6 +91,30 @@ export default function BookDetailsPage() {
     }
   };
 
+  const handlePlaceHold = async (anyEdition = false) => {
+    if (!book) return;
+    try {
+      await placeHoldMutation.mutateAsync({ bookId: book.id, anyEdition });
+      toast.success(
+        anyEdition
+          ? "Hold placed. We'll email you when a copy of any edition is ready."
+          : "Hold placed. We'll email you when a copy is ready."
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to place hold");
+    }
+  };
+
+  const handleCancelHold = async () => {
+    if (!myHold) return;
+    try {
+      await cancelHoldMutation.mutateAsync(myHold.id);
+      toast.success("Hold cancelled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel hold");
+    }
+  };
+
   if (isLoading) {
     return (
       <PublicLayout>
@@ -109,28 +152,53 @@ export default function BookDetailsPage() {
                 <div className="flex items-start justify-between">
                   <div>
                     <CardTitle className="text-3xl">{title}</CardTitle>
-                    <CardDescription className="text-lg mt-2">by {author}</CardDescription>
+                    <CardDescription className="text-lg mt-2">
+                      by <BookContributors contributors={book.authors} fallback={author} />
+                    </CardDescription>
+                    {book.series && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {book.seriesVolume !== null ? `Book ${book.seriesVolume} of ` : "Part of "}
+                        <Link href={`/series/${book.series.id}`} className="hover:underline underline-offset-4">
+                          {book.series.name}
+                        </Link>
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={isAvailable ? "default" : "secondary"}>
+                      {isAvailable ? "Available" : "Checked Out"}
+                    </Badge>
+                    {availability && availability.totalCopies > 0 && (
+                      <span className="text-sm text-muted-foreground">
+                        {availability.availableCopies} of {availability.totalCopies} available
+                      </span>
+                    )}
                   </div>
-                  <Badge variant={isAvailable ? "default" : "secondary"}>
-                    {isAvailable ? "Available" : "Checked Out"}
-                  </Badge>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
+                {editions.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">Edition:</span>
+                    <Select value={book.id} onValueChange={(editionId) => router.push(`/books/${editionId}`)}>
+                      <SelectTrigger className="w-auto min-w-64" aria-label="Edition">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {editions.map((edition) => (
+                          <SelectItem key={edition.id} value={edition.id}>
+                            {describeEdition(edition)}
+                            {edition.availability.totalCopies > 0 &&
+                              ` (${edition.availability.availableCopies} of ${edition.availability.totalCopies} available)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 {/* Book Cover - Always show, either image or default */}
                 <div className="relative w-full h-96 bg-muted rounded-lg overflow-hidden">
-                  {hasCoverImage ? (
-                    <Image
-                      src={book.coverImageUrl!}
-                      alt={`${title} cover`}
-                      fill
-                      className="object-cover"
-                      sizes="(max-width: 768px) 100vw, 66vw"
-                      onError={() => setImageError(true)}
-                    />
-                  ) : (
-                    <DefaultBookCover title={title} author={author} />
-                  )}
+                  <BookCover book={book} sizes="(max-width: 768px) 100vw, 66vw" />
                 </div>
                 {/* Book Details Grid */}
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -141,7 +209,25 @@ export default function BookDetailsPage() {
                   )}
                   {book.publisher && (
                     <div>
-                      <span className="font-medium">Publisher:</span> {book.publisher}
+                      <span className="font-medium">Publisher:</span>{" "}
+                      {book.publishedBy ? (
+                        <Link
+                          href={{
+                            pathname: "/books",
+                            query: {
+                              filters: JSON.stringify({
+                                publisher: book.publishedBy.name,
+                                publisherId: book.publishedBy.id,
+                              }),
+                            },
+                          }}
+                          className="hover:underline underline-offset-4"
+                        >
+                          {book.publishedBy.name}
+                        </Link>
+                      ) : (
+                        book.publisher
+                      )}
                     </div>
                   )}
                   {book.publicationYear && (
@@ -149,9 +235,20 @@ export default function BookDetailsPage() {
                       <span className="font-medium">Year:</span> {book.publicationYear}
                     </div>
                   )}
-                  {book.genre && (
+                  {genreNames.length > 0 && (
                     <div>
-                      <span className="font-medium">Genre:</span> {book.genre}
+                      <span className="font-medium">{genreNames.length === 1 ? "Genre:" : "Genres:"}</span>{" "}
+                      {genreNames.map((genre, index) => (
+                        <React.Fragment key={genre}>
+                          {index > 0 && ", "}
+                          <Link
+                            href={{ pathname: "/books", query: { filters: JSON.stringify({ genres: [genre] }) } }}
+                            className="hover:underline underline-offset-4"
+                          >
+                            {genre}
+                          </Link>
+                        </React.Fragment>
+                      ))}
                     </div>
                   )}
                   {book.pageCount > 0 && (
@@ -197,7 +294,7 @@ export default function BookDetailsPage() {
                 )}
               </CardContent>
             </Card>
-            {book.chapters && book.chapters.length > 0 && <ChapterList chapters={book.chapters} />}
+            {hasChapters && <ChapterList chapters={book.chapters} canRead={canRead} />}
           </div>
           <div className="space-y-4">
             <Card>
@@ -205,7 +302,44 @@ export default function BookDetailsPage() {
                 <CardTitle>Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                {isAvailable && canCheckout ? (
+                {canRead && hasChapters && (
+                  <Link href={`/books/${book.id}/read`}>
+                    <CTAButton className="w-full">
+                      <BookOpen className="size-4 mr-2" />
+                      Read Online
+                    </CTAButton>
+                  </Link>
+                )}
+                {canRead && hasChapters && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SecondaryButton className="w-full">
+                        <Download className="size-4 mr-2" />
+                        Download
+                      </SecondaryButton>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {(Object.keys(downloadFormatLabels) as ChapterExportFormat[]).map((exportFormat) => (
+                        <DropdownMenuItem key={exportFormat} asChild>
+                          <a href={`/api/books/${book.id}/download?format=${exportFormat}`} download>
+                            {downloadFormatLabels[exportFormat]}
+                          </a>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {myHold?.status === "READY" ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      A copy is being held for you
+                      {myHold.pickupExpiresAt && ` until ${format(new Date(myHold.pickupExpiresAt), "MMM dd, yyyy")}`}
+                    </p>
+                    <CTAButton onClick={handleCheckout} className="w-full" disabled={checkoutMutation.isPending}>
+                      {checkoutMutation.isPending ? "Processing..." : "Checkout Book"}
+                    </CTAButton>
+                  </>
+                ) : isAvailable && canCheckout ? (
                   <CTAButton onClick={handleCheckout} className="w-full" disabled={checkoutMutation.isPending}>
                     {checkoutMutation.isPending ? "Processing..." : "Checkout Book"}
                   </CTAButton>
@@ -216,13 +350,98 @@ export default function BookDetailsPage() {
                       : "Please sign in to checkout this book"}
                   </p>
                 ) : (
-                  <p className="text-sm text-muted-foreground">This book is currently checked out</p>
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      {availability && availability.totalCopies === 0
+                        ? "No copies of this book are in circulation"
+                        : "All copies of this book are currently checked out"}
+                    </p>
+                    {myHold?.status === "WAITING" ? (
+                      <>
+                        <p className="text-sm">
+                          You are <span className="font-medium">#{myHold.queuePosition}</span> of {myHold.queueLength}{" "}
+                          in the hold queue
+                        </p>
+                        <SecondaryButton
+                          onClick={handleCancelHold}
+                          className="w-full"
+                          disabled={cancelHoldMutation.isPending}
+                        >
+                          {cancelHoldMutation.isPending ? "Cancelling..." : "Cancel Hold"}
+                        </SecondaryButton>
+                      </>
+                    ) : (
+                      canCheckout &&
+                      availability &&
+                      (availability.totalCopies > 0 || editions.length > 1) && (
+                        <>
+                          {holdQueueLength > 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              {holdQueueLength} {holdQueueLength === 1 ? "patron is" : "patrons are"} waiting
+                            </p>
+                          )}
+                          {availability.totalCopies > 0 && (
+                            <CTAButton
+                              onClick={() => handlePlaceHold()}
+                              className="w-full"
+                              disabled={placeHoldMutation.isPending}
+                            >
+                              {placeHoldMutation.isPending ? "Placing Hold..." : "Place Hold"}
+                            </CTAButton>
+                          )}
+                          {editions.length > 1 && (
+                            <SecondaryButton
+                              onClick={() => handlePlaceHold(true)}
+                              className="w-full"
+                              disabled={placeHoldMutation.isPending}
+                            >
+                              Hold Any Edition
+                            </SecondaryButton>
+                          )}
+                        </>
+                      )
+                    )}
+                  </>
                 )}
                 <Link href="/books">
                   <SecondaryButton className="w-full">Back to Catalog</SecondaryButton>
                 </Link>
               </CardContent>
             </Card>
+
+            {book.series && (book.previousInSeries || book.nextInSeries) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{book.series.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {book.previousInSeries && (
+                    <Link
+                      href={`/books/${book.previousInSeries.id}`}
+                      className="flex items-center gap-2 hover:underline underline-offset-4"
+                    >
+                      <ChevronLeft className="h-4 w-4 shrink-0" />
+                      <span>
+                        Previous: {book.previousInSeries.title}
+                        {book.previousInSeries.seriesVolume !== null && ` (Book ${book.previousInSeries.seriesVolume})`}
+                      </span>
+                    </Link>
+                  )}
+                  {book.nextInSeries && (
+                    <Link
+                      href={`/books/${book.nextInSeries.id}`}
+                      className="flex items-center gap-2 hover:underline underline-offset-4"
+                    >
+                      <ChevronRight className="h-4 w-4 shrink-0" />
+                      <span>
+                        Next in series: {book.nextInSeries.title}
+                        {book.nextInSeries.seriesVolume !== null && ` (Book ${book.nextInSeries.seriesVolume})`}
+                      </span>
+                    </Link>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,279 @@
+import * as React from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import { useAuth } from "@/hooks/useAuth";
+import { useReaderBook, useSaveReadingProgress } from "@/hooks/useReading";
+import { PublicLayout } from "@/components/layout/PublicLayout";
+import { Button } from "@/components/ui/button";
+import { SecondaryButton } from "@/components/ui/button-variants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/client/utils";
+import {
+  READER_FONT_SIZES,
+  loadReaderSettings,
+  paginateChapter,
+  saveReaderSettings,
+  type ReaderSettings,
+  type ReaderTheme,
+} from "@/lib/client/reader";
+import type { ReaderBook } from "@/lib/server/types";
+import { ArrowLeft, ChevronLeft, ChevronRight, Minus, Plus } from "lucide-react";
+
+const READER_THEMES: Record<ReaderTheme, { label: string; className: string }> = {
+  light: { label: "Light", className: "bg-white text-zinc-900" },
+  sepia: { label: "Sepia", className: "bg-[#f4ecd8] text-[#5b4636]" },
+  dark: { label: "Dark", className: "bg-zinc-900 text-zinc-100" },
+};
+
+// Wait for the reader to settle on a page before saving it
+const SAVE_PROGRESS_DELAY_MS = 1000;
+
+export default function ReadBookPage() {
+  const router = useRouter();
+  const { id, chapter: chapterParam } = router.query;
+  const bookId = typeof id === "string" ? id : undefined;
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { data, isLoading, error } = useReaderBook(
+    bookId,
+    typeof chapterParam === "string" ? chapterParam : undefined,
+    isAuthenticated
+  );
+  const { mutate: saveProgress } = useSaveReadingProgress();
+  const [settings, setSettings] = React.useState<ReaderSettings>(loadReaderSettings);
+  // Position within each chapter opened this visit, from 0 to 1; it survives font size changes
+  const [positions, setPositions] = React.useState<Record<string, number>>({});
+
+  const reader = data as ReaderBook | undefined;
+  const chapter = reader?.chapter ?? null;
+  const chapters = reader?.chapters ?? [];
+  const pages = React.useMemo(
+    () => paginateChapter(chapter?.content ?? "", settings.fontSize),
+    [chapter?.content, settings.fontSize]
+  );
+
+  const position = chapter
+    ? (positions[chapter.id] ?? (reader?.progress?.chapterId === chapter.id ? reader.progress.position : 0))
+    : 0;
+  const pageIndex = Math.min(Math.floor(position * pages.length), pages.length - 1);
+  const chapterIndex = chapter ? chapters.findIndex((other) => other.id === chapter.id) : -1;
+  const previousChapter = chapterIndex > 0 ? chapters[chapterIndex - 1] : null;
+  const nextChapter = chapterIndex >= 0 ? (chapters[chapterIndex + 1] ?? null) : null;
+  const bookProgress = chapters.length > 0 ? Math.round(((chapterIndex + position) / chapters.length) * 100) : 0;
+
+  React.useEffect(() => {
+    if (!bookId || !chapter) return;
+    const timeout = setTimeout(() => {
+      saveProgress({ bookId, chapterId: chapter.id, position });
+    }, SAVE_PROGRESS_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [bookId, chapter, position, saveProgress]);
+
+  const updateSettings = (changes: Partial<ReaderSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveReaderSettings(next);
+  };
+
+  const openChapter = (chapterId: string, atEnd = false) => {
+    setPositions((current) => ({ ...current, [chapterId]: atEnd ? 1 : 0 }));
+    router.push({ pathname: router.pathname, query: { id: bookId, chapter: chapterId } }, undefined, {
+      shallow: true,
+    });
+  };
+
+  const goToPage = (index: number) => {
+    if (!chapter) return;
+    setPositions((current) => ({ ...current, [chapter.id]: index / pages.length }));
+  };
+
+  const goBack = () => {
+    if (pageIndex > 0) {
+      goToPage(pageIndex - 1);
+    } else if (previousChapter) {
+      openChapter(previousChapter.id, true);
+    }
+  };
+
+  const goForward = () => {
+    if (pageIndex < pages.length - 1) {
+      goToPage(pageIndex + 1);
+    } else if (nextChapter) {
+      openChapter(nextChapter.id);
+    }
+  };
+
+  // Arrow keys turn pages
+  const turnPage = React.useEffectEvent((event: KeyboardEvent) => {
+    if (event.target instanceof HTMLElement && event.target.closest("input, textarea, select, [role='combobox']")) {
+      return;
+    }
+    if (event.key === "ArrowLeft") goBack();
+    if (event.key === "ArrowRight") goForward();
+  });
+
+  React.useEffect(() => {
+    window.addEventListener("keydown", turnPage);
+    return () => window.removeEventListener("keydown", turnPage);
+  }, []);
+
+  if (!isAuthLoading && !isAuthenticated) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Please sign in to read this book</p>
+              <Link href={`/auth/signin?callbackUrl=${encodeURIComponent(router.asPath)}`}>
+                <SecondaryButton className="mt-4">Sign In</SecondaryButton>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (isAuthLoading || isLoading) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Skeleton className="h-[70vh] w-full" />
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (error || !reader) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-destructive">{error instanceof Error ? error.message : "Book not found"}</p>
+              <Link href={bookId ? `/books/${bookId}` : "/books"}>
+                <SecondaryButton className="mt-4">Back to Book</SecondaryButton>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  const fontSizeIndex = READER_FONT_SIZES.indexOf(settings.fontSize);
+
+  return (
+    <PublicLayout>
+      <div className="container mx-auto max-w-3xl py-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Link
+            href={`/books/${reader.book.id}`}
+            className="flex items-center gap-2 text-sm text-muted-foreground hover:underline underline-offset-4"
+          >
+            <ArrowLeft className="size-4" />
+            <span className="line-clamp-1">
+              {reader.book.title} · {reader.book.author}
+            </span>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => updateSettings({ fontSize: READER_FONT_SIZES[fontSizeIndex - 1] })}
+              disabled={fontSizeIndex <= 0}
+              aria-label="Smaller text"
+            >
+              <Minus className="size-4" />
+            </Button>
+            <span className="w-12 text-center text-sm tabular-nums">{settings.fontSize}px</span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => updateSettings({ fontSize: READER_FONT_SIZES[fontSizeIndex + 1] })}
+              disabled={fontSizeIndex >= READER_FONT_SIZES.length - 1}
+              aria-label="Larger text"
+            >
+              <Plus className="size-4" />
+            </Button>
+            <Select value={settings.theme} onValueChange={(theme) => updateSettings({ theme: theme as ReaderTheme })}>
+              <SelectTrigger className="w-28" aria-label="Theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(READER_THEMES) as ReaderTheme[]).map((theme) => (
+                  <SelectItem key={theme} value={theme}>
+                    {READER_THEMES[theme].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {chapter ? (
+          <>
+            <Select value={chapter.id} onValueChange={(chapterId) => openChapter(chapterId)}>
+              <SelectTrigger className="w-full" aria-label="Chapter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chapters.map((other) => (
+                  <SelectItem key={other.id} value={other.id}>
+                    {other.order}. {other.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <article
+              className={cn(
+                "min-h-[60vh] rounded-lg border px-6 py-8 sm:px-12 shadow-sm transition-colors",
+                READER_THEMES[settings.theme].className
+              )}
+              style={{ fontSize: settings.fontSize, lineHeight: 1.7 }}
+            >
+              {pageIndex === 0 && <h1 className="mb-6 text-[1.5em] font-semibold">{chapter.title}</h1>}
+              {pages[pageIndex].length > 0 ? (
+                <div className="space-y-[1em] font-serif">
+                  {pages[pageIndex].map((paragraph, index) => (
+                    <p key={index}>{paragraph}</p>
+                  ))}
+                </div>
+              ) : (
+                <p className="opacity-70">This chapter has no text yet.</p>
+              )}
+            </article>
+
+            <div className="flex items-center justify-between gap-2">
+              <SecondaryButton onClick={goBack} disabled={pageIndex === 0 && !previousChapter}>
+                <ChevronLeft className="size-4 mr-1" />
+                {pageIndex === 0 && previousChapter ? "Previous Chapter" : "Previous"}
+              </SecondaryButton>
+              <div className="text-center text-sm text-muted-foreground">
+                <div>
+                  Page {pageIndex + 1} of {pages.length} · Chapter {chapterIndex + 1} of {chapters.length}
+                </div>
+                <div>{bookProgress}% of the book</div>
+              </div>
+              <SecondaryButton onClick={goForward} disabled={pageIndex === pages.length - 1 && !nextChapter}>
+                {pageIndex === pages.length - 1 && nextChapter ? "Next Chapter" : "Next"}
+                <ChevronRight className="size-4 ml-1" />
+              </SecondaryButton>
+            </div>
+            <div className="h-1 w-full overflow-hidden rounded-full bg-muted">
+              <div className="h-full bg-primary transition-all" style={{ width: `${bookProgress}%` }} />
+            </div>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">This book has no chapters to read online</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </PublicLayout>
+  );
+}
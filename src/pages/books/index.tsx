@@ -1,31 +1,72 @@
 import * as React from "react";
 import { useState } from "react";
+import { useRouter } from "next/router";
 import { useBooks } from "@/hooks/useBooks";
 import { useBookSearch } from "@/hooks/useSearch";
+import { useCursorPagination } from "@/hooks/useCursorPagination";
 import { useCheckoutBook } from "@/hooks/useCheckouts";
 import { BookList } from "@/components/books/BookList";
 import { BookSearch } from "@/components/books/BookSearch";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { PublicLayout } from "@/components/layout/PublicLayout";
-import { Pagination } from "@/components/ui/pagination";
-import type { BookSearchFilters } from "@/lib/server/types";
+import { CursorPagination } from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BookSearchFilters, BookSortOption } from "@/lib/server/types";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 
+const sortLabels: Record<BookSortOption, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  title: "Title",
+  author: "Author",
+  year: "Publication year",
+  popularity: "Most borrowed",
+  recently_returned: "Recently returned",
+};
+
 export default function BooksPage() {
-  const [page, setPage] = useState(1);
+  const router = useRouter();
   const [filters, setFilters] = useState<BookSearchFilters>({});
   const [useSearch, setUseSearch] = useState(false);
+  const [sort, setSort] = useState<BookSortOption>();
+  const { cursor, page, goToNext, goToPrevious, reset: resetPage } = useCursorPagination();
+
+  // Saved searches open the catalog with ?filters=<JSON>; apply each one once
+  const filtersParam = typeof router.query.filters === "string" ? router.query.filters : undefined;
+  const [appliedFiltersParam, setAppliedFiltersParam] = useState<string>();
+  if (filtersParam && filtersParam !== appliedFiltersParam) {
+    setAppliedFiltersParam(filtersParam);
+    try {
+      setFilters(JSON.parse(filtersParam));
+      setUseSearch(true);
+      resetPage();
+    } catch {
+      // Ignore malformed links and show the full catalog
+    }
+  }
+
+  // Relevance is only offered for keyword searches, which also use it by default
+  const hasKeywords = useSearch && Boolean(filters.q?.trim());
+  const sortOptions = (Object.keys(sortLabels) as BookSortOption[]).filter(
+    (option) => option !== "relevance" || hasKeywords
+  );
+  const selectedSort = sort && sortOptions.includes(sort) ? sort : hasKeywords ? "relevance" : "newest";
 
   const { isAuthenticated, hasPermission } = useAuth();
-  const { data: booksData, isLoading: booksLoading } = useBooks(page, 20);
-  const { data: searchData, isLoading: searchLoading } = useBookSearch(filters, page, 20, useSearch);
+  const { data: booksData, isLoading: booksLoading } = useBooks(20, { sort: selectedSort, cursor });
+  const { data: searchData, isLoading: searchLoading } = useBookSearch(
+    filters,
+    { sort: selectedSort, cursor, limit: 20 },
+    useSearch
+  );
 
   const checkoutMutation = useCheckoutBook();
 
   const isLoading = useSearch ? searchLoading : booksLoading;
   const books = useSearch ? searchData?.books || [] : booksData?.books || [];
   const pagination = useSearch ? searchData?.pagination : booksData?.pagination;
+  const suggestion: BookSearchFilters | null = useSearch ? searchData?.suggestion || null : null;
 
   const canCheckout = isAuthenticated && hasPermission("checkout:create");
 
@@ -48,7 +89,12 @@ export default function BooksPage() {
 
   const handleSearch = () => {
     setUseSearch(true);
-    setPage(1);
+    resetPage();
+  };
+
+  const handleSortChange = (value: string) => {
+    setSort(value as BookSortOption);
+    resetPage();
   };
 
   const handleFiltersChange = (newFilters: BookSearchFilters) => {
@@ -61,6 +107,8 @@ export default function BooksPage() {
     if (!hasFilters && useSearch) {
       setUseSearch(false);
     }
+    // Cursors from the previous results don't apply to the new ones
+    resetPage();
   };
 
   return (
@@ -75,10 +123,41 @@ export default function BooksPage() {
               onFiltersChange={handleFiltersChange}
               onSearch={handleSearch}
               isLoading={isLoading}
+              canSaveSearch={isAuthenticated}
             />
           }
         />
         <div className="space-y-6 p-4">
+          {suggestion && !isLoading && (
+            <p className="text-sm text-muted-foreground">
+              No results. Did you mean{" "}
+              <button
+                type="button"
+                className="font-medium text-foreground underline underline-offset-4"
+                onClick={() => handleFiltersChange(suggestion)}
+              >
+                {[suggestion.q, suggestion.title, suggestion.author].filter(Boolean).join(", ")}
+              </button>
+              ?
+            </p>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {pagination ? `${pagination.total} ${pagination.total === 1 ? "book" : "books"}` : ""}
+            </p>
+            <Select value={selectedSort} onValueChange={handleSortChange}>
+              <SelectTrigger className="w-48" aria-label="Sort by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {sortLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <BookList
             books={books}
             onCheckout={canCheckout ? handleCheckout : undefined}
@@ -86,7 +165,13 @@ export default function BooksPage() {
             canCheckout={canCheckout}
           />
           {pagination && (
-            <Pagination currentPage={pagination.page} totalPages={pagination.totalPages} onPageChange={setPage} />
+            <CursorPagination
+              page={page}
+              hasPreviousPage={page > 1}
+              hasNextPage={Boolean(pagination.nextCursor)}
+              onPrevious={goToPrevious}
+              onNext={() => goToNext(pagination.nextCursor)}
+            />
           )}
         </div>
       </div>
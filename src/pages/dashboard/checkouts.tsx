@@ -1,6 +1,6 @@
 import * as React from "react";
 import { useState } from "react";
-import { useMyCheckouts, useReturnBook } from "@/hooks/useCheckouts";
+import { useMyCheckouts, useRenewCheckout, useReturnBook } from "@/hooks/useCheckouts";
 import { CheckoutList } from "@/components/checkouts/CheckoutList";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { CustomerDashboardLayout } from "@/components/layout/CustomerDashboardLayout";
@@ -14,9 +14,11 @@ export default function MyCheckoutsPage() {
   const [page, setPage] = useState(1);
   const [status, setStatus] = useState<"all" | "active" | "returned" | "overdue">("all");
   const [returningCheckoutId, setReturningCheckoutId] = useState<string | null>(null);
+  const [renewingCheckoutId, setRenewingCheckoutId] = useState<string | null>(null);
 
   const { data, isLoading } = useMyCheckouts(page, 20, status);
   const returnMutation = useReturnBook();
+  const renewMutation = useRenewCheckout();
 
   if (!isAuthenticated) {
     return (
@@ -40,6 +42,18 @@ export default function MyCheckoutsPage() {
     }
   };
 
+  const handleRenew = async (checkoutId: string) => {
+    setRenewingCheckoutId(checkoutId);
+    try {
+      await renewMutation.mutateAsync(checkoutId);
+      toast.success("Checkout renewed!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to renew checkout");
+    } finally {
+      setRenewingCheckoutId(null);
+    }
+  };
+
   return (
     <CustomerDashboardLayout>
       <PageHeader
@@ -62,10 +76,12 @@ export default function MyCheckoutsPage() {
       <CheckoutList
         checkouts={data?.checkouts || []}
         onReturn={handleReturn}
+        onRenew={handleRenew}
         isLoading={isLoading}
         showUser={false}
         canReturn={true}
         returningCheckoutId={returningCheckoutId}
+        renewingCheckoutId={renewingCheckoutId}
       />
       {data?.pagination && (
         <Pagination
@@ -0,0 +1,89 @@
+import * as React from "react";
+import { useState } from "react";
+import { useCancelHold, useMyHolds } from "@/hooks/useHolds";
+import { HoldCard } from "@/components/holds/HoldCard";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { CustomerDashboardLayout } from "@/components/layout/CustomerDashboardLayout";
+import { CTAButton } from "@/components/ui/button-variants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { HoldWithQueuePosition } from "@/lib/server/types";
+import { toast } from "sonner";
+import Link from "next/link";
+import { useAuth } from "@/hooks/useAuth";
+
+export default function MyHoldsPage() {
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<"active" | "all">("active");
+  const [cancellingHoldId, setCancellingHoldId] = useState<string | null>(null);
+
+  const { data, isLoading } = useMyHolds(status, isAuthenticated);
+  const cancelMutation = useCancelHold();
+
+  if (!isAuthenticated) {
+    return (
+      <CustomerDashboardLayout>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Please sign in to view your holds</p>
+        </div>
+      </CustomerDashboardLayout>
+    );
+  }
+
+  const handleCancel = async (holdId: string) => {
+    setCancellingHoldId(holdId);
+    try {
+      await cancelMutation.mutateAsync(holdId);
+      toast.success("Hold cancelled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel hold");
+    } finally {
+      setCancellingHoldId(null);
+    }
+  };
+
+  const holds: HoldWithQueuePosition[] = data?.holds || [];
+
+  return (
+    <CustomerDashboardLayout>
+      <PageHeader
+        title="My Holds"
+        description="Books you're waiting for and copies set aside for you"
+        actions={
+          <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="all">All Holds</SelectItem>
+            </SelectContent>
+          </Select>
+        }
+      />
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : holds.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {holds.map((hold) => (
+            <HoldCard key={hold.id} hold={hold} onCancel={handleCancel} cancellingHoldId={cancellingHoldId} />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No holds</p>
+            <Link href="/books">
+              <CTAButton className="mt-4">Browse Books</CTAButton>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+    </CustomerDashboardLayout>
+  );
+}
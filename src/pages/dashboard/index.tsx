@@ -1,5 +1,8 @@
 import { EmailVerificationBanner } from "@/components/auth/EmailVerificationBanner";
 import { CheckoutCard } from "@/components/checkouts/CheckoutCard";
+import { HoldCard } from "@/components/holds/HoldCard";
+import { ContinueReadingCard } from "@/components/reading/ContinueReadingCard";
+import { SavedSearchCard } from "@/components/saved-searches/SavedSearchCard";
 import { CustomerDashboardLayout } from "@/components/layout/CustomerDashboardLayout";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { CTAButton } from "@/components/ui/button-variants";
@@ -7,14 +10,30 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
 import { useBooks } from "@/hooks/useBooks";
-import { useMyCheckouts } from "@/hooks/useCheckouts";
-import type { BookWithRelations, CheckoutWithRelations } from "@/lib/server/types";
+import { useMyCheckouts, useRenewCheckout } from "@/hooks/useCheckouts";
+import { useMyHolds } from "@/hooks/useHolds";
+import { useContinueReading } from "@/hooks/useReading";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import type {
+  BookWithRelations,
+  CheckoutWithRelations,
+  ContinueReadingItem,
+  HoldWithQueuePosition,
+  SavedSearchWithFilters,
+} from "@/lib/server/types";
 import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
 
 export default function DashboardPage() {
   const { user, isAuthenticated, isStaff } = useAuth();
   const { data: checkoutsData, isLoading: checkoutsLoading } = useMyCheckouts(1, 5, "active");
-  const { data: booksData, isLoading: booksLoading } = useBooks(1, 5);
+  const { data: booksData, isLoading: booksLoading } = useBooks(5);
+  const { data: holdsData, isLoading: holdsLoading } = useMyHolds("active", isAuthenticated);
+  const { data: savedSearchesData, isLoading: savedSearchesLoading } = useSavedSearches(isAuthenticated);
+  const { data: readingData } = useContinueReading(isAuthenticated);
+  const renewMutation = useRenewCheckout();
+  const [renewingCheckoutId, setRenewingCheckoutId] = useState<string | null>(null);
 
   if (!isAuthenticated) {
     return (
@@ -26,9 +45,24 @@ export default function DashboardPage() {
     );
   }
 
+  const handleRenew = async (checkoutId: string) => {
+    setRenewingCheckoutId(checkoutId);
+    try {
+      await renewMutation.mutateAsync(checkoutId);
+      toast.success("Checkout renewed!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to renew checkout");
+    } finally {
+      setRenewingCheckoutId(null);
+    }
+  };
+
   const activeCheckouts = checkoutsData?.checkouts || [];
   const overdueCount = activeCheckouts.filter((c: { isOverdue: boolean }) => c.isOverdue).length;
   const recentBooks = booksData?.books?.slice(0, 3) || [];
+  const activeHolds: HoldWithQueuePosition[] = holdsData?.holds || [];
+  const savedSearches: SavedSearchWithFilters[] = savedSearchesData?.savedSearches || [];
+  const continueReading: ContinueReadingItem[] = readingData?.reading || [];
 
   return (
     <CustomerDashboardLayout>
@@ -84,6 +118,18 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Continue Reading */}
+        {continueReading.length > 0 && (
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground mb-4">Continue Reading</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {continueReading.map((item) => (
+                <ContinueReadingCard key={item.book.id} item={item} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Active Checkouts */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -101,7 +147,14 @@ export default function DashboardPage() {
           ) : activeCheckouts.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {activeCheckouts.slice(0, 4).map((checkout: CheckoutWithRelations) => (
-                <CheckoutCard key={checkout.id} checkout={checkout} showActions={true} canReturn={true} />
+                <CheckoutCard
+                  key={checkout.id}
+                  checkout={checkout}
+                  showActions={true}
+                  canReturn={true}
+                  onRenew={handleRenew}
+                  renewingCheckoutId={renewingCheckoutId}
+                />
               ))}
             </div>
           ) : (
@@ -116,6 +169,64 @@ export default function DashboardPage() {
           )}
         </div>
 
+        {/* My Holds */}
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-semibold text-foreground">My Holds</h2>
+            <Link href="/dashboard/holds">
+              <CTAButton variant="outline">View All</CTAButton>
+            </Link>
+          </div>
+          {holdsLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {Array.from({ length: 2 }).map((_, i) => (
+                <Skeleton key={i} className="h-48" />
+              ))}
+            </div>
+          ) : activeHolds.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {activeHolds.slice(0, 4).map((hold) => (
+                <HoldCard key={hold.id} hold={hold} />
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">No active holds</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Saved Searches */}
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-semibold text-foreground">Saved Searches</h2>
+            <Link href="/dashboard/saved-searches">
+              <CTAButton variant="outline">View All</CTAButton>
+            </Link>
+          </div>
+          {savedSearchesLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {Array.from({ length: 2 }).map((_, i) => (
+                <Skeleton key={i} className="h-48" />
+              ))}
+            </div>
+          ) : savedSearches.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {savedSearches.slice(0, 4).map((savedSearch) => (
+                <SavedSearchCard key={savedSearch.id} savedSearch={savedSearch} />
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">No saved searches</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
         {/* Recent Books */}
         {booksLoading ? (
           <div>
@@ -0,0 +1,238 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  useMarkNotificationsRead,
+  useNotificationPreferences,
+  useNotifications,
+  useUpdateNotificationPreferences,
+} from "@/hooks/useNotifications";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { CustomerDashboardLayout } from "@/components/layout/CustomerDashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Pagination } from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/client/utils";
+import type { NotificationPreferenceInput } from "@/lib/server/types";
+import type { Notification, NotificationEvent } from "@prisma/client";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import Link from "next/link";
+import { useAuth } from "@/hooks/useAuth";
+
+const eventLabels: Record<NotificationEvent, { label: string; description: string }> = {
+  DUE_SOON: { label: "Due soon", description: "The day before a book is due" },
+  OVERDUE: { label: "Overdue", description: "When a book is 1, 7 and 14 days overdue" },
+  HOLD_READY: { label: "Hold ready", description: "When a copy is set aside for you" },
+  NEW_ARRIVAL: { label: "New arrivals", description: "When a new book matches a saved search with alerts on" },
+  WELCOME: { label: "Account", description: "Welcome and account messages" },
+};
+
+const languageLabels: Record<string, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+export default function MyNotificationsPage() {
+  const { isAuthenticated } = useAuth();
+  const [page, setPage] = useState(1);
+  // Unsaved changes, layered over the saved preferences
+  const [edits, setEdits] = useState<Partial<Record<NotificationEvent, NotificationPreferenceInput>>>({});
+  const [localeEdit, setLocaleEdit] = useState<string | null>(null);
+
+  const { data, isLoading } = useNotifications(page, 20, isAuthenticated);
+  const { data: preferencesData, isLoading: isPreferencesLoading } = useNotificationPreferences(isAuthenticated);
+  const markReadMutation = useMarkNotificationsRead();
+  const updatePreferencesMutation = useUpdateNotificationPreferences();
+
+  if (!isAuthenticated) {
+    return (
+      <CustomerDashboardLayout>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Please sign in to view your notifications</p>
+        </div>
+      </CustomerDashboardLayout>
+    );
+  }
+
+  const preferences: NotificationPreferenceInput[] = (preferencesData?.preferences || []).map(
+    (preference: NotificationPreferenceInput) => edits[preference.event] ?? preference
+  );
+
+  const locale: string = localeEdit ?? preferencesData?.locale ?? "en";
+
+  const updatePreference = (preference: NotificationPreferenceInput, changes: Partial<NotificationPreferenceInput>) => {
+    setEdits((current) => ({ ...current, [preference.event]: { ...preference, ...changes } }));
+  };
+
+  const handleSavePreferences = async () => {
+    try {
+      await updatePreferencesMutation.mutateAsync({ preferences, locale });
+      setEdits({});
+      setLocaleEdit(null);
+      toast.success("Notification preferences saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save preferences");
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markReadMutation.mutateAsync(undefined);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update notifications");
+    }
+  };
+
+  const notifications: Notification[] = data?.notifications || [];
+  const unreadCount: number = data?.unreadCount || 0;
+  const totalPages: number = data?.pagination?.totalPages || 1;
+
+  return (
+    <CustomerDashboardLayout>
+      <PageHeader
+        title="Notifications"
+        description="Messages about your loans and holds"
+        actions={
+          unreadCount > 0 && (
+            <Button variant="outline" onClick={handleMarkAllRead} disabled={markReadMutation.isPending}>
+              Mark all read
+            </Button>
+          )
+        }
+      />
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">No notifications yet</p>
+            ) : (
+              <>
+                <ul className="divide-y divide-border">
+                  {notifications.map((notification) => (
+                    <li key={notification.id} className="flex items-start gap-3 py-3">
+                      <span
+                        className={cn(
+                          "mt-2 size-2 shrink-0 rounded-full",
+                          notification.readAt ? "bg-transparent" : "bg-primary"
+                        )}
+                      />
+                      <div className="flex-1 space-y-0.5">
+                        <p className={cn("text-sm", !notification.readAt && "font-semibold")}>{notification.title}</p>
+                        <p className="text-sm text-muted-foreground">{notification.message}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(notification.createdAt), "MMM dd, yyyy HH:mm")}
+                        </p>
+                      </div>
+                      {notification.link && (
+                        <Link
+                          href={notification.link}
+                          onClick={() => !notification.readAt && markReadMutation.mutate([notification.id])}
+                        >
+                          <Button variant="ghost" size="sm">
+                            View
+                          </Button>
+                        </Link>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {totalPages > 1 && (
+                  <div className="mt-4">
+                    <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Preferences</CardTitle>
+            <CardDescription>
+              Choose how you hear about each kind of message and which language emails use
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isPreferencesLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <>
+                <div className="space-y-2 max-w-xs">
+                  <Label htmlFor="email-language">Email language</Label>
+                  <Select value={locale} onValueChange={setLocaleEdit}>
+                    <SelectTrigger id="email-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(languageLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Message</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>In-app</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preferences.map((preference) => (
+                        <TableRow key={preference.event}>
+                          <TableCell>
+                            <div className="font-medium">{eventLabels[preference.event].label}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {eventLabels[preference.event].description}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={preference.email}
+                              onCheckedChange={(checked) => updatePreference(preference, { email: checked })}
+                              aria-label={`${eventLabels[preference.event].label} by email`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={preference.inApp}
+                              onCheckedChange={(checked) => updatePreference(preference, { inApp: checked })}
+                              aria-label={`${eventLabels[preference.event].label} in-app`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handleSavePreferences} disabled={updatePreferencesMutation.isPending}>
+                    {updatePreferencesMutation.isPending ? "Saving..." : "Save Preferences"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </CustomerDashboardLayout>
+  );
+}
@@ -0,0 +1,98 @@
+import * as React from "react";
+import { useState } from "react";
+import { useDeleteSavedSearch, useSavedSearches, useUpdateSavedSearch } from "@/hooks/useSavedSearches";
+import { SavedSearchCard } from "@/components/saved-searches/SavedSearchCard";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { CustomerDashboardLayout } from "@/components/layout/CustomerDashboardLayout";
+import { CTAButton } from "@/components/ui/button-variants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { SavedSearchWithFilters } from "@/lib/server/types";
+import { toast } from "sonner";
+import Link from "next/link";
+import { useAuth } from "@/hooks/useAuth";
+
+export default function SavedSearchesPage() {
+  const { isAuthenticated } = useAuth();
+  const [pendingSavedSearchId, setPendingSavedSearchId] = useState<string | null>(null);
+
+  const { data, isLoading } = useSavedSearches(isAuthenticated);
+  const updateMutation = useUpdateSavedSearch();
+  const deleteMutation = useDeleteSavedSearch();
+
+  if (!isAuthenticated) {
+    return (
+      <CustomerDashboardLayout>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Please sign in to view your saved searches</p>
+        </div>
+      </CustomerDashboardLayout>
+    );
+  }
+
+  const handleToggleAlerts = async (savedSearchId: string, notifyNewArrivals: boolean) => {
+    setPendingSavedSearchId(savedSearchId);
+    try {
+      await updateMutation.mutateAsync({ id: savedSearchId, data: { notifyNewArrivals } });
+      toast.success(notifyNewArrivals ? "New arrival alerts turned on" : "New arrival alerts turned off");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update saved search");
+    } finally {
+      setPendingSavedSearchId(null);
+    }
+  };
+
+  const handleDelete = async (savedSearchId: string) => {
+    setPendingSavedSearchId(savedSearchId);
+    try {
+      await deleteMutation.mutateAsync(savedSearchId);
+      toast.success("Saved search deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete saved search");
+    } finally {
+      setPendingSavedSearchId(null);
+    }
+  };
+
+  const savedSearches: SavedSearchWithFilters[] = data?.savedSearches || [];
+
+  return (
+    <CustomerDashboardLayout>
+      <PageHeader
+        title="Saved Searches"
+        description="Searches you saved from the catalog. Turn on alerts to hear about new books that match."
+      />
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : savedSearches.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {savedSearches.map((savedSearch) => (
+            <SavedSearchCard
+              key={savedSearch.id}
+              savedSearch={savedSearch}
+              onToggleAlerts={handleToggleAlerts}
+              onDelete={handleDelete}
+              pendingSavedSearchId={pendingSavedSearchId}
+            />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No saved searches</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Use Search & Filter in the catalog, then choose Save Search.
+            </p>
+            <Link href="/books">
+              <CTAButton className="mt-4">Browse Books</CTAButton>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+    </CustomerDashboardLayout>
+  );
+}
@@ -12,7 +12,7 @@ import { toast } from "sonner";
 export default function Home() {
   const { data: session } = useSession();
 
-  const { data: booksData, isLoading: booksLoading } = useBooks(1, 8);
+  const { data: booksData, isLoading: booksLoading } = useBooks(8);
   const books = booksData?.books || [];
 
   const { isAuthenticated, hasPermission } = useAuth();
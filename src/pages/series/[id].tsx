@@ -0,0 +1,79 @@
+import * as React from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import { useSeries } from "@/hooks/useSeries";
+import { useCheckoutBook } from "@/hooks/useCheckouts";
+import { useAuth } from "@/hooks/useAuth";
+import { BookList } from "@/components/books/BookList";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { PublicLayout } from "@/components/layout/PublicLayout";
+import { SecondaryButton } from "@/components/ui/button-variants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { BookWithRelations } from "@/lib/server/types";
+import { toast } from "sonner";
+
+export default function SeriesPage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const { data: series, isLoading, error } = useSeries(id as string);
+  const { isAuthenticated, hasPermission } = useAuth();
+  const checkoutMutation = useCheckoutBook();
+
+  const canCheckout = isAuthenticated && hasPermission("checkout:create");
+  const books: BookWithRelations[] = series?.books || [];
+  const volumes = new Set(books.map((book) => book.seriesVolume).filter((volume) => volume !== null)).size;
+
+  const handleCheckout = async (bookId: string) => {
+    try {
+      await checkoutMutation.mutateAsync({ bookId });
+      toast.success("Book checked out successfully!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to checkout book");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <PublicLayout>
+        <div className="container mx-auto py-6">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-destructive">Series not found</p>
+              <Link href="/books">
+                <SecondaryButton className="mt-4">Back to Catalog</SecondaryButton>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  return (
+    <PublicLayout>
+      <div className="container mx-auto py-6">
+        <PageHeader
+          title={series.name}
+          description={`${volumes} ${volumes === 1 ? "volume" : "volumes"} in the catalog, in reading order`}
+        />
+        <div className="space-y-6 p-4">
+          {series.description && (
+            <p className="max-w-3xl whitespace-pre-wrap text-muted-foreground">{series.description}</p>
+          )}
+          <BookList books={books} onCheckout={canCheckout ? handleCheckout : undefined} canCheckout={canCheckout} />
+        </div>
+      </div>
+    </PublicLayout>
+  );
+}
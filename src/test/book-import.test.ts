@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  escapeCsvFormula,
+  guessBookImportMapping,
+  parseCsv,
+  unescapeCsvFormula,
+  validateBookImportValues,
+} from "../lib/server/book-import";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("title,author\nDune,Frank Herbert\n")).toEqual([
+      ["title", "author"],
+      ["Dune", "Frank Herbert"],
+    ]);
+  });
+
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    expect(parseCsv('title,description\n"Dune, Part 1","The ""spice"" must flow\nsaid Paul"')).toEqual([
+      ["title", "description"],
+      ["Dune, Part 1", 'The "spice" must flow\nsaid Paul'],
+    ]);
+  });
+
+  it("handles CRLF line endings, a byte order mark and empty fields", () => {
+    expect(parseCsv("\uFEFFtitle,isbn\r\nEmma,\r\n,9780141439587")).toEqual([
+      ["title", "isbn"],
+      ["Emma", ""],
+      ["", "9780141439587"],
+    ]);
+  });
+
+  it("keeps blank lines so row numbers match the file", () => {
+    expect(parseCsv("title\n\nEmma")).toEqual([["title"], [""], ["Emma"]]);
+  });
+});
+
+describe("CSV formula escaping", () => {
+  it("prefixes text a spreadsheet would run as a formula", () => {
+    expect(escapeCsvFormula('=HYPERLINK("http://evil.example","Click")')).toBe(
+      '\'=HYPERLINK("http://evil.example","Click")'
+    );
+    expect(escapeCsvFormula("+1 555 0100")).toBe("'+1 555 0100");
+    expect(escapeCsvFormula("-Infinity")).toBe("'-Infinity");
+    expect(escapeCsvFormula("@SUM(A1:A9)")).toBe("'@SUM(A1:A9)");
+    expect(escapeCsvFormula("\t=1+1")).toBe("'\t=1+1");
+    expect(escapeCsvFormula("Dune")).toBe("Dune");
+    expect(escapeCsvFormula("")).toBe("");
+  });
+
+  it("removes the prefix again on import, leaving other leading apostrophes alone", () => {
+    for (const text of ["=1+1", "-Infinity", "@home", "'Tis the Season", "Dune"]) {
+      expect(unescapeCsvFormula(escapeCsvFormula(text))).toBe(text);
+    }
+    expect(unescapeCsvFormula("'Tis the Season")).toBe("'Tis the Season");
+  });
+});
+
+describe("guessBookImportMapping", () => {
+  it("matches common header names to catalog fields", () => {
+    expect(guessBookImportMapping(["Book Title", "Authors", "ISBN-13", "Pages", "Copies"])).toMatchObject({
+      title: "Book Title",
+      isbn: "ISBN-13",
+      pageCount: "Pages",
+      copyCount: "Copies",
+    });
+  });
+});
+
+describe("validateBookImportValues", () => {
+  it("converts a row to a book", () => {
+    const { book, errors } = validateBookImportValues({
+      title: " Dune ",
+      author: "Herbert, Frank",
+      isbn: "978-0-441-17271-9",
+      publicationYear: "1965",
+      pageCount: "412",
+      tags: "Science Fiction; Desert;Science Fiction",
+    });
+
+    expect(errors).toEqual([]);
+    expect(book).toMatchObject({
+      title: "Dune",
+      author: "Frank Herbert",
+      isbn: "9780441172719",
+      publicationYear: 1965,
+      pageCount: 412,
+      tags: ["Science Fiction", "Desert"],
+    });
+  });
+
+  it("reports each problem with a row", () => {
+    const { book, errors } = validateBookImportValues({
+      title: "Dune",
+      isbn: "978-0-441-17271-8",
+      pageCount: "many",
+      coverImageUrl: "ftp://example.com/dune.jpg",
+    });
+
+    expect(book).toBeNull();
+    expect(errors).toEqual([
+      "Author is required",
+      'ISBN "978-0-441-17271-8" has an invalid check digit',
+      'Page count "many" must be a positive whole number',
+      "Cover image URL must start with http:// or https://",
+    ]);
+  });
+});
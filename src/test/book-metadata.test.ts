@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFixtureMetadataProvider,
+  fixtureMetadataProvider,
+  lookupBookMetadata,
+  mergeBookMetadata,
+} from "../lib/server/book-metadata";
+import type { BookMetadataProvider } from "../lib/server/types/book-metadata";
+
+describe("fixture metadata provider", () => {
+  it("serves its sample records by ISBN-13, and null for anything else", async () => {
+    expect(await fixtureMetadataProvider.lookupByIsbn("9780547928227")).toMatchObject({
+      title: "The Hobbit",
+      author: "J.R.R. Tolkien",
+    });
+    expect(await fixtureMetadataProvider.lookupByIsbn("9780000000002")).toBeNull();
+  });
+
+  it("looks up ISBNs in any form and reports both forms", async () => {
+    const result = await lookupBookMetadata("0-441-47812-3", [fixtureMetadataProvider]);
+
+    expect(result).toMatchObject({
+      isbn13: "9780441478125",
+      isbn10: "0441478123",
+      sources: ["fixture"],
+      metadata: { title: "The Left Hand of Darkness", publicationYear: 1987 },
+    });
+  });
+
+  it("returns null for invalid or unknown ISBNs", async () => {
+    expect(await lookupBookMetadata("0-441-47812-4", [fixtureMetadataProvider])).toBeNull();
+    expect(await lookupBookMetadata("9780000000002", [fixtureMetadataProvider])).toBeNull();
+  });
+});
+
+describe("lookupBookMetadata", () => {
+  it("lets later providers fill only the fields earlier ones left empty, skipping failing ones", async () => {
+    const first = createFixtureMetadataProvider({ "9780547928227": { title: "The Hobbit", pageCount: 300 } });
+    const failing: BookMetadataProvider = {
+      name: "openlibrary",
+      lookupByIsbn: async () => {
+        throw new Error("Service unavailable");
+      },
+    };
+    const second: BookMetadataProvider = {
+      name: "googlebooks",
+      lookupByIsbn: async () => ({ title: "Hobbit, The", pageCount: 310, language: "English" }),
+    };
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const result = await lookupBookMetadata("9780547928227", [first, failing, second]);
+
+    expect(result?.metadata).toEqual({ title: "The Hobbit", pageCount: 300, language: "English" });
+    expect(result?.sources).toEqual(["fixture", "googlebooks"]);
+  });
+});
+
+describe("mergeBookMetadata", () => {
+  it("fills empty fields and keeps what staff entered", () => {
+    const result = mergeBookMetadata(
+      { title: "The Hobbit", author: "", tags: [], publisher: "mariner books" },
+      {
+        title: "The Hobbit, or There and Back Again",
+        author: "J.R.R. Tolkien",
+        tags: ["Fantasy"],
+        publisher: "Mariner Books",
+      }
+    );
+
+    expect(result.values).toEqual({ author: "J.R.R. Tolkien", tags: ["Fantasy"] });
+    expect(result.filled).toEqual(["author", "tags"]);
+    // The publisher only differs in case, so it isn't reported
+    expect(result.kept).toEqual(["title"]);
+  });
+});
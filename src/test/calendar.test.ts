@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createLibraryCalendar, getNextOpenDay, validateClosure } from "../lib/server/calendar";
+import { calculateDueDate } from "../lib/server/checkout";
+
+// Closed on Sundays, and for a staff training closure from Tuesday 10 to Thursday 12 June 2025
+const calendar = createLibraryCalendar(
+  [
+    { dayOfWeek: 0, isOpen: false },
+    { dayOfWeek: 6, isOpen: true },
+  ],
+  [{ startDate: new Date("2025-06-10T00:00:00Z"), endDate: new Date("2025-06-12T00:00:00Z") }]
+);
+
+describe("library calendar", () => {
+  it("is closed on closed weekdays and every day of a closure, in local time", () => {
+    expect(calendar.isClosed(new Date(2025, 5, 8, 9))).toBe(true); // Sunday
+    expect(calendar.isClosed(new Date(2025, 5, 9, 23, 30))).toBe(false);
+    expect(calendar.isClosed(new Date(2025, 5, 10, 0, 15))).toBe(true);
+    expect(calendar.isClosed(new Date(2025, 5, 12, 23, 45))).toBe(true);
+    expect(calendar.isClosed(new Date(2025, 5, 14, 12))).toBe(false); // Saturday is open
+  });
+
+  it("rolls closed days forward to the next open day, keeping the time", () => {
+    expect(getNextOpenDay(new Date(2025, 5, 10, 17), calendar)).toEqual(new Date(2025, 5, 13, 17));
+    expect(getNextOpenDay(new Date(2025, 5, 8, 17), calendar)).toEqual(new Date(2025, 5, 9, 17));
+    expect(getNextOpenDay(new Date(2025, 5, 9, 17), calendar)).toEqual(new Date(2025, 5, 9, 17));
+  });
+
+  it("gives up rather than looping forever when the library never opens", () => {
+    const alwaysClosed = createLibraryCalendar(
+      Array.from({ length: 7 }, (_, dayOfWeek) => ({ dayOfWeek, isOpen: false })),
+      []
+    );
+    expect(getNextOpenDay(new Date(2025, 5, 9), alwaysClosed).getFullYear()).toBe(2026);
+  });
+});
+
+describe("calculateDueDate", () => {
+  it("moves a due date that lands during a closure to the day it ends", () => {
+    expect(calculateDueDate(new Date(2025, 4, 27, 10), 14, calendar)).toEqual(new Date(2025, 5, 13, 10));
+  });
+
+  it("counts loan days straight through without a calendar", () => {
+    expect(calculateDueDate(new Date(2025, 4, 27, 10), 14)).toEqual(new Date(2025, 5, 10, 10));
+  });
+});
+
+describe("validateClosure", () => {
+  it("accepts single days and ranges up to a year", () => {
+    expect(validateClosure({ startDate: "2025-12-25" })).toBeNull();
+    expect(validateClosure({ startDate: "2025-01-01", endDate: "2025-12-31" })).toBeNull();
+  });
+
+  it("rejects bad dates, backwards ranges and closures over a year", () => {
+    expect(validateClosure({ startDate: "2025-02-30" })?.message).toMatch(/yyyy-MM-dd/);
+    expect(validateClosure({ startDate: "2025-06-12", endDate: "2025-06-10" })?.message).toMatch(/before the start/);
+    expect(validateClosure({ startDate: "2025-01-01", endDate: "2026-01-02" })?.message).toMatch(/366 days/);
+  });
+});
@@ -0,0 +1,86 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { applyChapterOrder } from "../lib/server/chapter";
+import { createRawSqlClient, createTestDatabase } from "./database";
+
+describe("chapter order", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    await db.exec(
+      `INSERT INTO "Book" ("id", "title", "author", "updatedAt") VALUES ('book-1', 'Dune', 'Frank Herbert', NOW())`
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec(`
+      DELETE FROM "Chapter";
+      INSERT INTO "Chapter" ("id", "bookId", "title", "content", "order", "updatedAt") VALUES
+        ('a', 'book-1', 'Arrakis', 'spice', 1, NOW()),
+        ('b', 'book-1', 'Muad''Dib', 'sandworm', 2, NOW()),
+        ('c', 'book-1', 'The Prophet', 'jihad', 3, NOW());
+    `);
+  });
+
+  const getOrder = async () =>
+    (await db.query<{ id: string }>(`SELECT "id" FROM "Chapter" WHERE "bookId" = 'book-1' ORDER BY "order"`)).rows.map(
+      (row) => row.id
+    );
+
+  it("refuses two chapters of a book with the same order", async () => {
+    await expect(
+      db.exec(
+        `INSERT INTO "Chapter" ("id", "bookId", "title", "order", "updatedAt") VALUES ('d', 'book-1', 'Appendix', 2, NOW())`
+      )
+    ).rejects.toThrow(/Chapter_bookId_order_key/);
+  });
+
+  it("reorders chapters without two ever sharing an order", async () => {
+    await db.transaction(async (tx) => {
+      await applyChapterOrder("book-1", ["c", "a", "b"], createRawSqlClient(tx as unknown as PGlite));
+    });
+
+    expect(await getOrder()).toEqual(["c", "a", "b"]);
+    const orders = await db.query<{ order: number }>(`SELECT "order" FROM "Chapter" ORDER BY "order"`);
+    expect(orders.rows.map((row) => row.order)).toEqual([1, 2, 3]);
+  });
+
+  it("renumbers from 1 when the current orders are spread out or start below 1", async () => {
+    await db.exec(`
+      UPDATE "Chapter" SET "order" = "order" - 3 WHERE "id" IN ('a', 'b');
+      UPDATE "Chapter" SET "order" = 40 WHERE "id" = 'c';
+    `);
+
+    await applyChapterOrder("book-1", ["b", "c", "a"], createRawSqlClient(db));
+
+    expect(await getOrder()).toEqual(["b", "c", "a"]);
+    const orders = await db.query<{ order: number }>(`SELECT "order" FROM "Chapter" ORDER BY "order"`);
+    expect(orders.rows.map((row) => row.order)).toEqual([1, 2, 3]);
+  });
+
+  it("keeps the book's search vector in step with its chapters", async () => {
+    const matches = async (term: string) =>
+      (
+        await db.query<{ matches: boolean }>(
+          `SELECT "searchVector" @@ plainto_tsquery('english', $1) AS "matches" FROM "Book" WHERE "id" = 'book-1'`,
+          [term]
+        )
+      ).rows[0].matches;
+
+    expect(await matches("sandworm")).toBe(true);
+    await db.exec(`UPDATE "Chapter" SET "content" = 'thumper' WHERE "id" = 'b'`);
+    expect(await matches("sandworm")).toBe(false);
+    expect(await matches("thumper")).toBe(true);
+
+    await applyChapterOrder("book-1", ["b", "a", "c"], createRawSqlClient(db));
+    expect(await matches("thumper")).toBe(true);
+
+    await db.exec(`DELETE FROM "Chapter" WHERE "id" = 'b'`);
+    expect(await matches("thumper")).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { downloadCoverImage, isPublicAddress } from "../lib/server/covers";
+
+// A public address, so lookups resolve without a network
+const PUBLIC_URL = "http://93.184.215.14/cover.jpg";
+
+function streamOf(chunkSize: number, chunks: number) {
+  const progress = { sent: 0 };
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (progress.sent < chunks) {
+        progress.sent++;
+        controller.enqueue(new Uint8Array(chunkSize));
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return { stream, progress };
+}
+
+describe("isPublicAddress", () => {
+  it("rejects loopback, private, link-local and unspecified addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "not an address",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    expect(isPublicAddress("93.184.215.14")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+  });
+});
+
+describe("downloadCoverImage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("refuses URLs that aren't http(s) or that point at internal hosts", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    for (const url of [
+      "file:///etc/passwd",
+      "ftp://93.184.215.14/cover.jpg",
+      "http://127.0.0.1/cover.jpg",
+      "http://localhost:3000/cover.jpg",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/cover.jpg",
+    ]) {
+      expect(await downloadCoverImage(url), url).toMatchObject({ statusCode: 400 });
+    }
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("checks where redirects lead before following them", async () => {
+    const fetch = vi.fn(
+      async () => new Response(null, { status: 302, headers: { location: "http://10.0.0.5/cover.jpg" } })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await downloadCoverImage(PUBLIC_URL)).toMatchObject({ statusCode: 400 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops reading a body without a content length once it passes the size limit", async () => {
+    const { stream, progress } = streamOf(1024 * 1024, 100);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(stream))
+    );
+
+    expect(await downloadCoverImage(PUBLIC_URL)).toMatchObject({
+      statusCode: 400,
+      message: expect.stringContaining("MB or smaller"),
+    });
+    expect(progress.sent).toBeLessThan(100);
+  });
+
+  it("returns the image when it fits", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(streamOf(1024, 3).stream))
+    );
+
+    const image = await downloadCoverImage(PUBLIC_URL);
+    expect(Buffer.isBuffer(image) && image.length).toBe(3 * 1024);
+  });
+});
@@ -0,0 +1,44 @@
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { Prisma } from "@prisma/client";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma", "migrations");
+
+/**
+ * An in-memory Postgres with every migration in prisma/migrations applied, in order
+ * Lets tests run the raw SQL (triggers, SKIP LOCKED queries) without a database server.
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = await PGlite.create({ extensions: { pg_trgm } });
+
+  const migrations = (await readdir(MIGRATIONS_DIR, { withFileTypes: true }))
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    await db.exec(await readFile(path.join(MIGRATIONS_DIR, migration, "migration.sql"), "utf8"));
+  }
+
+  return db;
+}
+
+/**
+ * The raw query methods of a Prisma client, run on a test database the way Prisma would send them
+ */
+export function createRawSqlClient(db: PGlite): Pick<Prisma.TransactionClient, "$queryRaw" | "$executeRaw"> {
+  const toSql = (query: TemplateStringsArray | Prisma.Sql, values: unknown[]) =>
+    "text" in query ? query : Prisma.sql(query, ...(values as Prisma.Sql["values"]));
+
+  return {
+    $queryRaw: async (query: TemplateStringsArray | Prisma.Sql, ...values: unknown[]) => {
+      const sql = toSql(query, values);
+      return (await db.query(sql.text, sql.values)).rows;
+    },
+    $executeRaw: async (query: TemplateStringsArray | Prisma.Sql, ...values: unknown[]) => {
+      const sql = toSql(query, values);
+      return (await db.query(sql.text, sql.values)).affectedRows ?? 0;
+    },
+  } as unknown as Pick<Prisma.TransactionClient, "$queryRaw" | "$executeRaw">;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { isValidIsbn, normalizeIsbn, toIsbn10, toIsbn13 } from "../lib/server/isbn";
+
+describe("ISBN checksums", () => {
+  it("strips hyphens and spaces, keeping an X check digit", () => {
+    expect(normalizeIsbn("978-0-547 92822-7")).toBe("9780547928227");
+    expect(normalizeIsbn("0-8044-2957-x")).toBe("080442957X");
+  });
+
+  it("accepts ISBN-10s and ISBN-13s with a correct check digit", () => {
+    expect(isValidIsbn("0-441-47812-3")).toBe(true);
+    expect(isValidIsbn("080442957X")).toBe(true);
+    expect(isValidIsbn("978-0-547-92822-7")).toBe(true);
+    expect(isValidIsbn("979-10-90636-07-1")).toBe(true);
+  });
+
+  it("rejects a wrong check digit, the wrong length and non-book EANs", () => {
+    expect(isValidIsbn("0-441-47812-4")).toBe(false);
+    expect(isValidIsbn("9780547928228")).toBe(false);
+    expect(isValidIsbn("044147812")).toBe(false);
+    expect(isValidIsbn("X441478123")).toBe(false);
+    // Valid EAN-13 check digit, but not in the 978/979 book ranges
+    expect(isValidIsbn("4006381333931")).toBe(false);
+  });
+
+  it("converts between the 10 and 13 digit forms", () => {
+    expect(toIsbn13("0-441-47812-3")).toBe("9780441478125");
+    expect(toIsbn10("9780441478125")).toBe("0441478123");
+    expect(toIsbn13("080442957X")).toBe("9780804429573");
+    expect(toIsbn10("9780804429573")).toBe("080442957X");
+  });
+
+  it("has no 10-digit form for 979 ISBNs and converts nothing invalid", () => {
+    expect(toIsbn10("9791090636071")).toBeNull();
+    expect(toIsbn13("0441478124")).toBeNull();
+    expect(toIsbn10("not an isbn")).toBeNull();
+  });
+});
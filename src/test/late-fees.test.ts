@@ -0,0 +1,87 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import { createLibraryCalendar } from "../lib/server/calendar";
+import { calculateAccruedLateFees, calculateLateFees, getLateFeeTerms } from "../lib/server/checkout";
+
+// Due Monday 2 June 2025 at noon
+const dueDate = new Date(2025, 5, 2, 12);
+const daysLate = (days: number) => new Date(2025, 5, 2 + days, 12);
+
+describe("calculateLateFees", () => {
+  it("charges nothing up to the due date", () => {
+    expect(calculateLateFees(dueDate, 0.25, new Date(2025, 5, 2, 18))).toEqual({
+      isOverdue: false,
+      overdueDays: 0,
+      lateFeeAmount: 0,
+    });
+  });
+
+  it("charges each full day past the due date", () => {
+    expect(calculateLateFees(dueDate, 0.25, daysLate(5))).toEqual({
+      isOverdue: true,
+      overdueDays: 5,
+      lateFeeAmount: 1.25,
+    });
+  });
+
+  it("starts charging after the grace period and stops at the fee cap", () => {
+    expect(calculateLateFees(dueDate, 0.25, daysLate(5), { graceDays: 2 }).lateFeeAmount).toBe(0.75);
+    // Still overdue during the grace period, just not charged
+    expect(calculateLateFees(dueDate, 0.25, daysLate(2), { graceDays: 2 })).toEqual({
+      isOverdue: true,
+      overdueDays: 2,
+      lateFeeAmount: 0,
+    });
+    expect(calculateLateFees(dueDate, 0.25, daysLate(30), { maxLateFee: 5 }).lateFeeAmount).toBe(5);
+  });
+
+  it("doesn't count days the library is closed", () => {
+    // Sundays, and 10-12 June
+    const calendar = createLibraryCalendar(
+      [{ dayOfWeek: 0, isOpen: false }],
+      [{ startDate: new Date("2025-06-10T00:00:00Z"), endDate: new Date("2025-06-12T00:00:00Z") }]
+    );
+
+    // 3-16 June: 14 days, less two Sundays and three closure days
+    expect(calculateLateFees(dueDate, 0.5, daysLate(14), {}, calendar)).toMatchObject({
+      overdueDays: 9,
+      lateFeeAmount: 4.5,
+    });
+  });
+
+  it("rounds to cents", () => {
+    expect(calculateLateFees(dueDate, 0.1, daysLate(3)).lateFeeAmount).toBe(0.3);
+  });
+});
+
+describe("getLateFeeTerms", () => {
+  it("reads the terms stored on a checkout", () => {
+    expect(getLateFeeTerms({ graceDays: 1, maxLateFee: null })).toEqual({ graceDays: 1, maxLateFee: null });
+  });
+});
+
+describe("calculateAccruedLateFees", () => {
+  const loan = (dueDate: Date, lateFeePerDay: number, terms: { graceDays?: number; maxLateFee?: number } = {}) => ({
+    dueDate,
+    lateFeePerDay: new Prisma.Decimal(lateFeePerDay),
+    graceDays: terms.graceDays ?? 0,
+    maxLateFee: terms.maxLateFee === undefined ? null : new Prisma.Decimal(terms.maxLateFee),
+  });
+
+  it("adds up the fees on loans still out, each with its own terms", () => {
+    const now = daysLate(10);
+    const loans = [
+      loan(dueDate, 0.5), // 10 days: 5.00
+      loan(dueDate, 0.25, { graceDays: 4 }), // 6 chargeable days: 1.50
+      loan(dueDate, 1, { maxLateFee: 3 }), // capped at 3.00
+      loan(daysLate(12), 1), // not due yet
+    ];
+
+    expect(calculateAccruedLateFees(loans, undefined, now)).toBe(9.5);
+  });
+
+  it("is zero without overdue loans", () => {
+    expect(calculateAccruedLateFees([], undefined, daysLate(10))).toBe(0);
+    expect(calculateAccruedLateFees([loan(daysLate(1), 0.5)], undefined, dueDate)).toBe(0);
+  });
+});
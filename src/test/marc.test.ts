@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  marcRecordToBookFields,
+  parseMarc21,
+  parseMarcXml,
+  trimMarcPunctuation,
+  writeMarc21,
+} from "../lib/server/marc";
+import type { MarcRecord } from "../lib/server/types/marc";
+
+const leGuin: MarcRecord = {
+  leader: "00000nam a2200000 i 4500",
+  controlFields: [
+    { tag: "001", value: "ocm00012345" },
+    { tag: "008", value: "870101s1987    nyu           000 1 eng d" },
+  ],
+  dataFields: [
+    { tag: "020", ind1: " ", ind2: " ", subfields: [{ code: "a", value: "9780441478125 (pbk.)" }] },
+    { tag: "100", ind1: "1", ind2: " ", subfields: [{ code: "a", value: "Le Guin, Ursula K.," }] },
+    {
+      tag: "245",
+      ind1: "1",
+      ind2: "4",
+      subfields: [
+        { code: "a", value: "The left hand of darkness /" },
+        { code: "c", value: "Ursula K. Le Guin." },
+      ],
+    },
+    {
+      tag: "264",
+      ind1: " ",
+      ind2: "1",
+      subfields: [
+        { code: "a", value: "New York :" },
+        { code: "b", value: "Ace Books," },
+        { code: "c", value: "[1987]" },
+      ],
+    },
+    { tag: "300", ind1: " ", ind2: " ", subfields: [{ code: "a", value: "304 pages ;" }] },
+    { tag: "650", ind1: " ", ind2: "0", subfields: [{ code: "a", value: "Gender identity" }] },
+    { tag: "655", ind1: " ", ind2: "7", subfields: [{ code: "a", value: "Science fiction." }] },
+  ],
+};
+
+describe("binary MARC21", () => {
+  it("reads back the fields it writes, including non-ASCII text", () => {
+    const record: MarcRecord = {
+      ...leGuin,
+      dataFields: [
+        ...leGuin.dataFields,
+        { tag: "500", ind1: " ", ind2: " ", subfields: [{ code: "a", value: "Traducción: «La mano izquierda»" }] },
+      ],
+    };
+
+    const [parsed] = parseMarc21(writeMarc21(record));
+
+    expect(parsed.controlFields).toEqual(record.controlFields);
+    expect(parsed.dataFields).toEqual(record.dataFields);
+    // The leader carries the record length and the UTF-8 flag
+    expect(Number(parsed.leader.slice(0, 5))).toBe(writeMarc21(record).length);
+    expect(parsed.leader[9]).toBe("a");
+  });
+
+  it("reads files with several records, skipping malformed ones and line breaks between them", () => {
+    const data = Buffer.concat([
+      writeMarc21(leGuin),
+      Buffer.from("\r\n"),
+      Buffer.from("not a MARC record\u001d"),
+      writeMarc21({ ...leGuin, controlFields: [{ tag: "001", value: "second" }] }),
+    ]);
+
+    const records = parseMarc21(data);
+
+    expect(records).toHaveLength(2);
+    expect(records[1].controlFields).toEqual([{ tag: "001", value: "second" }]);
+  });
+});
+
+describe("parseMarcXml", () => {
+  it("reads namespaced MARCXML and decodes entities", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+  <marc:record>
+    <marc:leader>00000nam a2200000 i 4500</marc:leader>
+    <marc:controlfield tag="001">12345</marc:controlfield>
+    <marc:datafield tag="245" ind1="0" ind2="0">
+      <marc:subfield code="a">Pride &amp; prejudice /</marc:subfield>
+      <marc:subfield code="c">Jane Austen.</marc:subfield>
+    </marc:datafield>
+  </marc:record>
+  <marc:record>
+    <marc:datafield tag="100" ind1="0" ind2=" "><marc:subfield code="a">Homer</marc:subfield></marc:datafield>
+  </marc:record>
+</marc:collection>`;
+
+    const records = parseMarcXml(xml);
+
+    expect(records).toHaveLength(2);
+    expect(records[0].controlFields).toEqual([{ tag: "001", value: "12345" }]);
+    expect(records[0].dataFields[0]).toEqual({
+      tag: "245",
+      ind1: "0",
+      ind2: "0",
+      subfields: [
+        { code: "a", value: "Pride & prejudice /" },
+        { code: "c", value: "Jane Austen." },
+      ],
+    });
+    expect(records[1].leader).toHaveLength(24);
+  });
+});
+
+describe("marcRecordToBookFields", () => {
+  it("maps a bibliographic record to catalog fields", () => {
+    expect(marcRecordToBookFields(leGuin)).toEqual({
+      title: "The left hand of darkness",
+      author: "Ursula K. Le Guin",
+      isbn: "9780441478125",
+      description: undefined,
+      publisher: "Ace Books",
+      publicationYear: "1987",
+      genre: "Science fiction",
+      tags: "Science fiction; Gender identity",
+      pageCount: "304",
+      language: "English",
+    });
+  });
+
+  it("strips ISBD punctuation but keeps initials and ellipses", () => {
+    expect(trimMarcPunctuation("Ace Books,")).toBe("Ace Books");
+    expect(trimMarcPunctuation("The left hand of darkness /")).toBe("The left hand of darkness");
+    expect(trimMarcPunctuation("Tolkien, J.R.R.")).toBe("Tolkien, J.R.R.");
+    expect(trimMarcPunctuation("And then...")).toBe("And then...");
+  });
+});
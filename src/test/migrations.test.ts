@@ -0,0 +1,66 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./database";
+
+describe("migrations", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    await db.exec(`
+      INSERT INTO "User" ("id", "email") VALUES ('user-1', 'reader@example.com');
+      INSERT INTO "Book" ("id", "title", "author", "updatedAt") VALUES ('book-1', 'Dune', 'Frank Herbert', NOW());
+      INSERT INTO "Book" ("id", "title", "author", "updatedAt") VALUES ('book-2', 'Emma', 'Jane Austen', NOW());
+      INSERT INTO "BookCopy" ("id", "bookId", "barcode", "updatedAt") VALUES ('copy-1', 'book-1', 'LIB-1', NOW());
+      INSERT INTO "BookCopy" ("id", "bookId", "barcode", "updatedAt") VALUES ('copy-2', 'book-2', 'LIB-2', NOW());
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const getStats = async (bookId: string) =>
+    (
+      await db.query<{ checkoutCount: number; lastReturnedAt: Date | null }>(
+        `SELECT "checkoutCount", "lastReturnedAt" FROM "Book" WHERE "id" = $1`,
+        [bookId]
+      )
+    ).rows[0];
+
+  it("keeps a book's checkout stats up to date as loans are made, returned and removed", async () => {
+    await db.exec(`
+      INSERT INTO "Checkout" ("id", "bookId", "copyId", "userId", "dueDate")
+      VALUES ('checkout-1', 'book-1', 'copy-1', 'user-1', NOW() + INTERVAL '14 days');
+      INSERT INTO "Checkout" ("id", "bookId", "copyId", "userId", "dueDate")
+      VALUES ('checkout-2', 'book-1', 'copy-1', 'user-1', NOW() + INTERVAL '14 days');
+    `);
+    expect(await getStats("book-1")).toEqual({ checkoutCount: 2, lastReturnedAt: null });
+
+    await db.exec(`UPDATE "Checkout" SET "returnedDate" = '2025-06-01T12:00:00Z' WHERE "id" = 'checkout-1'`);
+    expect(await getStats("book-1")).toEqual({ checkoutCount: 2, lastReturnedAt: new Date("2025-06-01T12:00:00Z") });
+
+    // Moving a loan to another book updates both books
+    await db.exec(`UPDATE "Checkout" SET "bookId" = 'book-2', "copyId" = 'copy-2' WHERE "id" = 'checkout-2'`);
+    expect((await getStats("book-1")).checkoutCount).toBe(1);
+    expect((await getStats("book-2")).checkoutCount).toBe(1);
+
+    await db.exec(`DELETE FROM "Checkout" WHERE "id" = 'checkout-1'`);
+    expect(await getStats("book-1")).toEqual({ checkoutCount: 0, lastReturnedAt: null });
+  });
+
+  it("refuses to delete a copy with loan history, but still deletes a whole book with its loans", async () => {
+    await db.exec(`
+      INSERT INTO "Book" ("id", "title", "author", "updatedAt") VALUES ('book-3', 'Ulysses', 'James Joyce', NOW());
+      INSERT INTO "BookCopy" ("id", "bookId", "barcode", "updatedAt") VALUES ('copy-3', 'book-3', 'LIB-3', NOW());
+      INSERT INTO "Checkout" ("id", "bookId", "copyId", "userId", "dueDate", "returnedDate")
+      VALUES ('checkout-3', 'book-3', 'copy-3', 'user-1', NOW(), NOW());
+    `);
+
+    await expect(db.exec(`DELETE FROM "BookCopy" WHERE "id" = 'copy-3'`)).rejects.toThrow(/Checkout_copyId_fkey/);
+
+    await db.exec(`DELETE FROM "Book" WHERE "id" = 'book-3'`);
+    const { rows } = await db.query(`SELECT "id" FROM "Checkout" WHERE "id" = 'checkout-3'`);
+    expect(rows).toHaveLength(0);
+  });
+});
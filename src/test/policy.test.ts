@@ -0,0 +1,119 @@
+import { Prisma, type CirculationPolicy } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import { genreLineageIncludes, getGenreLineage } from "../lib/server/genre";
+import { DEFAULT_LOAN_TERMS, selectCirculationPolicy } from "../lib/server/policy";
+
+const fiction = { name: "Fiction", parent: null };
+const fantasy = { name: "Fantasy", parent: fiction };
+const epicFantasy = { name: "Epic Fantasy", parent: fantasy };
+const mystery = { name: "Mystery", parent: fiction };
+const cozyMystery = { name: "Cozy Mystery", parent: mystery };
+
+function createPolicy(id: string, fields: Partial<CirculationPolicy> = {}): CirculationPolicy {
+  return {
+    id,
+    name: id,
+    roleId: null,
+    genre: null,
+    loanDays: 14,
+    maxRenewals: 2,
+    lateFeePerDay: new Prisma.Decimal(0.5),
+    maxLateFee: null,
+    graceDays: 0,
+    checkoutLimit: null,
+    priority: 0,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    updatedAt: new Date("2025-01-01T00:00:00Z"),
+    ...fields,
+  };
+}
+
+describe("getGenreLineage", () => {
+  it("lists a book's genres, then the genres above them, nearest first", () => {
+    expect(getGenreLineage([{ genre: epicFantasy }, { genre: mystery }])).toEqual([
+      "Epic Fantasy",
+      "Mystery",
+      "Fantasy",
+      "Fiction",
+    ]);
+  });
+
+  it("is empty for a book without genres", () => {
+    expect(getGenreLineage([])).toEqual([]);
+  });
+
+  it("matches genres regardless of case and punctuation", () => {
+    const lineage = getGenreLineage([{ genre: cozyMystery }]);
+    expect(genreLineageIncludes(lineage, "mystery")).toBe(true);
+    expect(genreLineageIncludes(lineage, "FICTION")).toBe(true);
+    expect(genreLineageIncludes(lineage, "Fantasy")).toBe(false);
+  });
+});
+
+describe("selectCirculationPolicy", () => {
+  it("falls back to the default loan terms when no policy applies", () => {
+    const policy = selectCirculationPolicy([createPolicy("horror", { genre: "Horror", loanDays: 7 })], ["Mystery"]);
+    expect(policy).toMatchObject({ policyId: null, loanDays: DEFAULT_LOAN_TERMS.loanDays, genre: null });
+  });
+
+  it("applies a genre policy when the genre is a book's second genre", () => {
+    const policies = [
+      createPolicy("default", { loanDays: 21 }),
+      createPolicy("mystery", { genre: "Mystery", loanDays: 7 }),
+    ];
+    const lineage = getGenreLineage([{ genre: fantasy }, { genre: mystery }]);
+
+    expect(selectCirculationPolicy(policies, lineage)).toMatchObject({ policyId: "mystery", loanDays: 7 });
+  });
+
+  it("applies a genre policy to the genre's subgenres", () => {
+    const policies = [createPolicy("mystery", { genre: "mystery", loanDays: 7, checkoutLimit: 2 })];
+    const lineage = getGenreLineage([{ genre: cozyMystery }]);
+
+    expect(selectCirculationPolicy(policies, lineage)).toMatchObject({
+      policyId: "mystery",
+      genre: "mystery",
+      genreCheckoutLimit: 2,
+    });
+  });
+
+  it("prefers the policy for the nearer genre", () => {
+    const policies = [
+      createPolicy("fiction", { genre: "Fiction", loanDays: 21 }),
+      createPolicy("mystery", { genre: "Mystery", loanDays: 7 }),
+    ];
+    const lineage = getGenreLineage([{ genre: cozyMystery }]);
+
+    expect(selectCirculationPolicy(policies, lineage).policyId).toBe("mystery");
+  });
+
+  it("still ranks role policies above genre policies, and higher priority above nearer genres", () => {
+    const lineage = getGenreLineage([{ genre: cozyMystery }]);
+
+    expect(
+      selectCirculationPolicy(
+        [createPolicy("mystery", { genre: "Mystery" }), createPolicy("staff", { roleId: "role-staff" })],
+        lineage
+      ).policyId
+    ).toBe("staff");
+    expect(
+      selectCirculationPolicy(
+        [createPolicy("mystery", { genre: "Mystery" }), createPolicy("fiction", { genre: "Fiction", priority: 1 })],
+        lineage
+      ).policyId
+    ).toBe("fiction");
+  });
+
+  it("keeps the overall limit from policies without a genre", () => {
+    const policies = [
+      createPolicy("default", { checkoutLimit: 10 }),
+      createPolicy("mystery", { genre: "Mystery", loanDays: 7 }),
+    ];
+
+    expect(selectCirculationPolicy(policies, ["Mystery"])).toMatchObject({
+      policyId: "mystery",
+      checkoutLimit: 10,
+      genreCheckoutLimit: null,
+    });
+  });
+});
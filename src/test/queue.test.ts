@@ -0,0 +1,157 @@
+import type { PGlite } from "@electric-sql/pglite";
+import type { QueuedJob } from "@prisma/client";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { processQueuedJobs, type QueueClient } from "../lib/server/queue";
+import type { QueueJobHandlers } from "../lib/server/types/queue";
+import { createRawSqlClient, createTestDatabase } from "./database";
+
+describe("Postgres job queue", () => {
+  let db: PGlite;
+  let client: QueueClient;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    client = createRawSqlClient(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec(`DELETE FROM "QueuedJob"`);
+  });
+
+  const addJob = async (
+    id: string,
+    {
+      type = "overdue_reminder",
+      status = "PENDING",
+      runAt = "NOW() - INTERVAL '1 minute'",
+      lockedAt = "NULL",
+      attempts = 0,
+    } = {}
+  ) => {
+    await db.exec(`
+      INSERT INTO "QueuedJob" ("id", "type", "payload", "status", "runAt", "lockedAt", "attempts", "updatedAt")
+      VALUES ('${id}', '${type}', '{"checkoutId": "${id}"}', '${status}', ${runAt}, ${lockedAt}, ${attempts}, NOW())
+    `);
+  };
+
+  const getJob = async (id: string) =>
+    (await db.query<QueuedJob>(`SELECT * FROM "QueuedJob" WHERE "id" = $1`, [id])).rows[0];
+
+  const handlersFor = (overdueReminder: QueueJobHandlers["overdue_reminder"]): QueueJobHandlers => ({
+    overdue_reminder: overdueReminder,
+    new_arrival: async () => undefined,
+  });
+
+  it("runs due jobs once and leaves future, running and cancelled jobs alone", async () => {
+    await addJob("due");
+    await addJob("future", { runAt: "NOW() + INTERVAL '1 hour'" });
+    await addJob("running", { status: "RUNNING", lockedAt: "NOW()", attempts: 1 });
+    await addJob("cancelled", { status: "CANCELLED" });
+    const handler = vi.fn(async () => undefined);
+
+    expect(await processQueuedJobs(handlersFor(handler), client)).toEqual({
+      jobsCompleted: 1,
+      jobsRetried: 0,
+      jobsFailed: 0,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ checkoutId: "due" });
+    expect(await getJob("due")).toMatchObject({ status: "COMPLETED", attempts: 1, lockedAt: null });
+    expect((await getJob("future")).status).toBe("PENDING");
+    expect((await getJob("running")).status).toBe("RUNNING");
+    expect((await getJob("cancelled")).status).toBe("CANCELLED");
+
+    // A later poll finds nothing left to run
+    expect(await processQueuedJobs(handlersFor(handler), client)).toEqual({
+      jobsCompleted: 0,
+      jobsRetried: 0,
+      jobsFailed: 0,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't hand the same job to two workers polling at once", async () => {
+    for (let i = 0; i < 60; i++) {
+      await addJob(`job-${i}`);
+    }
+    const runs = new Map<string, number>();
+    const handler = async ({ checkoutId }: { checkoutId: string }) => {
+      runs.set(checkoutId, (runs.get(checkoutId) ?? 0) + 1);
+    };
+
+    const results = await Promise.all([
+      processQueuedJobs(handlersFor(handler), client),
+      processQueuedJobs(handlersFor(handler), client),
+    ]);
+
+    expect(results[0].jobsCompleted + results[1].jobsCompleted).toBe(60);
+    expect(runs.size).toBe(60);
+    expect(Array.from(runs.values()).every((count) => count === 1)).toBe(true);
+  });
+
+  it("picks up jobs whose worker stopped responding", async () => {
+    await addJob("stale", { status: "RUNNING", lockedAt: "NOW() - INTERVAL '11 minutes'", attempts: 1 });
+    const handler = vi.fn(async () => undefined);
+
+    await processQueuedJobs(handlersFor(handler), client);
+
+    expect(handler).toHaveBeenCalledWith({ checkoutId: "stale" });
+    expect(await getJob("stale")).toMatchObject({ status: "COMPLETED", attempts: 2 });
+  });
+
+  it("retries failed jobs with exponential backoff, then marks them failed", async () => {
+    await addJob("flaky");
+    const handler = vi.fn(async () => {
+      throw new Error("SMTP unavailable");
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const startedAt = Date.now();
+    expect(await processQueuedJobs(handlersFor(handler), client)).toMatchObject({ jobsRetried: 1, jobsFailed: 0 });
+    let job = await getJob("flaky");
+    expect(job).toMatchObject({ status: "PENDING", attempts: 1, lastError: "SMTP unavailable", lockedAt: null });
+    // 2 minutes after the first attempt
+    expect(job.runAt.getTime() - startedAt).toBeGreaterThanOrEqual(2 * 60 * 1000 - 1000);
+    expect(job.runAt.getTime() - startedAt).toBeLessThan(3 * 60 * 1000);
+
+    // Not due again until the backoff passes
+    await processQueuedJobs(handlersFor(handler), client);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await db.exec(`UPDATE "QueuedJob" SET "runAt" = NOW() WHERE "id" = 'flaky'`);
+    await processQueuedJobs(handlersFor(handler), client);
+    job = await getJob("flaky");
+    expect(job).toMatchObject({ status: "PENDING", attempts: 2 });
+    // Then 4 minutes
+    expect(job.runAt.getTime() - Date.now()).toBeGreaterThan(3 * 60 * 1000);
+
+    await db.exec(`UPDATE "QueuedJob" SET "runAt" = NOW() WHERE "id" = 'flaky'`);
+    expect(await processQueuedJobs(handlersFor(handler), client)).toMatchObject({ jobsRetried: 0, jobsFailed: 1 });
+    expect(await getJob("flaky")).toMatchObject({ status: "FAILED", attempts: 3, lastError: "SMTP unavailable" });
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    // Failed jobs stay failed
+    await processQueuedJobs(handlersFor(handler), client);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails jobs of a type with no handler instead of running them", async () => {
+    await addJob("unknown", { type: "unknown_job", attempts: 2 });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(
+      await processQueuedJobs(
+        handlersFor(async () => undefined),
+        client
+      )
+    ).toMatchObject({ jobsFailed: 1 });
+    expect(await getJob("unknown")).toMatchObject({
+      status: "FAILED",
+      lastError: 'No handler for job type "unknown_job"',
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { escapeLikePattern } from "../lib/server/search";
+import { createTestDatabase } from "./database";
+
+describe("escapeLikePattern", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const matches = async (value: string, search: string) =>
+    (
+      await db.query<{ matches: boolean }>(`SELECT $1::text ILIKE $2 AS "matches"`, [
+        value,
+        `%${escapeLikePattern(search)}%`,
+      ])
+    ).rows[0].matches;
+
+  it("matches % and _ literally instead of as wildcards", async () => {
+    expect(await matches("9780441478125", "%")).toBe(false);
+    expect(await matches("9780441478125", "978_441")).toBe(false);
+    expect(await matches("978_441", "978_441")).toBe(true);
+    expect(await matches("100% Cotton", "100%")).toBe(true);
+  });
+
+  it("matches backslashes literally", async () => {
+    expect(await matches("AC\\DC", "c\\d")).toBe(true);
+    expect(await matches("AC_DC", "c\\_d")).toBe(false);
+  });
+
+  it("still matches ordinary substrings regardless of case", async () => {
+    expect(await matches("0-441-47812-3", "47812")).toBe(true);
+    expect(await matches("The Hobbit", "hob")).toBe(true);
+  });
+});
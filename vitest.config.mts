@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Server modules require these when imported; tests never connect with them
+    env: {
+      DATABASE_URL: "postgresql://test@localhost:5432/test",
+      NEXTAUTH_SECRET: "test-secret",
+    },
+  },
+});